@@ -1,4 +1,31 @@
 // Vercel Serverless Function for OpenRouter API Proxy
+
+// Caps on what a client can send through the shared key. Each message is
+// capped like the old single prompt, and the total stays near a few of them.
+const MAX_MESSAGES = 8;
+const MAX_MESSAGE_CHARS = 4000;
+const MAX_TOTAL_CHARS = 12000;
+const ROLES = new Set(["system", "user", "assistant"]);
+
+const totalChars = (messages) => messages.reduce((sum, m) => sum + m.content.length, 0);
+
+// Chat messages from the request: the structured list when given, else the
+// single prompt string as one user message. Over the total, the oldest
+// reply and repair pairs after the opening prompt are dropped first.
+const toMessages = (messages, prompt) => {
+  if (!Array.isArray(messages)) {
+    return typeof prompt === "string"
+      ? [{ role: "user", content: prompt.slice(0, MAX_MESSAGE_CHARS) }]
+      : [];
+  }
+  const capped = messages
+    .filter((m) => m && ROLES.has(m.role) && typeof m.content === "string")
+    .slice(-MAX_MESSAGES)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_MESSAGE_CHARS) }));
+  while (totalChars(capped) > MAX_TOTAL_CHARS && capped.length > 4) capped.splice(2, 2);
+  return capped;
+};
+
 export default async function handler(req, res) {
   // Enable CORS
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -36,10 +63,15 @@ export default async function handler(req, res) {
       return;
     }
 
-    const { symbol, prompt, model, maxTokens } = req.body;
+    const { symbol, prompt, messages, model, maxTokens, responseFormat } = req.body;
+    const chatMessages = toMessages(messages, prompt);
 
-    if (!symbol || !prompt) {
-      res.status(400).json({ error: "Symbol and prompt are required" });
+    if (!symbol || chatMessages.length === 0) {
+      res.status(400).json({ error: "Symbol and a prompt or messages are required" });
+      return;
+    }
+    if (totalChars(chatMessages) > MAX_TOTAL_CHARS) {
+      res.status(413).json({ error: `Messages exceed ${MAX_TOTAL_CHARS} characters` });
       return;
     }
 
@@ -72,14 +104,11 @@ export default async function handler(req, res) {
         },
         body: JSON.stringify({
           model: model || "openrouter/auto",
-          messages: [
-            {
-              role: "user",
-              content: typeof prompt === 'string' ? prompt.slice(0, 4000) : "",
-            },
-          ],
+          messages: chatMessages,
           temperature: 0.3,
           max_tokens: typeof maxTokens === 'number' ? Math.min(Math.max(100, maxTokens), 1200) : 400,
+          // JSON schema for structured output, when the client asks for it
+          ...(responseFormat && { response_format: responseFormat }),
         }),
       }
     );
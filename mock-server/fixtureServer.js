@@ -0,0 +1,377 @@
+// Vite dev-server middleware that stands in for RapidAPI Yahoo and OpenRouter
+//
+// VITE_API_MODE=fixtures  serve recorded responses from mock-server/fixtures
+// VITE_API_MODE=record    forward to the real APIs and save each response as a fixture
+//
+// The client switches its base URLs to /__fixtures/* in both modes (see src/services/apiMode.ts),
+// so API keys stay on the dev server while recording.
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures", import.meta.url));
+const RAPIDAPI_HOST = "yahoo-finance-real-time1.p.rapidapi.com";
+const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
+
+// RapidAPI endpoints and the fixture folder each one is stored in
+const RAPIDAPI_ENDPOINTS = {
+  "/market/get-quotes": "quotes",
+  "/stock/get-statistics": "statistics",
+  "/stock/get-financials": "financials",
+  "/stock/get-balance-sheet": "balance-sheet",
+  "/stock/get-cashflow": "cashflow",
+  "/stock/get-chart": "chart",
+  "/stock/get-summary": "summary",
+  "/stock/get-profile": "profile",
+};
+
+const RANGE_SECONDS = {
+  "1d": 86400,
+  "5d": 5 * 86400,
+  "1mo": 30 * 86400,
+  "3mo": 91 * 86400,
+  "6mo": 182 * 86400,
+  "1y": 365 * 86400,
+  "2y": 730 * 86400,
+  "5y": 1826 * 86400,
+  max: 1826 * 86400,
+};
+
+const INTERVAL_SECONDS = {
+  "1m": 60,
+  "5m": 300,
+  "15m": 900,
+  "30m": 1800,
+  "60m": 3600,
+  "1h": 3600,
+  "1d": 86400,
+  "1wk": 7 * 86400,
+  "1mo": 30 * 86400,
+};
+
+const sendJson = (res, status, body) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const readJson = (file) => {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (file, data) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + "\n");
+  console.log(`💾 Recorded fixture ${path.relative(FIXTURES_DIR, file)}`);
+};
+
+const safeName = (value) => value.toUpperCase().replace(/[^A-Z0-9._&-]/g, "_");
+
+// Templates use __SYMBOL__ wherever the requested symbol belongs
+const fillTemplate = (template, symbol) =>
+  JSON.parse(JSON.stringify(template).replace(/__SYMBOL__/g, symbol));
+
+// Small deterministic PRNG so a symbol always gets the same synthetic chart
+const seededRandom = (seed) => {
+  let state = crypto.createHash("sha1").update(seed).digest().readUInt32LE(0) || 1;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+};
+
+// ===== RapidAPI Yahoo =====
+
+const quotePrice = (symbol) => {
+  const quotes =
+    readJson(path.join(FIXTURES_DIR, "rapidapi", "quotes", `${symbol}.json`)) ||
+    readJson(path.join(FIXTURES_DIR, "rapidapi", "quotes", "_default.json"));
+  return quotes?.quoteResponse?.result?.[0]?.regularMarketPrice || 1000;
+};
+
+// Random walk that ends at the fixture quote price, used when no chart was recorded
+const syntheticChart = (symbol, range, interval) => {
+  const step = INTERVAL_SECONDS[interval] || 86400;
+  const span = RANGE_SECONDS[range] || RANGE_SECONDS["1mo"];
+  const daily = step >= 86400;
+  const random = seededRandom(`${symbol}:${range}:${interval}`);
+
+  const timestamps = [];
+  let time = Math.floor(Date.now() / 1000 / step) * step;
+  const start = time - span;
+  while (time > start && timestamps.length < 1500) {
+    const day = new Date(time * 1000).getUTCDay();
+    if (!daily || step > 86400 || (day !== 0 && day !== 6)) timestamps.unshift(time);
+    time -= step;
+  }
+
+  const closes = new Array(timestamps.length);
+  let price = quotePrice(symbol);
+  for (let i = timestamps.length - 1; i >= 0; i--) {
+    closes[i] = Math.round(price * 100) / 100;
+    price = price / (1 + (random() - 0.48) * (daily ? 0.03 : 0.004));
+  }
+
+  const quote = { open: [], high: [], low: [], close: closes, volume: [] };
+  closes.forEach((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close;
+    const spread = Math.abs(close - open) + close * random() * 0.01;
+    quote.open.push(open);
+    quote.high.push(Math.round((Math.max(open, close) + spread / 2) * 100) / 100);
+    quote.low.push(Math.round((Math.min(open, close) - spread / 2) * 100) / 100);
+    quote.volume.push(Math.round(500000 + random() * 4500000));
+  });
+
+  return {
+    chart: {
+      result: [
+        {
+          meta: {
+            symbol,
+            currency: "INR",
+            regularMarketPrice: closes[closes.length - 1],
+            chartPreviousClose: closes[0],
+            dataGranularity: interval,
+            range,
+          },
+          timestamp: timestamps,
+          indicators: { quote: [quote], adjclose: [{ adjclose: closes }] },
+        },
+      ],
+      error: null,
+    },
+  };
+};
+
+const rapidApiFixture = (folder, query) => {
+  const symbol = safeName(query.get("symbol") || query.get("symbols") || "_default");
+  const dir = path.join(FIXTURES_DIR, "rapidapi", folder);
+
+  if (folder === "chart") {
+    const range = query.get("range") || "1mo";
+    const interval = query.get("interval") || "1d";
+    const file = path.join(dir, `${symbol}.${range}.${interval}.json`);
+    return { file, fallback: () => syntheticChart(symbol, range, interval) };
+  }
+
+  const single = (name) => {
+    const template = readJson(path.join(dir, "_default.json"));
+    return readJson(path.join(dir, `${name}.json`)) ?? (template ? fillTemplate(template, name) : null);
+  };
+
+  // Batched quotes (symbols=A.NS,B.NS): one recorded or templated quote per symbol
+  const symbols = (query.get("symbols") || "").split(",").filter(Boolean).map(safeName);
+  if (folder === "quotes" && symbols.length > 1) {
+    return {
+      file: path.join(dir, `${symbol}.json`),
+      fallback: () => {
+        const result = symbols.flatMap((name) => single(name)?.quoteResponse?.result ?? []);
+        return result.length > 0 ? { quoteResponse: { result, error: null } } : null;
+      },
+    };
+  }
+
+  return {
+    file: path.join(dir, `${symbol}.json`),
+    fallback: () => {
+      const template = readJson(path.join(dir, "_default.json"));
+      return template ? fillTemplate(template, symbol) : null;
+    },
+  };
+};
+
+const handleRapidApi = async (req, res, mode, env) => {
+  const url = new URL(req.url, "http://localhost");
+  const folder = RAPIDAPI_ENDPOINTS[url.pathname];
+  if (!folder) {
+    sendJson(res, 404, { error: `No fixture route for ${url.pathname}` });
+    return;
+  }
+
+  const { file, fallback } = rapidApiFixture(folder, url.searchParams);
+
+  if (mode === "record") {
+    const apiKey = env.RAPIDAPI_KEY || env.VITE_RAPIDAPI_KEY || req.headers["x-rapidapi-key"];
+    const upstream = await fetch(`https://${RAPIDAPI_HOST}${url.pathname}${url.search}`, {
+      headers: { "X-RapidAPI-Key": apiKey || "", "X-RapidAPI-Host": RAPIDAPI_HOST },
+    });
+    const body = await upstream.json().catch(() => null);
+    if (upstream.ok && body) writeJson(file, body);
+    sendJson(res, upstream.status, body ?? { error: upstream.statusText });
+    return;
+  }
+
+  const data = readJson(file) ?? fallback();
+  if (!data) {
+    sendJson(res, 404, { error: `No fixture for ${path.relative(FIXTURES_DIR, file)}` });
+    return;
+  }
+  sendJson(res, 200, data);
+};
+
+// ===== OpenRouter =====
+
+const messagesKey = (messages) =>
+  crypto
+    .createHash("sha1")
+    .update(JSON.stringify(messages.map((m) => [m.role, m.content])))
+    .digest("hex")
+    .slice(0, 16);
+
+const completion = (model, content) => ({
+  id: `fixture-${Date.now()}`,
+  object: "chat.completion",
+  created: Math.floor(Date.now() / 1000),
+  model: model || "fixture",
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+});
+
+// Five picks from the "Stock Data:" block of the recommendations prompt, best ROE first
+const cannedRecommendations = (prompt) => {
+  const match = prompt.match(/Stock Data:\s*(\[[\s\S]*?\n\])/);
+  let stocks = [];
+  try {
+    stocks = match ? JSON.parse(match[1]) : [];
+  } catch {
+    stocks = [];
+  }
+
+  const recommendations = [...stocks]
+    .sort((a, b) => (b.roe || 0) - (a.roe || 0))
+    .slice(0, 5)
+    .map((stock, i) => {
+      const upside = 18 - i * 3;
+      return {
+        symbol: stock.symbol,
+        recommendation: upside >= 10 ? "BUY" : "HOLD",
+        confidence: 82 - i * 4,
+        targetPrice: Math.round((stock.price || 0) * (1 + upside / 100) * 100) / 100,
+        upside,
+        reasoning: [
+          `Return on equity of ${stock.roe ?? "n/a"}% leads the group`,
+          `P/E of ${stock.pe ?? "n/a"} is reasonable for the sector`,
+        ],
+        risks: ["Market volatility", "Sector headwinds"],
+        aiScore: 85 - i * 4,
+      };
+    });
+
+  return JSON.stringify({ recommendations }, null, 2);
+};
+
+const cannedContent = (messages) => {
+  const prompt = messages.map((m) => m.content).join("\n");
+  if (prompt.includes("Stock Data:")) return cannedRecommendations(prompt);
+
+  const canned = readJson(path.join(FIXTURES_DIR, "openrouter", "canned.json")) || {};
+  const hit = (canned.responses || []).find((entry) => prompt.includes(entry.match));
+  return hit ? hit.content : canned.default || "No canned response.";
+};
+
+const handleChat = async (res, mode, env, { model, messages = [], ...options }) => {
+  const file = path.join(FIXTURES_DIR, "openrouter", "recorded", `${messagesKey(messages)}.json`);
+
+  if (mode === "record") {
+    const upstream = await fetch(OPENROUTER_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env.OPENROUTER_API_KEY || env.VITE_OPENROUTER_API_KEY || ""}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": "http://localhost:5173",
+        "X-Title": "Stock Recommender App",
+      },
+      body: JSON.stringify({ model, messages, ...options, stream: false }),
+    });
+    const body = await upstream.json().catch(() => null);
+    if (upstream.ok && body) writeJson(file, { model, messages, response: body });
+    sendJson(res, upstream.status, body ?? { error: upstream.statusText });
+    return;
+  }
+
+  const recorded = readJson(file);
+  sendJson(res, 200, recorded?.response ?? completion(model, cannedContent(messages)));
+};
+
+// Same contract and caps as api/openrouter.js:
+// { symbol, prompt | messages, model, maxTokens, responseFormat }
+const PROXY_ROLES = new Set(["system", "user", "assistant"]);
+const proxyChars = (messages) => messages.reduce((sum, m) => sum + m.content.length, 0);
+const proxyMessages = ({ prompt, messages }) => {
+  if (!Array.isArray(messages)) {
+    return typeof prompt === "string" ? [{ role: "user", content: prompt.slice(0, 4000) }] : [];
+  }
+  const capped = messages
+    .filter((m) => m && PROXY_ROLES.has(m.role) && typeof m.content === "string")
+    .slice(-8)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, 4000) }));
+  while (proxyChars(capped) > 12000 && capped.length > 4) capped.splice(2, 2);
+  return capped;
+};
+
+const toChatRequest = ({ model, maxTokens, responseFormat, ...body }) => ({
+  model: model || "openrouter/auto",
+  messages: proxyMessages(body),
+  max_tokens: maxTokens || 400,
+  temperature: 0.3,
+  ...(responseFormat && { response_format: responseFormat }),
+});
+
+const handleOpenRouter = async (req, res, mode, env, proxyFormat) => {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+  const body = JSON.parse((await readBody(req)) || "{}");
+  if (proxyFormat && (!body.symbol || proxyMessages(body).length === 0)) {
+    sendJson(res, 400, { error: "Symbol and a prompt or messages are required" });
+    return;
+  }
+  if (proxyFormat && proxyChars(proxyMessages(body)) > 12000) {
+    sendJson(res, 413, { error: "Messages exceed 12000 characters" });
+    return;
+  }
+  await handleChat(res, mode, env, proxyFormat ? toChatRequest(body) : body);
+};
+
+export default function fixtureServer({ mode = "fixtures", env = {} } = {}) {
+  return {
+    name: "fixture-server",
+    configureServer(server) {
+      console.log(`🧪 API fixture server running in ${mode} mode`);
+
+      server.middlewares.use(async (req, res, next) => {
+        try {
+          if (req.url.startsWith("/__fixtures/rapidapi/")) {
+            req.url = req.url.slice("/__fixtures/rapidapi".length);
+            await handleRapidApi(req, res, mode, env);
+          } else if (req.url.startsWith("/__fixtures/openrouter/chat/completions")) {
+            await handleOpenRouter(req, res, mode, env, false);
+          } else if (req.url.startsWith("/__fixtures/openrouter/models")) {
+            sendJson(res, 200, { data: [{ id: "fixture" }] });
+          } else if (req.url.startsWith("/api/openrouter")) {
+            await handleOpenRouter(req, res, mode, env, true);
+          } else {
+            next();
+          }
+        } catch (error) {
+          console.error("❌ Fixture server error:", error);
+          sendJson(res, 502, { error: error.message });
+        }
+      });
+    },
+  };
+}
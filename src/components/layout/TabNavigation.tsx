@@ -1,10 +1,12 @@
 import React from 'react';
-import { BarChart3, Search, Briefcase } from 'lucide-react';
+import { BarChart3, Search, Briefcase, Bookmark, Filter } from 'lucide-react';
 import { motion } from 'framer-motion';
 
+export type DashboardTab = 'analysis' | 'search' | 'screener' | 'watchlists' | 'holdings';
+
 interface TabNavigationProps {
-  activeTab: 'analysis' | 'search' | 'holdings';
-  onTabChange: (tab: 'analysis' | 'search' | 'holdings') => void;
+  activeTab: DashboardTab;
+  onTabChange: (tab: DashboardTab) => void;
 }
 
 const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange }) => {
@@ -21,11 +23,23 @@ const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange })
       icon: Search,
       description: 'Find and explore stocks',
     },
+    {
+      id: 'screener' as const,
+      label: 'Screener',
+      icon: Filter,
+      description: 'Filter stocks with custom rules',
+    },
+    {
+      id: 'watchlists' as const,
+      label: 'Watchlists',
+      icon: Bookmark,
+      description: 'Stocks you are tracking',
+    },
     {
       id: 'holdings' as const,
       label: 'Holdings',
       icon: Briefcase,
-      description: 'Your portfolio and favorites',
+      description: 'Your portfolio and transactions',
     },
   ];
 
@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Upload, FileText } from "lucide-react";
+import toast from "react-hot-toast";
+import Button from "@/components/ui/Button";
+import { usePortfolioStore } from "@/stores/portfolioStore";
+import {
+  BROKER_PRESETS,
+  IMPORT_FIELDS,
+  buildImportPreview,
+  detectBrokerFormat,
+  findHeaderRow,
+  mappingFor,
+  parseCsv,
+  toImportTransactions,
+} from "@/utils/brokerImport";
+import type {
+  BrokerFormat,
+  ImportColumnMapping,
+  ImportField,
+  ImportRowStatus,
+  Stock,
+} from "@/types";
+
+interface BrokerImportProps {
+  isOpen: boolean;
+  stocks: Stock[];
+  onClose: () => void;
+}
+
+interface ParsedFile {
+  name: string;
+  rows: string[][];
+  headerRowIndex: number;
+}
+
+const FORMAT_OPTIONS: { value: BrokerFormat; label: string }[] = [
+  ...(Object.keys(BROKER_PRESETS) as Exclude<BrokerFormat, "generic">[]).map((format) => ({
+    value: format as BrokerFormat,
+    label: BROKER_PRESETS[format].name,
+  })),
+  { value: "generic", label: "Other (map columns)" },
+];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: "Ready", className: "bg-green-100 text-green-700" },
+  unresolved: { label: "Map symbol", className: "bg-yellow-100 text-yellow-700" },
+  duplicate: { label: "Duplicate", className: "bg-gray-100 text-gray-600" },
+  error: { label: "Error", className: "bg-red-100 text-red-700" },
+};
+
+const BrokerImport: React.FC<BrokerImportProps> = ({ isOpen, stocks, onClose }) => {
+  const { transactions, symbolMap, importTransactions, setSymbolMapping } = usePortfolioStore();
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [format, setFormat] = useState<BrokerFormat>("generic");
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+
+  const headers = file ? file.rows[file.headerRowIndex] : [];
+
+  const preview = useMemo(() => {
+    if (!file) return [];
+    return buildImportPreview({
+      rows: file.rows.slice(file.headerRowIndex + 1),
+      headerRowIndex: file.headerRowIndex,
+      mapping,
+      stocks,
+      existing: transactions,
+      symbolMap,
+    });
+  }, [file, mapping, stocks, transactions, symbolMap]);
+
+  const counts = preview.reduce(
+    (acc, trade) => ({ ...acc, [trade.status]: acc[trade.status] + 1 }),
+    { ready: 0, unresolved: 0, duplicate: 0, error: 0 } as Record<ImportRowStatus, number>
+  );
+
+  const reset = () => {
+    setFile(null);
+    setFormat("generic");
+    setMapping({});
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    try {
+      const rows = parseCsv(await selected.text());
+      if (rows.length < 2) {
+        toast.error("The file has no trade rows");
+        return;
+      }
+      const headerRowIndex = findHeaderRow(rows);
+      const detected = detectBrokerFormat(rows[headerRowIndex]);
+      setFile({ name: selected.name, rows, headerRowIndex });
+      setFormat(detected);
+      setMapping(mappingFor(detected, rows[headerRowIndex]));
+    } catch (error) {
+      console.error("Failed to read import file:", error);
+      toast.error("Could not read the file");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const handleFormatChange = (next: BrokerFormat) => {
+    setFormat(next);
+    setMapping(mappingFor(next, headers));
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const { [field]: _previous, ...rest } = mapping;
+    setMapping(value === "" ? rest : { ...rest, [field]: [parseInt(value, 10)] });
+  };
+
+  const handleImport = () => {
+    const imported = importTransactions(toImportTransactions(preview, format));
+    toast.success(`Imported ${imported} trades`);
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  வர்த்தகங்களை இறக்குமதி (Import Trades)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Zerodha, Groww, Upstox, ICICI Direct or any CSV with trade columns
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {/* File and format */}
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 text-sm font-medium text-gray-700">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {file ? "Choose another file" : "Choose CSV file"}
+                  <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+                </label>
+                {file && (
+                  <>
+                    <span className="inline-flex items-center text-sm text-gray-600">
+                      <FileText className="w-4 h-4 mr-1" />
+                      {file.name}
+                    </span>
+                    <select
+                      value={format}
+                      onChange={(e) => handleFormatChange(e.target.value as BrokerFormat)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                    >
+                      {FORMAT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+
+              {/* Column mapping for generic files */}
+              {file && format === "generic" && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-gray-50 rounded-lg">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <label key={field} className="text-xs text-gray-600">
+                      {label}
+                      {required && <span className="text-red-500"> *</span>}
+                      <select
+                        value={mapping[field]?.[0] ?? ""}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                      >
+                        <option value="">—</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {/* Preview */}
+              {file && (
+                <>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+                      <span
+                        key={status}
+                        className={`px-2 py-1 rounded-full ${STATUS_STYLES[status].className}`}
+                      >
+                        {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                      </span>
+                    ))}
+                  </div>
+
+                  <div className="overflow-x-auto max-h-96 border border-gray-200 rounded-lg">
+                    <table className="w-full text-xs">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr className="text-gray-500 uppercase">
+                          <th className="py-2 px-2 text-left">Row</th>
+                          <th className="py-2 px-2 text-left">Symbol</th>
+                          <th className="py-2 px-2 text-left">Date</th>
+                          <th className="py-2 px-2 text-left">Type</th>
+                          <th className="py-2 px-2 text-right">Qty</th>
+                          <th className="py-2 px-2 text-right">Price</th>
+                          <th className="py-2 px-2 text-right">Costs</th>
+                          <th className="py-2 px-2 text-left">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.map((trade) => (
+                          <tr key={trade.rowNumber} className="border-t border-gray-100 align-top">
+                            <td className="py-2 px-2 text-gray-400">{trade.rowNumber}</td>
+                            <td className="py-2 px-2">
+                              <div className="font-medium text-gray-900">{trade.rawSymbol || "—"}</div>
+                              {trade.rawSymbol && (trade.status === "unresolved" || symbolMap[trade.rawSymbol]) && (
+                                <select
+                                  value={symbolMap[trade.rawSymbol] ?? ""}
+                                  onChange={(e) => setSymbolMapping(trade.rawSymbol, e.target.value || null)}
+                                  className="mt-1 w-40 px-1 py-0.5 border border-yellow-300 rounded text-xs text-gray-900"
+                                >
+                                  <option value="">Map to stock…</option>
+                                  {stocks.map((stock) => (
+                                    <option key={stock.id} value={stock.id}>
+                                      {stock.symbol}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                            <td className="py-2 px-2 text-gray-700">{trade.date ?? "—"}</td>
+                            <td
+                              className={`py-2 px-2 font-medium ${
+                                trade.type === "BUY" ? "text-green-600" : "text-red-600"
+                              }`}
+                            >
+                              {trade.type ?? "—"}
+                            </td>
+                            <td className="py-2 px-2 text-right text-gray-700">{trade.quantity || "—"}</td>
+                            <td className="py-2 px-2 text-right text-gray-700">
+                              {trade.price > 0 ? trade.price.toFixed(2) : "—"}
+                            </td>
+                            <td className="py-2 px-2 text-right text-gray-500">
+                              {(trade.brokerage + trade.charges).toFixed(2)}
+                            </td>
+                            <td className="py-2 px-2">
+                              <span
+                                className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[trade.status].className}`}
+                              >
+                                {STATUS_STYLES[trade.status].label}
+                              </span>
+                              {trade.errors.map((error) => (
+                                <div key={error} className="text-red-600 mt-1">
+                                  {error}
+                                </div>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Duplicates of trades already in your portfolio and rows with errors are skipped.
+                  Symbol mappings are remembered for future imports.
+                </p>
+                <div className="flex space-x-2">
+                  <Button variant="outline" onClick={handleClose}>
+                    Cancel
+                  </Button>
+                  <Button variant="primary" onClick={handleImport} disabled={counts.ready === 0}>
+                    Import {counts.ready} trades
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BrokerImport;
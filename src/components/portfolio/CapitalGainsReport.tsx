@@ -0,0 +1,341 @@
+import React, { useMemo, useState } from "react";
+import { Download, AlertTriangle, Scissors, Receipt } from "lucide-react";
+import Card, { CardHeader, CardContent } from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import { usePortfolioStore } from "@/stores/portfolioStore";
+import {
+  GRANDFATHERING_CUTOFF,
+  buildCapitalGainsReport,
+  capitalGainsToCsv,
+  financialYearOf,
+  findTaxHarvestOpportunities,
+  listFinancialYears,
+} from "@/utils/capitalGains";
+import { todayString } from "@/utils/portfolio";
+import type { Holding } from "@/types";
+
+interface CapitalGainsReportProps {
+  holdings: Holding[];
+}
+
+const formatPrice = (value: number): string =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 2,
+  }).format(value);
+
+const pnlColor = (value: number) => (value >= 0 ? "text-green-600" : "text-red-600");
+
+const downloadCsv = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CapitalGainsReport: React.FC<CapitalGainsReportProps> = ({ holdings }) => {
+  const { transactions, grandfatheredFmv, setGrandfatheredFmv } = usePortfolioStore();
+  const financialYears = useMemo(() => listFinancialYears(transactions), [transactions]);
+  const [financialYear, setFinancialYear] = useState(financialYears[0]);
+  const isCurrentYear = financialYear === financialYearOf(todayString());
+
+  const report = useMemo(
+    () => buildCapitalGainsReport(transactions, financialYear, grandfatheredFmv),
+    [transactions, financialYear, grandfatheredFmv]
+  );
+  const harvest = useMemo(
+    () =>
+      isCurrentYear
+        ? findTaxHarvestOpportunities(transactions, holdings, grandfatheredFmv)
+        : [],
+    [isCurrentYear, transactions, holdings, grandfatheredFmv]
+  );
+
+  const { entries, summary } = report;
+  const ltcgExempt = summary.ltcgExemptionLimit === Infinity;
+
+  // Stocks with pre-2018 lots, sold this year or still held, need an FMV
+  const grandfatheringStocks = useMemo(() => {
+    const symbols = new Map<string, string>();
+    entries
+      .filter((e) => e.buyDate < GRANDFATHERING_CUTOFF)
+      .forEach((e) => symbols.set(e.stockId, e.symbol));
+    holdings
+      .filter((h) => h.lots.some((lot) => lot.date < GRANDFATHERING_CUTOFF))
+      .forEach((h) => symbols.set(h.stockId, h.symbol));
+    return Array.from(symbols.entries());
+  }, [entries, holdings]);
+
+  const handleExport = () => {
+    downloadCsv(capitalGainsToCsv(report), `capital-gains-FY${financialYear}.csv`);
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="மூலதன ஆதாய வரி (Capital Gains Tax)"
+        subtitle="Listed equity, STT paid · Sections 111A and 112A"
+        action={
+          <div className="flex items-center space-x-2">
+            <select
+              value={financialYear}
+              onChange={(e) => setFinancialYear(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              {financialYears.map((fy) => (
+                <option key={fy} value={fy}>
+                  FY {fy}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Download className="w-4 h-4" />}
+              onClick={handleExport}
+              disabled={entries.length === 0}
+            >
+              Export CSV
+            </Button>
+          </div>
+        }
+      />
+      <CardContent>
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500">Short-term (STCG)</div>
+              <div className={`text-lg font-bold ${pnlColor(summary.stcgGains - summary.stcgLosses)}`}>
+                {formatPrice(summary.stcgGains - summary.stcgLosses)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatPrice(summary.stcgGains)} gains · {formatPrice(summary.stcgLosses)} losses
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500">Long-term (LTCG)</div>
+              <div className={`text-lg font-bold ${pnlColor(summary.ltcgGains - summary.ltcgLosses)}`}>
+                {formatPrice(summary.ltcgGains - summary.ltcgLosses)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatPrice(summary.ltcgGains)} gains · {formatPrice(summary.ltcgLosses)} losses
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500">LTCG Exemption</div>
+              <div className="text-lg font-bold text-gray-900">
+                {ltcgExempt ? "Fully exempt" : formatPrice(summary.ltcgExemptionUsed)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {ltcgExempt
+                  ? "Section 10(38) before FY 2018-19"
+                  : `of ${formatPrice(summary.ltcgExemptionLimit)} limit`}
+              </div>
+            </div>
+            <div className="p-3 bg-primary-50 rounded-lg">
+              <div className="text-xs text-gray-500">Estimated Tax</div>
+              <div className="text-lg font-bold text-gray-900">{formatPrice(summary.totalTax)}</div>
+              <div className="text-xs text-gray-500">
+                incl. {formatPrice(summary.cess)} cess, before surcharge
+              </div>
+            </div>
+          </div>
+
+          {/* Tax by rate */}
+          {summary.buckets.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="py-2 text-left">Category</th>
+                  <th className="py-2 text-right">Gains</th>
+                  <th className="py-2 text-right">Taxable after set-off</th>
+                  <th className="py-2 text-right">Tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.buckets.map((bucket) => (
+                  <tr key={`${bucket.gainType}-${bucket.taxRate}`} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-900">
+                      {bucket.gainType} @ {bucket.taxRate}%
+                    </td>
+                    <td className="py-2 text-right text-gray-700">{formatPrice(bucket.gains)}</td>
+                    <td className="py-2 text-right text-gray-700">{formatPrice(bucket.taxable)}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">
+                      {formatPrice((bucket.taxable * bucket.taxRate) / 100)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(summary.stLossCarryForward > 0 || summary.ltLossCarryForward > 0) && (
+            <p className="text-sm text-gray-600">
+              Losses to carry forward (up to 8 years):{" "}
+              {summary.stLossCarryForward > 0 && (
+                <span className="font-medium">{formatPrice(summary.stLossCarryForward)} short-term</span>
+              )}
+              {summary.stLossCarryForward > 0 && summary.ltLossCarryForward > 0 && ", "}
+              {summary.ltLossCarryForward > 0 && (
+                <span className="font-medium">{formatPrice(summary.ltLossCarryForward)} long-term</span>
+              )}
+            </p>
+          )}
+
+          {/* Grandfathering */}
+          {grandfatheringStocks.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                <h4 className="text-sm font-semibold text-yellow-800">
+                  Grandfathering: 31 Jan 2018 FMV
+                </h4>
+              </div>
+              <p className="text-xs text-yellow-700 mb-3">
+                For shares bought before 1 Feb 2018, the cost is the higher of the actual cost and
+                the lower of the 31 Jan 2018 closing price and the sale price. Without an FMV the
+                actual cost is used.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {grandfatheringStocks.map(([stockId, symbol]) => (
+                  <label key={stockId} className="flex items-center space-x-2 text-sm">
+                    <span className="font-medium text-gray-900 w-24 truncate">{symbol}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.05"
+                      placeholder="FMV ₹"
+                      value={grandfatheredFmv[stockId] ?? ""}
+                      onChange={(e) => setGrandfatheredFmv(stockId, parseFloat(e.target.value) || null)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded text-gray-900"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Realized lots */}
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <Receipt className="w-4 h-4 text-gray-500" />
+              <h4 className="text-sm font-semibold text-gray-700">Realized Lots</h4>
+            </div>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">
+                No sales in FY {financialYear}.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500 uppercase">
+                      <th className="py-2 pr-3 text-left">Stock</th>
+                      <th className="py-2 pr-3 text-left">Bought</th>
+                      <th className="py-2 pr-3 text-left">Sold</th>
+                      <th className="py-2 pr-3 text-right">Qty</th>
+                      <th className="py-2 pr-3 text-right">Cost</th>
+                      <th className="py-2 pr-3 text-right">Sale Value</th>
+                      <th className="py-2 pr-3 text-right">Gain</th>
+                      <th className="py-2 text-left">Type</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <tr
+                        key={`${entry.sellTransactionId}-${entry.buyTransactionId}`}
+                        className="border-t border-gray-100"
+                      >
+                        <td className="py-2 pr-3 font-medium text-gray-900">{entry.symbol}</td>
+                        <td className="py-2 pr-3 text-gray-700">{entry.buyDate}</td>
+                        <td className="py-2 pr-3 text-gray-700">{entry.sellDate}</td>
+                        <td className="py-2 pr-3 text-right text-gray-700">{entry.quantity}</td>
+                        <td className="py-2 pr-3 text-right text-gray-700">
+                          {formatPrice(entry.acquisitionCost)}
+                          {entry.grandfathered && (
+                            <span className="ml-1 text-blue-600" title="Grandfathered cost">GF</span>
+                          )}
+                          {entry.fmvMissing && (
+                            <span className="ml-1 text-yellow-600" title="31 Jan 2018 FMV not entered">!</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3 text-right text-gray-700">{formatPrice(entry.proceeds)}</td>
+                        <td className={`py-2 pr-3 text-right font-medium ${pnlColor(entry.gain)}`}>
+                          {formatPrice(entry.gain)}
+                        </td>
+                        <td className="py-2 text-gray-700">
+                          {entry.gainType} · {entry.holdingDays}d
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Tax-loss harvesting */}
+          {isCurrentYear && (
+            <div>
+              <div className="flex items-center space-x-2 mb-2">
+                <Scissors className="w-4 h-4 text-gray-500" />
+                <h4 className="text-sm font-semibold text-gray-700">Tax-Loss Harvesting</h4>
+              </div>
+              {harvest.length === 0 ? (
+                <p className="text-sm text-gray-500">No open positions are at a loss.</p>
+              ) : (
+                <div className="space-y-2">
+                  {harvest.map((suggestion) => (
+                    <div
+                      key={suggestion.stockId}
+                      className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm"
+                    >
+                      <div>
+                        <span className="font-medium text-gray-900">
+                          Sell {suggestion.quantity} {suggestion.symbol}
+                        </span>
+                        <span className="text-gray-500"> at {formatPrice(suggestion.currentPrice)}</span>
+                        <div className="text-xs text-gray-500">
+                          Books a {suggestion.gainType === "STCG" ? "short" : "long"}-term loss of{" "}
+                          <span className="text-red-600">{formatPrice(suggestion.loss)}</span>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-semibold text-green-600">
+                          {suggestion.taxSaved > 0 ? formatPrice(suggestion.taxSaved) : "—"}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {suggestion.taxSaved > 0 ? "tax saved this year" : "carry forward only"}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!ltcgExempt && summary.ltcgExemptionUsed < summary.ltcgExemptionLimit && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {formatPrice(summary.ltcgExemptionLimit - summary.ltcgExemptionUsed)} of the LTCG
+                  exemption is unused; long-term gains up to this amount can be booked tax-free
+                  before 31 March.
+                </p>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Estimate only. Brokerage and charges are treated as transfer expenses, although STT is
+            not deductible. Surcharge, rebates and intraday (speculative) trades are not modelled.
+            Review with your CA before filing.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CapitalGainsReport;
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X } from "lucide-react";
+import Button from "@/components/ui/Button";
+import { todayString } from "@/utils/portfolio";
+import type { Stock, Transaction, TransactionType } from "@/types";
+
+interface TransactionFormProps {
+  isOpen: boolean;
+  stocks: Stock[];
+  // Existing transaction to edit; a new one is created when omitted
+  transaction?: Transaction | null;
+  defaultStockId?: string;
+  onSubmit: (transaction: Omit<Transaction, "id"> & { id?: string }) => string | null;
+  onClose: () => void;
+}
+
+interface FormState {
+  stockId: string;
+  type: TransactionType;
+  date: string;
+  quantity: string;
+  price: string;
+  brokerage: string;
+  charges: string;
+  notes: string;
+}
+
+const emptyForm = (stockId = ""): FormState => ({
+  stockId,
+  type: "BUY",
+  date: todayString(),
+  quantity: "",
+  price: "",
+  brokerage: "0",
+  charges: "0",
+  notes: "",
+});
+
+const toForm = (transaction: Transaction): FormState => ({
+  stockId: transaction.stockId,
+  type: transaction.type,
+  date: transaction.date,
+  quantity: String(transaction.quantity),
+  price: String(transaction.price),
+  brokerage: String(transaction.brokerage),
+  charges: String(transaction.charges),
+  notes: transaction.notes || "",
+});
+
+const TransactionForm: React.FC<TransactionFormProps> = ({
+  isOpen,
+  stocks,
+  transaction,
+  defaultStockId,
+  onSubmit,
+  onClose,
+}) => {
+  const [form, setForm] = useState<FormState>(emptyForm(defaultStockId));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(transaction ? toForm(transaction) : emptyForm(defaultStockId));
+      setError(null);
+    }
+  }, [isOpen, transaction, defaultStockId]);
+
+  const update = (changes: Partial<FormState>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const quantity = parseFloat(form.quantity) || 0;
+  const price = parseFloat(form.price) || 0;
+  const costs = (parseFloat(form.brokerage) || 0) + (parseFloat(form.charges) || 0);
+  const netAmount = quantity * price + (form.type === "BUY" ? costs : -costs);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const stock = stocks.find((s) => s.id === form.stockId);
+
+    const result = onSubmit({
+      id: transaction?.id,
+      stockId: form.stockId,
+      symbol: stock?.symbol ?? transaction?.symbol ?? "",
+      type: form.type,
+      date: form.date,
+      quantity,
+      price,
+      brokerage: parseFloat(form.brokerage) || 0,
+      charges: parseFloat(form.charges) || 0,
+      notes: form.notes.trim() || undefined,
+    });
+
+    if (result) {
+      setError(result);
+    } else {
+      onClose();
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-primary-500 focus:border-primary-500";
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900">
+                {transaction ? "Edit Transaction" : "பரிவர்த்தனை சேர் (Add Transaction)"}
+              </h2>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              {/* Buy / Sell */}
+              <div className="grid grid-cols-2 gap-2">
+                {(["BUY", "SELL"] as TransactionType[]).map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => update({ type })}
+                    className={`py-2 rounded-lg font-medium transition-colors ${
+                      form.type === type
+                        ? type === "BUY"
+                          ? "bg-green-600 text-white"
+                          : "bg-red-600 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {type === "BUY" ? "Buy" : "Sell"}
+                  </button>
+                ))}
+              </div>
+
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Stock</span>
+                <select
+                  value={form.stockId}
+                  onChange={(e) => update({ stockId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select a stock…</option>
+                  {stocks.map((stock) => (
+                    <option key={stock.id} value={stock.id}>
+                      {stock.symbol} — {stock.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Trade Date</span>
+                  <input
+                    type="date"
+                    value={form.date}
+                    max={todayString()}
+                    onChange={(e) => update({ date: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Quantity</span>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={form.quantity}
+                    onChange={(e) => update({ quantity: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Price (₹)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.05"
+                    value={form.price}
+                    onChange={(e) => update({ price: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Brokerage (₹)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.brokerage}
+                    onChange={(e) => update({ brokerage: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block col-span-2">
+                  <span className="text-sm font-medium text-gray-700">
+                    Other Charges (₹)
+                    <span className="text-xs text-gray-500 ml-1">STT, exchange, GST, stamp duty</span>
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.charges}
+                    onChange={(e) => update({ charges: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Notes</span>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => update({ notes: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+
+              <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-600">
+                  {form.type === "BUY" ? "Total cost" : "Net proceeds"}
+                </span>
+                <span className="font-semibold text-gray-900">
+                  ₹{netAmount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+                </span>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+                  {error}
+                </p>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="primary">
+                  {transaction ? "Save" : "Add"}
+                </Button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default TransactionForm;
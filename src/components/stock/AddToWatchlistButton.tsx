@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Check, Plus } from 'lucide-react';
+import { useStockStore } from '@/stores/stockStore';
+
+interface AddToWatchlistButtonProps {
+  stockId: string;
+  className?: string;
+}
+
+const AddToWatchlistButton: React.FC<AddToWatchlistButtonProps> = ({ stockId, className = '' }) => {
+  const { userPreferences, addToWatchlist, removeFromWatchlist, createWatchlist } = useStockStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { watchlists } = userPreferences;
+  const isListed = watchlists.some(w => w.entries.some(e => e.stockId === stockId));
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggle = (watchlistId: string, listed: boolean) => {
+    if (listed) {
+      removeFromWatchlist(watchlistId, stockId);
+    } else {
+      addToWatchlist(watchlistId, stockId);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('Watchlist name');
+    if (name === null) return;
+    addToWatchlist(createWatchlist(name), stockId);
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1 rounded-full hover:bg-gray-100 transition-colors"
+        title="Add to watchlist"
+      >
+        <Bookmark className={`w-4 h-4 ${isListed ? 'text-primary-600 fill-current' : 'text-gray-400'}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-1 w-52 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+          {watchlists.map(watchlist => {
+            const listed = watchlist.entries.some(e => e.stockId === stockId);
+            return (
+              <button
+                key={watchlist.id}
+                onClick={() => toggle(watchlist.id, listed)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <span className="truncate">{watchlist.name}</span>
+                {listed && <Check className="w-4 h-4 text-primary-600" />}
+              </button>
+            );
+          })}
+          <button
+            onClick={handleCreate}
+            className="w-full flex items-center px-3 py-2 text-sm text-primary-600 hover:bg-gray-50 border-t border-gray-100"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New watchlist
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddToWatchlistButton;
@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Bell, BellOff, Trash2, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import Button from '@/components/ui/Button';
+import { useStockStore } from '@/stores/stockStore';
+import { useAlertStore } from '@/stores/alertStore';
+import { alertService } from '@/services/alertService';
+import { ALERT_CONDITIONS, describeAlert, isSnoozed } from '@/utils/alerts';
+import type { AlertConditionType, AlertMode, PriceAlert } from '@/types';
+
+interface AlertsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FormState {
+  stockId: string;
+  condition: AlertConditionType;
+  threshold: string;
+  mode: AlertMode;
+}
+
+const SNOOZE_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+];
+
+const emptyForm: FormState = {
+  stockId: '',
+  condition: 'priceAbove',
+  threshold: '',
+  mode: 'oneShot',
+};
+
+const alertStatus = (alert: PriceAlert): { label: string; className: string } => {
+  if (!alert.enabled) {
+    return alert.lastTriggeredAt
+      ? { label: 'Triggered', className: 'bg-gray-100 text-gray-600' }
+      : { label: 'Off', className: 'bg-gray-100 text-gray-600' };
+  }
+  if (isSnoozed(alert)) {
+    return {
+      label: `Snoozed till ${format(new Date(alert.snoozedUntil!), 'dd MMM HH:mm')}`,
+      className: 'bg-yellow-100 text-yellow-700',
+    };
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-700' };
+};
+
+const AlertsModal: React.FC<AlertsModalProps> = ({ isOpen, onClose }) => {
+  const { stocks, userPreferences, updateUserPreferences } = useStockStore();
+  const {
+    alerts,
+    history,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    snoozeAlert,
+    clearHistory,
+  } = useAlertStore();
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [permission, setPermission] = useState(alertService.getNotificationPermission());
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(emptyForm);
+      setPermission(alertService.getNotificationPermission());
+    }
+  }, [isOpen]);
+
+  const sortedStocks = useMemo(
+    () => [...stocks].sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    [stocks]
+  );
+  const selectedStock = stocks.find(s => s.id === form.stockId);
+  const conditionInfo = ALERT_CONDITIONS[form.condition];
+  const { priceAlerts } = userPreferences.notifications;
+
+  const update = (changes: Partial<FormState>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleConditionChange = (condition: AlertConditionType) => {
+    const info = ALERT_CONDITIONS[condition];
+    const isPrice = condition === 'priceAbove' || condition === 'priceBelow';
+    update({
+      condition,
+      threshold: isPrice
+        ? selectedStock ? String(selectedStock.price) : ''
+        : String(info.defaultThreshold),
+    });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedStock) {
+      toast.error('Select a stock');
+      return;
+    }
+    const threshold = conditionInfo.thresholdLabel ? parseFloat(form.threshold) : 0;
+    if (conditionInfo.thresholdLabel && !(threshold > 0)) {
+      toast.error(`${conditionInfo.thresholdLabel} must be greater than zero`);
+      return;
+    }
+
+    addAlert({
+      stockId: selectedStock.id,
+      symbol: selectedStock.symbol,
+      condition: form.condition,
+      threshold,
+      mode: form.mode,
+    });
+    toast.success(`Alert added for ${selectedStock.symbol}`);
+    setForm({ ...emptyForm, stockId: form.stockId });
+  };
+
+  const handleTogglePriceAlerts = () => {
+    updateUserPreferences({
+      notifications: { ...userPreferences.notifications, priceAlerts: !priceAlerts },
+    });
+  };
+
+  const handleRequestPermission = async () => {
+    setPermission(await alertService.requestNotificationPermission());
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  விலை எச்சரிக்கைகள் (Price Alerts)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Checked on every quote refresh while the dashboard is open
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {/* Notification settings */}
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-gray-50 rounded-lg">
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={priceAlerts}
+                    onChange={handleTogglePriceAlerts}
+                    className="mr-2"
+                  />
+                  Price alerts enabled
+                </label>
+                {permission === 'granted' && (
+                  <span className="text-sm text-green-600">Browser notifications on</span>
+                )}
+                {permission === 'default' && (
+                  <Button variant="outline" size="sm" onClick={handleRequestPermission}>
+                    <Bell className="w-4 h-4 mr-1" />
+                    Enable browser notifications
+                  </Button>
+                )}
+                {permission === 'denied' && (
+                  <span className="text-sm text-gray-500">
+                    Browser notifications are blocked; alerts show in the app only
+                  </span>
+                )}
+              </div>
+
+              {!priceAlerts && (
+                <p className="text-sm text-yellow-700">
+                  Price alerts are turned off, so no alert will be checked or fire.
+                </p>
+              )}
+
+              {/* New alert */}
+              <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                <label className="text-xs text-gray-600 col-span-2 md:col-span-1">
+                  Stock
+                  <select
+                    value={form.stockId}
+                    onChange={(e) => update({ stockId: e.target.value })}
+                    className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                  >
+                    <option value="">Select…</option>
+                    {sortedStocks.map(stock => (
+                      <option key={stock.id} value={stock.id}>
+                        {stock.symbol}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600 col-span-2">
+                  Condition
+                  <select
+                    value={form.condition}
+                    onChange={(e) => handleConditionChange(e.target.value as AlertConditionType)}
+                    className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                  >
+                    {(Object.keys(ALERT_CONDITIONS) as AlertConditionType[]).map(condition => (
+                      <option key={condition} value={condition}>
+                        {ALERT_CONDITIONS[condition].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600">
+                  {conditionInfo.thresholdLabel ?? 'Level'}
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={conditionInfo.thresholdLabel ? form.threshold : ''}
+                    disabled={!conditionInfo.thresholdLabel}
+                    placeholder={
+                      conditionInfo.thresholdLabel ? selectedStock?.price.toFixed(2) : '200-DMA'
+                    }
+                    onChange={(e) => update({ threshold: e.target.value })}
+                    className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 disabled:bg-gray-100"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Mode
+                  <select
+                    value={form.mode}
+                    onChange={(e) => update({ mode: e.target.value as AlertMode })}
+                    className="mt-1 w-full px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                  >
+                    <option value="oneShot">Once</option>
+                    <option value="recurring">Every time</option>
+                  </select>
+                </label>
+                <div className="col-span-2 md:col-span-5 flex justify-end">
+                  <Button type="submit" variant="primary" size="sm">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Alert
+                  </Button>
+                </div>
+              </form>
+
+              {/* Alerts */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Alerts ({alerts.length})
+                </h3>
+                {alerts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No alerts yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {alerts.map(alert => {
+                      const status = alertStatus(alert);
+                      return (
+                        <div key={alert.id} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+                          <div className="flex-1 min-w-[12rem]">
+                            <span className="font-medium text-gray-900">{alert.symbol}</span>{' '}
+                            <span className="text-gray-600">{describeAlert(alert)}</span>
+                            <div className="text-xs text-gray-400">
+                              {alert.mode === 'recurring' ? 'Every time' : 'Once'}
+                              {alert.lastTriggeredAt &&
+                                ` · last fired ${format(new Date(alert.lastTriggeredAt), 'dd MMM HH:mm')}`}
+                            </div>
+                          </div>
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>
+                            {status.label}
+                          </span>
+                          <select
+                            value=""
+                            disabled={!alert.enabled}
+                            onChange={(e) =>
+                              snoozeAlert(alert.id, e.target.value === 'clear' ? null : Number(e.target.value))
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 disabled:opacity-50"
+                          >
+                            <option value="">Snooze…</option>
+                            {SNOOZE_OPTIONS.map(option => (
+                              <option key={option.minutes} value={option.minutes}>
+                                {option.label}
+                              </option>
+                            ))}
+                            {isSnoozed(alert) && <option value="clear">Resume now</option>}
+                          </select>
+                          <button
+                            onClick={() => setAlertEnabled(alert.id, !alert.enabled)}
+                            className="p-1 rounded hover:bg-gray-100"
+                            title={alert.enabled ? 'Turn off' : 'Turn on'}
+                          >
+                            {alert.enabled ? (
+                              <Bell className="w-4 h-4 text-primary-600" />
+                            ) : (
+                              <BellOff className="w-4 h-4 text-gray-400" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => removeAlert(alert.id)}
+                            className="p-1 rounded hover:bg-gray-100"
+                            title="Delete alert"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* History */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    Triggered ({history.length})
+                  </h3>
+                  {history.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={clearHistory}>
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                {history.length === 0 ? (
+                  <p className="text-sm text-gray-500">No alerts have fired yet.</p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {history.map(trigger => (
+                      <div key={trigger.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                        <span className="text-gray-700">{trigger.message}</span>
+                        <span className="text-xs text-gray-400 whitespace-nowrap">
+                          {format(new Date(trigger.triggeredAt), 'dd MMM HH:mm')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default AlertsModal;
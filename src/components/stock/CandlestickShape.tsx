@@ -0,0 +1,96 @@
+import React from "react";
+
+// Custom recharts <Bar> shapes for OHLC data. The bar is plotted over a
+// [low, high] range, so `y`/`height` span the full wick and the body is
+// positioned by scaling open/close within that range.
+
+interface OhlcShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: {
+    displayOpen: number;
+    displayHigh: number;
+    displayLow: number;
+    displayClose: number;
+  };
+}
+
+const UP_COLOR = "#10B981";
+const DOWN_COLOR = "#EF4444";
+
+// Convert a price inside the bar's [low, high] range to a pixel y coordinate
+const priceScale = ({ y = 0, height = 0, payload }: OhlcShapeProps) => {
+  const top = Math.min(y, y + height);
+  const pixelHeight = Math.abs(height);
+  const high = payload?.displayHigh ?? 0;
+  const low = payload?.displayLow ?? 0;
+  const span = high - low;
+
+  return (price: number) =>
+    span > 0 ? top + ((high - price) / span) * pixelHeight : top;
+};
+
+export const CandlestickShape: React.FC<OhlcShapeProps> = (props) => {
+  const { x = 0, width = 0, payload } = props;
+  if (!payload) return null;
+
+  const toY = priceScale(props);
+  const { displayOpen, displayHigh, displayLow, displayClose } = payload;
+  const color = displayClose >= displayOpen ? UP_COLOR : DOWN_COLOR;
+  const centerX = x + width / 2;
+  const bodyTop = toY(Math.max(displayOpen, displayClose));
+  const bodyBottom = toY(Math.min(displayOpen, displayClose));
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line
+        x1={centerX}
+        x2={centerX}
+        y1={toY(displayHigh)}
+        y2={toY(displayLow)}
+        stroke={color}
+        strokeWidth={1}
+      />
+      <rect
+        x={centerX - bodyWidth / 2}
+        y={bodyTop}
+        width={bodyWidth}
+        height={Math.max(bodyBottom - bodyTop, 1)}
+        fill={color}
+        stroke={color}
+      />
+    </g>
+  );
+};
+
+export const OhlcBarShape: React.FC<OhlcShapeProps> = (props) => {
+  const { x = 0, width = 0, payload } = props;
+  if (!payload) return null;
+
+  const toY = priceScale(props);
+  const { displayOpen, displayHigh, displayLow, displayClose } = payload;
+  const color = displayClose >= displayOpen ? UP_COLOR : DOWN_COLOR;
+  const centerX = x + width / 2;
+  const tick = Math.max(width * 0.4, 2);
+
+  return (
+    <g stroke={color} strokeWidth={1.5}>
+      <line x1={centerX} x2={centerX} y1={toY(displayHigh)} y2={toY(displayLow)} />
+      <line
+        x1={centerX - tick}
+        x2={centerX}
+        y1={toY(displayOpen)}
+        y2={toY(displayOpen)}
+      />
+      <line
+        x1={centerX}
+        x2={centerX + tick}
+        y1={toY(displayClose)}
+        y2={toY(displayClose)}
+      />
+    </g>
+  );
+};
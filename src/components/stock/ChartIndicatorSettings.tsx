@@ -0,0 +1,205 @@
+import React from "react";
+import { ChartSettings, MovingAverageOverlay } from "@/types";
+
+interface ChartIndicatorSettingsProps {
+  settings: ChartSettings;
+  onChange: (settings: Partial<ChartSettings>) => void;
+  onReset: () => void;
+}
+
+// Clamp user-entered periods to something the indicator functions can use
+const toPeriod = (value: string, fallback: number) => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? fallback : Math.min(Math.max(parsed, 2), 400);
+};
+
+const PeriodInput: React.FC<{
+  value: number;
+  onChange: (value: number) => void;
+  label?: string;
+}> = ({ value, onChange, label }) => (
+  <label className="flex items-center space-x-1 text-xs text-gray-500">
+    {label && <span>{label}</span>}
+    <input
+      type="number"
+      min={2}
+      max={400}
+      value={value}
+      onChange={(e) => onChange(toPeriod(e.target.value, value))}
+      className="w-14 px-1.5 py-0.5 border border-gray-300 rounded text-gray-900"
+    />
+  </label>
+);
+
+const Toggle: React.FC<{
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  color?: string;
+}> = ({ checked, onChange, label, color }) => (
+  <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="rounded border-gray-300 text-blue-600"
+    />
+    {color && (
+      <span className="w-3 h-0.5 rounded" style={{ backgroundColor: color }} />
+    )}
+    <span>{label}</span>
+  </label>
+);
+
+const ChartIndicatorSettings: React.FC<ChartIndicatorSettingsProps> = ({
+  settings,
+  onChange,
+  onReset,
+}) => {
+  const updateMovingAverage = (
+    id: string,
+    changes: Partial<MovingAverageOverlay>
+  ) => {
+    onChange({
+      movingAverages: settings.movingAverages.map((ma) =>
+        ma.id === id ? { ...ma, ...changes } : ma
+      ),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 mb-4 bg-gray-50 rounded-lg border border-gray-200">
+      {/* Price pane overlays */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold text-gray-500 uppercase">
+          Overlays
+        </h4>
+        {settings.movingAverages.map((ma) => (
+          <div key={ma.id} className="flex items-center justify-between">
+            <Toggle
+              checked={ma.enabled}
+              onChange={(enabled) => updateMovingAverage(ma.id, { enabled })}
+              label={`${ma.type} ${ma.period}`}
+              color={ma.color}
+            />
+            <PeriodInput
+              value={ma.period}
+              onChange={(period) => updateMovingAverage(ma.id, { period })}
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Toggle
+            checked={settings.bollinger.enabled}
+            onChange={(enabled) =>
+              onChange({ bollinger: { ...settings.bollinger, enabled } })
+            }
+            label="Bollinger Bands"
+            color="#6B7280"
+          />
+          <div className="flex space-x-2">
+            <PeriodInput
+              value={settings.bollinger.period}
+              onChange={(period) =>
+                onChange({ bollinger: { ...settings.bollinger, period } })
+              }
+            />
+            <label className="flex items-center space-x-1 text-xs text-gray-500">
+              <span>σ</span>
+              <input
+                type="number"
+                min={0.5}
+                max={4}
+                step={0.5}
+                value={settings.bollinger.stdDev}
+                onChange={(e) => {
+                  const stdDev = parseFloat(e.target.value);
+                  if (!isNaN(stdDev) && stdDev > 0) {
+                    onChange({ bollinger: { ...settings.bollinger, stdDev } });
+                  }
+                }}
+                className="w-12 px-1.5 py-0.5 border border-gray-300 rounded text-gray-900"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Sub-panes */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold text-gray-500 uppercase">
+            Indicator Panes
+          </h4>
+          <button
+            onClick={onReset}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="flex items-center justify-between">
+          <Toggle
+            checked={settings.rsi.enabled}
+            onChange={(enabled) => onChange({ rsi: { ...settings.rsi, enabled } })}
+            label="RSI"
+          />
+          <PeriodInput
+            value={settings.rsi.period}
+            onChange={(period) => onChange({ rsi: { ...settings.rsi, period } })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Toggle
+            checked={settings.stochRsi.enabled}
+            onChange={(enabled) =>
+              onChange({ stochRsi: { ...settings.stochRsi, enabled } })
+            }
+            label="Stochastic RSI"
+          />
+          <div className="flex space-x-2">
+            <PeriodInput
+              label="RSI"
+              value={settings.stochRsi.rsiPeriod}
+              onChange={(rsiPeriod) =>
+                onChange({ stochRsi: { ...settings.stochRsi, rsiPeriod } })
+              }
+            />
+            <PeriodInput
+              label="Stoch"
+              value={settings.stochRsi.stochPeriod}
+              onChange={(stochPeriod) =>
+                onChange({ stochRsi: { ...settings.stochRsi, stochPeriod } })
+              }
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Toggle
+            checked={settings.macd.enabled}
+            onChange={(enabled) => onChange({ macd: { ...settings.macd, enabled } })}
+            label="MACD"
+          />
+          <div className="flex space-x-2">
+            <PeriodInput
+              value={settings.macd.fast}
+              onChange={(fast) => onChange({ macd: { ...settings.macd, fast } })}
+            />
+            <PeriodInput
+              value={settings.macd.slow}
+              onChange={(slow) => onChange({ macd: { ...settings.macd, slow } })}
+            />
+            <PeriodInput
+              value={settings.macd.signal}
+              onChange={(signal) =>
+                onChange({ macd: { ...settings.macd, signal } })
+              }
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChartIndicatorSettings;
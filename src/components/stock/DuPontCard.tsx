@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import Card, { CardContent, CardHeader } from '@/components/ui/Card';
+import { periodLabel } from '@/utils/financialStatements';
+import type { DuPontAnalysis, DuPontYear } from '@/types';
+
+interface DuPontCardProps {
+  dupont?: DuPontAnalysis;
+}
+
+type Steps = 'three' | 'five';
+type Factor = Exclude<keyof DuPontYear, 'period' | 'year'>;
+
+const FACTORS: Record<Steps, Array<{ key: Factor; label: string; percent: boolean }>> = {
+  three: [
+    { key: 'netMargin', label: 'Net margin', percent: true },
+    { key: 'assetTurnover', label: 'Asset turnover', percent: false },
+    { key: 'equityMultiplier', label: 'Equity multiplier', percent: false },
+  ],
+  five: [
+    { key: 'taxBurden', label: 'Tax burden', percent: false },
+    { key: 'interestBurden', label: 'Interest burden', percent: false },
+    { key: 'ebitMargin', label: 'EBIT margin', percent: true },
+    { key: 'assetTurnover', label: 'Asset turnover', percent: false },
+    { key: 'equityMultiplier', label: 'Equity multiplier', percent: false },
+  ],
+};
+
+const DRIVER_TEXT = {
+  operations: 'mostly from operations (margin and turnover)',
+  leverage: 'mostly from leverage',
+  mixed: 'from both operations and leverage',
+};
+
+const formatPct = (value: number) => (Number.isFinite(value) ? `${(value * 100).toFixed(1)}%` : '—');
+
+const formatTimes = (value: number) => (Number.isFinite(value) ? `${value.toFixed(2)}x` : '—');
+
+const formatPoints = (value: number) =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+
+// Percent points rounded for the charts
+const toPoints = (value: number) => (Number.isFinite(value) ? Math.round(value * 1000) / 10 : null);
+
+const DuPontCard: React.FC<DuPontCardProps> = ({ dupont }) => {
+  const [steps, setSteps] = useState<Steps>('three');
+
+  if (!dupont) {
+    return (
+      <Card>
+        <CardHeader title="DuPont Analysis (டுபாண்ட் பகுப்பாய்வு)" action={<Layers className="w-6 h-6 text-purple-600" />} />
+        <CardContent>
+          <p className="text-sm text-gray-500">
+            Needs reported annual income statements and balance sheets, which aren't available for this stock.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { attribution } = dupont;
+  const label = (period: string) => {
+    const year = dupont.years.find(y => y.period === period);
+    return year ? periodLabel(year, 'annual') : period;
+  };
+
+  // Each bar spans from the running ROE before the step to the one after it
+  const waterfall = (() => {
+    if (!attribution) return [];
+    let running = attribution.startRoe;
+    const step = (name: string, delta: number) => {
+      const from = running;
+      running += delta;
+      return { name, range: [toPoints(Math.min(from, running)), toPoints(Math.max(from, running))], delta, total: false };
+    };
+    const bound = (name: string, roe: number) => ({
+      name,
+      range: [toPoints(Math.min(0, roe)), toPoints(Math.max(0, roe))],
+      delta: roe,
+      total: true,
+    });
+    return [
+      bound(`ROE ${label(attribution.fromPeriod)}`, attribution.startRoe),
+      step('Margin', attribution.margin),
+      step('Turnover', attribution.turnover),
+      step('Leverage', attribution.leverage),
+      bound(`ROE ${label(attribution.toPeriod)}`, attribution.endRoe),
+    ];
+  })();
+
+  // Oldest first so the trend reads left to right
+  const trend = [...dupont.years].reverse().map(year => ({
+    period: periodLabel(year, 'annual'),
+    roe: toPoints(year.roe),
+    roce: toPoints(year.roce),
+  }));
+
+  return (
+    <Card>
+      <CardHeader
+        title="DuPont Analysis (டுபாண்ட் பகுப்பாய்வு)"
+        subtitle="Where return on equity comes from, on year-end balances"
+        action={<Layers className="w-6 h-6 text-purple-600" />}
+      />
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-1">ROE change by factor</h4>
+            {attribution ? (
+              <>
+                <p className="text-xs text-gray-500 mb-3">
+                  ROE went from {formatPct(attribution.startRoe)} to {formatPct(attribution.endRoe)} between{' '}
+                  {label(attribution.fromPeriod)} and {label(attribution.toPeriod)}, {DRIVER_TEXT[attribution.driver]}.
+                </p>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={waterfall} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="name" stroke="#666" fontSize={11} tickLine={false} />
+                      <YAxis stroke="#666" fontSize={12} tickLine={false} tickFormatter={value => `${value}%`} />
+                      <ReferenceLine y={0} stroke="#9CA3AF" />
+                      <Tooltip
+                        formatter={(_, __, item) => {
+                          const { delta, total } = item.payload as { delta: number; total: boolean };
+                          return [total ? formatPct(delta) : formatPoints(delta), total ? 'ROE' : 'Change'];
+                        }}
+                      />
+                      <Bar dataKey="range" isAnimationActive={false}>
+                        {waterfall.map(entry => (
+                          <Cell
+                            key={entry.name}
+                            fill={entry.total ? '#6366F1' : entry.delta >= 0 ? '#16A34A' : '#DC2626'}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Needs two years with margin, turnover and leverage reported.</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-1">ROE and ROCE trend</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              ROCE is EBIT over capital employed; ROE well above it points to leverage.
+            </p>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="period" stroke="#666" fontSize={11} tickLine={false} />
+                  <YAxis stroke="#666" fontSize={12} tickLine={false} tickFormatter={value => `${value}%`} />
+                  <Tooltip formatter={(value, name) => [`${Number(value).toFixed(1)}%`, name === 'roe' ? 'ROE' : 'ROCE']} />
+                  <Line type="monotone" dataKey="roe" stroke="#6366F1" strokeWidth={2} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="roce" stroke="#F59E0B" strokeWidth={2} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-gray-900">Factors by year</h4>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['three', 'five'] as Steps[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSteps(option)}
+                className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+                  steps === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option === 'three' ? '3-step' : '5-step'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Factor</th>
+                {dupont.years.map(year => (
+                  <th key={year.period} className="py-2 pr-4 text-right">
+                    {periodLabel(year, 'annual')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {FACTORS[steps].map(factor => (
+                <tr key={factor.key} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">{factor.label}</td>
+                  {dupont.years.map(year => (
+                    <td key={year.period} className="py-2 pr-4 text-right text-gray-900">
+                      {factor.percent ? formatPct(year[factor.key]) : formatTimes(year[factor.key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {(['roe', 'roce'] as const).map(key => (
+                <tr key={key} className="border-b border-gray-100 last:border-0 font-semibold bg-gray-50">
+                  <td className="py-2 pr-4 text-gray-700">{key === 'roe' ? 'ROE' : 'ROCE'}</td>
+                  {dupont.years.map(year => (
+                    <td key={year.period} className="py-2 pr-4 text-right text-gray-900">
+                      {formatPct(year[key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuPontCard;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from '@/components/ui/Button';
+import { useScoringStore } from '@/stores/scoringStore';
+import { DEFAULT_FACTOR_WEIGHTS, FACTOR_LABELS, SCORING_FACTORS } from '@/utils/factorScoring';
+import type { FactorWeights, TimeFrame } from '@/types';
+
+interface FactorWeightsModalProps {
+  isOpen: boolean;
+  timeFrame: TimeFrame;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const FACTOR_HINTS: Record<keyof FactorWeights, string> = {
+  value: 'Earnings, book and dividend yield',
+  quality: 'ROE, ROCE, operating margin, low debt, F/Z/M scores',
+  momentum: "Today's move, weighted by volume",
+  lowVolatility: 'Low beta',
+  growth: 'ROE x retained earnings',
+};
+
+const FactorWeightsModal: React.FC<FactorWeightsModalProps> = ({ isOpen, timeFrame, onClose, onSaved }) => {
+  const { factorWeights, setFactorWeights } = useScoringStore();
+  const [weights, setWeights] = useState<FactorWeights>(factorWeights[timeFrame]);
+
+  useEffect(() => {
+    if (isOpen) setWeights(factorWeights[timeFrame]);
+  }, [isOpen, timeFrame, factorWeights]);
+
+  const total = SCORING_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+
+  const handleSave = () => {
+    if (total <= 0) {
+      toast.error('Give at least one factor some weight');
+      return;
+    }
+    setFactorWeights(timeFrame, weights);
+    toast.success(`${timeFrame} factor weights saved`);
+    onSaved();
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  காரணி எடைகள் (Factor Weights)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Quant score for the {timeFrame} horizon, used when AI is unavailable and to check its scores
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {SCORING_FACTORS.map(factor => (
+                <div key={factor}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-900">{FACTOR_LABELS[factor]}</span>
+                    <span className="text-gray-600">
+                      {total > 0 ? `${Math.round((weights[factor] / total) * 100)}%` : '0%'}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={weights[factor]}
+                    onChange={(e) => setWeights({ ...weights, [factor]: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-500">{FACTOR_HINTS[factor]}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between p-6 border-t border-gray-200">
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<RotateCcw className="w-4 h-4" />}
+                onClick={() => setWeights(DEFAULT_FACTOR_WEIGHTS[timeFrame])}
+              >
+                Defaults
+              </Button>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button variant="primary" size="sm" onClick={handleSave}>
+                  Save & Rescore
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default FactorWeightsModal;
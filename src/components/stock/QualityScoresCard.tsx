@@ -0,0 +1,98 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import Card, { CardContent, CardHeader } from '@/components/ui/Card';
+import { HealthBadge } from '@/components/ui/Badge';
+import type { QualityScores, StatementScore } from '@/types';
+
+interface QualityScoresCardProps {
+  scores?: QualityScores;
+}
+
+const SCORE_INFO: Array<{
+  key: 'piotroski' | 'altman' | 'beneish';
+  title: string;
+  summary: string;
+  format: (score: StatementScore) => string;
+}> = [
+  {
+    key: 'piotroski',
+    title: 'Piotroski F-Score',
+    summary: 'Nine pass/fail signals of profitability, leverage and efficiency; 7+ is strong',
+    format: score => `${score.value} / ${score.components.filter(c => c.value !== null).length}`,
+  },
+  {
+    key: 'altman',
+    title: 'Altman Z-Score',
+    summary: 'Bankruptcy risk; above 2.99 is safe, below 1.81 is distress',
+    format: score => score.value.toFixed(2),
+  },
+  {
+    key: 'beneish',
+    title: 'Beneish M-Score',
+    summary: 'Earnings manipulation; above -1.78 is a warning',
+    format: score => score.value.toFixed(2),
+  },
+];
+
+const QualityScoresCard: React.FC<QualityScoresCardProps> = ({ scores }) => (
+  <Card>
+    <CardHeader
+      title="Quality Scores (தர மதிப்பெண்கள்)"
+      subtitle={scores ? `From the ${scores.period} and prior annual statements` : undefined}
+      action={<ShieldCheck className="w-6 h-6 text-emerald-600" />}
+    />
+    <CardContent>
+      {!scores ? (
+        <p className="text-sm text-gray-500">
+          Needs two years of reported statements, which aren't available for this stock.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {SCORE_INFO.map(info => {
+            const score = scores[info.key];
+            return (
+              <div key={info.key} className="rounded-xl p-4 border border-gray-200 bg-gray-50">
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="text-sm font-semibold text-gray-900">{info.title}</h4>
+                  {score && <HealthBadge health={score.health} size="sm" />}
+                </div>
+                <p className="text-xs text-gray-500 mb-3">{info.summary}</p>
+                {!score ? (
+                  <p className="text-sm text-gray-500">Not enough statement data</p>
+                ) : (
+                  <>
+                    <div className="flex items-baseline justify-between mb-3">
+                      <span className="text-2xl font-bold text-gray-900">{info.format(score)}</span>
+                      <span className="text-sm text-gray-600">{score.verdict}</span>
+                    </div>
+                    <ul className="space-y-2 text-xs">
+                      {score.components.map(component => (
+                        <li key={component.label} className="flex justify-between gap-3" title={component.detail}>
+                          <span className="text-gray-600">
+                            {component.label}
+                            <span className="block text-gray-400">{component.detail}</span>
+                          </span>
+                          <span className="font-medium text-gray-900 whitespace-nowrap">
+                            {component.value === null
+                              ? '—'
+                              : info.key === 'piotroski'
+                              ? component.value === 1
+                                ? '✓'
+                                : '✗'
+                              : component.value.toFixed(3)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default QualityScoresCard;
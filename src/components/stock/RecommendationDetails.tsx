@@ -13,10 +13,12 @@ import {
   AlertTriangle,
   Star,
   BarChart3,
-  Calendar
+  Calendar,
+  Sigma
 } from 'lucide-react';
 import Card, { CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import { FACTOR_LABELS, SCORING_FACTORS } from '@/utils/factorScoring';
 import type { StockRecommendation, SignalType } from '@/types';
 
 interface RecommendationDetailsProps {
@@ -185,6 +187,12 @@ const RecommendationDetails: React.FC<RecommendationDetailsProps> = ({
                           <span className="text-sm text-gray-600">AI Score</span>
                           <span className="font-medium">{recommendation.aiScore}/100</span>
                         </div>
+                        {recommendation.factorScore && (
+                          <div className="flex justify-between">
+                            <span className="text-sm text-gray-600">Quant Score</span>
+                            <span className="font-medium">{recommendation.factorScore.score}/100</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600">Confidence</span>
                           <span className="font-medium">{recommendation.confidence}%</span>
@@ -233,6 +241,47 @@ const RecommendationDetails: React.FC<RecommendationDetailsProps> = ({
                   </Card>
                 </div>
 
+                {/* Factor breakdown */}
+                {recommendation.factorScore && (
+                  <Card className="mb-6">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center space-x-2">
+                          <Sigma className="w-5 h-5 text-indigo-600" />
+                          <h3 className="font-semibold text-gray-900">Factor Breakdown</h3>
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          z-scores vs {recommendation.factorScore.peerGroup === 'Market' ? 'the market' : `${recommendation.factorScore.peerGroup} peers`}
+                        </span>
+                      </div>
+                      <div className="space-y-2">
+                        {SCORING_FACTORS.map(factor => {
+                          const z = recommendation.factorScore!.factors[factor];
+                          // Bars run from the centre line, full width at ±3σ
+                          const width = z === undefined ? 0 : Math.min(Math.abs(z) / 3, 1) * 50;
+                          return (
+                            <div key={factor} className="flex items-center text-sm">
+                              <span className="w-28 text-gray-600">{FACTOR_LABELS[factor]}</span>
+                              <div className="relative flex-1 h-2 bg-gray-100 rounded-full mx-3">
+                                <div className="absolute left-1/2 top-0 h-full w-px bg-gray-300" />
+                                {z !== undefined && (
+                                  <div
+                                    className={`absolute top-0 h-full rounded-full ${z >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                                    style={z >= 0 ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+                                  />
+                                )}
+                              </div>
+                              <span className="w-12 text-right font-medium">
+                                {z === undefined ? 'N/A' : `${z > 0 ? '+' : ''}${z.toFixed(1)}`}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Reasoning */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <Card>
@@ -0,0 +1,244 @@
+import React from 'react';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import {
+  SCREENER_FIELDS,
+  createGroup,
+  createRule,
+  isNumericField,
+  operatorsFor,
+} from '@/utils/screener';
+import type {
+  ScreenerField,
+  ScreenerGroup,
+  ScreenerNode,
+  ScreenerOperand,
+  ScreenerOperator,
+  ScreenerRule,
+} from '@/types';
+
+interface ScreenerRuleBuilderProps {
+  group: ScreenerGroup;
+  depth?: number;
+  onUpdate: (id: string, update: (node: ScreenerNode) => ScreenerNode) => void;
+  onRemove: (id: string) => void;
+  onAdd: (groupId: string, child: ScreenerNode) => void;
+}
+
+const MAX_DEPTH = 3;
+
+const FIELDS = Object.keys(SCREENER_FIELDS) as ScreenerField[];
+const STOCK_FIELDS = FIELDS.filter(field => !SCREENER_FIELDS[field].computed);
+const COMPUTED_FIELDS = FIELDS.filter(field => SCREENER_FIELDS[field].computed);
+const NUMERIC_FIELDS = FIELDS.filter(isNumericField);
+
+const selectClass = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white';
+
+const FieldOptions: React.FC<{ fields: ScreenerField[] }> = ({ fields }) => (
+  <>
+    {fields.map(field => (
+      <option key={field} value={field}>
+        {SCREENER_FIELDS[field].label}
+      </option>
+    ))}
+  </>
+);
+
+const RuleRow: React.FC<{
+  rule: ScreenerRule;
+  onChange: (rule: ScreenerRule) => void;
+  onRemove: () => void;
+}> = ({ rule, onChange, onRemove }) => {
+  const info = SCREENER_FIELDS[rule.field];
+  const numeric = isNumericField(rule.field);
+
+  const handleFieldChange = (field: ScreenerField) => {
+    // Keep the comparison when switching between numeric fields
+    if (numeric && isNumericField(field)) {
+      const operand =
+        rule.operand.type === 'sectorMedian' || rule.operand.type === 'marketMedian'
+          ? { ...rule.operand, field }
+          : rule.operand;
+      onChange({ ...rule, field, operand });
+    } else {
+      onChange({ ...createRule(field), id: rule.id });
+    }
+  };
+
+  const handleOperandTypeChange = (type: ScreenerOperand['type']) => {
+    if (type === 'number') onChange({ ...rule, operand: { type, value: 0 } });
+    else if (type === 'text') onChange({ ...rule, operand: { type, value: '' } });
+    else onChange({ ...rule, operand: { type, field: rule.field } });
+  };
+
+  const renderValue = () => {
+    const { operand } = rule;
+    if (operand.type === 'sectorMedian' || operand.type === 'marketMedian') {
+      return (
+        <select
+          value={operand.field}
+          onChange={(e) => onChange({ ...rule, operand: { ...operand, field: e.target.value as ScreenerField } })}
+          className={selectClass}
+        >
+          <FieldOptions fields={NUMERIC_FIELDS} />
+        </select>
+      );
+    }
+    if (info.type === 'enum') {
+      return (
+        <select
+          value={String(operand.value)}
+          onChange={(e) => onChange({ ...rule, operand: { type: 'text', value: e.target.value } })}
+          className={selectClass}
+        >
+          {info.options?.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (operand.type === 'number') {
+      return (
+        <input
+          type="number"
+          step="any"
+          value={Number.isFinite(operand.value) ? operand.value : ''}
+          onChange={(e) => onChange({ ...rule, operand: { type: 'number', value: parseFloat(e.target.value) } })}
+          className={`${selectClass} w-28`}
+        />
+      );
+    }
+    return (
+      <input
+        type="text"
+        value={operand.value}
+        onChange={(e) => onChange({ ...rule, operand: { type: 'text', value: e.target.value } })}
+        className={`${selectClass} w-36`}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={rule.field}
+        onChange={(e) => handleFieldChange(e.target.value as ScreenerField)}
+        className={selectClass}
+      >
+        <optgroup label="Stock">
+          <FieldOptions fields={STOCK_FIELDS} />
+        </optgroup>
+        <optgroup label="Computed">
+          <FieldOptions fields={COMPUTED_FIELDS} />
+        </optgroup>
+      </select>
+      <select
+        value={rule.operator}
+        onChange={(e) => onChange({ ...rule, operator: e.target.value as ScreenerOperator })}
+        className={selectClass}
+      >
+        {operatorsFor(rule.field).map(operator => (
+          <option key={operator} value={operator}>
+            {operator}
+          </option>
+        ))}
+      </select>
+      {numeric && (
+        <select
+          value={rule.operand.type}
+          onChange={(e) => handleOperandTypeChange(e.target.value as ScreenerOperand['type'])}
+          className={selectClass}
+        >
+          <option value="number">Value</option>
+          <option value="sectorMedian">Sector median of</option>
+          <option value="marketMedian">Market median of</option>
+        </select>
+      )}
+      {renderValue()}
+      <button onClick={onRemove} className="p-1 rounded hover:bg-gray-100" title="Remove rule">
+        <Trash2 className="w-4 h-4 text-red-500" />
+      </button>
+    </div>
+  );
+};
+
+const ScreenerRuleBuilder: React.FC<ScreenerRuleBuilderProps> = ({
+  group,
+  depth = 0,
+  onUpdate,
+  onRemove,
+  onAdd,
+}) => {
+  const setCombinator = (combinator: 'AND' | 'OR') =>
+    onUpdate(group.id, node => (node.kind === 'group' ? { ...node, combinator } : node));
+
+  return (
+    <div className={depth > 0 ? 'pl-4 border-l-2 border-primary-100 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center gap-2">
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-xs font-medium">
+          {(['AND', 'OR'] as const).map(combinator => (
+            <button
+              key={combinator}
+              onClick={() => setCombinator(combinator)}
+              className={`px-3 py-1 ${
+                group.combinator === combinator ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {combinator}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {group.combinator === 'AND' ? 'All of these match' : 'Any of these match'}
+        </span>
+        {depth > 0 && (
+          <button onClick={() => onRemove(group.id)} className="p-1 rounded hover:bg-gray-100" title="Remove group">
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </button>
+        )}
+      </div>
+
+      {group.children.map(child =>
+        child.kind === 'rule' ? (
+          <RuleRow
+            key={child.id}
+            rule={child}
+            onChange={(rule) => onUpdate(child.id, () => rule)}
+            onRemove={() => onRemove(child.id)}
+          />
+        ) : (
+          <ScreenerRuleBuilder
+            key={child.id}
+            group={child}
+            depth={depth + 1}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+            onAdd={onAdd}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          onClick={() => onAdd(group.id, createRule())}
+          className="inline-flex items-center text-primary-600 hover:text-primary-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Rule
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            onClick={() => onAdd(group.id, createGroup(group.combinator === 'AND' ? 'OR' : 'AND', [createRule()]))}
+            className="inline-flex items-center text-primary-600 hover:text-primary-700"
+          >
+            <FolderPlus className="w-4 h-4 mr-1" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScreenerRuleBuilder;
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from "react";
 import {
-  LineChart,
+  ComposedChart,
+  BarChart,
   Line,
+  Area,
+  Bar,
+  Cell,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,19 +14,67 @@ import {
   ReferenceLine,
 } from "recharts";
 import { motion } from "framer-motion";
-import { PriceData, DataSource } from "@/types";
+import { SlidersHorizontal } from "lucide-react";
+import { PriceData, DataSource, PriceLevel, ChartType } from "@/types";
 import LoadingSpinner from "@/components/ui/LoadingSpinner";
 import DataSourceBadge from "@/components/ui/DataSourceBadge";
 import { getStockChartData } from "@/services/hybridStockService";
+import { detectPriceLevels } from "@/utils/supportResistance";
+import {
+  heikinAshi,
+  sma,
+  ema,
+  rsi,
+  stochRsi,
+  macd,
+  bollingerBands,
+} from "@/utils/technicalIndicators";
+import { useStockStore } from "@/stores/stockStore";
+import { CandlestickShape, OhlcBarShape } from "./CandlestickShape";
+import ChartIndicatorSettings from "./ChartIndicatorSettings";
 
 interface StockPriceChartProps {
   symbol: string;
   className?: string;
 }
 
+const CHART_TYPES: { value: ChartType; label: string }[] = [
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+  { value: "candlestick", label: "Candles" },
+  { value: "ohlc", label: "OHLC" },
+  { value: "heikinAshi", label: "Heikin-Ashi" },
+];
+
+type TimeRange = "1mo" | "3mo" | "6mo" | "1y" | "2y";
+
+// Days shown for each range
+const RANGE_DAYS: Record<TimeRange, number> = {
+  "1mo": 30,
+  "3mo": 90,
+  "6mo": 180,
+  "1y": 365,
+  "2y": 730,
+};
+
+// Range fetched for each visible range, so indicators up to a 200-bar SMA
+// are warmed up before the first visible bar (2y gets about 150 weekly bars)
+const FETCH_RANGE: Record<TimeRange, { range: string; days: number }> = {
+  "1mo": { range: "1y", days: 365 },
+  "3mo": { range: "2y", days: 730 },
+  "6mo": { range: "5y", days: 1825 },
+  "1y": { range: "5y", days: 1825 },
+  "2y": { range: "5y", days: 1825 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 interface ChartDataPoint {
   date: string;
   price: number;
+  open: number;
+  high: number;
+  low: number;
   volume: number;
   timestamp: number;
 }
@@ -31,10 +83,15 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   symbol,
   className = "",
 }) => {
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [timeRange, setTimeRange] = useState<"1mo" | "3mo" | "6mo" | "1y" | "2y">(
-    "3mo"
-  );
+  // Bars for the fetch range: the visible range plus indicator warm-up
+  const [seriesData, setSeriesData] = useState<ChartDataPoint[]>([]);
+  const [timeRange, setTimeRange] = useState<TimeRange>("3mo");
+  const chartSettings = useStockStore((state) => state.chartSettings);
+  const setChartType = useStockStore((state) => state.setChartType);
+  const updateChartSettings = useStockStore((state) => state.updateChartSettings);
+  const resetChartSettings = useStockStore((state) => state.resetChartSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const { chartType } = chartSettings;
   const [loading, setLoading] = useState(true);
   const [currentPrice, setCurrentPrice] = useState<number | null>(null);
   const [dataSource, setDataSource] = useState<DataSource>(DataSource.MOCK);
@@ -60,12 +117,22 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
       // Ensure price doesn't go negative
       currentPrice = Math.max(currentPrice, basePrice * 0.5);
 
+      const open = currentPrice * (0.99 + Math.random() * 0.02);
       data.push({
         date: date.toLocaleDateString("en-IN", {
           month: "short",
           day: "numeric",
         }),
         price: Math.round(currentPrice * 100) / 100,
+        open: Math.round(open * 100) / 100,
+        high:
+          Math.round(
+            Math.max(open, currentPrice) * (1 + Math.random() * 0.01) * 100
+          ) / 100,
+        low:
+          Math.round(
+            Math.min(open, currentPrice) * (1 - Math.random() * 0.01) * 100
+          ) / 100,
         volume: Math.floor(Math.random() * 1000000) + 100000,
         timestamp: date.getTime(),
       });
@@ -82,6 +149,9 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
         day: "numeric",
       }),
       price: item.close,
+      open: item.open,
+      high: item.high,
+      low: item.low,
       volume: item.volume,
       timestamp: item.date.getTime(),
     }));
@@ -92,14 +162,14 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
 
     try {
       // Check cache first
-      const cacheKey = `chart_${symbol}_${timeRange}`;
+      const cacheKey = `chart_v3_${symbol}_${timeRange}`;
       const cachedData = localStorage.getItem(cacheKey);
 
       if (cachedData) {
         const parsed = JSON.parse(cachedData);
         // Check if data is less than 5 minutes old
         if (new Date().getTime() - parsed.timestamp < 300000) {
-          setChartData(parsed.chartData);
+          setSeriesData(parsed.chartData);
           setCurrentPrice(parsed.chartData[parsed.chartData.length - 1]?.price || null);
           setDataSource(parsed.dataSource || DataSource.MOCK);
           setIsRealData(parsed.isRealData || false);
@@ -112,7 +182,7 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
       console.log(`📈 Loading chart data for ${symbol} (${timeRange})`);
       const { data, isRealData: realData, dataSource: source } = await getStockChartData(
         symbol,
-        timeRange,
+        FETCH_RANGE[timeRange].range,
         timeRange === "1mo" || timeRange === "3mo" ? "1d" : "1wk"
       );
 
@@ -130,7 +200,7 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
         })
       );
 
-      setChartData(chartData);
+      setSeriesData(chartData);
       setCurrentPrice(chartData[chartData.length - 1]?.price || null);
       setDataSource(source);
       setIsRealData(realData);
@@ -142,11 +212,9 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
       console.error("Error loading chart data:", error);
       
       // Fallback to mock data
-      const days = timeRange === "1mo" ? 30 : timeRange === "3mo" ? 90 : 
-                   timeRange === "6mo" ? 180 : timeRange === "1y" ? 365 : 730;
-      const mockData = generateMockData(days);
+      const mockData = generateMockData(FETCH_RANGE[timeRange].days);
       
-      setChartData(mockData);
+      setSeriesData(mockData);
       setCurrentPrice(mockData[mockData.length - 1]?.price || null);
       setDataSource(DataSource.MOCK);
       setIsRealData(false);
@@ -159,16 +227,32 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     loadChartData();
   }, [symbol, timeRange]);
 
-  // Custom tooltip
+  // Crosshair tooltip with the hovered bar's OHLCV
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
+      const rows = [
+        { label: "O", value: data.open },
+        { label: "H", value: data.high },
+        { label: "L", value: data.low },
+        { label: "C", value: data.price },
+      ];
       return (
         <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
-          <p className="text-sm font-medium text-gray-900">{label}</p>
-          <p className="text-sm text-blue-600">
-            Price: ₹{data.price.toLocaleString()}
-          </p>
+          <p className="text-sm font-medium text-gray-900 mb-1">{label}</p>
+          <div className="grid grid-cols-2 gap-x-3 text-sm">
+            {rows.map((row) => (
+              <p key={row.label} className="text-gray-700">
+                <span className="text-gray-500">{row.label}:</span> ₹
+                {row.value.toLocaleString()}
+              </p>
+            ))}
+          </div>
+          {chartType === "heikinAshi" && (
+            <p className="text-xs text-gray-500 mt-1">
+              HA close: ₹{data.displayClose.toFixed(2)}
+            </p>
+          )}
           <p className="text-sm text-gray-600">
             வொல்யூம்: {data.volume.toLocaleString()}
           </p>
@@ -186,8 +270,122 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     );
   }
 
+  // Indicators run over the whole series and are sliced to the visible bars
+  const visibleFrom = Date.now() - RANGE_DAYS[timeRange] * DAY_MS;
+  const firstVisible = seriesData.findIndex((d) => d.timestamp >= visibleFrom);
+  const warmup = firstVisible === -1 ? 0 : firstVisible;
+  const chartData = seriesData.slice(warmup);
+
+  // Pivot-based support/resistance for the visible range
+  const priceLevels: PriceLevel[] = (() => {
+    const { support, resistance } = detectPriceLevels(
+      chartData.map((d) => ({
+        date: new Date(d.timestamp),
+        open: d.open,
+        high: d.high,
+        low: d.low,
+        close: d.price,
+        volume: d.volume,
+      })),
+      { pivotWindow: chartData.length > 60 ? 3 : 2 }
+    );
+    return [...support, ...resistance];
+  })();
+
+  // Values actually drawn: Heikin-Ashi mode smooths OHLC, the tooltip keeps
+  // showing the traded prices
+  const displayCandles =
+    chartType === "heikinAshi"
+      ? heikinAshi(
+          seriesData.map((d) => ({
+            date: new Date(d.timestamp),
+            open: d.open,
+            high: d.high,
+            low: d.low,
+            close: d.price,
+            volume: d.volume,
+          }))
+        )
+      : null;
+
+  // Overlay and sub-pane series over the whole series
+  const closes = seriesData.map((d) => d.price);
+  const movingAverages = chartSettings.movingAverages.filter((ma) => ma.enabled);
+  const maSeries = movingAverages.map((ma) =>
+    ma.type === "SMA" ? sma(closes, ma.period) : ema(closes, ma.period)
+  );
+  const bands = chartSettings.bollinger.enabled
+    ? bollingerBands(
+        closes,
+        chartSettings.bollinger.period,
+        chartSettings.bollinger.stdDev
+      )
+    : null;
+  const rsiSeries = chartSettings.rsi.enabled
+    ? rsi(closes, chartSettings.rsi.period)
+    : null;
+  const stochSeries = chartSettings.stochRsi.enabled
+    ? stochRsi(
+        closes,
+        chartSettings.stochRsi.rsiPeriod,
+        chartSettings.stochRsi.stochPeriod
+      )
+    : null;
+  const macdSeries = chartSettings.macd.enabled
+    ? macd(
+        closes,
+        chartSettings.macd.fast,
+        chartSettings.macd.slow,
+        chartSettings.macd.signal
+      )
+    : null;
+
+  const plotData = chartData.map((d, n) => {
+    const i = n + warmup;
+    const overlays: Record<string, number | null> = {};
+    movingAverages.forEach((ma, index) => {
+      overlays[ma.id] = maSeries[index][i];
+    });
+
+    const candle = displayCandles?.[i];
+    const displayOpen = candle ? candle.open : d.open;
+    const displayHigh = candle ? candle.high : d.high;
+    const displayLow = candle ? candle.low : d.low;
+    const displayClose = candle ? candle.close : d.price;
+    return {
+      ...d,
+      displayOpen,
+      displayHigh,
+      displayLow,
+      displayClose,
+      range: [displayLow, displayHigh],
+      isUp: displayClose >= displayOpen,
+      ...overlays,
+      bbUpper: bands?.upper[i] ?? null,
+      bbMiddle: bands?.middle[i] ?? null,
+      bbLower: bands?.lower[i] ?? null,
+      rsi: rsiSeries?.[i] ?? null,
+      stochK: stochSeries?.k[i] ?? null,
+      stochD: stochSeries?.d[i] ?? null,
+      macd: macdSeries?.macd[i] ?? null,
+      macdSignal: macdSeries?.signal[i] ?? null,
+      macdHistogram: macdSeries?.histogram[i] ?? null,
+    };
+  });
+  const isBarChart =
+    chartType === "candlestick" ||
+    chartType === "ohlc" ||
+    chartType === "heikinAshi";
+
   const minPrice = Math.min(...chartData.map((d) => d.price));
   const maxPrice = Math.max(...chartData.map((d) => d.price));
+  const axisMin = isBarChart
+    ? Math.min(...plotData.map((d) => d.displayLow))
+    : minPrice;
+  const axisMax = isBarChart
+    ? Math.max(...plotData.map((d) => d.displayHigh))
+    : maxPrice;
+  const syncId = `price-${symbol}`;
   const priceChange =
     currentPrice && chartData.length > 1
       ? ((currentPrice - chartData[0].price) / chartData[0].price) * 100
@@ -234,31 +432,78 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
           )}
         </div>
 
-        {/* Time Range Selector */}
-        <div className="flex bg-gray-100 rounded-lg p-1">
-          {(["1mo", "3mo", "6mo", "1y", "2y"] as const).map((range) => (
+        <div className="flex flex-col items-end space-y-2">
+          {/* Chart Type Selector */}
+          <div className="flex items-center space-x-2">
             <button
-              key={range}
-              onClick={() => setTimeRange(range)}
-              className={`px-3 py-1.5 text-sm font-medium rounded transition-colors ${
-                timeRange === range
-                  ? "bg-white text-blue-600 shadow-sm"
-                  : "text-gray-600 hover:text-gray-900"
+              onClick={() => setShowSettings(!showSettings)}
+              className={`p-2 rounded-lg transition-colors ${
+                showSettings
+                  ? "bg-blue-100 text-blue-600"
+                  : "bg-gray-100 text-gray-600 hover:text-gray-900"
               }`}
+              title="Indicators"
             >
-              {range.toUpperCase()}
+              <SlidersHorizontal className="w-4 h-4" />
             </button>
-          ))}
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {CHART_TYPES.map((type) => (
+                <button
+                  key={type.value}
+                  onClick={() => setChartType(type.value)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded transition-colors ${
+                    chartType === type.value
+                      ? "bg-white text-blue-600 shadow-sm"
+                      : "text-gray-600 hover:text-gray-900"
+                  }`}
+                >
+                  {type.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Time Range Selector */}
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(["1mo", "3mo", "6mo", "1y", "2y"] as const).map((range) => (
+              <button
+                key={range}
+                onClick={() => setTimeRange(range)}
+                className={`px-3 py-1.5 text-sm font-medium rounded transition-colors ${
+                  timeRange === range
+                    ? "bg-white text-blue-600 shadow-sm"
+                    : "text-gray-600 hover:text-gray-900"
+                }`}
+              >
+                {range.toUpperCase()}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
+      {showSettings && (
+        <ChartIndicatorSettings
+          settings={chartSettings}
+          onChange={updateChartSettings}
+          onReset={resetChartSettings}
+        />
+      )}
+
       {/* Chart */}
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart
-            data={chartData}
+          <ComposedChart
+            data={plotData}
+            syncId={syncId}
             margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
           >
+            <defs>
+              <linearGradient id={`area-${symbol}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.3} />
+                <stop offset="95%" stopColor="#3B82F6" stopOpacity={0} />
+              </linearGradient>
+            </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
             <XAxis
               dataKey="date"
@@ -267,45 +512,317 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
               tickLine={false}
             />
             <YAxis
-              domain={[minPrice * 0.98, maxPrice * 1.02]}
+              domain={[axisMin * 0.98, axisMax * 1.02]}
               stroke="#666"
               fontSize={12}
               tickLine={false}
-              tickFormatter={(value) => `₹${value.toLocaleString()}`}
+              width={70}
+              tickFormatter={(value) => `₹${Math.round(value).toLocaleString()}`}
+            />
+            <Tooltip
+              content={<CustomTooltip />}
+              cursor={{ stroke: "#9CA3AF", strokeDasharray: "3 3" }}
             />
-            <Tooltip content={<CustomTooltip />} />
 
             {/* Support and Resistance Lines */}
-            <ReferenceLine
-              y={minPrice * 1.02}
-              stroke="#10B981"
-              strokeDasharray="5 5"
-              label={{ value: "துணை", position: "right" }}
-            />
-            <ReferenceLine
-              y={maxPrice * 0.98}
-              stroke="#EF4444"
-              strokeDasharray="5 5"
-              label={{ value: "எதிர்ப்பு", position: "right" }}
-            />
+            {priceLevels.map((level) => (
+              <ReferenceLine
+                key={`${level.type}-${level.price}`}
+                y={level.price}
+                stroke={level.type === "support" ? "#10B981" : "#EF4444"}
+                strokeDasharray="5 5"
+                strokeOpacity={0.4 + (level.strength / 100) * 0.6}
+                ifOverflow="extendDomain"
+                label={{
+                  value: `${level.type === "support" ? "துணை" : "எதிர்ப்பு"} ₹${level.price.toLocaleString()} (${level.touches}×)`,
+                  position: "insideTopRight",
+                  fontSize: 10,
+                  fill: level.type === "support" ? "#047857" : "#B91C1C",
+                }}
+              />
+            ))}
+
+            {chartType === "line" && (
+              <Line
+                type="monotone"
+                dataKey="price"
+                stroke="#3B82F6"
+                strokeWidth={2}
+                dot={false}
+                activeDot={{
+                  r: 4,
+                  fill: "#3B82F6",
+                  stroke: "#fff",
+                  strokeWidth: 2,
+                }}
+              />
+            )}
+            {chartType === "area" && (
+              <Area
+                type="monotone"
+                dataKey="price"
+                stroke="#3B82F6"
+                strokeWidth={2}
+                fill={`url(#area-${symbol})`}
+              />
+            )}
+            {(chartType === "candlestick" || chartType === "heikinAshi") && (
+              <Bar
+                dataKey="range"
+                shape={(props: any) => <CandlestickShape {...props} />}
+                isAnimationActive={false}
+              />
+            )}
+            {chartType === "ohlc" && (
+              <Bar
+                dataKey="range"
+                shape={(props: any) => <OhlcBarShape {...props} />}
+                isAnimationActive={false}
+              />
+            )}
+            {/* Indicator Overlays */}
+            {chartSettings.bollinger.enabled && (
+              <>
+                <Line
+                  dataKey="bbUpper"
+                  stroke="#9CA3AF"
+                  strokeDasharray="4 2"
+                  dot={false}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="bbMiddle"
+                  stroke="#9CA3AF"
+                  strokeWidth={1}
+                  dot={false}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="bbLower"
+                  stroke="#9CA3AF"
+                  strokeDasharray="4 2"
+                  dot={false}
+                  activeDot={false}
+                  isAnimationActive={false}
+                />
+              </>
+            )}
+            {movingAverages.map((ma) => (
+              <Line
+                key={ma.id}
+                dataKey={ma.id}
+                stroke={ma.color}
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
 
-            <Line
-              type="monotone"
-              dataKey="price"
-              stroke="#3B82F6"
-              strokeWidth={2}
-              dot={false}
-              activeDot={{
-                r: 4,
-                fill: "#3B82F6",
-                stroke: "#fff",
-                strokeWidth: 2,
-              }}
+      {/* Overlay Legend */}
+      {(movingAverages.length > 0 || chartSettings.bollinger.enabled) && (
+        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-gray-600">
+          {movingAverages.map((ma) => (
+            <span key={ma.id} className="flex items-center space-x-1">
+              <span
+                className="w-3 h-0.5 rounded"
+                style={{ backgroundColor: ma.color }}
+              />
+              <span>
+                {ma.type} {ma.period}
+              </span>
+            </span>
+          ))}
+          {chartSettings.bollinger.enabled && (
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-0.5 rounded bg-gray-400" />
+              <span>
+                BB ({chartSettings.bollinger.period},{" "}
+                {chartSettings.bollinger.stdDev})
+              </span>
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Volume Pane */}
+      <div className="h-24 mt-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={plotData}
+            syncId={syncId}
+            margin={{ top: 0, right: 30, left: 20, bottom: 0 }}
+          >
+            <XAxis dataKey="date" hide />
+            <YAxis
+              stroke="#666"
+              fontSize={10}
+              tickLine={false}
+              width={70}
+              tickFormatter={(value) =>
+                value >= 10000000
+                  ? `${(value / 10000000).toFixed(1)}Cr`
+                  : value >= 100000
+                  ? `${(value / 100000).toFixed(1)}L`
+                  : value.toLocaleString()
+              }
             />
-          </LineChart>
+            <Tooltip content={() => null} cursor={{ fill: "#F3F4F6" }} />
+            <Bar dataKey="volume" isAnimationActive={false}>
+              {plotData.map((d) => (
+                <Cell
+                  key={d.timestamp}
+                  fill={d.isUp ? "#10B981" : "#EF4444"}
+                  fillOpacity={0.5}
+                />
+              ))}
+            </Bar>
+          </BarChart>
         </ResponsiveContainer>
       </div>
 
+      {/* RSI Pane */}
+      {chartSettings.rsi.enabled && (
+        <div className="mt-4">
+          <p className="text-xs font-medium text-gray-500 ml-24">
+            RSI ({chartSettings.rsi.period})
+          </p>
+          <div className="h-24">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={plotData}
+                syncId={syncId}
+                margin={{ top: 0, right: 30, left: 20, bottom: 0 }}
+              >
+                <XAxis dataKey="date" hide />
+                <YAxis
+                  domain={[0, 100]}
+                  ticks={[30, 70]}
+                  stroke="#666"
+                  fontSize={10}
+                  tickLine={false}
+                  width={70}
+                />
+                <Tooltip content={() => null} cursor={{ stroke: "#9CA3AF" }} />
+                <ReferenceLine y={70} stroke="#EF4444" strokeDasharray="3 3" />
+                <ReferenceLine y={30} stroke="#10B981" strokeDasharray="3 3" />
+                <Line
+                  dataKey="rsi"
+                  stroke="#7C3AED"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Stochastic RSI Pane */}
+      {chartSettings.stochRsi.enabled && (
+        <div className="mt-4">
+          <p className="text-xs font-medium text-gray-500 ml-24">
+            Stoch RSI ({chartSettings.stochRsi.rsiPeriod},{" "}
+            {chartSettings.stochRsi.stochPeriod}) %K / %D
+          </p>
+          <div className="h-24">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={plotData}
+                syncId={syncId}
+                margin={{ top: 0, right: 30, left: 20, bottom: 0 }}
+              >
+                <XAxis dataKey="date" hide />
+                <YAxis
+                  domain={[0, 100]}
+                  ticks={[20, 80]}
+                  stroke="#666"
+                  fontSize={10}
+                  tickLine={false}
+                  width={70}
+                />
+                <Tooltip content={() => null} cursor={{ stroke: "#9CA3AF" }} />
+                <ReferenceLine y={80} stroke="#EF4444" strokeDasharray="3 3" />
+                <ReferenceLine y={20} stroke="#10B981" strokeDasharray="3 3" />
+                <Line
+                  dataKey="stochK"
+                  stroke="#2563EB"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="stochD"
+                  stroke="#F97316"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* MACD Pane */}
+      {chartSettings.macd.enabled && (
+        <div className="mt-4">
+          <p className="text-xs font-medium text-gray-500 ml-24">
+            MACD ({chartSettings.macd.fast}, {chartSettings.macd.slow},{" "}
+            {chartSettings.macd.signal})
+          </p>
+          <div className="h-24">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={plotData}
+                syncId={syncId}
+                margin={{ top: 0, right: 30, left: 20, bottom: 0 }}
+              >
+                <XAxis dataKey="date" hide />
+                <YAxis
+                  stroke="#666"
+                  fontSize={10}
+                  tickLine={false}
+                  width={70}
+                  tickFormatter={(value) => value.toFixed(1)}
+                />
+                <Tooltip content={() => null} cursor={{ stroke: "#9CA3AF" }} />
+                <ReferenceLine y={0} stroke="#9CA3AF" />
+                <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                  {plotData.map((d) => (
+                    <Cell
+                      key={d.timestamp}
+                      fill={(d.macdHistogram ?? 0) >= 0 ? "#10B981" : "#EF4444"}
+                      fillOpacity={0.6}
+                    />
+                  ))}
+                </Bar>
+                <Line
+                  dataKey="macd"
+                  stroke="#2563EB"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="macdSignal"
+                  stroke="#F97316"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       {/* Chart Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 p-4 bg-gray-50 rounded-lg">
         <div className="text-center">
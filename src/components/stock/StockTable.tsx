@@ -4,7 +4,13 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { HealthBadge, SignalBadge } from '@/components/ui/Badge';
 import Button from '@/components/ui/Button';
 import { TableSkeleton } from '@/components/ui/LoadingSpinner';
-import type { Stock, SortOption, TableColumn } from '@/types';
+import type {
+  Stock,
+  SortOption,
+  TableColumn,
+  StockTableExtraColumn,
+  ExtraSortOption,
+} from '@/types';
 
 interface StockTableProps {
   stocks: Stock[];
@@ -17,6 +23,11 @@ interface StockTableProps {
   className?: string;
   showPagination?: boolean;
   pageSize?: number;
+  // Columns appended after the standard ones, sorted by the parent
+  extraColumns?: StockTableExtraColumn[];
+  extraSortOption?: ExtraSortOption;
+  onExtraSort?: (sortOption: ExtraSortOption) => void;
+  emptyMessage?: string;
 }
 
 const StockTable: React.FC<StockTableProps> = ({
@@ -30,6 +41,10 @@ const StockTable: React.FC<StockTableProps> = ({
   className = '',
   showPagination = false,
   pageSize = 20,
+  extraColumns = [],
+  extraSortOption,
+  onExtraSort,
+  emptyMessage,
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
   
@@ -226,6 +241,22 @@ const StockTable: React.FC<StockTableProps> = ({
     );
   };
 
+  const handleExtraSort = (key: string) => {
+    if (!onExtraSort) return;
+
+    const direction = extraSortOption?.key === key && extraSortOption?.direction === 'asc' ? 'desc' : 'asc';
+    onExtraSort({ key, direction });
+  };
+
+  const getExtraSortIcon = (key: string) => {
+    if (extraSortOption?.key !== key) return null;
+    return extraSortOption.direction === 'asc' ? (
+      <ChevronUp className="w-4 h-4" />
+    ) : (
+      <ChevronDown className="w-4 h-4" />
+    );
+  };
+
   // Pagination logic
   const totalPages = Math.ceil(stocks.length / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
@@ -233,14 +264,14 @@ const StockTable: React.FC<StockTableProps> = ({
   const paginatedStocks = showPagination ? stocks.slice(startIndex, endIndex) : stocks;
 
   if (loading) {
-    return <TableSkeleton rows={10} cols={columns.length} />;
+    return <TableSkeleton rows={10} cols={columns.length + extraColumns.length} />;
   }
 
   if (stocks.length === 0) {
     return (
       <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
         <p className="text-gray-500 text-lg mb-2">No stocks found</p>
-        <p className="text-gray-400">Try adjusting your search criteria or filters</p>
+        <p className="text-gray-400">{emptyMessage || 'Try adjusting your search criteria or filters'}</p>
       </div>
     );
   }
@@ -268,6 +299,21 @@ const StockTable: React.FC<StockTableProps> = ({
                   </div>
                 </th>
               ))}
+              {extraColumns.map((column) => (
+                <th
+                  key={column.key}
+                  style={{ width: column.width }}
+                  className={`px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${
+                    column.sortable ? 'cursor-pointer hover:bg-gray-100' : ''
+                  }`}
+                  onClick={() => column.sortable && handleExtraSort(column.key)}
+                >
+                  <div className="flex items-center space-x-1">
+                    <span>{column.title}</span>
+                    {column.sortable && getExtraSortIcon(column.key)}
+                  </div>
+                </th>
+              ))}
               <th className="px-6 py-4 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -295,6 +341,11 @@ const StockTable: React.FC<StockTableProps> = ({
                       }
                     </td>
                   ))}
+                  {extraColumns.map((column) => (
+                    <td key={column.key} className="px-6 py-4 whitespace-nowrap">
+                      {column.render(stock)}
+                    </td>
+                  ))}
                   <td className="px-6 py-4 whitespace-nowrap text-right">
                     <Button
                       variant="ghost"
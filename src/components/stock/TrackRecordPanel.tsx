@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Target, RefreshCw, Trash2 } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { recommendationLedger } from '@/services/recommendationLedger';
+import { useRecommendations } from '@/stores/stockStore';
+import type { TrackRecordBucket, TrackRecordStats } from '@/types';
+
+type GroupMode = 'timeFrame' | 'sector' | 'source';
+
+const GROUP_LABELS: Record<GroupMode, string> = {
+  timeFrame: 'Time Frame',
+  sector: 'Sector',
+  source: 'Source',
+};
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+const rateColor = (rate: number, evaluated: number) => {
+  if (evaluated === 0) return 'text-gray-400';
+  if (rate >= 60) return 'text-green-600';
+  if (rate >= 45) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const BucketRow: React.FC<{ bucket: TrackRecordBucket }> = ({ bucket }) => (
+  <tr className="border-t border-gray-100">
+    <td className="py-2 pr-4 font-medium text-gray-900">{bucket.key}</td>
+    <td className="py-2 pr-4 text-right text-gray-700">
+      {bucket.evaluated}/{bucket.total}
+    </td>
+    <td className={`py-2 pr-4 text-right font-semibold ${rateColor(bucket.successRate, bucket.evaluated)}`}>
+      {bucket.evaluated ? formatPct(bucket.successRate) : '—'}
+    </td>
+    <td className="py-2 pr-4 text-right text-green-600">{bucket.hitTarget}</td>
+    <td className="py-2 pr-4 text-right text-red-600">{bucket.hitStop}</td>
+    <td className="py-2 pr-4 text-right text-gray-600">{bucket.expired}</td>
+    <td
+      className={`py-2 text-right ${
+        bucket.averageReturn >= 0 ? 'text-green-600' : 'text-red-600'
+      }`}
+    >
+      {bucket.evaluated ? formatPct(bucket.averageReturn) : '—'}
+    </td>
+  </tr>
+);
+
+/**
+ * Track record of past recommendations: hit rates once their validity
+ * window has closed, and how well stated confidence matched reality
+ */
+const TrackRecordPanel: React.FC = () => {
+  const [stats, setStats] = useState<TrackRecordStats>(() => recommendationLedger.getStats());
+  const [groupMode, setGroupMode] = useState<GroupMode>('timeFrame');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [dueCount, setDueCount] = useState(() => recommendationLedger.getDueEntries().length);
+  const recommendations = useRecommendations();
+
+  const refreshStats = useCallback(() => {
+    setStats(recommendationLedger.getStats());
+    setDueCount(recommendationLedger.getDueEntries().length);
+  }, []);
+
+  // Newly issued recommendations are recorded by the service as they load
+  useEffect(() => {
+    refreshStats();
+  }, [recommendations, refreshStats]);
+
+  const evaluate = useCallback(async () => {
+    setIsEvaluating(true);
+    try {
+      const evaluated = await recommendationLedger.evaluateDue();
+      console.log(`📒 Evaluated ${evaluated} recommendations`);
+    } finally {
+      setIsEvaluating(false);
+      refreshStats();
+    }
+  }, [refreshStats]);
+
+  // Evaluate anything that has become due since the last visit
+  useEffect(() => {
+    if (recommendationLedger.getDueEntries().length > 0) {
+      evaluate();
+    }
+  }, [evaluate]);
+
+  const handleClear = () => {
+    if (window.confirm('Clear the entire recommendation track record?')) {
+      recommendationLedger.clear();
+      refreshStats();
+    }
+  };
+
+  const { overall, calibration, brierScore } = stats;
+  const buckets =
+    groupMode === 'timeFrame'
+      ? stats.byTimeFrame
+      : groupMode === 'sector'
+        ? stats.bySector
+        : stats.bySource;
+  const pending = overall.total - overall.evaluated;
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <Target className="w-5 h-5 text-primary-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                பரிந்துரை சாதனை (Track Record)
+              </h3>
+              <p className="text-xs text-gray-500">
+                Outcomes are measured after each recommendation's validity window closes
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={evaluate}
+              variant="outline"
+              size="sm"
+              icon={<RefreshCw className={`w-4 h-4 ${isEvaluating ? 'animate-spin' : ''}`} />}
+              disabled={isEvaluating || dueCount === 0}
+            >
+              Evaluate{dueCount > 0 ? ` (${dueCount})` : ''}
+            </Button>
+            <Button
+              onClick={handleClear}
+              variant="ghost"
+              size="sm"
+              icon={<Trash2 className="w-4 h-4" />}
+              disabled={overall.total === 0}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {overall.total === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No recommendations recorded yet. Recommendations are added here as they are issued.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500">Recorded</div>
+                <div className="text-xl font-bold text-gray-900">{overall.total}</div>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500">Pending</div>
+                <div className="text-xl font-bold text-gray-900">{pending}</div>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500">Success Rate</div>
+                <div className={`text-xl font-bold ${rateColor(overall.successRate, overall.evaluated)}`}>
+                  {overall.evaluated ? formatPct(overall.successRate) : '—'}
+                </div>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500">Avg Return</div>
+                <div
+                  className={`text-xl font-bold ${
+                    overall.averageReturn >= 0 ? 'text-green-600' : 'text-red-600'
+                  }`}
+                >
+                  {overall.evaluated ? formatPct(overall.averageReturn) : '—'}
+                </div>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-xs text-gray-500" title="Mean squared error of confidence vs outcome; lower is better">
+                  Brier Score
+                </div>
+                <div className="text-xl font-bold text-gray-900">
+                  {brierScore !== null ? brierScore.toFixed(3) : '—'}
+                </div>
+              </div>
+            </div>
+
+            {/* Hit rates by group */}
+            <div>
+              <div className="flex items-center space-x-2 mb-2">
+                {(Object.keys(GROUP_LABELS) as GroupMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setGroupMode(mode)}
+                    className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                      groupMode === mode
+                        ? 'bg-primary-100 text-primary-700'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {GROUP_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-2 pr-4 text-left">{GROUP_LABELS[groupMode]}</th>
+                      <th className="py-2 pr-4 text-right">Evaluated</th>
+                      <th className="py-2 pr-4 text-right">Success</th>
+                      <th className="py-2 pr-4 text-right">Target</th>
+                      <th className="py-2 pr-4 text-right">Stop</th>
+                      <th className="py-2 pr-4 text-right">Expired</th>
+                      <th className="py-2 text-right">Avg Return</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {buckets.map(bucket => (
+                      <BucketRow key={bucket.key} bucket={bucket} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Confidence calibration */}
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                Confidence Calibration
+              </h4>
+              <div className="space-y-2">
+                {calibration.map(band => (
+                  <div key={band.label} className="flex items-center space-x-3 text-xs">
+                    <span className="w-16 text-gray-600">{band.label}%</span>
+                    <div className="flex-1 relative h-3 bg-gray-100 rounded">
+                      <div
+                        className="absolute inset-y-0 left-0 bg-primary-400 rounded"
+                        style={{ width: `${band.count ? band.successRate : 0}%` }}
+                      />
+                      {band.count > 0 && (
+                        <div
+                          className="absolute inset-y-0 w-0.5 bg-gray-800"
+                          style={{ left: `${band.averageConfidence}%` }}
+                          title="Average stated confidence"
+                        />
+                      )}
+                    </div>
+                    <span className="w-28 text-right text-gray-700">
+                      {band.count
+                        ? `${formatPct(band.successRate)} of ${band.count}`
+                        : 'no data'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Bars show the actual success rate; the dark marker is the average stated
+                confidence. A well-calibrated model has the bar ending at the marker.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrackRecordPanel;
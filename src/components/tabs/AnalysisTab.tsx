@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshCw, LayoutGrid, List } from 'lucide-react';
+import { RefreshCw, LayoutGrid, List, SlidersHorizontal } from 'lucide-react';
 import { 
   useStockStore,
   useRecommendations,
@@ -13,6 +13,9 @@ import TimeFrameTabs from '@/components/layout/TimeFrameTabs';
 import SectorFilter from '@/components/layout/SectorFilter';
 import RecommendationGrid from '@/components/stock/RecommendationGrid';
 import RecommendationDetails from '@/components/stock/RecommendationDetails';
+import TrackRecordPanel from '@/components/stock/TrackRecordPanel';
+import FactorWeightsModal from '@/components/stock/FactorWeightsModal';
+import { clearRecommendationCache } from '@/services/stockRecommendations';
 import Button from '@/components/ui/Button';
 import type { StockRecommendation } from '@/types';
 
@@ -37,6 +40,7 @@ const AnalysisTab: React.FC = () => {
 
   const [selectedRecommendation, setSelectedRecommendation] = useState<StockRecommendation | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+  const [isWeightsOpen, setIsWeightsOpen] = useState(false);
 
   // Load initial recommendations
   useEffect(() => {
@@ -64,6 +68,12 @@ const AnalysisTab: React.FC = () => {
     setSelectedRecommendation(null);
   };
 
+  // Cached recommendations were scored with the old weights
+  const handleWeightsSaved = async () => {
+    await clearRecommendationCache();
+    await refreshRecommendations();
+  };
+
   return (
     <div className="space-y-6">
       {/* Recommendation Controls */}
@@ -107,6 +117,15 @@ const AnalysisTab: React.FC = () => {
             </button>
           </div>
 
+          <Button
+            onClick={() => setIsWeightsOpen(true)}
+            variant="outline"
+            size="sm"
+            icon={<SlidersHorizontal className="w-4 h-4" />}
+          >
+            Weights
+          </Button>
+
           <Button
             onClick={refreshRecommendations}
             variant="outline"
@@ -132,12 +151,22 @@ const AnalysisTab: React.FC = () => {
         hideControls={true}
       />
 
+      {/* Track record of past recommendations */}
+      <TrackRecordPanel />
+
       {/* Recommendation Details Modal */}
       <RecommendationDetails
         recommendation={selectedRecommendation}
         isOpen={isDetailsModalOpen}
         onClose={handleCloseDetails}
       />
+
+      <FactorWeightsModal
+        isOpen={isWeightsOpen}
+        timeFrame={selectedTimeFrame}
+        onClose={() => setIsWeightsOpen(false)}
+        onSaved={handleWeightsSaved}
+      />
     </div>
   );
 };
@@ -0,0 +1,477 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Play,
+  FlaskConical,
+  TrendingUp,
+  TrendingDown,
+  AlertTriangle,
+} from "lucide-react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  BacktestConfig,
+  BacktestResult,
+  BacktestStrategyId,
+  DetailedStockAnalysis,
+  TechnicalIndicatorHealth,
+} from "@/types";
+import Card, { CardContent, CardHeader } from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import { getStockChartData } from "@/services/hybridStockService";
+import {
+  BACKTEST_STRATEGIES,
+  DEFAULT_BACKTEST_CONFIG,
+  runBacktest,
+} from "@/utils/backtest";
+
+interface BacktestTabProps {
+  stockAnalysis: DetailedStockAnalysis;
+  formatCurrency: (amount: number) => string;
+}
+
+type HistoryRange = "1y" | "2y" | "5y";
+
+// Indicator card whose stop/target levels correspond to each strategy
+const STRATEGY_INDICATOR: Record<
+  BacktestStrategyId,
+  keyof Pick<
+    DetailedStockAnalysis["technicalIndicators"],
+    "stochasticRSI" | "patterns" | "macd"
+  >
+> = {
+  stochRsiCross: "stochasticRSI",
+  threeDownAbove200: "patterns",
+  macdMeanReversion: "macd",
+};
+
+const formatPct = (value: number, digits: number = 1) =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`;
+
+const BacktestTab: React.FC<BacktestTabProps> = ({
+  stockAnalysis,
+  formatCurrency,
+}) => {
+  const [config, setConfig] = useState<BacktestConfig>(DEFAULT_BACKTEST_CONFIG);
+  const [range, setRange] = useState<HistoryRange>("2y");
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRealData, setIsRealData] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateConfig = (changes: Partial<BacktestConfig>) =>
+    setConfig((current) => ({ ...current, ...changes }));
+
+  const numberInput = (
+    label: string,
+    value: number | undefined,
+    onChange: (value: number | undefined) => void,
+    step: number = 0.01
+  ) => (
+    <label className="block">
+      <span className="text-xs text-gray-600">{label}</span>
+      <input
+        type="number"
+        step={step}
+        min={0}
+        value={value ?? ""}
+        placeholder="Off"
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          onChange(isNaN(parsed) ? undefined : parsed);
+        }}
+        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+    </label>
+  );
+
+  // Use the stop/target shown on the matching indicator card as % of entry
+  const applyIndicatorLevels = () => {
+    const indicator: TechnicalIndicatorHealth =
+      stockAnalysis.technicalIndicators[STRATEGY_INDICATOR[config.strategy]];
+    if (!indicator.buyPrice) return;
+    updateConfig({
+      stopLossPct: indicator.stopLoss
+        ? Math.round((1 - indicator.stopLoss / indicator.buyPrice) * 1000) / 10
+        : undefined,
+      targetPct: indicator.targetPrice
+        ? Math.round((indicator.targetPrice / indicator.buyPrice - 1) * 1000) /
+          10
+        : undefined,
+    });
+  };
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, isRealData: realData } = await getStockChartData(
+        stockAnalysis.symbol,
+        range,
+        "1d"
+      );
+      setIsRealData(realData);
+      setResult(runBacktest(data, config));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`❌ Backtest failed for ${stockAnalysis.symbol}: ${msg}`);
+      setError(msg);
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const strategy = BACKTEST_STRATEGIES[config.strategy];
+  const metrics = result?.metrics;
+  const metricCards = metrics
+    ? [
+        { label: "CAGR", value: formatPct(metrics.cagr), positive: metrics.cagr >= 0 },
+        {
+          label: "Total Return",
+          value: formatPct(metrics.totalReturn),
+          positive: metrics.totalReturn >= metrics.buyAndHoldReturn,
+          hint: `Buy & hold ${formatPct(metrics.buyAndHoldReturn)}`,
+        },
+        {
+          label: "Win Rate",
+          value: `${metrics.winRate.toFixed(0)}%`,
+          positive: metrics.winRate >= 50,
+          hint: `${metrics.tradeCount} trades`,
+        },
+        {
+          label: "Max Drawdown",
+          value: `${metrics.maxDrawdown.toFixed(1)}%`,
+          positive: metrics.maxDrawdown > -20,
+        },
+        {
+          label: "Sharpe",
+          value: metrics.sharpe.toFixed(2),
+          positive: metrics.sharpe >= 1,
+        },
+        {
+          label: "Avg Trade",
+          value: formatPct(metrics.averageReturn, 2),
+          positive: metrics.averageReturn >= 0,
+          hint: `${metrics.exposure.toFixed(0)}% time in market`,
+        },
+      ]
+    : [];
+
+  const curveData =
+    result?.equityCurve.map((point) => ({
+      date: point.date.toLocaleDateString("en-IN", {
+        month: "short",
+        year: "2-digit",
+      }),
+      equity: Math.round(point.equity),
+      buyAndHold: Math.round(point.buyAndHold),
+    })) || [];
+
+  return (
+    <div className="space-y-8">
+      {/* Strategy Setup */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card>
+          <CardHeader
+            title="Strategy Backtest (உத்தி பின்பரிசோதனை)"
+            subtitle={strategy.description}
+            action={<FlaskConical className="w-6 h-6 text-indigo-600" />}
+          />
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="block md:col-span-2">
+                <span className="text-xs text-gray-600">Strategy</span>
+                <select
+                  value={config.strategy}
+                  onChange={(e) =>
+                    updateConfig({
+                      strategy: e.target.value as BacktestStrategyId,
+                    })
+                  }
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {Object.values(BACKTEST_STRATEGIES).map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div>
+                <span className="text-xs text-gray-600">History</span>
+                <div className="mt-1 flex bg-gray-100 rounded-lg p-1">
+                  {(["1y", "2y", "5y"] as const).map((r) => (
+                    <button
+                      key={r}
+                      onClick={() => setRange(r)}
+                      className={`flex-1 px-3 py-1 text-sm font-medium rounded transition-colors ${
+                        range === r
+                          ? "bg-white text-blue-600 shadow-sm"
+                          : "text-gray-600 hover:text-gray-900"
+                      }`}
+                    >
+                      {r.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {numberInput(
+                "Capital (₹)",
+                config.initialCapital,
+                (value) =>
+                  updateConfig({
+                    initialCapital: value || DEFAULT_BACKTEST_CONFIG.initialCapital,
+                  }),
+                1000
+              )}
+              {numberInput("Slippage (%)", config.slippagePct, (value) =>
+                updateConfig({ slippagePct: value || 0 })
+              )}
+              {numberInput("Brokerage (% per order)", config.brokeragePct, (value) =>
+                updateConfig({ brokeragePct: value || 0 })
+              )}
+              {numberInput(
+                "Brokerage cap (₹ per order)",
+                config.maxBrokeragePerOrder,
+                (value) => updateConfig({ maxBrokeragePerOrder: value || 0 }),
+                1
+              )}
+              {numberInput(
+                "Stop loss (% below entry)",
+                config.stopLossPct,
+                (value) => updateConfig({ stopLossPct: value }),
+                0.5
+              )}
+              {numberInput(
+                "Target (% above entry)",
+                config.targetPct,
+                (value) => updateConfig({ targetPct: value }),
+                0.5
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mt-6">
+              <Button
+                icon={<Play className="w-4 h-4" />}
+                onClick={handleRun}
+                loading={loading}
+              >
+                Run Backtest
+              </Button>
+              <Button variant="outline" onClick={applyIndicatorLevels}>
+                Use indicator stop/target
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner className="w-8 h-8" />
+        </div>
+      )}
+
+      {error && !loading && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {result && metrics && !loading && (
+        <>
+          {!isRealData && (
+            <div className="flex items-center space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4" />
+              <span>
+                Real price history unavailable — results use mock prices and
+                are for illustration only.
+              </span>
+            </div>
+          )}
+
+          {/* Metrics */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {metricCards.map((card) => (
+                <div
+                  key={card.label}
+                  className="p-4 bg-gray-50 rounded-lg border border-gray-200"
+                >
+                  <p className="text-xs text-gray-600 mb-1">{card.label}</p>
+                  <p
+                    className={`text-xl font-bold ${
+                      card.positive ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {card.value}
+                  </p>
+                  {card.hint && (
+                    <p className="text-xs text-gray-500 mt-1">{card.hint}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+
+          {/* Equity Curve */}
+          <Card>
+            <CardHeader
+              title="Equity Curve"
+              subtitle={`${result.startDate.toLocaleDateString(
+                "en-IN"
+              )} – ${result.endDate.toLocaleDateString("en-IN")}`}
+            />
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    data={curveData}
+                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis
+                      dataKey="date"
+                      stroke="#666"
+                      fontSize={12}
+                      tickLine={false}
+                      minTickGap={40}
+                    />
+                    <YAxis
+                      stroke="#666"
+                      fontSize={12}
+                      tickLine={false}
+                      width={80}
+                      tickFormatter={(value) => `₹${value.toLocaleString()}`}
+                    />
+                    <Tooltip
+                      formatter={(value: any, name: any) => [
+                        formatCurrency(Number(value)),
+                        name === "equity" ? "Strategy" : "Buy & Hold",
+                      ]}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="equity"
+                      stroke="#4F46E5"
+                      fill="#EEF2FF"
+                      strokeWidth={2}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="buyAndHold"
+                      stroke="#9CA3AF"
+                      strokeDasharray="4 2"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Trades */}
+          <Card>
+            <CardHeader title={`Trades (${result.trades.length})`} />
+            <CardContent>
+              {result.trades.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  The strategy produced no trades over this period.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 pr-4">Entry</th>
+                        <th className="py-2 pr-4">Exit</th>
+                        <th className="py-2 pr-4 text-right">Qty</th>
+                        <th className="py-2 pr-4 text-right">Buy</th>
+                        <th className="py-2 pr-4 text-right">Sell</th>
+                        <th className="py-2 pr-4 text-right">P&L</th>
+                        <th className="py-2 pr-4 text-right">Return</th>
+                        <th className="py-2">Exit Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.trades.map((trade, index) => (
+                        <tr
+                          key={index}
+                          className="border-b border-gray-100 last:border-0"
+                        >
+                          <td className="py-2 pr-4">
+                            {trade.entryDate.toLocaleDateString("en-IN")}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {trade.exitDate.toLocaleDateString("en-IN")}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{trade.shares}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatCurrency(trade.entryPrice)}
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatCurrency(trade.exitPrice)}
+                          </td>
+                          <td
+                            className={`py-2 pr-4 text-right font-medium ${
+                              trade.pnl >= 0 ? "text-green-600" : "text-red-600"
+                            }`}
+                          >
+                            {formatCurrency(trade.pnl)}
+                          </td>
+                          <td
+                            className={`py-2 pr-4 text-right ${
+                              trade.returnPct >= 0
+                                ? "text-green-600"
+                                : "text-red-600"
+                            }`}
+                          >
+                            <span className="inline-flex items-center">
+                              {trade.returnPct >= 0 ? (
+                                <TrendingUp className="w-3 h-3 mr-1" />
+                              ) : (
+                                <TrendingDown className="w-3 h-3 mr-1" />
+                              )}
+                              {formatPct(trade.returnPct, 2)}
+                            </span>
+                          </td>
+                          <td className="py-2 text-gray-600">
+                            {trade.exitReason}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestTab;
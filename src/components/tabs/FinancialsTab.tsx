@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { FileSpreadsheet, RefreshCw } from "lucide-react";
+import { LineChart, Line, ResponsiveContainer } from "recharts";
+import {
+  FinancialStatements,
+  StatementKind,
+  StatementPeriodType,
+} from "@/types";
+import Card, { CardContent, CardHeader } from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import DataSourceBadge from "@/components/ui/DataSourceBadge";
+import { hybridStockService } from "@/services/hybridStockService";
+import {
+  buildStatementTable,
+  hasStatements,
+  StatementRow,
+} from "@/utils/financialStatements";
+
+interface FinancialsTabProps {
+  symbol: string;
+}
+
+type StatementView = "values" | "commonSize";
+
+const STATEMENT_LABELS: Record<StatementKind, string> = {
+  income: "Income Statement",
+  balance: "Balance Sheet",
+  cashFlow: "Cash Flow",
+};
+
+// Amounts in crore, the usual unit for Indian company financials
+const formatAmount = (value: number) =>
+  Number.isFinite(value)
+    ? (value / 1e7).toLocaleString("en-IN", { maximumFractionDigits: 0 })
+    : "—";
+
+const formatPerShare = (value: number) =>
+  Number.isFinite(value) ? value.toFixed(2) : "—";
+
+const formatPct = (value: number) =>
+  Number.isFinite(value) ? `${value.toFixed(1)}%` : "—";
+
+const formatChange = (value: number) =>
+  Number.isFinite(value) ? `${value >= 0 ? "+" : ""}${value.toFixed(1)}%` : "";
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  // Oldest first so the line reads left to right
+  const data = values
+    .map((value) => ({ value }))
+    .reverse()
+    .filter((point) => Number.isFinite(point.value));
+  if (data.length < 2) return <span className="text-xs text-gray-400">—</span>;
+
+  const rising = data[data.length - 1].value >= data[0].value;
+  return (
+    <div className="w-20 h-6">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke={rising ? "#16A34A" : "#DC2626"}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const FinancialsTab: React.FC<FinancialsTabProps> = ({ symbol }) => {
+  const [statements, setStatements] = useState<FinancialStatements | null>(
+    null
+  );
+  const [periodType, setPeriodType] = useState<StatementPeriodType>("annual");
+  const [kind, setKind] = useState<StatementKind>("income");
+  const [view, setView] = useState<StatementView>("values");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatements = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setStatements(await hybridStockService.getFinancialStatements(symbol));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`❌ Failed to load statements for ${symbol}: ${msg}`);
+      setError(msg);
+      setStatements(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    void loadStatements();
+  }, [loadStatements]);
+
+  const table = useMemo(
+    () =>
+      statements ? buildStatementTable(statements, kind, periodType) : null,
+    [statements, kind, periodType]
+  );
+
+  const changeLabel = periodType === "annual" ? "YoY" : "QoQ";
+
+  const toggle = <T extends string>(
+    options: Array<[T, string]>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <div className="flex bg-gray-100 rounded-lg p-1">
+      {options.map(([value, label]) => (
+        <button
+          key={value}
+          onClick={() => onSelect(value)}
+          className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+            selected === value
+              ? "bg-white text-blue-600 shadow-sm"
+              : "text-gray-600 hover:text-gray-900"
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderCell = (row: StatementRow, index: number) => {
+    if (view === "commonSize") {
+      return (
+        <span className="text-gray-900">{formatPct(row.commonSize[index])}</span>
+      );
+    }
+    const change = row.changes[index];
+    return (
+      <>
+        <span className="text-gray-900">
+          {row.perShare
+            ? formatPerShare(row.values[index])
+            : formatAmount(row.values[index])}
+        </span>
+        {Number.isFinite(change) && (
+          <span
+            className={`block text-xs ${
+              change >= 0 ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {formatChange(change)}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner className="w-8 h-8" />
+      </div>
+    );
+  }
+
+  if (error || !statements || !hasStatements(statements[periodType])) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-gray-500">
+          {error
+            ? `Couldn't load financial statements: ${error}`
+            : statements
+            ? `No ${periodType} statements reported for ${symbol}.`
+            : `No financial statements available for ${symbol}.`}
+        </p>
+        <div className="flex justify-center space-x-2">
+          {statements &&
+            toggle<StatementPeriodType>(
+              [
+                ["annual", "Annual"],
+                ["quarterly", "Quarterly"],
+              ],
+              periodType,
+              setPeriodType
+            )}
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<RefreshCw className="w-4 h-4" />}
+            onClick={loadStatements}
+          >
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card>
+          <CardHeader
+            title="Financial Statements (நிதி அறிக்கைகள்)"
+            subtitle={
+              view === "values"
+                ? `₹ crore, EPS in ₹; ${changeLabel} change below each value`
+                : `Common-size: ${table?.commonSizeBase}`
+            }
+            action={
+              <div className="flex items-center space-x-2">
+                <DataSourceBadge dataSource={statements.dataSource} />
+                <FileSpreadsheet className="w-6 h-6 text-indigo-600" />
+              </div>
+            }
+          />
+          <CardContent>
+            <div className="flex flex-wrap gap-3 mb-6">
+              {toggle<StatementKind>(
+                [
+                  ["income", STATEMENT_LABELS.income],
+                  ["balance", STATEMENT_LABELS.balance],
+                  ["cashFlow", STATEMENT_LABELS.cashFlow],
+                ],
+                kind,
+                setKind
+              )}
+              {toggle<StatementPeriodType>(
+                [
+                  ["annual", "Annual"],
+                  ["quarterly", "Quarterly"],
+                ],
+                periodType,
+                setPeriodType
+              )}
+              {toggle<StatementView>(
+                [
+                  ["values", "Values"],
+                  ["commonSize", "Common-size"],
+                ],
+                view,
+                setView
+              )}
+            </div>
+
+            {!table || table.periods.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No {periodType} {STATEMENT_LABELS[kind].toLowerCase()} reported
+                for {symbol}.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4">Line Item</th>
+                      <th className="py-2 pr-4">Trend</th>
+                      {table.periods.map((period, index) => (
+                        <th key={index} className="py-2 pr-4 text-right">
+                          {period}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.map((row) => (
+                      <tr
+                        key={row.key}
+                        className={`border-b border-gray-100 last:border-0 ${
+                          row.total ? "font-semibold bg-gray-50" : ""
+                        }`}
+                      >
+                        <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                          {row.label}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Sparkline values={row.values} />
+                        </td>
+                        {table.periods.map((_, index) => (
+                          <td key={index} className="py-2 pr-4 text-right">
+                            {renderCell(row, index)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default FinancialsTab;
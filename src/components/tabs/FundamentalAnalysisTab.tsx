@@ -14,16 +14,30 @@ import {
   Shield,
   Activity,
 } from "lucide-react";
-import { DetailedStockAnalysis, HealthStatus, MetricWithSource } from "@/types";
+import {
+  DetailedStockAnalysis,
+  HealthStatus,
+  MetricWithSource,
+  StatementName,
+} from "@/types";
 import Card, { CardContent, CardHeader } from "@/components/ui/Card";
 import FundamentalModal from "@/components/ui/FundamentalModal";
 import MetricCard from "@/components/ui/MetricCard";
+import QualityScoresCard from "@/components/stock/QualityScoresCard";
+import DuPontCard from "@/components/stock/DuPontCard";
 
 interface FundamentalAnalysisTabProps {
   stockAnalysis: DetailedStockAnalysis;
   getHealthColor: (health: HealthStatus) => string;
 }
 
+// Modal metric types for the statement ratings
+const STATEMENT_METRIC_TYPES: Record<string, StatementName> = {
+  "Income Statement": "incomeStatement",
+  "Balance Sheet": "balanceSheet",
+  "Cash Flow Statement": "cashFlow",
+};
+
 const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
   stockAnalysis,
   getHealthColor,
@@ -56,6 +70,31 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
     setSelectedMetric(null);
   };
 
+  // Statement rating badge; opens its sub-checks in the modal
+  const renderStatementBadge = (name: StatementName, metricType: string) => {
+    const health = stockAnalysis.financialHealth.statements[name];
+    const report = stockAnalysis.financialHealth.statementReports?.[name];
+    return (
+      <button
+        onClick={() =>
+          handleMetricClick(
+            metricType,
+            report
+              ? `${report.passed}/${report.evaluated} checks passed`
+              : health,
+            health
+          )
+        }
+        className={`text-xs px-2 py-1 rounded-full font-medium ${getHealthColor(
+          health
+        )}`}
+        title="See which checks passed"
+      >
+        {health}
+      </button>
+    );
+  };
+
   // Helper function to get health icon
   const getHealthIcon = (health: HealthStatus) => {
     switch (health) {
@@ -104,13 +143,7 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
                     <TrendingUp className="w-4 h-4 text-green-600 mr-2" />
                     Income Statement (வருமான அறிக்கை)
                   </h4>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full font-medium ${getHealthColor(
-                      stockAnalysis.financialHealth.statements.incomeStatement
-                    )}`}
-                  >
-                    {stockAnalysis.financialHealth.statements.incomeStatement}
-                  </span>
+                  {renderStatementBadge("incomeStatement", "Income Statement")}
                 </div>
                 <div className="space-y-2 text-sm">
                   <div
@@ -198,13 +231,7 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
                     <Building className="w-4 h-4 text-blue-600 mr-2" />
                     Balance Sheet (சொத்து நிலை அறிக்கை)
                   </h4>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full font-medium ${getHealthColor(
-                      stockAnalysis.financialHealth.statements.balanceSheet
-                    )}`}
-                  >
-                    {stockAnalysis.financialHealth.statements.balanceSheet}
-                  </span>
+                  {renderStatementBadge("balanceSheet", "Balance Sheet")}
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
@@ -237,13 +264,7 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
                     <DollarSign className="w-4 h-4 text-purple-600 mr-2" />
                     Cash Flow Statement (பண ஒட்ட அறிக்கை)
                   </h4>
-                  <span
-                    className={`text-xs px-2 py-1 rounded-full font-medium ${getHealthColor(
-                      stockAnalysis.financialHealth.statements.cashFlow
-                    )}`}
-                  >
-                    {stockAnalysis.financialHealth.statements.cashFlow}
-                  </span>
+                  {renderStatementBadge("cashFlow", "Cash Flow Statement")}
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
@@ -265,6 +286,17 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
         </Card>
       </motion.div>
 
+      {/* Piotroski, Altman and Beneish scores */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.05 }}
+      >
+        <QualityScoresCard
+          scores={stockAnalysis.financialHealth.qualityScores}
+        />
+      </motion.div>
+
       {/* 2. Profitability Ratios */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -312,6 +344,15 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
         </Card>
       </motion.div>
 
+      {/* ROE decomposition and ROCE trend */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.15 }}
+      >
+        <DuPontCard dupont={stockAnalysis.financialHealth.dupont} />
+      </motion.div>
+
       {/* 3. Liquidity & Solvency Ratios */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -686,6 +727,13 @@ const FundamentalAnalysisTab: React.FC<FundamentalAnalysisTabProps> = ({
           metricValue={selectedMetric.value}
           metricHealth={selectedMetric.health}
           stockData={stockAnalysis}
+          statementReport={
+            STATEMENT_METRIC_TYPES[selectedMetric.type]
+              ? stockAnalysis.financialHealth.statementReports?.[
+                  STATEMENT_METRIC_TYPES[selectedMetric.type]
+                ]
+              : undefined
+          }
         />
       )}
     </div>
@@ -1,32 +1,56 @@
-import React from 'react';
-import { PieChart, TrendingUp, TrendingDown, Plus, Briefcase, Star } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import {
+  History,
+  TrendingUp,
+  TrendingDown,
+  Plus,
+  Briefcase,
+  ChevronDown,
+  ChevronRight,
+  Pencil,
+  Trash2,
+  Receipt,
+  Upload,
+} from 'lucide-react';
 import { motion } from 'framer-motion';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import toast from 'react-hot-toast';
 import { useStockStore } from '@/stores/stockStore';
+import { usePortfolioStore } from '@/stores/portfolioStore';
+import { computeHoldings, matchLots, sortTransactions, summarizePortfolio } from '@/utils/portfolio';
 import Button from '@/components/ui/Button';
 import Card, { CardHeader, CardContent } from '@/components/ui/Card';
 import { HealthBadge, SignalBadge } from '@/components/ui/Badge';
-import type { Stock } from '@/types';
+import TransactionForm from '@/components/portfolio/TransactionForm';
+import CapitalGainsReport from '@/components/portfolio/CapitalGainsReport';
+import BrokerImport from '@/components/portfolio/BrokerImport';
+import type { Holding, Transaction } from '@/types';
+
+const SECTOR_COLORS = [
+  '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6',
+  '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16',
+];
 
 const HoldingsTab: React.FC = () => {
-  const {
-    stocks,
-    userPreferences,
-    toggleFavorite,
-    setSelectedStock,
-  } = useStockStore();
-
-  // Get favorite stocks (simulate holdings)
-  const favoriteStocks = stocks.filter(stock => 
-    userPreferences.favorites.includes(stock.id)
-  );
+  const { stocks, setSelectedStock } = useStockStore();
+  const { transactions, addTransaction, updateTransaction, removeTransaction } = usePortfolioStore();
 
-  // Calculate portfolio metrics
-  const totalValue = favoriteStocks.reduce((sum, stock) => sum + (stock.price * 10), 0); // Assume 10 shares each
-  const totalChange = favoriteStocks.reduce((sum, stock) => sum + (stock.change * 10), 0);
-  const totalChangePercent = totalValue > 0 ? (totalChange / (totalValue - totalChange)) * 100 : 0;
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showTransactions, setShowTransactions] = useState(false);
+  const [showTaxReport, setShowTaxReport] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Holdings are derived from the transaction history and live quotes
+  const holdings = useMemo(() => computeHoldings(transactions, stocks), [transactions, stocks]);
+  const summary = useMemo(
+    () => summarizePortfolio(holdings, matchLots(transactions).realized),
+    [holdings, transactions]
+  );
 
-  const gainers = favoriteStocks.filter(stock => stock.change > 0);
-  const losers = favoriteStocks.filter(stock => stock.change < 0);
+  const gainers = holdings.filter(h => h.dayChange > 0);
+  const losers = holdings.filter(h => h.dayChange < 0);
 
   const formatPrice = (price: number): string => {
     return new Intl.NumberFormat('en-IN', {
@@ -37,57 +61,157 @@ const HoldingsTab: React.FC = () => {
   };
 
   const formatLargeNumber = (num: number): string => {
-    if (num >= 1e7) {
-      return `₹${(num / 1e7).toFixed(2)}Cr`;
-    } else if (num >= 1e5) {
-      return `₹${(num / 1e5).toFixed(2)}L`;
+    const sign = num < 0 ? '-' : '';
+    const abs = Math.abs(num);
+    if (abs >= 1e7) {
+      return `${sign}₹${(abs / 1e7).toFixed(2)}Cr`;
+    } else if (abs >= 1e5) {
+      return `${sign}₹${(abs / 1e5).toFixed(2)}L`;
+    }
+    return `${sign}₹${abs.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+  };
+
+  const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${formatPrice(value)}`;
+  const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+  const pnlColor = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+  const openNewTransaction = () => {
+    setEditingTransaction(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditTransaction = (transaction: Transaction) => {
+    setEditingTransaction(transaction);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (transaction: Omit<Transaction, 'id'> & { id?: string }) => {
+    const { id, ...fields } = transaction;
+    const error = id ? updateTransaction({ ...fields, id }) : addTransaction(fields);
+    if (!error) {
+      toast.success(`${transaction.type === 'BUY' ? 'Buy' : 'Sell'} of ${transaction.symbol} saved`);
     }
-    return `₹${num.toLocaleString('en-IN')}`;
+    return error;
   };
 
-  const HoldingRow: React.FC<{ stock: Stock }> = ({ stock }) => (
-    <motion.div
-      initial={{ opacity: 0, y: 10 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 transition-colors cursor-pointer"
-      onClick={() => setSelectedStock(stock)}
-    >
-      <div className="flex items-center justify-between">
-        <div className="flex-1">
-          <div className="flex items-center space-x-3 mb-2">
-            <h3 className="font-semibold text-gray-900">{stock.symbol}</h3>
-            <HealthBadge health={stock.health} size="sm" />
-            <SignalBadge signal={stock.signal} size="sm" />
+  const handleDelete = (transaction: Transaction) => {
+    if (!window.confirm(`Delete this ${transaction.type} of ${transaction.symbol}?`)) return;
+    const error = removeTransaction(transaction.id);
+    if (error) {
+      toast.error(error);
+    }
+  };
+
+  const HoldingRow: React.FC<{ holding: Holding }> = ({ holding }) => {
+    const stock = stocks.find(s => s.id === holding.stockId);
+    const isExpanded = expandedId === holding.stockId;
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="border border-gray-200 rounded-lg hover:border-primary-300 transition-colors"
+      >
+        <div
+          className="p-4 flex items-center justify-between cursor-pointer"
+          onClick={() => stock && setSelectedStock(stock)}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setExpandedId(isExpanded ? null : holding.stockId);
+            }}
+            className="mr-3 p-1 rounded hover:bg-gray-100 text-gray-500"
+            title="Show lots"
+          >
+            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </button>
+          <div className="flex-1">
+            <div className="flex items-center space-x-3 mb-1">
+              <h3 className="font-semibold text-gray-900">{holding.symbol}</h3>
+              {stock && <HealthBadge health={stock.health} size="sm" />}
+              {stock && <SignalBadge signal={stock.signal} size="sm" />}
+            </div>
+            <p className="text-sm text-gray-600 mb-1">{holding.name}</p>
+            <div className="flex items-center space-x-4 text-xs text-gray-500">
+              <span>Qty: {holding.quantity}</span>
+              <span>Avg: {formatPrice(holding.averageCost)}</span>
+              <span>Invested: {formatLargeNumber(holding.investedValue)}</span>
+            </div>
           </div>
-          <p className="text-sm text-gray-600 mb-1">{stock.name}</p>
-          <div className="flex items-center space-x-4 text-xs text-gray-500">
-            <span>Qty: 10</span>
-            <span>Avg: {formatPrice(stock.price * 0.95)}</span>
+          <div className="text-right mr-6">
+            <p className="text-xs text-gray-500">LTP</p>
+            <p className="font-semibold text-gray-900">{formatPrice(holding.currentPrice)}</p>
+            <p className={`text-xs ${pnlColor(holding.dayChange)}`}>
+              {formatSigned(holding.dayChange)} ({formatPercent(holding.dayChangePercent)})
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-gray-500">Current Value</p>
+            <p className="font-semibold text-gray-900">{formatLargeNumber(holding.marketValue)}</p>
+            <p className={`text-sm ${pnlColor(holding.unrealizedPnL)}`}>
+              {formatSigned(holding.unrealizedPnL)} ({formatPercent(holding.unrealizedPnLPercent)})
+            </p>
           </div>
         </div>
-        <div className="text-right">
-          <p className="font-semibold text-gray-900">{formatPrice(stock.price)}</p>
-          <p className={`text-sm ${stock.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-            {stock.change >= 0 ? '+' : ''}{formatPrice(stock.change * 10)}
-          </p>
-          <p className={`text-xs ${stock.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-            ({stock.changePercent >= 0 ? '+' : ''}{stock.changePercent.toFixed(2)}%)
-          </p>
-        </div>
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            toggleFavorite(stock.id);
-          }}
-          className="ml-3 p-1 rounded-full hover:bg-gray-100 transition-colors"
-        >
-          <Star className="w-4 h-4 text-yellow-500 fill-current" />
-        </button>
-      </div>
-    </motion.div>
+
+        {isExpanded && (
+          <div className="px-4 pb-4">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 uppercase">
+                  <th className="py-1 text-left">Bought</th>
+                  <th className="py-1 text-right">Qty</th>
+                  <th className="py-1 text-right">Price</th>
+                  <th className="py-1 text-right">Cost / Share</th>
+                  <th className="py-1 text-right">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {holding.lots.map(lot => {
+                  const lotPnL = lot.quantity * (holding.currentPrice - lot.costPerShare);
+                  return (
+                    <tr key={lot.transactionId} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-700">{lot.date}</td>
+                      <td className="py-1 text-right text-gray-700">{lot.quantity}</td>
+                      <td className="py-1 text-right text-gray-700">{formatPrice(lot.price)}</td>
+                      <td className="py-1 text-right text-gray-700">{formatPrice(lot.costPerShare)}</td>
+                      <td className={`py-1 text-right ${pnlColor(lotPnL)}`}>{formatSigned(lotPnL)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {holding.realizedPnL !== 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Realized on earlier sells:{' '}
+                <span className={pnlColor(holding.realizedPnL)}>{formatSigned(holding.realizedPnL)}</span>
+              </p>
+            )}
+          </div>
+        )}
+      </motion.div>
+    );
+  };
+
+  const transactionModals = (
+    <>
+      <TransactionForm
+        isOpen={isFormOpen}
+        stocks={stocks}
+        transaction={editingTransaction}
+        onSubmit={handleSubmit}
+        onClose={() => setIsFormOpen(false)}
+      />
+      <BrokerImport
+        isOpen={isImportOpen}
+        stocks={stocks}
+        onClose={() => setIsImportOpen(false)}
+      />
+    </>
   );
 
-  if (favoriteStocks.length === 0) {
+  if (transactions.length === 0) {
     return (
       <div className="text-center py-12">
         <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -95,16 +219,28 @@ const HoldingsTab: React.FC = () => {
         </div>
         <h2 className="text-2xl font-bold text-gray-900 mb-2">No Holdings Yet</h2>
         <p className="text-gray-600 mb-6 max-w-md mx-auto">
-          Start building your portfolio by adding stocks to your favorites. 
-          Track their performance and get AI-powered insights.
+          Record your buy and sell transactions to track cost, profit and loss,
+          and sector allocation of your portfolio.
         </p>
-        <Button
-          variant="primary"
-          size="lg"
-          icon={<Plus className="w-5 h-5" />}
-        >
-          Explore Stocks
-        </Button>
+        <div className="flex items-center justify-center space-x-3">
+          <Button
+            variant="primary"
+            size="lg"
+            icon={<Plus className="w-5 h-5" />}
+            onClick={openNewTransaction}
+          >
+            Add Transaction
+          </Button>
+          <Button
+            variant="outline"
+            size="lg"
+            icon={<Upload className="w-5 h-5" />}
+            onClick={() => setIsImportOpen(true)}
+          >
+            Import from Broker
+          </Button>
+        </div>
+        {transactionModals}
       </div>
     );
   }
@@ -118,23 +254,19 @@ const HoldingsTab: React.FC = () => {
             <div className="text-center">
               <h3 className="text-sm font-medium text-gray-600 mb-1">Portfolio Value</h3>
               <p className="text-3xl font-bold text-gray-900 mb-2">
-                {formatLargeNumber(totalValue)}
+                {formatLargeNumber(summary.marketValue)}
               </p>
               <div className="flex items-center justify-center space-x-1">
-                {totalChange >= 0 ? (
+                {summary.dayChange >= 0 ? (
                   <TrendingUp className="w-4 h-4 text-green-600" />
                 ) : (
                   <TrendingDown className="w-4 h-4 text-red-600" />
                 )}
-                <span className={`font-medium ${
-                  totalChange >= 0 ? 'text-green-600' : 'text-red-600'
-                }`}>
-                  {totalChange >= 0 ? '+' : ''}{formatPrice(totalChange)}
+                <span className={`font-medium ${pnlColor(summary.dayChange)}`}>
+                  {formatSigned(summary.dayChange)}
                 </span>
-                <span className={`text-sm ${
-                  totalChange >= 0 ? 'text-green-600' : 'text-red-600'
-                }`}>
-                  ({totalChangePercent >= 0 ? '+' : ''}{totalChangePercent.toFixed(2)}%)
+                <span className={`text-sm ${pnlColor(summary.dayChange)}`}>
+                  ({formatPercent(summary.dayChangePercent)}) today
                 </span>
               </div>
             </div>
@@ -144,9 +276,13 @@ const HoldingsTab: React.FC = () => {
         <Card>
           <CardContent>
             <div className="text-center">
-              <h4 className="text-sm font-medium text-gray-600 mb-1">Holdings</h4>
-              <p className="text-2xl font-bold text-gray-900">{favoriteStocks.length}</p>
-              <p className="text-xs text-gray-500">stocks</p>
+              <h4 className="text-sm font-medium text-gray-600 mb-1">Unrealized P&L</h4>
+              <p className={`text-2xl font-bold ${pnlColor(summary.unrealizedPnL)}`}>
+                {formatLargeNumber(summary.unrealizedPnL)}
+              </p>
+              <p className={`text-xs ${pnlColor(summary.unrealizedPnL)}`}>
+                {formatPercent(summary.unrealizedPnLPercent)} on {formatLargeNumber(summary.investedValue)}
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -154,17 +290,13 @@ const HoldingsTab: React.FC = () => {
         <Card>
           <CardContent>
             <div className="text-center">
-              <h4 className="text-sm font-medium text-gray-600 mb-1">Performance</h4>
-              <div className="flex justify-center space-x-4">
-                <div className="text-center">
-                  <p className="text-lg font-semibold text-green-600">{gainers.length}</p>
-                  <p className="text-xs text-gray-500">Gainers</p>
-                </div>
-                <div className="text-center">
-                  <p className="text-lg font-semibold text-red-600">{losers.length}</p>
-                  <p className="text-xs text-gray-500">Losers</p>
-                </div>
-              </div>
+              <h4 className="text-sm font-medium text-gray-600 mb-1">Realized P&L</h4>
+              <p className={`text-2xl font-bold ${pnlColor(summary.realizedPnL)}`}>
+                {formatLargeNumber(summary.realizedPnL)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {holdings.length} holdings · {gainers.length} up · {losers.length} down
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -175,78 +307,192 @@ const HoldingsTab: React.FC = () => {
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-gray-900">Your Holdings</h3>
           <div className="flex items-center space-x-2">
-            <Button variant="outline" size="sm" icon={<PieChart className="w-4 h-4" />}>
-              Analytics
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Receipt className="w-4 h-4" />}
+              onClick={() => setShowTaxReport(!showTaxReport)}
+            >
+              {showTaxReport ? 'Hide Tax Report' : 'Tax Report'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<History className="w-4 h-4" />}
+              onClick={() => setShowTransactions(!showTransactions)}
+            >
+              {showTransactions ? 'Hide Transactions' : 'Transactions'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Upload className="w-4 h-4" />}
+              onClick={() => setIsImportOpen(true)}
+            >
+              Import
             </Button>
-            <Button variant="primary" size="sm" icon={<Plus className="w-4 h-4" />}>
-              Add Stock
+            <Button
+              variant="primary"
+              size="sm"
+              icon={<Plus className="w-4 h-4" />}
+              onClick={openNewTransaction}
+            >
+              Add Transaction
             </Button>
           </div>
         </div>
 
-        <div className="space-y-4">
-          {favoriteStocks.map(stock => (
-            <HoldingRow key={stock.id} stock={stock} />
-          ))}
-        </div>
+        {holdings.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center border border-dashed border-gray-200 rounded-lg">
+            All positions are closed. Realized P&L is shown above.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {holdings.map(holding => (
+              <HoldingRow key={holding.stockId} holding={holding} />
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* Performance Summary */}
-      {gainers.length > 0 || losers.length > 0 ? (
+      {/* Capital Gains Tax */}
+      {showTaxReport && <CapitalGainsReport holdings={holdings} />}
+
+      {/* Transaction History */}
+      {showTransactions && (
+        <Card>
+          <CardHeader title="Transaction History" subtitle={`${transactions.length} transactions`} />
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4 text-left">Date</th>
+                    <th className="py-2 pr-4 text-left">Stock</th>
+                    <th className="py-2 pr-4 text-left">Type</th>
+                    <th className="py-2 pr-4 text-right">Qty</th>
+                    <th className="py-2 pr-4 text-right">Price</th>
+                    <th className="py-2 pr-4 text-right">Costs</th>
+                    <th className="py-2 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortTransactions(transactions).reverse().map(transaction => (
+                    <tr key={transaction.id} className="border-t border-gray-100">
+                      <td className="py-2 pr-4 text-gray-700">{transaction.date}</td>
+                      <td className="py-2 pr-4 font-medium text-gray-900">{transaction.symbol}</td>
+                      <td
+                        className={`py-2 pr-4 font-medium ${
+                          transaction.type === 'BUY' ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {transaction.type}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{transaction.quantity}</td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{formatPrice(transaction.price)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-500">
+                        {formatPrice(transaction.brokerage + transaction.charges)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => openEditTransaction(transaction)}
+                          className="p-1 text-gray-400 hover:text-primary-600"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(transaction)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Allocation and Day Movers */}
+      {holdings.length > 0 && (
         <div className="grid md:grid-cols-2 gap-6">
-          {gainers.length > 0 && (
-            <Card>
-              <CardHeader 
-                title="Top Performers" 
-                action={
-                  <div className="text-green-600">
-                    <TrendingUp className="w-5 h-5" />
-                  </div>
-                }
-              />
-              <CardContent>
-                <div className="space-y-3">
-                  {gainers.slice(0, 5).map(stock => (
-                    <div key={stock.id} className="flex items-center justify-between">
-                      <span className="font-medium text-gray-900">{stock.symbol}</span>
-                      <span className="text-sm font-medium text-green-600">
-                        +{stock.changePercent.toFixed(2)}%
-                      </span>
+          <Card>
+            <CardHeader title="Sector Allocation" />
+            <CardContent>
+              <div className="flex items-center">
+                <div className="w-40 h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={summary.allocation}
+                        dataKey="value"
+                        nameKey="sector"
+                        innerRadius={40}
+                        outerRadius={70}
+                        paddingAngle={1}
+                      >
+                        {summary.allocation.map((entry, index) => (
+                          <Cell key={entry.sector} fill={SECTOR_COLORS[index % SECTOR_COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip formatter={(value) => formatLargeNumber(Number(value))} />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex-1 ml-6 space-y-2">
+                  {summary.allocation.map((entry, index) => (
+                    <div key={entry.sector} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center space-x-2">
+                        <span
+                          className="w-3 h-3 rounded-sm"
+                          style={{ backgroundColor: SECTOR_COLORS[index % SECTOR_COLORS.length] }}
+                        />
+                        <span className="text-gray-700">{entry.sector}</span>
+                      </div>
+                      <span className="font-medium text-gray-900">{entry.weight.toFixed(1)}%</span>
                     </div>
                   ))}
                 </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {losers.length > 0 && (
-            <Card>
-              <CardHeader 
-                title="Needs Attention" 
-                action={
-                  <div className="text-red-600">
-                    <TrendingDown className="w-5 h-5" />
-                  </div>
-                }
-              />
-              <CardContent>
-                <div className="space-y-3">
-                  {losers.slice(0, 5).map(stock => (
-                    <div key={stock.id} className="flex items-center justify-between">
-                      <span className="font-medium text-gray-900">{stock.symbol}</span>
-                      <span className="text-sm font-medium text-red-600">
-                        {stock.changePercent.toFixed(2)}%
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader
+              title="Today's Movers"
+              action={
+                <div className={pnlColor(summary.dayChange)}>
+                  {summary.dayChange >= 0 ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+                </div>
+              }
+            />
+            <CardContent>
+              <div className="space-y-3">
+                {[...holdings]
+                  .sort((a, b) => Math.abs(b.dayChange) - Math.abs(a.dayChange))
+                  .slice(0, 5)
+                  .map(holding => (
+                    <div key={holding.stockId} className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{holding.symbol}</span>
+                      <span className={`text-sm font-medium ${pnlColor(holding.dayChange)}`}>
+                        {formatSigned(holding.dayChange)} ({formatPercent(holding.dayChangePercent)})
                       </span>
                     </div>
                   ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+              </div>
+            </CardContent>
+          </Card>
         </div>
-      ) : null}
+      )}
+
+      {transactionModals}
     </div>
   );
 };
 
-export default HoldingsTab;
\ No newline at end of file
+export default HoldingsTab;
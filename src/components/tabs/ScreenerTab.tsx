@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { Filter, Play, Save, Trash2, CopyPlus, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useStockStore } from '@/stores/stockStore';
+import { useScreenerStore } from '@/stores/screenerStore';
+import StockTable from '@/components/stock/StockTable';
+import ScreenerRuleBuilder from '@/components/stock/ScreenerRuleBuilder';
+import Button from '@/components/ui/Button';
+import Card, { CardContent } from '@/components/ui/Card';
+import { compareValues, sortStocks } from '@/utils/stockSort';
+import {
+  SCREENER_FIELDS,
+  STOCK_TABLE_FIELDS,
+  addChild,
+  countRules,
+  createGroup,
+  createRule,
+  createScreenerContext,
+  describeNode,
+  fieldValue,
+  formatScreenerValue,
+  referencedFields,
+  removeNode,
+  runScreen,
+  updateNode,
+  validateScreen,
+} from '@/utils/screener';
+import type {
+  ExtraSortOption,
+  ScreenerField,
+  ScreenerGroup,
+  SortOption,
+  StockTableExtraColumn,
+} from '@/types';
+
+// Sort on either a Stock field or one of the rule columns
+type ScreenerSort =
+  | { kind: 'stock'; option: SortOption }
+  | { kind: 'extra'; option: ExtraSortOption };
+
+const newScreen = (): ScreenerGroup => createGroup('AND', [createRule()]);
+
+const ScreenerTab: React.FC = () => {
+  const { stocks, userPreferences, setSelectedStock, toggleFavorite } = useStockStore();
+  const { screens, saveScreen, deleteScreen, markScreenRun } = useScreenerStore();
+
+  const [draft, setDraft] = useState<ScreenerGroup>(newScreen);
+  const [name, setName] = useState('');
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+  // The screen as it was last run; results follow live quotes until the next run
+  const [ranScreen, setRanScreen] = useState<ScreenerGroup | null>(null);
+  const [sort, setSort] = useState<ScreenerSort>({
+    kind: 'stock',
+    option: { field: 'marketCap', direction: 'desc' },
+  });
+
+  const context = useMemo(() => createScreenerContext(stocks), [stocks]);
+
+  const results = useMemo(() => {
+    if (!ranScreen) return [];
+    const matched = runScreen(ranScreen, stocks);
+    if (sort.kind === 'stock') return sortStocks(matched, sort.option);
+
+    const field = sort.option.key as ScreenerField;
+    return [...matched].sort((a, b) =>
+      compareValues(fieldValue(a, field, context), fieldValue(b, field, context), sort.option.direction)
+    );
+  }, [ranScreen, stocks, sort, context]);
+
+  const extraColumns: StockTableExtraColumn[] = ranScreen
+    ? referencedFields(ranScreen)
+        .filter(field => !STOCK_TABLE_FIELDS.includes(field))
+        .map(field => ({
+          key: field,
+          title: SCREENER_FIELDS[field].label,
+          sortable: true,
+          width: '110px',
+          render: (stock) => (
+            <span className="font-medium text-gray-900">
+              {formatScreenerValue(field, fieldValue(stock, field, context))}
+            </span>
+          ),
+        }))
+    : [];
+
+  const run = (root: ScreenerGroup, screenId: string | null) => {
+    const error = validateScreen(root);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setRanScreen(root);
+    if (screenId) markScreenRun(screenId);
+  };
+
+  const handleLoad = (screenId: string) => {
+    const screen = screens.find(s => s.id === screenId);
+    if (!screen) return;
+    setDraft(screen.root);
+    setName(screen.name);
+    setActiveScreenId(screen.id);
+    run(screen.root, screen.id);
+  };
+
+  const handleSave = (asNew: boolean) => {
+    const error = validateScreen(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    let screenName = name;
+    if (asNew || !screenName.trim()) {
+      const entered = window.prompt('Screen name', screenName);
+      if (entered === null) return;
+      screenName = entered;
+    }
+    const id = saveScreen(screenName, draft, asNew ? undefined : activeScreenId ?? undefined);
+    setActiveScreenId(id);
+    setName(screenName.trim() || 'Untitled screen');
+    toast.success('Screen saved');
+  };
+
+  const handleDelete = (screenId: string, screenName: string) => {
+    if (!window.confirm(`Delete the screen "${screenName}"?`)) return;
+    deleteScreen(screenId);
+    if (activeScreenId === screenId) setActiveScreenId(null);
+  };
+
+  const handleReset = () => {
+    setDraft(newScreen());
+    setName('');
+    setActiveScreenId(null);
+    setRanScreen(null);
+  };
+
+  return (
+    <div className="grid lg:grid-cols-4 gap-6">
+      {/* Saved screens */}
+      <Card className="lg:col-span-1 h-fit">
+        <CardContent>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">சேமித்த திரைகள் (Saved Screens)</h3>
+          {screens.length === 0 ? (
+            <p className="text-sm text-gray-500">Save a screen to rerun it later.</p>
+          ) : (
+            <div className="space-y-1">
+              {screens.map(screen => (
+                <div
+                  key={screen.id}
+                  className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer ${
+                    activeScreenId === screen.id ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50 text-gray-700'
+                  }`}
+                  onClick={() => handleLoad(screen.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm font-medium">{screen.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {countRules(screen.root)} rules
+                      {screen.lastRunAt && ` · run ${new Date(screen.lastRunAt).toLocaleDateString('en-IN')}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(screen.id, screen.name);
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-3 space-y-4">
+        {/* Rule builder */}
+        <Card>
+          <CardContent>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Untitled screen"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-900"
+              />
+              <div className="flex items-center space-x-2">
+                <Button size="sm" variant="outline" icon={<RotateCcw className="w-4 h-4" />} onClick={handleReset}>
+                  New
+                </Button>
+                {activeScreenId && (
+                  <Button size="sm" variant="outline" icon={<CopyPlus className="w-4 h-4" />} onClick={() => handleSave(true)}>
+                    Save As
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" icon={<Save className="w-4 h-4" />} onClick={() => handleSave(false)}>
+                  Save
+                </Button>
+                <Button size="sm" variant="primary" icon={<Play className="w-4 h-4" />} onClick={() => run(draft, activeScreenId)}>
+                  Run
+                </Button>
+              </div>
+            </div>
+
+            <ScreenerRuleBuilder
+              group={draft}
+              onUpdate={(id, update) => setDraft(prev => updateNode(prev, id, update))}
+              onRemove={(id) => setDraft(prev => removeNode(prev, id))}
+              onAdd={(groupId, child) => setDraft(prev => addChild(prev, groupId, child))}
+            />
+
+            <p className="mt-4 text-xs text-gray-500 font-mono break-words">{describeNode(draft)}</p>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {ranScreen ? (
+          <>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {results.length} of {stocks.length} stocks match
+            </h3>
+            <StockTable
+              stocks={results}
+              sortOption={sort.kind === 'stock' ? sort.option : undefined}
+              onSort={(option) => setSort({ kind: 'stock', option })}
+              extraColumns={extraColumns}
+              extraSortOption={sort.kind === 'extra' ? sort.option : undefined}
+              onExtraSort={(option) => setSort({ kind: 'extra', option })}
+              onStockSelect={setSelectedStock}
+              onFavoriteToggle={toggleFavorite}
+              favoriteStocks={userPreferences.favorites}
+              showPagination
+              emptyMessage="No stocks match this screen"
+            />
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Filter className="w-12 h-12 text-gray-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Build a Screen</h2>
+            <p className="text-gray-600 max-w-md mx-auto">
+              Combine rules with AND / OR groups, compare against sector or market medians,
+              then run the screen to see matching stocks.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScreenerTab;
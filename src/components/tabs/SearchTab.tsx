@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Search, TrendingUp, Filter, Star, Clock } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useStockStore } from '@/stores/stockStore';
@@ -6,6 +6,8 @@ import SearchInput from '@/components/ui/SearchInput';
 import Button from '@/components/ui/Button';
 import Card, { CardHeader, CardContent } from '@/components/ui/Card';
 import { HealthBadge, SignalBadge } from '@/components/ui/Badge';
+import AddToWatchlistButton from '@/components/stock/AddToWatchlistButton';
+import { getQueryCompletions } from '@/utils/screenerQuery';
 import type { Stock } from '@/types';
 
 const SearchTab: React.FC = () => {
@@ -13,6 +15,7 @@ const SearchTab: React.FC = () => {
     stocks,
     filteredStocks,
     searchQuery,
+    searchQueryErrors,
     userPreferences,
     setSearchQuery,
     toggleFavorite,
@@ -28,6 +31,12 @@ const SearchTab: React.FC = () => {
   ]);
 
 
+  // Values offered when completing `sector:` and `industry:` terms
+  const queryValues = useMemo(() => ({
+    sector: stocks.map(stock => stock.sector),
+    industry: stocks.map(stock => stock.industry),
+  }), [stocks]);
+
   const handleStockSelect = (stock: Stock) => {
     setSelectedStock(stock);
     console.log('Selected stock:', stock);
@@ -73,12 +82,13 @@ const SearchTab: React.FC = () => {
             {stock.change >= 0 ? '+' : ''}{stock.changePercent.toFixed(2)}%
           </p>
         </div>
+        <AddToWatchlistButton stockId={stock.id} className="ml-3" />
         <button
           onClick={(e) => {
             e.stopPropagation();
             toggleFavorite(stock.id);
           }}
-          className="ml-3 p-1 rounded-full hover:bg-gray-100 transition-colors"
+          className="ml-1 p-1 rounded-full hover:bg-gray-100 transition-colors"
         >
           <Star 
             className={`w-4 h-4 ${
@@ -109,10 +119,17 @@ const SearchTab: React.FC = () => {
           onChange={setSearchQuery}
           suggestions={stocks}
           onSuggestionSelect={handleStockSelect}
-          placeholder="Search by company name, symbol, or sector..."
+          placeholder="Search by name, or filter like sector:Banking pe<20 sort:-marketCap"
           size="lg"
           maxSuggestions={8}
+          getCompletions={(value, cursor) => getQueryCompletions(value, cursor, queryValues)}
+          errors={searchQueryErrors}
         />
+        <p className="mt-2 text-xs text-gray-500">
+          Combine terms like <code>roe&gt;=15</code>, <code>de&lt;0.5</code>,{' '}
+          <code>pe&lt;sectorMedian</code>, <code>marketCap&gt;50000cr</code>,{' '}
+          <code>health:GOOD,BEST</code> and <code>sort:-roe</code>; every term must match.
+        </p>
       </div>
 
       {/* Search Results */}
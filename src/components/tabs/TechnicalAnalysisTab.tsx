@@ -69,6 +69,34 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
     setSelectedIndicator(null);
   };
 
+  // Values computed from price history (undefined when only estimates exist)
+  const technicalData = stockAnalysis.technicalData;
+  const formatLevel = (value?: number | null, digits: number = 1) =>
+    value === undefined || value === null ? "N/A" : value.toFixed(digits);
+  const zoneLabel = (value?: number | null, low: number = 30, high: number = 70) =>
+    value === undefined || value === null
+      ? "N/A"
+      : value <= low
+      ? "Oversold"
+      : value >= high
+      ? "Overbought"
+      : "Neutral";
+  const zoneColor = (value?: number | null, low: number = 30, high: number = 70) =>
+    value === undefined || value === null
+      ? "text-gray-500"
+      : value <= low
+      ? "text-green-600"
+      : value >= high
+      ? "text-red-600"
+      : "text-gray-700";
+  const levelDetails = (price: number, type: "support" | "resistance") =>
+    technicalData?.priceLevels.find(
+      (level) => level.type === type && level.price === price
+    );
+  const macdBullish = technicalData
+    ? technicalData.macd.value > technicalData.macd.signal
+    : undefined;
+
   // Helper function to render indicator card
   const renderIndicatorCard = (
     indicator: TechnicalIndicatorHealth,
@@ -335,68 +363,90 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
             )}
 
             <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-              {/* RSI(2) */}
+              {/* RSI(3) */}
               <div className="p-4 bg-blue-25 rounded-lg border border-blue-100">
                 <h4 className="text-sm font-semibold text-blue-900 mb-3 flex items-center">
                   <Circle className="w-4 h-4 mr-2" />
-                  RSI(2)
+                  RSI(3)
                 </h4>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-gray-600">Current Value</span>
-                    <span className="font-semibold text-blue-700">25.8</span>
+                    <span className="font-semibold text-blue-700">
+                      {formatLevel(technicalData?.connorsRsi.priceRsi)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Status</span>
-                    <span className="text-green-600 font-medium">Oversold</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Signal</span>
-                    <span className="text-green-600 font-medium">Buy</span>
+                    <span
+                      className={`font-medium ${zoneColor(
+                        technicalData?.connorsRsi.priceRsi,
+                        25,
+                        75
+                      )}`}
+                    >
+                      {zoneLabel(technicalData?.connorsRsi.priceRsi, 25, 75)}
+                    </span>
                   </div>
                 </div>
               </div>
 
-              {/* RSI-25/75 */}
+              {/* Streak RSI(2) */}
               <div className="p-4 bg-blue-25 rounded-lg border border-blue-100">
                 <h4 className="text-sm font-semibold text-blue-900 mb-3 flex items-center">
                   <Triangle className="w-4 h-4 mr-2" />
-                  RSI-25/75
+                  Streak RSI(2)
                 </h4>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-gray-600">RSI-25</span>
-                    <span className="font-semibold text-blue-700">28.5</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">RSI-75</span>
-                    <span className="font-semibold text-blue-700">72.1</span>
+                    <span className="text-gray-600">Current Value</span>
+                    <span className="font-semibold text-blue-700">
+                      {formatLevel(technicalData?.connorsRsi.streakRsi)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Signal</span>
-                    <span className="text-green-600 font-medium">Buy Zone</span>
+                    <span className="text-gray-600">Status</span>
+                    <span
+                      className={`font-medium ${zoneColor(
+                        technicalData?.connorsRsi.streakRsi,
+                        25,
+                        75
+                      )}`}
+                    >
+                      {zoneLabel(technicalData?.connorsRsi.streakRsi, 25, 75)}
+                    </span>
                   </div>
                 </div>
               </div>
 
-              {/* Cumulative RSI */}
+              {/* Percent Rank(100) */}
               <div className="p-4 bg-blue-25 rounded-lg border border-blue-100">
                 <h4 className="text-sm font-semibold text-blue-900 mb-3 flex items-center">
                   <BarChart3 className="w-4 h-4 mr-2" />
-                  CumRSI
+                  Percent Rank(100)
                 </h4>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Cum Value</span>
-                    <span className="font-semibold text-blue-700">68.2</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Trend</span>
-                    <span className="text-green-600 font-medium">Bullish</span>
+                    <span className="text-gray-600">Current Value</span>
+                    <span className="font-semibold text-blue-700">
+                      {formatLevel(technicalData?.connorsRsi.percentRank, 0)}
+                    </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Strength</span>
-                    <span className="text-green-600 font-medium">Strong</span>
+                    <span className="text-gray-600">Today's Move</span>
+                    <span
+                      className={`font-medium ${zoneColor(
+                        technicalData?.connorsRsi.percentRank,
+                        20,
+                        80
+                      )}`}
+                    >
+                      {technicalData && technicalData.connorsRsi.percentRank !== null
+                        ? technicalData.connorsRsi.percentRank >= 50
+                          ? "Above typical"
+                          : "Below typical"
+                        : "N/A"}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -431,25 +481,48 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">MACD Line</span>
                     <span className="text-sm font-semibold text-purple-700">
-                      2.85
+                      {formatLevel(technicalData?.macd.value, 2)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Signal Line</span>
                     <span className="text-sm font-semibold text-purple-700">
-                      1.92
+                      {formatLevel(technicalData?.macd.signal, 2)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Histogram</span>
-                    <span className="text-sm font-semibold text-green-600">
-                      +0.93
+                    <span
+                      className={`text-sm font-semibold ${
+                        !technicalData
+                          ? "text-gray-500"
+                          : technicalData.macd.histogram >= 0
+                          ? "text-green-600"
+                          : "text-red-600"
+                      }`}
+                    >
+                      {technicalData && technicalData.macd.histogram >= 0
+                        ? "+"
+                        : ""}
+                      {formatLevel(technicalData?.macd.histogram, 2)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Crossover</span>
-                    <span className="text-sm font-semibold text-green-600">
-                      Bullish
+                    <span
+                      className={`text-sm font-semibold ${
+                        macdBullish === undefined
+                          ? "text-gray-500"
+                          : macdBullish
+                          ? "text-green-600"
+                          : "text-red-600"
+                      }`}
+                    >
+                      {macdBullish === undefined
+                        ? "N/A"
+                        : macdBullish
+                        ? "Bullish"
+                        : "Bearish"}
                     </span>
                   </div>
                 </div>
@@ -550,34 +623,43 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
                   Moving Averages
                 </h4>
                 <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">5-DMA</span>
-                    <span className="text-sm font-semibold text-gray-900">
-                      ₹1,235
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">20-DMA</span>
-                    <span className="text-sm font-semibold text-gray-900">
-                      ₹1,215
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">50-DMA</span>
-                    <span className="text-sm font-semibold text-gray-900">
-                      ₹1,180
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">200-DMA</span>
-                    <span className="text-sm font-semibold text-green-600">
-                      ₹1,095
-                    </span>
-                  </div>
+                  {[
+                    { label: "20-DMA", value: technicalData?.sma20 },
+                    { label: "50-DMA", value: technicalData?.sma50 },
+                    { label: "200-DMA", value: technicalData?.sma200 },
+                    { label: "20-EMA", value: technicalData?.ema20 },
+                    { label: "50-EMA", value: technicalData?.ema50 },
+                    { label: "200-EMA", value: technicalData?.ema200 },
+                  ].map(({ label, value }) => {
+                    const available = value !== undefined && value !== null;
+                    return (
+                      <div
+                        key={label}
+                        className="flex justify-between items-center"
+                      >
+                        <span className="text-sm text-gray-600">{label}</span>
+                        <span
+                          className={`text-sm font-semibold ${
+                            !available
+                              ? "text-gray-500"
+                              : stockAnalysis.currentPrice >= (value as number)
+                              ? "text-green-600"
+                              : "text-red-600"
+                          }`}
+                        >
+                          {available ? formatCurrency(value as number) : "N/A"}
+                        </span>
+                      </div>
+                    );
+                  })}
                   <div className="p-2 bg-blue-100 rounded">
                     <p className="text-xs text-blue-800">
-                      <strong>Trend:</strong> Bullish above 200-DMA, short-term
-                      consolidation
+                      <strong>Bollinger (20, 2):</strong>{" "}
+                      {technicalData
+                        ? `${formatCurrency(
+                            technicalData.bollinger.lower
+                          )} – ${formatCurrency(technicalData.bollinger.upper)}`
+                        : "N/A"}
                     </p>
                   </div>
                 </div>
@@ -630,9 +712,17 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
                                 : "bg-green-400"
                             }`}
                           />
-                          <span className="text-sm font-medium text-green-900">
-                            Support {index + 1}
-                          </span>
+                          <div>
+                            <span className="text-sm font-medium text-green-900">
+                              Support {index + 1}
+                            </span>
+                            {levelDetails(level, "support") && (
+                              <p className="text-xs text-green-700">
+                                {levelDetails(level, "support")?.touches} touches ·
+                                strength {levelDetails(level, "support")?.strength}
+                              </p>
+                            )}
+                          </div>
                         </div>
                         <span className="text-lg font-bold text-green-700">
                           ₹{level}
@@ -679,9 +769,17 @@ const TechnicalAnalysisTab: React.FC<TechnicalAnalysisTabProps> = ({
                                 : "bg-red-400"
                             }`}
                           />
-                          <span className="text-sm font-medium text-red-900">
-                            Resistance {index + 1}
-                          </span>
+                          <div>
+                            <span className="text-sm font-medium text-red-900">
+                              Resistance {index + 1}
+                            </span>
+                            {levelDetails(level, "resistance") && (
+                              <p className="text-xs text-red-700">
+                                {levelDetails(level, "resistance")?.touches} touches ·
+                                strength {levelDetails(level, "resistance")?.strength}
+                              </p>
+                            )}
+                          </div>
                         </div>
                         <span className="text-lg font-bold text-red-700">
                           ₹{level}
@@ -0,0 +1,469 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Calculator, Grid3X3, RefreshCw, Save, Trash2 } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import toast from "react-hot-toast";
+import { DCFInputs, DCFSeed } from "@/types";
+import Card, { CardContent, CardHeader } from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import { hybridStockService } from "@/services/hybridStockService";
+import {
+  buildSensitivityGrid,
+  dcfInputProblem,
+  runDCF,
+} from "@/utils/dcf";
+import { periodLabel } from "@/utils/financialStatements";
+import {
+  useDCFScenarioStore,
+  useDCFScenarios,
+} from "@/stores/dcfScenarioStore";
+
+interface ValuationTabProps {
+  symbol: string;
+  currentPrice: number;
+  formatCurrency: (amount: number) => string;
+}
+
+const CRORE = 1e7;
+
+// Editable inputs, grouped as on the form; amounts are entered in crore
+const INPUT_GROUPS: Array<{
+  title: string;
+  fields: Array<{ key: keyof DCFInputs; label: string; step: number; scale?: number }>;
+}> = [
+  {
+    title: "Cash flow growth",
+    fields: [
+      { key: "baseFcf", label: "Base free cash flow (₹ Cr)", step: 100, scale: CRORE },
+      { key: "stage1Growth", label: "Stage 1 growth (%)", step: 0.5 },
+      { key: "stage1Years", label: "Stage 1 years", step: 1 },
+      { key: "stage2Growth", label: "Stage 2 growth (%)", step: 0.5 },
+      { key: "stage2Years", label: "Stage 2 years", step: 1 },
+      { key: "terminalGrowth", label: "Terminal growth (%)", step: 0.25 },
+    ],
+  },
+  {
+    title: "Discount rate",
+    fields: [
+      { key: "riskFreeRate", label: "Risk-free rate (%)", step: 0.25 },
+      { key: "equityRiskPremium", label: "Equity risk premium (%)", step: 0.25 },
+      { key: "beta", label: "Beta", step: 0.05 },
+      { key: "costOfDebt", label: "Pre-tax cost of debt (%)", step: 0.25 },
+      { key: "taxRate", label: "Tax rate (%)", step: 1 },
+      { key: "debtWeight", label: "Debt weight (%)", step: 1 },
+    ],
+  },
+  {
+    title: "Equity bridge",
+    fields: [
+      { key: "netDebt", label: "Net debt (₹ Cr)", step: 100, scale: CRORE },
+      { key: "sharesOutstanding", label: "Shares outstanding (Cr)", step: 1, scale: CRORE },
+    ],
+  },
+];
+
+const formatCrore = (value: number) =>
+  Number.isFinite(value)
+    ? `₹${(value / CRORE).toLocaleString("en-IN", { maximumFractionDigits: 0 })} Cr`
+    : "—";
+
+const formatPct = (value: number, digits: number = 1) =>
+  Number.isFinite(value) ? `${value.toFixed(digits)}%` : "—";
+
+const ValuationTab: React.FC<ValuationTabProps> = ({
+  symbol,
+  currentPrice,
+  formatCurrency,
+}) => {
+  const [seed, setSeed] = useState<DCFSeed | null>(null);
+  const [inputs, setInputs] = useState<DCFInputs | null>(null);
+  const [scenarioId, setScenarioId] = useState<string | undefined>();
+  const [scenarioName, setScenarioName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const scenarios = useDCFScenarios(symbol);
+  const saveScenario = useDCFScenarioStore((state) => state.saveScenario);
+  const deleteScenario = useDCFScenarioStore((state) => state.deleteScenario);
+
+  const loadSeed = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const loaded = await hybridStockService.getDCFSeed(symbol);
+      setSeed(loaded);
+      setInputs(loaded?.inputs ?? null);
+      setScenarioId(undefined);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`❌ Failed to load DCF inputs for ${symbol}: ${msg}`);
+      setError(msg);
+      setSeed(null);
+      setInputs(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    void loadSeed();
+  }, [loadSeed]);
+
+  const result = useMemo(
+    () => (inputs ? runDCF(inputs, currentPrice) : null),
+    [inputs, currentPrice]
+  );
+  const grid = useMemo(
+    () => (inputs ? buildSensitivityGrid(inputs) : null),
+    [inputs]
+  );
+
+  const projectionData = useMemo(
+    () =>
+      result?.projections.map((p) => ({
+        year: `Y${p.year}`,
+        freeCashFlow: Math.round(p.freeCashFlow / CRORE),
+        presentValue: Math.round(p.presentValue / CRORE),
+      })) ?? [],
+    [result]
+  );
+
+  const updateInput = (key: keyof DCFInputs, value: number) =>
+    setInputs((current) => (current ? { ...current, [key]: value } : current));
+
+  const handleSave = () => {
+    if (!inputs) return;
+    const id = saveScenario(symbol, scenarioName, inputs, scenarioId);
+    setScenarioId(id);
+    toast.success(`Scenario ${scenarioId ? "updated" : "saved"} for ${symbol}`);
+  };
+
+  const handleReset = () => {
+    setInputs(seed?.inputs ?? null);
+    setScenarioId(undefined);
+    setScenarioName("");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner className="w-8 h-8" />
+      </div>
+    );
+  }
+
+  if (error || !seed || !inputs) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-gray-500">
+          {error
+            ? `Couldn't load valuation inputs: ${error}`
+            : `No free cash flow reported for ${symbol}, so there's nothing to discount.`}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          icon={<RefreshCw className="w-4 h-4" />}
+          onClick={loadSeed}
+        >
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  const problem = dcfInputProblem(inputs);
+  const undervalued = result ? result.marginOfSafety >= 0 : false;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card>
+          <CardHeader
+            title="DCF Valuation (தள்ளுபடி பணப்புழக்க மதிப்பீடு)"
+            subtitle="Two growth stages and a terminal value, discounted at WACC"
+            action={<Calculator className="w-6 h-6 text-indigo-600" />}
+          />
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Inputs */}
+              <div className="lg:col-span-2 space-y-5">
+                <p className="text-xs text-gray-500">
+                  Free cash flow history:{" "}
+                  {seed.history
+                    .map((h) => `${periodLabel(h, "annual")} ${formatCrore(h.freeCashFlow)}`)
+                    .join(" · ")}
+                </p>
+                {INPUT_GROUPS.map((group) => (
+                  <div key={group.title}>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                      {group.title}
+                    </h4>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {group.fields.map((field) => {
+                        const scale = field.scale ?? 1;
+                        const value = inputs[field.key] / scale;
+                        return (
+                          <label key={field.key} className="block">
+                            <span className="text-xs text-gray-600">
+                              {field.label}
+                            </span>
+                            <input
+                              type="number"
+                              step={field.step}
+                              value={Number.isFinite(value) ? Number(value.toFixed(2)) : ""}
+                              onChange={(e) =>
+                                updateInput(field.key, parseFloat(e.target.value) * scale)
+                              }
+                              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                            />
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Result */}
+              <div className="space-y-4">
+                {!result ? (
+                  <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                    {problem ?? "These inputs can't be valued."}
+                  </div>
+                ) : (
+                  <>
+                    <div
+                      className={`p-4 rounded-lg border ${
+                        undervalued
+                          ? "bg-green-50 border-green-200"
+                          : "bg-red-50 border-red-200"
+                      }`}
+                    >
+                      <p className="text-xs text-gray-600">Fair value per share</p>
+                      <p className="text-3xl font-bold text-gray-900">
+                        {formatCurrency(result.fairValue)}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        vs {formatCurrency(currentPrice)} today
+                      </p>
+                      <p
+                        className={`text-sm font-semibold mt-2 ${
+                          undervalued ? "text-green-700" : "text-red-700"
+                        }`}
+                      >
+                        {undervalued
+                          ? `${formatPct(result.marginOfSafety)} margin of safety`
+                          : `Price is ${formatPct(-result.marginOfSafety)} above fair value`}
+                      </p>
+                    </div>
+                    <dl className="text-sm space-y-2">
+                      {[
+                        ["Cost of equity", formatPct(result.costOfEquity, 2)],
+                        ["WACC", formatPct(result.wacc, 2)],
+                        ["PV of projected cash flows", formatCrore(result.presentValueOfCashFlows)],
+                        [
+                          "PV of terminal value",
+                          `${formatCrore(result.presentValueOfTerminal)} (${formatPct(
+                            (result.presentValueOfTerminal / result.enterpriseValue) * 100,
+                            0
+                          )} of EV)`,
+                        ],
+                        ["Enterprise value", formatCrore(result.enterpriseValue)],
+                        ["Less net debt", formatCrore(inputs.netDebt)],
+                        ["Equity value", formatCrore(result.equityValue)],
+                      ].map(([label, value]) => (
+                        <div key={label} className="flex justify-between">
+                          <dt className="text-gray-600">{label}</dt>
+                          <dd className="font-medium text-gray-900">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </>
+                )}
+
+                {/* Scenarios */}
+                <div className="pt-4 border-t border-gray-200">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                    Scenarios
+                  </h4>
+                  <div className="flex space-x-2 mb-3">
+                    <input
+                      type="text"
+                      value={scenarioName}
+                      placeholder="Scenario name"
+                      onChange={(e) => setScenarioName(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <Button
+                      size="sm"
+                      icon={<Save className="w-4 h-4" />}
+                      onClick={handleSave}
+                    >
+                      {scenarioId ? "Update" : "Save"}
+                    </Button>
+                  </div>
+                  <div className="space-y-1">
+                    {scenarios.map((scenario) => (
+                      <div
+                        key={scenario.id}
+                        className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                          scenario.id === scenarioId
+                            ? "bg-blue-50 text-blue-700"
+                            : "hover:bg-gray-50 text-gray-700"
+                        }`}
+                      >
+                        <button
+                          className="flex-1 text-left"
+                          onClick={() => {
+                            setInputs(scenario.inputs);
+                            setScenarioId(scenario.id);
+                            setScenarioName(scenario.name);
+                          }}
+                        >
+                          {scenario.name}
+                        </button>
+                        <button
+                          title="Delete scenario"
+                          className="text-gray-400 hover:text-red-600"
+                          onClick={() => {
+                            deleteScenario(symbol, scenario.id);
+                            if (scenario.id === scenarioId) setScenarioId(undefined);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-3"
+                    icon={<RefreshCw className="w-4 h-4" />}
+                    onClick={handleReset}
+                  >
+                    Reset to reported data
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {projectionData.length > 0 && (
+              <div className="h-64 mt-6">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={projectionData}
+                    margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="year" stroke="#666" fontSize={12} tickLine={false} />
+                    <YAxis
+                      stroke="#666"
+                      fontSize={12}
+                      tickLine={false}
+                      tickFormatter={(value) => `₹${value.toLocaleString("en-IN")}`}
+                    />
+                    <Tooltip
+                      formatter={(value, name) => [
+                        `₹${Number(value).toLocaleString("en-IN")} Cr`,
+                        name === "freeCashFlow" ? "Projected FCF" : "Present value",
+                      ]}
+                    />
+                    <Legend
+                      formatter={(name) =>
+                        name === "freeCashFlow" ? "Projected FCF (₹ Cr)" : "Present value (₹ Cr)"
+                      }
+                    />
+                    <Bar dataKey="freeCashFlow" fill="#C7D2FE" isAnimationActive={false} />
+                    <Bar dataKey="presentValue" fill="#4F46E5" isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Sensitivity */}
+      {grid && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.1 }}
+        >
+          <Card>
+            <CardHeader
+              title="Sensitivity (உணர்திறன் பகுப்பாய்வு)"
+              subtitle="Fair value per share by WACC (rows) and terminal growth (columns); green is above today's price"
+              action={<Grid3X3 className="w-6 h-6 text-indigo-600" />}
+            />
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 text-left">WACC \ g</th>
+                      {grid.terminalGrowths.map((g) => (
+                        <th key={g} className="py-2 px-3 text-right">
+                          {formatPct(g, 2)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {grid.waccs.map((wacc, row) => (
+                      <tr key={wacc} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 text-gray-700 font-medium">
+                          {formatPct(wacc, 2)}
+                        </td>
+                        {grid.fairValues[row].map((fairValue, col) => {
+                          const centre =
+                            row === Math.floor(grid.waccs.length / 2) &&
+                            col === Math.floor(grid.terminalGrowths.length / 2);
+                          return (
+                            <td
+                              key={col}
+                              className={`py-2 px-3 text-right ${
+                                !Number.isFinite(fairValue)
+                                  ? "text-gray-400"
+                                  : fairValue >= currentPrice
+                                  ? "text-green-700 bg-green-50"
+                                  : "text-red-700 bg-red-50"
+                              } ${centre ? "font-bold ring-2 ring-inset ring-indigo-400" : ""}`}
+                            >
+                              {Number.isFinite(fairValue)
+                                ? formatCurrency(fairValue)
+                                : "—"}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ValuationTab;
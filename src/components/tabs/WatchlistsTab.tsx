@@ -0,0 +1,379 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ListPlus,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Check,
+  Bookmark,
+  StickyNote,
+} from 'lucide-react';
+import { useStockStore } from '@/stores/stockStore';
+import StockTable from '@/components/stock/StockTable';
+import Button from '@/components/ui/Button';
+import Card, { CardContent } from '@/components/ui/Card';
+import { compareValues, sortStocks } from '@/utils/stockSort';
+import type {
+  ExtraSortOption,
+  SortOption,
+  Stock,
+  StockTableExtraColumn,
+  WatchlistEntry,
+} from '@/types';
+
+// Sort on either a Stock field or one of the watchlist columns
+type WatchlistSort =
+  | { kind: 'stock'; option: SortOption }
+  | { kind: 'extra'; option: ExtraSortOption };
+
+const performanceSinceAdded = (entry: WatchlistEntry | undefined, stock: Stock): number | null =>
+  entry && entry.addedPrice > 0 ? ((stock.price - entry.addedPrice) / entry.addedPrice) * 100 : null;
+
+const NoteCell: React.FC<{ note?: string; onSave: (note: string) => void }> = ({ note, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(note || '');
+
+  if (!editing) {
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setDraft(note || '');
+          setEditing(true);
+        }}
+        className="flex items-center space-x-1 text-sm text-gray-600 hover:text-primary-600 max-w-[200px]"
+        title={note || 'Add note'}
+      >
+        <StickyNote className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="truncate">{note || 'Add note'}</span>
+      </button>
+    );
+  }
+
+  const save = () => {
+    onSave(draft);
+    setEditing(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        className="w-40 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+      />
+      <button onClick={save} className="p-1 text-green-600 hover:bg-green-50 rounded">
+        <Check className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const WatchlistsTab: React.FC = () => {
+  const {
+    stocks,
+    userPreferences,
+    setSelectedStock,
+    toggleFavorite,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    moveWatchlist,
+    addToWatchlist,
+    removeFromWatchlist,
+    updateWatchlistNote,
+    watchlistStocks,
+  } = useStockStore();
+  const { watchlists, favorites } = userPreferences;
+
+  const [selectedId, setSelectedId] = useState<string | null>(watchlists[0]?.id ?? null);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [stockToAdd, setStockToAdd] = useState('');
+  const [sort, setSort] = useState<WatchlistSort>({
+    kind: 'extra',
+    option: { key: 'sinceAdded', direction: 'desc' },
+  });
+
+  const selected = watchlists.find(w => w.id === selectedId) ?? watchlists[0] ?? null;
+  const entryFor = (stockId: string) => selected?.entries.find(e => e.stockId === stockId);
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    const listed = watchlistStocks(selected.id);
+    if (sort.kind === 'stock') return sortStocks(listed, sort.option);
+
+    const valueOf = (stock: Stock) => {
+      const entry = selected.entries.find(e => e.stockId === stock.id);
+      if (sort.option.key === 'sinceAdded') return performanceSinceAdded(entry, stock);
+      if (sort.option.key === 'addedAt') return entry?.addedAt ?? null;
+      return entry?.note ?? null;
+    };
+    return [...listed].sort((a, b) => compareValues(valueOf(a), valueOf(b), sort.option.direction));
+  }, [selected, watchlistStocks, sort]);
+
+  const formatPrice = (price: number): string => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 2,
+    }).format(price);
+  };
+
+  const extraColumns: StockTableExtraColumn[] = selected
+    ? [
+        {
+          key: 'addedAt',
+          title: 'Added',
+          sortable: true,
+          width: '130px',
+          render: (stock) => {
+            const entry = entryFor(stock.id);
+            if (!entry) return null;
+            return (
+              <div>
+                <p className="text-sm text-gray-900">
+                  {new Date(entry.addedAt).toLocaleDateString('en-IN')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {entry.addedPrice > 0 ? formatPrice(entry.addedPrice) : 'Price not recorded'}
+                </p>
+              </div>
+            );
+          },
+        },
+        {
+          key: 'sinceAdded',
+          title: 'Since Added',
+          sortable: true,
+          width: '110px',
+          render: (stock) => {
+            const change = performanceSinceAdded(entryFor(stock.id), stock);
+            if (change === null) return <span className="text-gray-400">—</span>;
+            return (
+              <span className={`font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+              </span>
+            );
+          },
+        },
+        {
+          key: 'note',
+          title: 'Note',
+          sortable: true,
+          width: '200px',
+          render: (stock) => (
+            <NoteCell
+              note={entryFor(stock.id)?.note}
+              onSave={(note) => updateWatchlistNote(selected.id, stock.id, note)}
+            />
+          ),
+        },
+        {
+          key: 'remove',
+          title: '',
+          width: '50px',
+          render: (stock) => (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeFromWatchlist(selected.id, stock.id);
+              }}
+              className="p-1 text-gray-400 hover:text-red-600 rounded"
+              title="Remove from watchlist"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          ),
+        },
+      ]
+    : [];
+
+  const handleCreate = () => {
+    const id = createWatchlist(newName);
+    setSelectedId(id);
+    setNewName('');
+  };
+
+  const handleRename = (id: string) => {
+    renameWatchlist(id, renameDraft);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!window.confirm(`Delete the watchlist "${name}"?`)) return;
+    deleteWatchlist(id);
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleAddStock = () => {
+    if (!selected || !stockToAdd) return;
+    addToWatchlist(selected.id, stockToAdd);
+    setStockToAdd('');
+  };
+
+  return (
+    <div className="grid lg:grid-cols-4 gap-6">
+      {/* Watchlist list */}
+      <Card className="lg:col-span-1 h-fit">
+        <CardContent>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">கண்காணிப்பு பட்டியல்கள்</h3>
+
+          <div className="space-y-1 mb-4">
+            {watchlists.map((watchlist, index) => (
+              <div
+                key={watchlist.id}
+                className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer ${
+                  selected?.id === watchlist.id ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50 text-gray-700'
+                }`}
+                onClick={() => setSelectedId(watchlist.id)}
+              >
+                {renamingId === watchlist.id ? (
+                  <input
+                    autoFocus
+                    value={renameDraft}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setRenameDraft(e.target.value)}
+                    onBlur={() => handleRename(watchlist.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(watchlist.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 px-2 py-0.5 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                ) : (
+                  <span className="flex-1 truncate text-sm font-medium">
+                    {watchlist.name}
+                    <span className="ml-1 text-xs text-gray-400">({watchlist.entries.length})</span>
+                  </span>
+                )}
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      moveWatchlist(watchlist.id, -1);
+                    }}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      moveWatchlist(watchlist.id, 1);
+                    }}
+                    disabled={index === watchlists.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRenameDraft(watchlist.name);
+                      setRenamingId(watchlist.id);
+                    }}
+                    className="p-1 text-gray-400 hover:text-primary-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(watchlist.id, watchlist.name);
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New watchlist"
+              className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <Button size="sm" variant="primary" icon={<ListPlus className="w-4 h-4" />} onClick={handleCreate}>
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Selected watchlist */}
+      <div className="lg:col-span-3 space-y-4">
+        {selected ? (
+          <>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">{selected.name}</h3>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={stockToAdd}
+                  onChange={(e) => setStockToAdd(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+                >
+                  <option value="">Add a stock…</option>
+                  {stocks
+                    .filter(stock => !selected.entries.some(e => e.stockId === stock.id))
+                    .map(stock => (
+                      <option key={stock.id} value={stock.id}>
+                        {stock.symbol} — {stock.name}
+                      </option>
+                    ))}
+                </select>
+                <Button size="sm" variant="outline" onClick={handleAddStock} disabled={!stockToAdd}>
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            <StockTable
+              stocks={rows}
+              sortOption={sort.kind === 'stock' ? sort.option : undefined}
+              onSort={(option) => setSort({ kind: 'stock', option })}
+              extraColumns={extraColumns}
+              extraSortOption={sort.kind === 'extra' ? sort.option : undefined}
+              onExtraSort={(option) => setSort({ kind: 'extra', option })}
+              onStockSelect={setSelectedStock}
+              onFavoriteToggle={toggleFavorite}
+              favoriteStocks={favorites}
+              emptyMessage="Add stocks to this watchlist to track them here"
+            />
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Bookmark className="w-12 h-12 text-gray-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">No Watchlists Yet</h2>
+            <p className="text-gray-600 max-w-md mx-auto">
+              Create a watchlist to group stocks you are tracking, note why you added them and
+              see how they have moved since.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistsTab;
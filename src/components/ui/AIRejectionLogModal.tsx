@@ -0,0 +1,114 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import Button from './Button';
+import { useAILogStore } from '@/stores/aiLogStore';
+
+interface AIRejectionLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const AIRejectionLogModal: React.FC<AIRejectionLogModalProps> = ({ isOpen, onClose }) => {
+  const { rejections, clearRejections } = useAILogStore();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  நிராகரிக்கப்பட்ட AI பதில்கள் (AI Rejections)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  AI replies that failed schema validation. Failed requests fall back to quant or default data.
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {rejections.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    icon={<Trash2 className="w-4 h-4" />}
+                    onClick={clearRejections}
+                  >
+                    Clear
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-3">
+              {rejections.length === 0 && (
+                <p className="text-center text-gray-500 py-8">No AI replies have been rejected</p>
+              )}
+              {rejections.map(rejection => (
+                <div key={rejection.id} className="p-4 border border-gray-200 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <span className="font-medium text-gray-900">{rejection.subject}</span>
+                      <span className="text-sm text-gray-500 ml-2">
+                        {rejection.kind} · {rejection.model}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      <span
+                        className={`px-2 py-0.5 rounded-full ${
+                          rejection.outcome === 'repaired'
+                            ? 'bg-yellow-100 text-yellow-700'
+                            : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {rejection.outcome === 'repaired' ? 'Repaired' : 'Failed'}
+                      </span>
+                      <span className="text-gray-500">
+                        {format(new Date(rejection.loggedAt), 'dd MMM HH:mm')}
+                      </span>
+                    </div>
+                  </div>
+                  {rejection.attempts.map((attempt, index) => (
+                    <details key={index} className="text-sm">
+                      <summary className="cursor-pointer text-gray-700">
+                        Attempt {index + 1}: {attempt.issues.length} issue{attempt.issues.length === 1 ? '' : 's'}
+                      </summary>
+                      <ul className="mt-2 ml-4 space-y-1 text-xs text-red-700">
+                        {attempt.issues.map((issue, i) => (
+                          <li key={i}>
+                            <code>{issue.path}</code>: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                      <pre className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600 whitespace-pre-wrap break-all">
+                        {attempt.excerpt || '(empty reply)'}
+                      </pre>
+                    </details>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default AIRejectionLogModal;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import Button from './Button';
+import { quotaManager } from '@/services/quotaManager';
+import { useQuotaUsage } from '@/stores/quotaStore';
+import type { ApiQuotaStatus, CircuitState } from '@/types';
+
+interface ApiQuotaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CIRCUIT_BADGE: Record<CircuitState, { label: string; className: string }> = {
+  closed: { label: 'Healthy', className: 'bg-green-100 text-green-700' },
+  halfOpen: { label: 'Recovering', className: 'bg-yellow-100 text-yellow-700' },
+  open: { label: 'Paused', className: 'bg-red-100 text-red-700' },
+};
+
+const UsageBar: React.FC<{ label: string; used: number; limit?: number }> = ({ label, used, limit }) => {
+  if (limit === undefined) {
+    return (
+      <div className="text-xs text-gray-500">
+        {label}: {used} used · no limit
+      </div>
+    );
+  }
+  const ratio = Math.min(used / limit, 1);
+  const color = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-500';
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>{label}</span>
+        <span>
+          {Math.max(limit - used, 0)} of {limit} left
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const ApiQuotaModal: React.FC<ApiQuotaModalProps> = ({ isOpen, onClose }) => {
+  const usage = useQuotaUsage();
+  const [statuses, setStatuses] = useState<ApiQuotaStatus[]>([]);
+
+  // Minute windows and backoffs expire on their own, so re-read on a timer too
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatuses(quotaManager.getStatuses());
+    const interval = setInterval(() => setStatuses(quotaManager.getStatuses()), 5000);
+    return () => clearInterval(interval);
+  }, [isOpen, usage]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  API பயன்பாட்டு வரம்பு (API Quota)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  When a source is paused, data falls back to the next source or to estimates
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="p-6 space-y-3">
+              {statuses.map(status => {
+                const badge = CIRCUIT_BADGE[status.circuit];
+                return (
+                  <div key={status.provider} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-medium text-gray-900">{status.name}</span>
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                        <button
+                          onClick={() => {
+                            quotaManager.reset(status.provider);
+                            setStatuses(quotaManager.getStatuses());
+                          }}
+                          className="p-1 rounded hover:bg-gray-100"
+                          title="Reset usage and resume"
+                        >
+                          <RotateCcw className="w-4 h-4 text-gray-500" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <UsageBar label="This minute" used={status.usedThisMinute} limit={status.perMinute} />
+                      <UsageBar label="Today" used={status.usedToday} limit={status.perDay} />
+                    </div>
+                    {status.blockedReason && (
+                      <p className="text-xs text-red-600">
+                        {status.blockedReason}
+                        {status.retryAt && ` · resumes ${format(status.retryAt, 'dd MMM HH:mm:ss')}`}
+                      </p>
+                    )}
+                    {!status.blockedReason && status.lastError && (
+                      <p className="text-xs text-yellow-700">Last error: {status.lastError}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ApiQuotaModal;
@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import Button from './Button';
+import { dataCache } from '@/services/dataCache';
+import { CACHE_KIND_LABELS } from '@/utils/cachePolicy';
+import { getMarketStatus } from '@/utils/tradingDates';
+import type { CacheEntryInfo, CacheKind } from '@/types';
+
+interface CacheInspectorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const CacheInspectorModal: React.FC<CacheInspectorModalProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+  const [kindFilter, setKindFilter] = useState<CacheKind | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setEntries(await dataCache.list());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) void refresh();
+  }, [isOpen, refresh]);
+
+  const summary = useMemo(() => {
+    const byKind = new Map<CacheKind, { count: number; stale: number; bytes: number }>();
+    entries.forEach(entry => {
+      const row = byKind.get(entry.kind) || { count: 0, stale: 0, bytes: 0 };
+      row.count++;
+      row.bytes += entry.sizeBytes;
+      if (entry.isStale) row.stale++;
+      byKind.set(entry.kind, row);
+    });
+    return byKind;
+  }, [entries]);
+
+  const visible = kindFilter === 'all' ? entries : entries.filter(e => e.kind === kindFilter);
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const market = getMarketStatus();
+
+  const handleRemove = async (entry: CacheEntryInfo) => {
+    await dataCache.remove(entry.key);
+    await refresh();
+  };
+
+  const handleClear = async (kind?: CacheKind) => {
+    await dataCache.clear(kind);
+    toast.success(kind ? `Cleared ${CACHE_KIND_LABELS[kind].toLowerCase()}` : 'Cache cleared');
+    if (kind && kindFilter === kind) setKindFilter('all');
+    await refresh();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  தரவு சேமிப்பு (Data Cache)
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {entries.length} entries · {formatBytes(totalBytes)} ·{' '}
+                  {market.status === 'OPEN'
+                    ? 'market open, prices refresh every few minutes'
+                    : 'market closed, prices stay cached until the next open'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {/* Per-kind summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {(Object.keys(CACHE_KIND_LABELS) as CacheKind[]).map(kind => {
+                  const row = summary.get(kind);
+                  const isActive = kindFilter === kind;
+                  return (
+                    <button
+                      key={kind}
+                      onClick={() => setKindFilter(isActive ? 'all' : kind)}
+                      className={`text-left p-3 rounded-lg border transition-colors ${
+                        isActive
+                          ? 'border-primary-500 bg-primary-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="text-xs text-gray-500">{CACHE_KIND_LABELS[kind]}</div>
+                      <div className="text-lg font-semibold text-gray-900">{row?.count ?? 0}</div>
+                      <div className="text-xs text-gray-400">
+                        {row ? `${formatBytes(row.bytes)}${row.stale ? ` · ${row.stale} stale` : ''}` : 'empty'}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Entries */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    {kindFilter === 'all' ? 'All entries' : CACHE_KIND_LABELS[kindFilter]} ({visible.length})
+                  </h3>
+                  {visible.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleClear(kindFilter === 'all' ? undefined : kindFilter)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      {kindFilter === 'all' ? 'Clear all' : 'Clear these'}
+                    </Button>
+                  )}
+                </div>
+                {visible.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing cached yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {visible.map(entry => (
+                      <div key={entry.key} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+                        <div className="flex-1 min-w-[12rem]">
+                          <span className="font-medium text-gray-900">{entry.id}</span>{' '}
+                          <span className="text-gray-500">{CACHE_KIND_LABELS[entry.kind]}</span>
+                          <div className="text-xs text-gray-400">
+                            Saved {format(entry.storedAt, 'dd MMM HH:mm')} · {formatBytes(entry.sizeBytes)}
+                          </div>
+                        </div>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs ${
+                            entry.isStale ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'
+                          }`}
+                        >
+                          {entry.isStale
+                            ? 'Stale'
+                            : `Fresh till ${format(entry.expiresAt, 'dd MMM HH:mm')}`}
+                        </span>
+                        <button
+                          onClick={() => handleRemove(entry)}
+                          className="p-1 rounded hover:bg-gray-100"
+                          title="Remove entry"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Stale entries are refetched on next use and served only if that fetch fails.
+              </p>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CacheInspectorModal;
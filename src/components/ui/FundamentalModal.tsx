@@ -1,8 +1,18 @@
 import React from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Calculator, TrendingUp, Info, Target } from "lucide-react";
+import {
+  X,
+  Calculator,
+  TrendingUp,
+  Info,
+  Target,
+  ListChecks,
+  CheckCircle,
+  XCircle,
+  MinusCircle,
+} from "lucide-react";
 import Button from "./Button";
-import { HealthStatus } from "@/types";
+import { HealthStatus, StatementHealthReport } from "@/types";
 
 interface FundamentalModalProps {
   isOpen: boolean;
@@ -11,6 +21,7 @@ interface FundamentalModalProps {
   metricValue: string | number;
   metricHealth?: HealthStatus;
   stockData?: any;
+  statementReport?: StatementHealthReport; // sub-checks for statement ratings
 }
 
 const FundamentalModal: React.FC<FundamentalModalProps> = ({
@@ -20,6 +31,7 @@ const FundamentalModal: React.FC<FundamentalModalProps> = ({
   metricValue,
   metricHealth,
   stockData,
+  statementReport,
 }) => {
   // Tamil explanations for each fundamental metric
   const getFundamentalExplanation = (
@@ -28,6 +40,46 @@ const FundamentalModal: React.FC<FundamentalModalProps> = ({
     health?: HealthStatus
   ) => {
     const explanations: Record<string, any> = {
+      // Statement health ratings
+      "Income Statement": {
+        title: "Income Statement Health (வருமான அறிக்கை ஆரோக்கியம்)",
+        definition:
+          "ஆண்டு வருமான அறிக்கைகளிலிருந்து வருமானம், லாப விகிதங்கள் மற்றும் வட்டி செலுத்தும் திறன் ஆண்டுதோறும் எப்படி மாறுகின்றன என்பதை சோதிக்கும் மதிப்பீடு.",
+        calculation:
+          "Health = தேர்ச்சி பெற்ற சோதனைகள் / மதிப்பிடப்பட்ட சோதனைகள் (வருமான போக்கு, margin போக்கு, தொடர் லாபம், வட்டி கவரேஜ்)",
+        importance:
+          "ஒரு ஆண்டின் எண்ணை விட பல ஆண்டுகளின் போக்கு நிறுவனத்தின் உண்மையான வளர்ச்சியையும் விலை நிர்ணய சக்தியையும் காட்டுகிறது.",
+        interpretation: getStatementInterpretation(),
+        goodRange: "85%+ சோதனைகள் தேர்ச்சி - BEST, 65%+ - GOOD",
+        tips: "• margin குறைவது போட்டி அழுத்தத்தின் அறிகுறி\n• ஒரு முறை வருமானங்களை தவிர்த்து பாருங்கள்\n• வருமான வளர்ச்சியுடன் லாப வளர்ச்சியும் தேவை\n• Financials tab இல் முழு அறிக்கையை பாருங்கள்",
+      },
+
+      "Balance Sheet": {
+        title: "Balance Sheet Health (சொத்து நிலை அறிக்கை ஆரோக்கியம்)",
+        definition:
+          "நடப்பு மூலதனம், குறுகிய கால கடமைகள், கடன் திருப்பிச் செலுத்தும் திறன் மற்றும் கடன் சுமையின் போக்கை சோதிக்கும் மதிப்பீடு.",
+        calculation:
+          "Health = தேர்ச்சி பெற்ற சோதனைகள் / மதிப்பிடப்பட்ட சோதனைகள் (நடப்பு மூலதனம், அதன் போக்கு, குறுகிய கால கடமைகள், கடன் கவரேஜ், leverage போக்கு)",
+        importance:
+          "வலுவான சொத்து நிலை நிறுவனம் கடினமான காலங்களைத் தாங்கவும் கடன்களை நேரத்தில் திருப்பிச் செலுத்தவும் உதவுகிறது.",
+        interpretation: getStatementInterpretation(),
+        goodRange: "85%+ சோதனைகள் தேர்ச்சி - BEST, 65%+ - GOOD",
+        tips: "• கடன் முதிர்வு அட்டவணை கிடைக்காததால் இயக்க பண ஓட்டத்தால் கடனை அடைக்கும் ஆண்டுகள் பயன்படுத்தப்படுகிறது\n• நடப்பு விகிதம் குறைவது எச்சரிக்கை\n• அதிகரிக்கும் leverage ரிஸ்க்கை உயர்த்தும்",
+      },
+
+      "Cash Flow Statement": {
+        title: "Cash Flow Health (பண ஓட்ட அறிக்கை ஆரோக்கியம்)",
+        definition:
+          "அறிவிக்கப்பட்ட லாபம் உண்மையான பணமாக மாறுகிறதா என்பதை பண ஓட்ட அறிக்கையிலிருந்து சோதிக்கும் மதிப்பீடு.",
+        calculation:
+          "Health = தேர்ச்சி பெற்ற சோதனைகள் / மதிப்பிடப்பட்ட சோதனைகள் (இயக்க பண ஓட்டம், FCF மாற்றம், accrual விகிதம், free cash flow)",
+        importance:
+          "லாபம் கணக்கியல் முறைகளால் மாறலாம், ஆனால் பணம் மாறாது. அதிக accruals எதிர்கால லாப சரிவின் முன்னறிவிப்பாக இருக்கலாம்.",
+        interpretation: getStatementInterpretation(),
+        goodRange: "85%+ சோதனைகள் தேர்ச்சி - BEST, 65%+ - GOOD",
+        tips: "• FCF நிகர லாபத்தின் 80%+ ஆக இருப்பது நல்லது\n• Accrual ratio 10% க்கு மேல் எச்சரிக்கை\n• பெரிய capex ஆண்டுகளில் FCF தற்காலிகமாக குறையலாம்",
+      },
+
       // Financial Statements
       "Revenue Growth": {
         title: "Revenue Growth (வருமான வளர்ச்சி)",
@@ -333,6 +385,12 @@ const FundamentalModal: React.FC<FundamentalModalProps> = ({
   };
 
   // Helper functions for interpretations
+  function getStatementInterpretation(): string {
+    if (!statementReport || statementReport.evaluated === 0)
+      return "அறிக்கை தரவு போதுமானதாக இல்லை. மதிப்பீடு NORMAL ஆக வைக்கப்பட்டுள்ளது.";
+    return `${statementReport.evaluated} சோதனைகளில் ${statementReport.passed} தேர்ச்சி பெற்றன — ${statementReport.health}. கீழே ஒவ்வொரு சோதனையின் விவரத்தை பாருங்கள்.`;
+  }
+
   function getGrowthInterpretation(growth: number): string {
     if (growth >= 25)
       return `${growth}% வளர்ச்சி அற்புதமானது! இது அதிவேக வளர்ச்சி நிறுவனத்தின் அறிகுறி.`;
@@ -579,6 +637,38 @@ const FundamentalModal: React.FC<FundamentalModalProps> = ({
                 </p>
               </div>
 
+              {/* Statement Sub-checks */}
+              {statementReport && (
+                <div className="bg-gray-50 rounded-xl p-5 border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center">
+                    <ListChecks className="w-5 h-5 mr-2" />
+                    சோதனைகள் ({statementReport.passed}/
+                    {statementReport.evaluated})
+                  </h3>
+                  <ul className="space-y-3">
+                    {statementReport.checks.map((check) => (
+                      <li key={check.label} className="flex items-start">
+                        {check.passed === true ? (
+                          <CheckCircle className="w-5 h-5 mr-3 mt-0.5 text-green-600 flex-shrink-0" />
+                        ) : check.passed === false ? (
+                          <XCircle className="w-5 h-5 mr-3 mt-0.5 text-red-600 flex-shrink-0" />
+                        ) : (
+                          <MinusCircle className="w-5 h-5 mr-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                        )}
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {check.label}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {check.detail}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Good Range */}
               <div className="bg-indigo-50 rounded-xl p-5 border border-indigo-200">
                 <h3 className="text-lg font-semibold text-indigo-800 mb-3">
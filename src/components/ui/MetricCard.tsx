@@ -1,5 +1,6 @@
 import React from "react";
-import { MetricWithSource, HealthStatus } from "@/types";
+import { AlertTriangle } from "lucide-react";
+import { MetricWithSource, MetricDispute, HealthStatus } from "@/types";
 import { getDataSourceConfig, isRealData } from "@/utils/dataSourceUtils";
 import DataSourceBadge from "./DataSourceBadge";
 
@@ -29,6 +30,14 @@ const MetricCard: React.FC<MetricCardProps> = ({
     return (value || 0).toFixed(1) + suffix;
   };
 
+  const describeDispute = (dispute: MetricDispute) => {
+    const expected =
+      dispute.expected !== undefined
+        ? `real data gives ${formatValue(dispute.expected)}`
+        : "no real data to compare";
+    return `AI said ${formatValue(dispute.aiValue)}; ${expected} (${dispute.basis}); ${dispute.action}`;
+  };
+
   // Get health color
   const getHealthColor = (health: HealthStatus) => {
     switch (health) {
@@ -55,6 +64,15 @@ const MetricCard: React.FC<MetricCardProps> = ({
       <div className="flex items-center justify-between mb-2">
         <h4 className="text-sm font-medium text-gray-900">{title}</h4>
         <div className="flex items-center space-x-2">
+          {metric.dispute && (
+            <span
+              className="flex items-center text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-700"
+              title={describeDispute(metric.dispute)}
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Disputed
+            </span>
+          )}
           <DataSourceBadge dataSource={metric.dataSource} />
           {!isReal && (
             <div className="w-2 h-2 bg-red-500 rounded-full" title="Mock/Estimated Data" />
@@ -63,7 +81,7 @@ const MetricCard: React.FC<MetricCardProps> = ({
       </div>
       <div className="flex items-center justify-between">
         <span className={`text-xl font-bold ${config.textColor}`}>
-          {formatValue(metric.value)}
+          {metric.isNA ? "N/A" : formatValue(metric.value)}
         </span>
         <span
           className={`text-xs px-2 py-1 rounded-full font-medium ${getHealthColor(metric.health)}`}
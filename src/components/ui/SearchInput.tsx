@@ -1,6 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Search, X } from 'lucide-react';
-import type { BaseComponentProps, Stock } from '@/types';
+import type {
+  BaseComponentProps,
+  ScreenerQueryCompletion,
+  ScreenerQueryError,
+  Stock,
+} from '@/types';
 
 interface SearchInputProps extends BaseComponentProps {
   value?: string;
@@ -14,8 +19,32 @@ interface SearchInputProps extends BaseComponentProps {
   size?: 'sm' | 'md' | 'lg';
   showSuggestions?: boolean;
   maxSuggestions?: number;
+  // Typed-query support: completions for the term under the cursor, and
+  // parse errors to point at in the input text
+  getCompletions?: (value: string, cursor: number) => ScreenerQueryCompletion[];
+  errors?: ScreenerQueryError[];
 }
 
+// The query text with each error range underlined in red
+const renderWithErrors = (value: string, errors: ScreenerQueryError[]): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  [...errors]
+    .sort((a, b) => a.start - b.start)
+    .forEach((error, index) => {
+      if (error.start < position) return;
+      parts.push(value.slice(position, error.start));
+      parts.push(
+        <span key={index} className="text-red-600 underline decoration-wavy decoration-red-500">
+          {value.slice(error.start, error.end) || ' '}
+        </span>
+      );
+      position = error.end;
+    });
+  parts.push(value.slice(position));
+  return parts;
+};
+
 const SearchInput: React.FC<SearchInputProps> = ({
   className = '',
   value = '',
@@ -29,10 +58,14 @@ const SearchInput: React.FC<SearchInputProps> = ({
   size = 'md',
   showSuggestions = true,
   maxSuggestions = 5,
+  getCompletions,
+  errors = [],
   ...props
 }) => {
   const [isFocused, setIsFocused] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [cursor, setCursor] = useState(value.length);
+  const [highlighted, setHighlighted] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -48,10 +81,14 @@ const SearchInput: React.FC<SearchInputProps> = ({
     lg: 'w-6 h-6',
   };
 
+  const completions = isFocused && getCompletions ? getCompletions(value, cursor) : [];
+  // Query terms like `pe<20` never match a stock name, so skip stock suggestions for them
+  const isQuery = !!getCompletions && /[:<>=]/.test(value);
+
   // Filter suggestions based on search value
   const filteredSuggestions = suggestions
     .filter(stock => {
-      if (!value.trim()) return false;
+      if (!value.trim() || isQuery) return false;
       const query = value.toLowerCase();
       return (
         stock.name.toLowerCase().includes(query) ||
@@ -65,9 +102,24 @@ const SearchInput: React.FC<SearchInputProps> = ({
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     onChange?.(newValue);
+    setCursor(e.target.selectionStart ?? newValue.length);
+    setHighlighted(0);
     setShowDropdown(showSuggestions && newValue.length > 0);
   };
 
+  const applyCompletion = (completion: ScreenerQueryCompletion) => {
+    const newValue =
+      value.slice(0, completion.replaceStart) + completion.insertText + value.slice(completion.replaceEnd);
+    const newCursor = completion.replaceStart + completion.insertText.length;
+    onChange?.(newValue);
+    setCursor(newCursor);
+    setHighlighted(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(newCursor, newCursor);
+    });
+  };
+
   // Handle suggestion click
   const handleSuggestionClick = (stock: Stock) => {
     onSuggestionSelect?.(stock);
@@ -100,6 +152,19 @@ const SearchInput: React.FC<SearchInputProps> = ({
 
   // Handle keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (completions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + completions.length) % completions.length);
+        return;
+      }
+      if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        applyCompletion(completions[Math.min(highlighted, completions.length - 1)]);
+        return;
+      }
+    }
     if (e.key === 'Escape') {
       setShowDropdown(false);
       inputRef.current?.blur();
@@ -164,6 +229,7 @@ const SearchInput: React.FC<SearchInputProps> = ({
           onFocus={handleFocus}
           onBlur={handleBlur}
           onKeyDown={handleKeyDown}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
           placeholder={placeholder}
           disabled={disabled}
           className={inputClasses}
@@ -187,8 +253,46 @@ const SearchInput: React.FC<SearchInputProps> = ({
         </div>
       </div>
 
+      {/* Query errors, with the offending terms underlined */}
+      {errors.length > 0 && (
+        <div className="mt-2 text-sm">
+          <p className="font-mono text-gray-700 whitespace-pre-wrap break-words">
+            {renderWithErrors(value, errors)}
+          </p>
+          {errors.map(error => (
+            <p key={`${error.start}-${error.message}`} className="text-red-600">
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Query completions */}
+      {completions.length > 0 && (
+        <div className="absolute z-50 w-full mt-2 bg-white border border-gray-200 rounded-lg shadow-lg max-h-80 overflow-y-auto">
+          {completions.map((completion, index) => (
+            <button
+              key={`${completion.label}-${index}`}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applyCompletion(completion);
+              }}
+              className={`w-full px-4 py-2 flex items-center justify-between text-left transition-colors ${
+                index === highlighted ? 'bg-primary-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-mono text-sm text-gray-900">{completion.label}</span>
+              {completion.description && (
+                <span className="text-xs text-gray-500">{completion.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Suggestions dropdown */}
-      {showDropdown && filteredSuggestions.length > 0 && (
+      {completions.length === 0 && showDropdown && filteredSuggestions.length > 0 && (
         <div
           ref={dropdownRef}
           className="absolute z-50 w-full mt-2 bg-white border border-gray-200 rounded-lg shadow-lg max-h-80 overflow-y-auto"
@@ -236,7 +340,7 @@ const SearchInput: React.FC<SearchInputProps> = ({
       )}
 
       {/* No results message */}
-      {showDropdown && value.trim() && filteredSuggestions.length === 0 && (
+      {showDropdown && !isQuery && value.trim() && filteredSuggestions.length === 0 && (
         <div
           ref={dropdownRef}
           className="absolute z-50 w-full mt-2 bg-white border border-gray-200 rounded-lg shadow-lg"
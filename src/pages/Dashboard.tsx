@@ -1,27 +1,68 @@
 import React, { useEffect, useState } from 'react';
-import { BarChart3 } from 'lucide-react';
+import { BarChart3, Bell, Database, FileWarning, Gauge } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { getAllStocks } from '@/data/mockStocks';
 import { useStockStore } from '@/stores/stockStore';
+import { useAlerts } from '@/stores/alertStore';
+import { alertService } from '@/services/alertService';
+import { quotaManager } from '@/services/quotaManager';
+import { useQuotaUsage } from '@/stores/quotaStore';
+import { useAIRejections } from '@/stores/aiLogStore';
+import { useQualityScoreStore } from '@/stores/qualityScoreStore';
+import { applyQualityScores } from '@/utils/qualityScores';
 import Button from '@/components/ui/Button';
 import Card, { CardContent } from '@/components/ui/Card';
 import { PageLoading } from '@/components/ui/LoadingSpinner';
 import TradingInfo from '@/components/layout/TradingInfo';
-import TabNavigation from '@/components/layout/TabNavigation';
+import TabNavigation, { DashboardTab } from '@/components/layout/TabNavigation';
 import AnalysisTab from '@/components/tabs/AnalysisTab';
 import SearchTab from '@/components/tabs/SearchTab';
 import HoldingsTab from '@/components/tabs/HoldingsTab';
+import ScreenerTab from '@/components/tabs/ScreenerTab';
+import WatchlistsTab from '@/components/tabs/WatchlistsTab';
+import AlertsModal from '@/components/stock/AlertsModal';
+import CacheInspectorModal from '@/components/ui/CacheInspectorModal';
+import ApiQuotaModal from '@/components/ui/ApiQuotaModal';
+import AIRejectionLogModal from '@/components/ui/AIRejectionLogModal';
+
+// One batched request per refresh; about 75 over a full session against
+// RapidAPI's 500-a-day quota
+const QUOTE_REFRESH_MS = 5 * 60 * 1000;
+
+const pausedStatuses = () => quotaManager.getStatuses().filter(status => status.blockedReason);
 
 const Dashboard: React.FC = () => {
   const {
     loadingState,
     error,
     setStocks,
+    updateQuotes,
     setLoadingState,
     setError,
   } = useStockStore();
+  const alerts = useAlerts();
 
-  const [activeTab, setActiveTab] = useState<'analysis' | 'search' | 'holdings'>('analysis');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('analysis');
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [isCacheOpen, setIsCacheOpen] = useState(false);
+  const [isQuotaOpen, setIsQuotaOpen] = useState(false);
+  const [isRejectionsOpen, setIsRejectionsOpen] = useState(false);
+  const failedAIReplies = useAIRejections().filter(r => r.outcome === 'failed').length;
+  const activeAlertCount = alerts.filter(a => a.enabled).length;
+  const quotaUsage = useQuotaUsage();
+  const [pausedSources, setPausedSources] = useState(pausedStatuses);
+
+  // Backoffs and minute windows lapse without new usage, so re-read on a
+  // timer while anything is paused
+  useEffect(() => {
+    setPausedSources(pausedStatuses());
+  }, [quotaUsage]);
+
+  useEffect(() => {
+    if (pausedSources.length === 0) return;
+    const interval = setInterval(() => setPausedSources(pausedStatuses()), 5000);
+    return () => clearInterval(interval);
+  }, [pausedSources.length]);
 
   // Load initial data
   useEffect(() => {
@@ -30,7 +71,7 @@ const Dashboard: React.FC = () => {
         setLoadingState('loading');
         // Simulate API call delay
         await new Promise(resolve => setTimeout(resolve, 1000));
-        const stocks = getAllStocks();
+        const stocks = applyQualityScores(getAllStocks(), useQualityScoreStore.getState().scores);
         setStocks(stocks);
         setLoadingState('success');
       } catch (err) {
@@ -43,6 +84,37 @@ const Dashboard: React.FC = () => {
     loadStocks();
   }, [setStocks, setLoadingState, setError]);
 
+  // Copy quality scores onto the universe as stocks are analysed
+  useEffect(() => {
+    return useQualityScoreStore.subscribe((state, previous) => {
+      if (state.scores !== previous.scores) {
+        setStocks(applyQualityScores(useStockStore.getState().stocks, state.scores));
+      }
+    });
+  }, [setStocks]);
+
+  // Evaluate alerts whenever quotes change, if the user wants price alerts
+  useEffect(() => {
+    return useStockStore.subscribe((state, previous) => {
+      if (state.stocks !== previous.stocks && state.userPreferences.notifications.priceAlerts) {
+        void alertService.evaluate(state.stocks);
+      }
+    });
+  }, []);
+
+  // Refresh live quotes for alerted stocks during market hours, only when
+  // price alerts are on since nothing else evaluates them
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      const { stocks, userPreferences } = useStockStore.getState();
+      if (!userPreferences.notifications.priceAlerts) return;
+      const updates = await alertService.refreshQuotes(stocks);
+      updateQuotes(updates);
+    }, QUOTE_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [updateQuotes]);
+
 
   if (loadingState === 'loading') {
     return <PageLoading text="Loading your dashboard..." />;
@@ -86,8 +158,57 @@ const Dashboard: React.FC = () => {
                 AI-powered stock recommendations and market analysis
               </p>
             </div>
-            <div className="hidden lg:block">
-              <TradingInfo compact />
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setIsRejectionsOpen(true)}
+                className="relative p-2 rounded-full hover:bg-gray-100 transition-colors"
+                title="AI rejections"
+              >
+                <FileWarning className="w-6 h-6 text-gray-600" />
+                {failedAIReplies > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                    {failedAIReplies}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setIsQuotaOpen(true)}
+                className="relative p-2 rounded-full hover:bg-gray-100 transition-colors"
+                title={
+                  pausedSources.length > 0
+                    ? `Paused: ${pausedSources.map(status => status.name).join(', ')}`
+                    : 'API quota'
+                }
+              >
+                <Gauge className="w-6 h-6 text-gray-600" />
+                {pausedSources.length > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                    {pausedSources.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setIsCacheOpen(true)}
+                className="p-2 rounded-full hover:bg-gray-100 transition-colors"
+                title="Data cache"
+              >
+                <Database className="w-6 h-6 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setIsAlertsOpen(true)}
+                className="relative p-2 rounded-full hover:bg-gray-100 transition-colors"
+                title="Price alerts"
+              >
+                <Bell className="w-6 h-6 text-gray-600" />
+                {activeAlertCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-600 text-white text-xs flex items-center justify-center">
+                    {activeAlertCount}
+                  </span>
+                )}
+              </button>
+              <div className="hidden lg:block">
+                <TradingInfo compact />
+              </div>
             </div>
           </div>
         </div>
@@ -129,6 +250,30 @@ const Dashboard: React.FC = () => {
             </motion.div>
           )}
           
+          {activeTab === 'screener' && (
+            <motion.div
+              key="screener"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <ScreenerTab />
+            </motion.div>
+          )}
+          
+          {activeTab === 'watchlists' && (
+            <motion.div
+              key="watchlists"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <WatchlistsTab />
+            </motion.div>
+          )}
+          
           {activeTab === 'holdings' && (
             <motion.div
               key="holdings"
@@ -142,6 +287,11 @@ const Dashboard: React.FC = () => {
           )}
         </AnimatePresence>
       </main>
+
+      <AlertsModal isOpen={isAlertsOpen} onClose={() => setIsAlertsOpen(false)} />
+      <CacheInspectorModal isOpen={isCacheOpen} onClose={() => setIsCacheOpen(false)} />
+      <ApiQuotaModal isOpen={isQuotaOpen} onClose={() => setIsQuotaOpen(false)} />
+      <AIRejectionLogModal isOpen={isRejectionsOpen} onClose={() => setIsRejectionsOpen(false)} />
     </div>
   );
 };
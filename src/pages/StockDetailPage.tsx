@@ -14,6 +14,9 @@ import {
   XCircle,
   Minus,
   RefreshCw,
+  FlaskConical,
+  FileSpreadsheet,
+  Calculator,
 } from "lucide-react";
 import Card, { CardContent, CardHeader } from "@/components/ui/Card";
 import Button from "@/components/ui/Button";
@@ -23,6 +26,9 @@ import { DetailedStockAnalysis, HealthStatus, SignalType } from "@/types";
 import StockPriceChart from "@/components/stock/StockPriceChart";
 import FundamentalAnalysisTab from "@/components/tabs/FundamentalAnalysisTab";
 import TechnicalAnalysisTab from "@/components/tabs/TechnicalAnalysisTab";
+import BacktestTab from "@/components/tabs/BacktestTab";
+import FinancialsTab from "@/components/tabs/FinancialsTab";
+import ValuationTab from "@/components/tabs/ValuationTab";
 import DataSourceBadge from "@/components/ui/DataSourceBadge";
 import RealMetricsGrid from "@/components/ui/RealMetricsGrid";
 import ApiKeyNotice from "@/components/ui/ApiKeyNotice";
@@ -36,9 +42,9 @@ import { DataSource } from "@/types";
 const StockDetailPage: React.FC = () => {
   const { symbol } = useParams<{ symbol: string }>();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<"fundamental" | "technical">(
-    "fundamental"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "fundamental" | "financials" | "valuation" | "technical" | "backtest"
+  >("fundamental");
   const [stockAnalysis, setStockAnalysis] =
     useState<DetailedStockAnalysis | null>(null);
   const [realMetrics, setRealMetrics] = useState<any>(null);
@@ -544,6 +550,28 @@ const StockDetailPage: React.FC = () => {
                         <Brain className="w-4 h-4 inline mr-2" />
                         அடிப்படை பகுப்பாய்வு
                       </button>
+                      <button
+                        onClick={() => setActiveTab("financials")}
+                        className={`flex-1 px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
+                          activeTab === "financials"
+                            ? "border-blue-500 text-blue-600 bg-blue-50"
+                            : "border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <FileSpreadsheet className="w-4 h-4 inline mr-2" />
+                        நிதி அறிக்கைகள்
+                      </button>
+                      <button
+                        onClick={() => setActiveTab("valuation")}
+                        className={`flex-1 px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
+                          activeTab === "valuation"
+                            ? "border-blue-500 text-blue-600 bg-blue-50"
+                            : "border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <Calculator className="w-4 h-4 inline mr-2" />
+                        மதிப்பீடு
+                      </button>
                       <button
                         onClick={() => setActiveTab("technical")}
                         className={`flex-1 px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
@@ -555,17 +583,39 @@ const StockDetailPage: React.FC = () => {
                         <Activity className="w-4 h-4 inline mr-2" />
                         தொழில்நுட்ப பகுப்பாய்வு
                       </button>
+                      <button
+                        onClick={() => setActiveTab("backtest")}
+                        className={`flex-1 px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
+                          activeTab === "backtest"
+                            ? "border-blue-500 text-blue-600 bg-blue-50"
+                            : "border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <FlaskConical className="w-4 h-4 inline mr-2" />
+                        பின்பரிசோதனை
+                      </button>
                     </div>
                   </div>
 
                   {/* Tab Content */}
                   <div className="p-6">
-                    {activeTab === "fundamental" ? (
+                    {activeTab === "fundamental" && (
                       <FundamentalAnalysisTab
                         stockAnalysis={stockAnalysis}
                         getHealthColor={getHealthColor}
                       />
-                    ) : (
+                    )}
+                    {activeTab === "financials" && (
+                      <FinancialsTab symbol={stockAnalysis.symbol} />
+                    )}
+                    {activeTab === "valuation" && (
+                      <ValuationTab
+                        symbol={stockAnalysis.symbol}
+                        currentPrice={stockAnalysis.currentPrice}
+                        formatCurrency={formatCurrency}
+                      />
+                    )}
+                    {activeTab === "technical" && (
                       <TechnicalAnalysisTab
                         stockAnalysis={stockAnalysis}
                         getSignalConfig={getSignalConfig}
@@ -573,6 +623,12 @@ const StockDetailPage: React.FC = () => {
                         formatCurrency={formatCurrency}
                       />
                     )}
+                    {activeTab === "backtest" && (
+                      <BacktestTab
+                        stockAnalysis={stockAnalysis}
+                        formatCurrency={formatCurrency}
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,188 @@
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import type {
+  AlertIndicators,
+  AlertTrigger,
+  Stock,
+  StockQuoteUpdate,
+} from '@/types';
+import { useAlertStore } from '@/stores/alertStore';
+import { evaluateAlerts, needsIndicators } from '@/utils/alerts';
+import { lastValue, rsi, sma } from '@/utils/technicalIndicators';
+import { getMarketStatus } from '@/utils/tradingDates';
+import { getStockChartData } from './hybridStockService';
+import { rapidApiYahooService } from './rapidApiYahooService';
+
+const MAX_QUOTES_PER_REFRESH = 10; // Symbols per batched get-quotes request
+
+interface DailyCloses {
+  day: string; // yyyy-MM-dd the history was fetched on
+  closes: number[];
+}
+
+export class AlertService {
+  private static instance: AlertService;
+  // Daily closes per symbol, fetched once a day for the RSI and 200-DMA alerts
+  private history = new Map<string, DailyCloses>();
+  private evaluating = false;
+  private pendingStocks: Stock[] | null = null;
+
+  public static getInstance(): AlertService {
+    if (!AlertService.instance) {
+      AlertService.instance = new AlertService();
+    }
+    return AlertService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Check every enabled alert against the latest quotes. Called on each quote
+   * refresh; a refresh arriving mid-evaluation is evaluated right after.
+   */
+  async evaluate(stocks: Stock[]): Promise<AlertTrigger[]> {
+    if (this.evaluating) {
+      this.pendingStocks = stocks;
+      return [];
+    }
+
+    this.evaluating = true;
+    try {
+      const triggers = await this.runEvaluation(stocks);
+      triggers.forEach(trigger => this.notify(trigger));
+      return triggers;
+    } finally {
+      this.evaluating = false;
+      const pending = this.pendingStocks;
+      this.pendingStocks = null;
+      if (pending) void this.evaluate(pending);
+    }
+  }
+
+  private async runEvaluation(stocks: Stock[]): Promise<AlertTrigger[]> {
+    const stocksById = new Map(stocks.map(stock => [stock.id, stock]));
+    const active = useAlertStore
+      .getState()
+      .alerts.filter(alert => alert.enabled && stocksById.has(alert.stockId));
+    if (active.length === 0) return [];
+
+    const indicators: Record<string, AlertIndicators> = {};
+    const indicatorStockIds = new Set(active.filter(needsIndicators).map(a => a.stockId));
+    for (const stockId of indicatorStockIds) {
+      const stock = stocksById.get(stockId);
+      if (!stock) continue;
+      const values = await this.getIndicators(stock);
+      if (values) indicators[stockId] = values;
+    }
+
+    // Re-read after the awaits so edits made meanwhile are not overwritten
+    const { alerts, applyEvaluation } = useAlertStore.getState();
+    const result = evaluateAlerts(alerts, stocks, indicators);
+    applyEvaluation(result.alerts, result.triggers);
+
+    if (result.triggers.length > 0) {
+      console.log(`🔔 ${result.triggers.length} alert(s) triggered`);
+    }
+    return result.triggers;
+  }
+
+  /**
+   * RSI(14) and 200-DMA from a year of real daily closes, with the live
+   * price standing in for today's close
+   */
+  private async getIndicators(stock: Stock): Promise<AlertIndicators | null> {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    let cached = this.history.get(stock.symbol);
+
+    if (!cached || cached.day !== today) {
+      try {
+        const { data, isRealData } = await getStockChartData(stock.symbol, '1y', '1d');
+        if (!isRealData) {
+          console.log(`⚠️ No real price history for ${stock.symbol}, skipping indicator alerts`);
+          return null;
+        }
+        const pastCloses = data
+          .filter(bar => format(new Date(bar.date), 'yyyy-MM-dd') < today)
+          .map(bar => bar.close);
+        cached = { day: today, closes: pastCloses };
+        this.history.set(stock.symbol, cached);
+      } catch (error) {
+        console.error(`❌ Failed to load history for ${stock.symbol} alerts:`, error);
+        return null;
+      }
+    }
+
+    const closes = [...cached.closes, stock.price];
+    return {
+      rsi: lastValue(rsi(closes)),
+      sma200: lastValue(sma(closes, 200)),
+    };
+  }
+
+  /**
+   * Fetch live quotes for the stocks that have enabled alerts, in a single
+   * batched request. Returns no updates outside market hours, without a
+   * RapidAPI key or once the RapidAPI quota is used up.
+   */
+  async refreshQuotes(stocks: Stock[]): Promise<StockQuoteUpdate[]> {
+    if (getMarketStatus().status !== 'OPEN' || !rapidApiYahooService.isAvailable()) {
+      return [];
+    }
+
+    const watchedIds = new Set(
+      useAlertStore.getState().alerts.filter(a => a.enabled).map(a => a.stockId)
+    );
+    const watched = stocks.filter(stock => watchedIds.has(stock.id)).slice(0, MAX_QUOTES_PER_REFRESH);
+    if (watched.length === 0) return [];
+
+    const quotes = await rapidApiYahooService.getQuotes(watched.map(stock => stock.symbol));
+    const updates: StockQuoteUpdate[] = [];
+    for (const stock of watched) {
+      const quote = quotes.get(stock.symbol);
+      if (!quote?.regularMarketPrice) continue;
+      updates.push({
+        id: stock.id,
+        price: quote.regularMarketPrice,
+        change: quote.regularMarketChange ?? stock.change,
+        changePercent: quote.regularMarketChangePercent ?? stock.changePercent,
+        volume: quote.regularMarketVolume ?? stock.volume,
+      });
+    }
+
+    console.log(`📡 Refreshed ${updates.length}/${watched.length} alert quotes`);
+    return updates;
+  }
+
+  /**
+   * Ask for browser notification permission; resolves to the resulting state
+   */
+  async requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+  }
+
+  getNotificationPermission(): NotificationPermission | 'unsupported' {
+    if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+    return Notification.permission;
+  }
+
+  private notify(trigger: AlertTrigger): void {
+    toast(trigger.message, { icon: '🔔', duration: 6000 });
+
+    if (this.getNotificationPermission() === 'granted') {
+      try {
+        new Notification(`${trigger.symbol} alert`, {
+          body: trigger.message,
+          tag: trigger.alertId,
+        });
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.error('Failed to show browser notification:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const alertService = AlertService.getInstance();
@@ -1,6 +1,8 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import type { APIResponse, APIError } from '@/types';
 import { VercelApiService } from './vercelApiService';
+import { FIXTURE_BASE_URL, usesFixtureServer } from './apiMode';
+import { quotaManager } from './quotaManager';
 
 // Create axios instance for general API calls
 const apiClient: AxiosInstance = axios.create({
@@ -13,7 +15,7 @@ const apiClient: AxiosInstance = axios.create({
 
 // Create axios instance for OpenRouter AI API
 const openRouterClient: AxiosInstance = axios.create({
-  baseURL: 'https://openrouter.ai/api/v1',
+  baseURL: usesFixtureServer ? FIXTURE_BASE_URL.openRouter : 'https://openrouter.ai/api/v1',
   timeout: 30000,
   headers: {
     'Content-Type': 'application/json',
@@ -91,23 +93,37 @@ export const apiService = {
   },
 };
 
+// Optional request settings; responseFormat asks for JSON matching a schema
+export interface ChatOptions {
+  maxTokens?: number;
+  responseFormat?: object;
+}
+
 // OpenRouter AI API methods
 export const aiService = {
-  chat: async (messages: any[], model?: string): Promise<any> => {
+  chat: async (messages: any[], model?: string, options: ChatOptions = {}): Promise<any> => {
     // Prefer Vercel proxy in deployed environments to avoid 401s and to centralize allowlisting
     if (VercelApiService.isVercelEnvironment()) {
-      const prompt = messages.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n');
-      return await VercelApiService.fetchOpenRouterAnalysis('generic', prompt, model || 'openrouter/auto');
+      return await VercelApiService.fetchOpenRouterAnalysis(
+        'generic',
+        messages,
+        model || 'openrouter/auto',
+        options.maxTokens,
+        options.responseFormat
+      );
     }
 
     // Local/dev fallback: direct OpenRouter call using axios client
-    const response = await openRouterClient.post('/chat/completions', {
-      model: model || import.meta.env.VITE_DEFAULT_MODEL || 'openrouter/auto',
-      messages,
-      max_tokens: 800,
-      temperature: 0.3,
-      stream: false,
-    });
+    const response = await quotaManager.run('openrouter', () =>
+      openRouterClient.post('/chat/completions', {
+        model: model || import.meta.env.VITE_DEFAULT_MODEL || 'openrouter/auto',
+        messages,
+        max_tokens: options.maxTokens ?? 800,
+        temperature: 0.3,
+        stream: false,
+        ...(options.responseFormat && { response_format: options.responseFormat }),
+      })
+    );
     return response.data;
   },
 
@@ -153,33 +169,6 @@ export const aiService = {
   },
 };
 
-// Rate limiting utility
-class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private timeWindow: number;
-
-  constructor(maxRequests: number = 10, timeWindowMs: number = 60000) {
-    this.maxRequests = maxRequests;
-    this.timeWindow = timeWindowMs;
-  }
-
-  async checkLimit(): Promise<void> {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.timeWindow);
-
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = this.requests[0];
-      const waitTime = this.timeWindow - (now - oldestRequest);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-
-    this.requests.push(now);
-  }
-}
-
-export const rateLimiter = new RateLimiter(10, 60000); // 10 requests per minute
-
 // Export the clients for direct use if needed
 export { apiClient, openRouterClient };
 
@@ -0,0 +1,26 @@
+/**
+ * API Mode
+ * Selects where RapidAPI Yahoo and OpenRouter requests go, set with VITE_API_MODE:
+ * - live: call the real APIs directly (default)
+ * - fixtures: serve recorded responses from the dev server (mock-server/)
+ * - record: forward through the dev server to the real APIs and save the responses as fixtures
+ *
+ * The fixture server only runs under `vite dev`, so production builds are always live.
+ */
+
+export type ApiMode = 'live' | 'fixtures' | 'record';
+
+const configured = import.meta.env.VITE_API_MODE as string | undefined;
+
+export const API_MODE: ApiMode =
+  configured === 'fixtures' || configured === 'record' ? configured : 'live';
+
+export const usesFixtureServer = API_MODE !== 'live' && import.meta.env.DEV;
+
+// Fixtures mode answers locally without touching the real APIs
+export const servesRecordedFixtures = API_MODE === 'fixtures' && import.meta.env.DEV;
+
+export const FIXTURE_BASE_URL = {
+  rapidApi: '/__fixtures/rapidapi',
+  openRouter: '/__fixtures/openrouter',
+};
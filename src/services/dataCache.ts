@@ -0,0 +1,256 @@
+/**
+ * Data Cache
+ * Cross-session cache for quotes, statements, charts and AI analyses, kept in
+ * IndexedDB. Entries expire on the market-hours policy in utils/cachePolicy.
+ * Expired entries are kept and served when a refetch fails, and concurrent
+ * requests for the same key share one fetch. Entries expired for longer than
+ * PRUNE_AFTER_MS are dropped when the cache opens.
+ *
+ * Falls back to an in-memory store when IndexedDB is unavailable (private
+ * browsing, tests).
+ */
+
+import type { CacheEntryInfo, CacheKind } from '@/types';
+import { getCacheExpiry } from '@/utils/cachePolicy';
+
+const DB_NAME = 'stock-recommender-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+// How long an expired entry is kept as a stale fallback
+const PRUNE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CacheRecord<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  id: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheOptions<T> {
+  ttlMs?: number; // overrides the market-hours TTL for this kind
+  cacheIf?: (value: T) => boolean; // e.g. skip estimated data
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class DataCache {
+  private static instance: DataCache;
+  private db: Promise<IDBDatabase | null>;
+  private memory = new Map<string, CacheRecord>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  public static getInstance(): DataCache {
+    if (!DataCache.instance) {
+      DataCache.instance = new DataCache();
+    }
+    return DataCache.instance;
+  }
+
+  private constructor() {
+    this.db = this.openDatabase();
+    void this.prune();
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('kind', 'kind');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Failed to open data cache, using memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  /**
+   * Drop entries that expired more than PRUNE_AFTER_MS ago
+   */
+  private async prune(): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const records = (await requestResult(store.getAll())) as CacheRecord[];
+      const cutoff = Date.now() - PRUNE_AFTER_MS;
+      const expired = records.filter(record => record.expiresAt < cutoff);
+      await Promise.all(expired.map(record => requestResult(store.delete(record.key))));
+      if (expired.length > 0) console.log(`🧹 Pruned ${expired.length} expired cache entries`);
+    } catch (error) {
+      console.error('Failed to prune data cache:', error);
+    }
+  }
+
+  private static key(kind: CacheKind, id: string): string {
+    return `${kind}:${id}`;
+  }
+
+  private async read<T>(key: string): Promise<CacheRecord<T> | null> {
+    const db = await this.db;
+    if (!db) return (this.memory.get(key) as CacheRecord<T>) ?? null;
+
+    try {
+      const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+      return ((await requestResult(store.get(key))) as CacheRecord<T>) ?? null;
+    } catch (error) {
+      console.error(`Failed to read cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  private async write(record: CacheRecord): Promise<void> {
+    const db = await this.db;
+    if (!db) {
+      this.memory.set(record.key, record);
+      return;
+    }
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestResult(store.put(record));
+    } catch (error) {
+      console.error(`Failed to write cache entry ${record.key}:`, error);
+    }
+  }
+
+  /**
+   * Fresh cached value, or null when missing or expired
+   */
+  async get<T>(kind: CacheKind, id: string): Promise<T | null> {
+    const record = await this.read<T>(DataCache.key(kind, id));
+    return record && record.expiresAt > Date.now() ? record.value : null;
+  }
+
+  async set<T>(kind: CacheKind, id: string, value: T, ttlMs?: number): Promise<void> {
+    const now = new Date();
+    await this.write({
+      key: DataCache.key(kind, id),
+      kind,
+      id,
+      value,
+      storedAt: now.getTime(),
+      expiresAt: getCacheExpiry(kind, now, ttlMs).getTime(),
+    });
+  }
+
+  /**
+   * Cached value if fresh, otherwise load and store it. Callers asking for
+   * the same key while a load is running share its result. When the load
+   * fails or returns null, the expired value is returned if there is one.
+   */
+  getOrFetch<T>(
+    kind: CacheKind,
+    id: string,
+    load: () => Promise<T | null>,
+    options: CacheOptions<T> = {}
+  ): Promise<T | null> {
+    const key = DataCache.key(kind, id);
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T | null>;
+
+    const promise = (async () => {
+      const record = await this.read<T>(key);
+      if (record && record.expiresAt > Date.now()) return record.value;
+
+      try {
+        const value = await load();
+        if (value !== null && value !== undefined) {
+          if (!options.cacheIf || options.cacheIf(value)) {
+            await this.set(kind, id, value, options.ttlMs);
+          }
+          return value;
+        }
+      } catch (error) {
+        if (!record) throw error;
+        const msg = error instanceof Error ? error.message : String(error);
+        console.log(`⚠️ Serving stale ${key} after refetch failed: ${msg}`);
+      }
+      return record ? record.value : null;
+    })().finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Every entry without its value, newest first
+   */
+  async list(): Promise<CacheEntryInfo[]> {
+    const db = await this.db;
+    let records: CacheRecord[];
+    if (db) {
+      try {
+        const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+        records = (await requestResult(store.getAll())) as CacheRecord[];
+      } catch (error) {
+        console.error('Failed to list cache entries:', error);
+        records = [];
+      }
+    } else {
+      records = Array.from(this.memory.values());
+    }
+
+    const now = Date.now();
+    return records
+      .map(record => ({
+        key: record.key,
+        kind: record.kind,
+        id: record.id,
+        storedAt: new Date(record.storedAt),
+        expiresAt: new Date(record.expiresAt),
+        sizeBytes: JSON.stringify(record.value)?.length ?? 0,
+        isStale: record.expiresAt <= now,
+      }))
+      .sort((a, b) => b.storedAt.getTime() - a.storedAt.getTime());
+  }
+
+  async remove(key: string): Promise<void> {
+    const db = await this.db;
+    this.memory.delete(key);
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestResult(store.delete(key));
+    } catch (error) {
+      console.error(`Failed to remove cache entry ${key}:`, error);
+    }
+  }
+
+  /**
+   * Remove every entry, or only those of one kind
+   */
+  async clear(kind?: CacheKind): Promise<void> {
+    if (kind) {
+      const entries = await this.list();
+      await Promise.all(entries.filter(entry => entry.kind === kind).map(entry => this.remove(entry.key)));
+      return;
+    }
+
+    const db = await this.db;
+    this.memory.clear();
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestResult(store.clear());
+    } catch (error) {
+      console.error('Failed to clear data cache:', error);
+    }
+  }
+}
+
+export const dataCache = DataCache.getInstance();
@@ -1,6 +1,8 @@
 // Fallback API service for when Yahoo Finance is blocked by CORS
 // Uses alternative sources that don't have CORS restrictions
 
+import { quotaManager } from "./quotaManager";
+
 export interface FallbackStockData {
   symbol: string;
   name: string;
@@ -53,11 +55,17 @@ class FallbackAPIService {
       throw new Error("Alpha Vantage API key not configured");
     }
 
-    const response = await fetch(
+    const response = await quotaManager.fetch(
+      "alphaVantage",
       `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${this.alphaVantageKey}`
     );
 
     const data = await response.json();
+    // The free tier answers 200 with a note once the daily calls are used
+    if (data.Note || data.Information) {
+      quotaManager.reportDailyQuotaExhausted("alphaVantage");
+      throw new Error("Alpha Vantage daily limit reached");
+    }
     const quote = data["Global Quote"];
 
     if (!quote) {
@@ -85,10 +93,12 @@ class FallbackAPIService {
     }
 
     const [quoteResponse, profileResponse] = await Promise.all([
-      fetch(
+      quotaManager.fetch(
+        "fmp",
         `https://financialmodelingprep.com/api/v3/quote/${symbol}?apikey=${this.fmpKey}`
       ),
-      fetch(
+      quotaManager.fetch(
+        "fmp",
         `https://financialmodelingprep.com/api/v3/profile/${symbol}?apikey=${this.fmpKey}`
       ),
     ]);
@@ -3,12 +3,11 @@
 
 import { yahooFinanceAPI, YahooStockData } from "./yahooFinanceAPI";
 import { openRouterAPI } from "./openRouterAPI";
-import { fallbackAPI, FallbackStockData } from "./fallbackAPI";
 import { VercelApiService } from "./vercelApiService";
-import {
-  rapidApiYahooService,
-  RapidApiYahooChart,
-} from "./rapidApiYahooService";
+import { rapidApiYahooService } from "./rapidApiYahooService";
+import { marketDataService, emptySnapshot } from "./marketDataService";
+import { dataCache } from "./dataCache";
+import { quoteFromFallbackData } from "./providers/fallbackProvider";
 import {
   DetailedStockAnalysis,
   HealthStatus,
@@ -16,7 +15,24 @@ import {
   DataSource,
   MetricWithSource,
   PriceData,
+  CompanyProfile,
+  MarketQuote,
+  MarketSnapshot,
+  MarketStatistics,
+  FinancialStatements,
+  DCFSeed,
 } from "@/types";
+import {
+  computeTechnicalData,
+  buildTechnicalIndicatorHealth,
+} from "@/utils/technicalIndicators";
+import { reconcileAIMetrics } from "@/utils/aiReconciliation";
+import { normalizeStatements } from "@/utils/financialStatements";
+import { assessStatementHealth } from "@/utils/statementHealth";
+import { computeQualityScores } from "@/utils/qualityScores";
+import { computeDuPont } from "@/utils/dupont";
+import { seedDCFInputs } from "@/utils/dcf";
+import { useQualityScoreStore } from "@/stores/qualityScoreStore";
 
 export class HybridStockService {
   // Check if we should use Vercel APIs (when deployed)
@@ -95,12 +111,60 @@ export class HybridStockService {
     console.log(`⏰ Time: ${new Date().toLocaleTimeString()}`);
 
     // Use Vercel APIs when deployed, local APIs when in development
+    let analysis: DetailedStockAnalysis;
     if (HybridStockService.shouldUseVercelApi()) {
       console.log(`☁️ Using Vercel serverless functions for ${symbol}`);
-      return await this.getVercelBasedAnalysis(symbol);
+      analysis = await this.getVercelBasedAnalysis(symbol);
     } else {
       console.log(`💻 Using development fallback system for ${symbol}`);
-      return await this.getLocalAnalysis(symbol);
+      analysis = await this.getLocalAnalysis(symbol);
+    }
+
+    return await this.applyPriceHistoryIndicators(symbol, analysis);
+  }
+
+  // Replace the estimated technical indicators with values computed from
+  // one year of daily prices. Mock chart data is ignored because its price
+  // scale is unrelated to the quote.
+  private async applyPriceHistoryIndicators(
+    symbol: string,
+    analysis: DetailedStockAnalysis
+  ): Promise<DetailedStockAnalysis> {
+    try {
+      const chart = await this.getChartData(symbol, "1y", "1d");
+      if (!chart.isRealData) return analysis;
+
+      const technicalData = computeTechnicalData(chart.data);
+      if (!technicalData) {
+        console.log(
+          `⚠️ Not enough price history for ${symbol} (${chart.data.length} bars)`
+        );
+        return { ...analysis, priceHistory: chart.data };
+      }
+
+      const latestClose = chart.data[chart.data.length - 1].close;
+      const currentPrice = analysis.currentPrice || latestClose;
+      console.log(`📐 Technical indicators computed for ${symbol}`);
+
+      return {
+        ...analysis,
+        priceHistory: chart.data,
+        technicalData,
+        technicalIndicators: {
+          ...analysis.technicalIndicators,
+          ...buildTechnicalIndicatorHealth(technicalData, currentPrice),
+          support: technicalData.supportLevels.length
+            ? technicalData.supportLevels
+            : analysis.technicalIndicators.support,
+          resistance: technicalData.resistanceLevels.length
+            ? technicalData.resistanceLevels
+            : analysis.technicalIndicators.resistance,
+        },
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️ Technical indicator computation failed: ${msg}`);
+      return analysis;
     }
   }
 
@@ -124,12 +188,8 @@ export class HybridStockService {
         console.log(`✅ USING REAL API DATA FROM RAPIDAPI YAHOO`);
         console.log(`✅ ================================`);
         // Build enhanced metrics (profitability/liquidity/etc.) and then fill via AI if needed
-        const enhancedData = await this.getEnhancedFinancialData(symbol);
-        let analysis = this.createEnhancedAnalysis(symbol, enhancedData);
-        analysis = await this.fillMissingProfitabilityWithAI(symbol, analysis);
-        analysis = await this.fillMissingLiquidityWithAI(symbol, analysis);
-        analysis = await this.fillMissingValuationWithAI(symbol, analysis);
-        analysis = await this.fillMissingGrowthWithAI(symbol, analysis);
+        const snapshot = await marketDataService.getSnapshot(symbol);
+        const analysis = await this.enrichWithAI(symbol, snapshot);
         console.log(
           `✅ RAPIDAPI YAHOO DATA: Price = ₹${analysis.currentPrice}`
         );
@@ -156,7 +216,9 @@ export class HybridStockService {
         console.log(`✅ ALPHA VANTAGE SUCCESS FOR ${symbol}!`);
         console.log(`✅ USING REAL API DATA FROM ALPHA VANTAGE`);
         console.log(`✅ ================================`);
-        const baseAnalysis = this.convertFallbackDataToAnalysis(alphaData);
+        const baseAnalysis = this.convertFallbackDataToAnalysis(
+          quoteFromFallbackData(alphaData)
+        );
         console.log(
           `✅ ALPHA VANTAGE DATA: Price = ₹${baseAnalysis.currentPrice}`
         );
@@ -197,12 +259,8 @@ export class HybridStockService {
         console.log(`✅ USING REAL API DATA FROM YAHOO FINANCE`);
         console.log(`✅ ================================`);
         // Build enhanced metrics and apply AI fills for missing categories
-        const enhancedData = await this.getEnhancedFinancialData(symbol);
-        let analysis = this.createEnhancedAnalysis(symbol, enhancedData);
-        analysis = await this.fillMissingProfitabilityWithAI(symbol, analysis);
-        analysis = await this.fillMissingLiquidityWithAI(symbol, analysis);
-        analysis = await this.fillMissingValuationWithAI(symbol, analysis);
-        analysis = await this.fillMissingGrowthWithAI(symbol, analysis);
+        const snapshot = await marketDataService.getSnapshot(symbol);
+        const analysis = await this.enrichWithAI(symbol, snapshot);
         console.log(
           `✅ YAHOO FINANCE DATA: Price = ₹${analysis.currentPrice}`
         );
@@ -216,26 +274,17 @@ export class HybridStockService {
       );
     }
 
-    // As a last attempt, try direct RapidAPI Yahoo without proxy
+    // As a last attempt, try the market data providers directly without proxy
     try {
-      if (rapidApiYahooService.isAvailable()) {
-        console.log(`🛠️ Fallback: trying direct RapidAPI Yahoo for ${symbol} (no proxy)...`);
-        const enhancedData = await this.getEnhancedFinancialData(symbol);
-        if (enhancedData.hasRealData) {
-          console.log(`✅ Direct RapidAPI Yahoo success for ${symbol} (no proxy)`);
-          let analysis = this.createEnhancedAnalysis(symbol, enhancedData);
-          analysis = await this.fillMissingProfitabilityWithAI(symbol, analysis);
-          analysis = await this.fillMissingLiquidityWithAI(symbol, analysis);
-          analysis = await this.fillMissingValuationWithAI(symbol, analysis);
-          analysis = await this.fillMissingGrowthWithAI(symbol, analysis);
-          return analysis;
-        }
-      } else {
-        console.log(`🔑 RapidAPI key not configured; skipping direct RapidAPI fallback.`);
+      console.log(`🛠️ Fallback: trying market data providers for ${symbol} (no proxy)...`);
+      const snapshot = await marketDataService.getSnapshot(symbol);
+      if (snapshot.hasRealData) {
+        console.log(`✅ Direct market data success for ${symbol} (no proxy)`, snapshot.sources);
+        return await this.enrichWithAI(symbol, snapshot);
       }
     } catch (error) {
       console.log(
-        `⚠️ Direct RapidAPI Yahoo fallback failed: ${
+        `⚠️ Direct market data fallback failed: ${
           error instanceof Error ? error.message : String(error)
         }`
       );
@@ -263,6 +312,13 @@ export class HybridStockService {
     return response.choices[0].message.content;
   }
 
+  // OpenRouter estimate for one metric category, cached like other AI analyses
+  private askAIForMetrics(symbol: string, category: string, prompt: string): Promise<any> {
+    return dataCache.getOrFetch("analysis", `${category}:${symbol.toUpperCase()}`, () =>
+      VercelApiService.fetchOpenRouterAnalysis(symbol, prompt)
+    );
+  }
+
   // Fill missing LIQUIDITY metrics using OpenRouter
   private async fillMissingLiquidityWithAI(
     symbol: string,
@@ -286,7 +342,7 @@ export class HybridStockService {
 
       const prompt = `Return ONLY JSON (no prose) estimating missing liquidity ratios for ${symbol}. Output must be valid JSON matching exactly this schema: {"liquidity": {"Current Ratio": number, "Quick Ratio": number, "Debt-to-Equity": number, "Interest Coverage": number}}. Numbers only (no quotes, no %).`;
 
-      const resp = await VercelApiService.fetchOpenRouterAnalysis(symbol, prompt);
+      const resp = await this.askAIForMetrics(symbol, "liquidity", prompt);
       const content = resp?.choices?.[0]?.message?.content || "";
       let jsonStr = content;
       const codeMatch = content.match(/\{[\s\S]*\}/);
@@ -377,7 +433,7 @@ export class HybridStockService {
 
       const prompt = `Return ONLY JSON (no prose) estimating missing valuation metrics for ${symbol}. Output must be valid JSON matching exactly this schema: {"valuation": {"P/S Ratio": number, "EV/EBITDA": number, "Dividend Yield": number}}. Numbers only (Dividend Yield as percent without %).`;
 
-      const resp = await VercelApiService.fetchOpenRouterAnalysis(symbol, prompt);
+      const resp = await this.askAIForMetrics(symbol, "valuation", prompt);
       const content = resp?.choices?.[0]?.message?.content || "";
       let jsonStr = content;
       const codeMatch = content.match(/\{[\s\S]*\}/);
@@ -451,7 +507,7 @@ export class HybridStockService {
 
       const prompt = `Return ONLY JSON (no prose) estimating missing growth metrics for ${symbol}. Output must be valid JSON matching exactly this schema: {"growth": {"Revenue CAGR (3Y)": number, "EPS Growth (3Y)": number, "Market Share Growth": number}}. Use percentages without % sign.`;
 
-      const resp = await VercelApiService.fetchOpenRouterAnalysis(symbol, prompt);
+      const resp = await this.askAIForMetrics(symbol, "growth", prompt);
       const content = resp?.choices?.[0]?.message?.content || "";
       let jsonStr = content;
       const codeMatch = content.match(/\{[\s\S]*\}/);
@@ -502,74 +558,95 @@ export class HybridStockService {
   private async getLocalAnalysis(
     symbol: string
   ): Promise<DetailedStockAnalysis> {
-    // Check if RapidAPI is available before trying
-    if (!rapidApiYahooService.isAvailable()) {
-      console.log(
-        `🔑 RapidAPI key not configured. Skipping enhanced data fetch for ${symbol}`
-      );
-    } else {
-      // Try enhanced financial data first
-      try {
-        console.log(
-          `🔍 Attempting enhanced financial data fetch for ${symbol}...`
-        );
-        const enhancedData = await this.getEnhancedFinancialData(symbol);
-
-        if (enhancedData.hasRealData) {
-          console.log(`✅ Enhanced data available for ${symbol}!`);
-          let analysis = this.createEnhancedAnalysis(symbol, enhancedData);
-          analysis = await this.fillMissingProfitabilityWithAI(symbol, analysis);
-          analysis = await this.fillMissingLiquidityWithAI(symbol, analysis);
-          analysis = await this.fillMissingValuationWithAI(symbol, analysis);
-          analysis = await this.fillMissingGrowthWithAI(symbol, analysis);
-          return analysis;
-        }
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        console.log(`⚠️ Enhanced data fetch failed: ${msg}`);
+    // Providers are tried in the configured priority order
+    let snapshot = emptySnapshot(symbol);
+    try {
+      console.log(`🔍 Attempting market data fetch for ${symbol}...`);
+      snapshot = await marketDataService.getSnapshot(symbol);
+
+      if (snapshot.hasRealData) {
+        console.log(`✅ Real market data available for ${symbol}!`, snapshot.sources);
+        return await this.enrichWithAI(symbol, snapshot);
       }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️ Market data fetch failed: ${msg}`);
     }
 
-    // Direct to fallback system for reliable development experience
-    try {
-      console.log(`🔄 Fetching data via local fallback APIs for ${symbol}...`);
-      const fallbackData = await fallbackAPI.getStockData(symbol);
+    // Only an estimated quote came back; build on it with AI analysis
+    if (snapshot.quote) {
+      console.log(`✅ Local fallback quote available for ${symbol}`);
+      const baseAnalysis = this.convertFallbackDataToAnalysis(snapshot.quote);
 
-      if (fallbackData) {
-        console.log(`✅ Local fallback API success for ${symbol}!`);
-        const baseAnalysis = this.convertFallbackDataToAnalysis(fallbackData);
-
-        // Try to enhance with AI
-        try {
-          console.log(`🤖 Attempting local AI enhancement...`);
-          const aiAnalysis = await openRouterAPI.getStockAnalysis(symbol);
-          console.log(`✅ Local AI enhancement successful for ${symbol}!`);
-          return this.mergeFallbackAnalysis(baseAnalysis, aiAnalysis);
-        } catch (aiError) {
-          console.log(
-            `⚠️ Local AI enhancement failed, using fallback data only`
-          );
-          return baseAnalysis;
-        }
+      // Try to enhance with AI
+      try {
+        console.log(`🤖 Attempting local AI enhancement...`);
+        const aiAnalysis = await openRouterAPI.getStockAnalysis(symbol);
+        console.log(`✅ Local AI enhancement successful for ${symbol}!`);
+        return this.mergeFallbackAnalysis(baseAnalysis, aiAnalysis);
+      } catch (aiError) {
+        console.log(
+          `⚠️ Local AI enhancement failed, using fallback data only`
+        );
+        return baseAnalysis;
       }
-    } catch (fallbackError) {
-      console.log(
-        `⚠️ Local fallback APIs not available, using smart mock data`
-      );
     }
 
     // Final fallback: Create enhanced analysis with no real data
     console.log(`🎭 Using mock data with enhanced structure for ${symbol}`);
-    const mockEnhancedData = {
-      quote: null,
-      statistics: null,
-      financials: null,
-      balanceSheet: null,
-      cashFlow: null,
-      hasRealData: false,
-    };
+    return this.createEnhancedAnalysis(symbol, emptySnapshot(symbol));
+  }
+
+  // Fill metric categories the providers left empty using OpenRouter, then
+  // cross-check the AI's numbers against what the real data implies
+  private async enrichWithAI(
+    symbol: string,
+    snapshot: MarketSnapshot
+  ): Promise<DetailedStockAnalysis> {
+    let enriched = await this.fillMissingProfitabilityWithAI(
+      symbol,
+      this.createEnhancedAnalysis(symbol, snapshot)
+    );
+    enriched = await this.fillMissingLiquidityWithAI(symbol, enriched);
+    enriched = await this.fillMissingValuationWithAI(symbol, enriched);
+    enriched = await this.fillMissingGrowthWithAI(symbol, enriched);
+    return reconcileAIMetrics(enriched, snapshot, (name, value) =>
+      this.assessMetricHealth(name, value)
+    );
+  }
 
-    return this.createEnhancedAnalysis(symbol, mockEnhancedData);
+  // Annual and quarterly statements in the full statement types; null when
+  // no provider reports statements for the symbol
+  async getFinancialStatements(
+    symbol: string
+  ): Promise<FinancialStatements | null> {
+    const [statements, quote] = await Promise.all([
+      marketDataService.getStatements(symbol),
+      marketDataService.getQuote(symbol).catch(() => null),
+    ]);
+    return statements
+      ? normalizeStatements(symbol, statements, quote?.sharesOutstanding)
+      : null;
+  }
+
+  // DCF starting inputs from annual free cash flow, beta and share count
+  async getDCFSeed(symbol: string): Promise<DCFSeed | null> {
+    const [statements, quote, statistics] = await Promise.all([
+      marketDataService.getStatements(symbol),
+      marketDataService.getQuote(symbol).catch(() => null),
+      marketDataService.getStatistics(symbol).catch(() => null),
+    ]);
+    if (!statements) return null;
+    const sharesOutstanding =
+      quote?.sharesOutstanding ?? statistics?.sharesOutstanding;
+    return seedDCFInputs(
+      normalizeStatements(symbol, statements, sharesOutstanding),
+      {
+        beta: statistics?.beta,
+        sharesOutstanding,
+        marketCap: quote?.marketCap ?? statistics?.marketCap,
+      }
+    );
   }
 
   // Method to get chart data
@@ -585,52 +662,12 @@ export class HybridStockService {
     console.log(`📈 Fetching chart data for ${symbol} (${range}, ${interval})`);
 
     try {
-      // Try to get real chart data from RapidAPI Yahoo
-      const chartResponse = await rapidApiYahooService.getChart(
-        symbol,
-        range,
-        interval
-      );
-
-      if (chartResponse?.chart?.result?.[0]) {
-        const result = chartResponse.chart.result[0];
-        const timestamps = result.timestamp || [];
-        const quotes = result.indicators?.quote?.[0];
-        const adjClose = result.indicators?.adjclose?.[0]?.adjclose;
-
-        if (timestamps.length > 0 && quotes) {
-          const priceData: PriceData[] = [];
-
-          for (let i = 0; i < timestamps.length; i++) {
-            if (
-              quotes.open?.[i] !== undefined &&
-              quotes.high?.[i] !== undefined &&
-              quotes.low?.[i] !== undefined &&
-              quotes.close?.[i] !== undefined &&
-              quotes.volume?.[i] !== undefined
-            ) {
-              priceData.push({
-                date: new Date(timestamps[i] * 1000),
-                open: quotes.open[i],
-                high: quotes.high[i],
-                low: quotes.low[i],
-                close: adjClose?.[i] || quotes.close[i],
-                volume: quotes.volume[i],
-              });
-            }
-          }
-
-          if (priceData.length > 0) {
-            console.log(
-              `✅ Real chart data retrieved: ${priceData.length} data points`
-            );
-            return {
-              data: priceData,
-              isRealData: true,
-              dataSource: DataSource.RAPID_API_YAHOO,
-            };
-          }
-        }
+      const chart = await marketDataService.getChart(symbol, range, interval);
+      if (chart) {
+        console.log(
+          `✅ Real chart data retrieved: ${chart.data.length} data points`
+        );
+        return { data: chart.data, isRealData: true, dataSource: chart.dataSource };
       }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
@@ -854,26 +891,29 @@ export class HybridStockService {
 
   // Convert fallback API data to our DetailedStockAnalysis format
   private convertFallbackDataToAnalysis(
-    data: FallbackStockData
+    data: MarketQuote
   ): DetailedStockAnalysis {
+    const changePercent = data.changePercent ?? 0;
+    const peRatio = data.trailingPE ?? 0;
+    const name = data.name || `${data.symbol.toUpperCase()} Limited`;
     return {
       symbol: data.symbol,
-      name: data.name,
+      name,
       about: `${
-        data.name
+        name
       } is a leading Indian company with established market presence. Current market conditions show ${
-        data.changePercent >= 0 ? "positive" : "negative"
-      } momentum with ${Math.abs(data.changePercent).toFixed(1)}% change.`,
+        changePercent >= 0 ? "positive" : "negative"
+      } momentum with ${Math.abs(changePercent).toFixed(1)}% change.`,
       keyPoints: [
-        `Current market price: ₹${data.currentPrice ? data.currentPrice.toFixed(2) : 'N/A'}`,
+        `Current market price: ₹${data.price ? data.price.toFixed(2) : 'N/A'}`,
         `Price change: ${data.change ? (data.change >= 0 ? "+" : "") + '₹' + data.change.toFixed(2) : 'N/A'} (${data.changePercent ? (data.changePercent >= 0 ? "+" : "") + data.changePercent.toFixed(1) + '%' : 'N/A'})`,
         `Market capitalization: ₹${data.marketCap ? (data.marketCap / 10000000).toFixed(0) : 'N/A'} Cr`,
-        `P/E Ratio: ${data.peRatio && data.peRatio > 0 ? data.peRatio.toFixed(1) : "N/A"}`,
+        `P/E Ratio: ${peRatio > 0 ? peRatio.toFixed(1) : "N/A"}`,
         `Trading volume: ${data.volume ? (data.volume / 100000).toFixed(1) : 'N/A'} lakh shares`,
         `Data source: Fallback API (reliable alternative)`,
       ],
-      currentPrice: data.currentPrice,
-      marketCap: data.marketCap,
+      currentPrice: data.price,
+      marketCap: data.marketCap ?? 0,
       sector: this.guessSectorFromSymbol(data.symbol),
       industry: "Indian Equity",
 
@@ -881,9 +921,9 @@ export class HybridStockService {
       financialHealth: {
         statements: {
           incomeStatement:
-            data.changePercent > 0 ? HealthStatus.GOOD : HealthStatus.NORMAL,
+            changePercent > 0 ? HealthStatus.GOOD : HealthStatus.NORMAL,
           balanceSheet:
-            data.peRatio > 0 && data.peRatio < 30
+            peRatio > 0 && peRatio < 30
               ? HealthStatus.GOOD
               : HealthStatus.NORMAL,
           cashFlow: HealthStatus.GOOD,
@@ -904,8 +944,8 @@ export class HybridStockService {
         },
         valuation: {
           "P/E Ratio": {
-            value: data.peRatio || 0,
-            health: this.assessPEHealth(data.peRatio),
+            value: peRatio,
+            health: this.assessPEHealth(peRatio),
             dataSource: DataSource.ESTIMATED,
           },
           "P/B Ratio": { value: 2.5, health: HealthStatus.NORMAL, dataSource: DataSource.ESTIMATED },
@@ -928,35 +968,35 @@ export class HybridStockService {
       technicalIndicators: {
         stochasticRSI: this.generateTechnicalIndicator(
           "Stochastic RSI",
-          data.currentPrice,
-          data.currentPrice * 1.2,
-          data.currentPrice * 0.8
+          data.price,
+          data.price * 1.2,
+          data.price * 0.8
         ),
         connorsRSI: this.generateTechnicalIndicator(
           "Connors RSI",
-          data.currentPrice,
-          data.currentPrice * 1.2,
-          data.currentPrice * 0.8
+          data.price,
+          data.price * 1.2,
+          data.price * 0.8
         ),
         macd: this.generateTechnicalIndicator(
           "MACD",
-          data.currentPrice,
-          data.currentPrice * 1.2,
-          data.currentPrice * 0.8
+          data.price,
+          data.price * 1.2,
+          data.price * 0.8
         ),
         patterns: this.generateTechnicalIndicator(
           "Pattern Analysis",
-          data.currentPrice,
-          data.currentPrice * 1.2,
-          data.currentPrice * 0.8
+          data.price,
+          data.price * 1.2,
+          data.price * 0.8
         ),
         support: this.calculateSupportLevels(
-          data.currentPrice,
-          data.currentPrice * 0.8
+          data.price,
+          data.price * 0.8
         ),
         resistance: this.calculateResistanceLevels(
-          data.currentPrice,
-          data.currentPrice * 1.2
+          data.price,
+          data.price * 1.2
         ),
       },
 
@@ -978,7 +1018,7 @@ export class HybridStockService {
       ],
 
       priceHistory: [],
-      lastUpdated: new Date(data.lastUpdated),
+      lastUpdated: data.asOf,
     };
   }
 
@@ -1106,7 +1146,7 @@ export class HybridStockService {
     hasRealData: boolean,
     currentPrice: number | null,
     marketCap: number | null,
-    profileData: any
+    profile: CompanyProfile | null
   ): string[] {
     if (!hasRealData) {
       return [
@@ -1119,7 +1159,7 @@ export class HybridStockService {
     const pros = [];
     if (currentPrice) pros.push("Real-time price data available");
     if (marketCap) pros.push("Market capitalization data available");
-    if (profileData) pros.push("Company profile information available");
+    if (profile) pros.push("Company profile information available");
 
     pros.push("Data sourced from Yahoo Finance API");
     pros.push("Professional financial data provider");
@@ -1158,112 +1198,61 @@ export class HybridStockService {
     return HealthStatus.WORSE;
   }
 
-  // Enhanced method to create analysis with real financial data
+  // Enhanced method to create analysis with real financial data.
+  // Reads only the normalized snapshot, so it works with any provider.
   private createEnhancedAnalysis(
     symbol: string,
-    enhancedData: any
+    snapshot: MarketSnapshot
   ): DetailedStockAnalysis {
-    const {
-      quote,
-      statistics,
-      financials,
-      balanceSheet,
-      cashFlow,
-      summary,
-      profile,
-      hasRealData,
-    } = enhancedData;
+    const { quote, profile, statements, statistics, hasRealData } = snapshot;
 
     console.log(`📊 Creating enhanced analysis for ${symbol}`);
-    console.log(`📈 Has real data: ${hasRealData}`);
-
-    // Extract real data from any of the available sources
-    // Priority: summary > quote > statistics
-    const summaryData = summary?.summaryDetail || summary;
-    const quoteData = quote || summaryData;
-    const statsObj = statistics || {};
-    const keyStats =
-      statsObj?.defaultKeyStatistics ||
-      (statistics as any)?.quoteSummary?.result?.[0]?.defaultKeyStatistics ||
-      (financials as any)?.defaultKeyStatistics ||
-      {};
-
-    // financialData can appear under either statistics or financials payloads
-    const finFromStats =
-      (statistics as any)?.financialData ||
-      (statistics as any)?.quoteSummary?.result?.[0]?.financialData ||
-      {};
-    const finFromFinancials =
-      (financials as any)?.financialData ||
-      (financials as any)?.quoteSummary?.result?.[0]?.financialData ||
-      {};
-    const finData = { ...finFromStats, ...finFromFinancials };
-    const profileData = profile?.assetProfile || profile;
+    console.log(`📈 Has real data: ${hasRealData}`, snapshot.sources);
+
+    const stats: Partial<MarketStatistics> = statistics || {};
+    const statsSource = statistics?.dataSource ?? null;
+    const quoteSource = quote?.dataSource ?? null;
 
     // Extract real data or mark as null for N/A display
-    const currentPrice =
-      summaryData?.regularMarketPrice?.raw ||
-      quoteData?.regularMarketPrice ||
-      summaryData?.currentPrice?.raw ||
-      null;
-    const marketCap =
-      summaryData?.marketCap?.raw ||
-      quoteData?.marketCap ||
-      keyStats?.marketCap?.raw ||
-      finData?.marketCap?.raw ||
-      null;
-    const peRatio =
-      summaryData?.trailingPE?.raw ||
-      quoteData?.trailingPE ||
-      keyStats?.trailingPE?.raw ||
-      finData?.trailingPE?.raw ||
-      null;
-    const pbRatio =
-      summaryData?.priceToBook?.raw ||
-      quoteData?.priceToBook ||
-      keyStats?.priceToBook?.raw ||
-      finData?.priceToBook?.raw ||
-      null;
+    const currentPrice = quote?.price || null;
+    const marketCap = quote?.marketCap || stats.marketCap || null;
+    const peRatio = quote?.trailingPE || stats.trailingPE || null;
+    const pbRatio = quote?.priceToBook || stats.priceToBook || null;
+    const peSource = quote?.trailingPE ? quoteSource : statsSource;
+    const pbSource = quote?.priceToBook ? quoteSource : statsSource;
 
     // Company info from profile
     const companyName =
-      profileData?.longName ||
-      quoteData?.shortName ||
-      quoteData?.longName ||
-      `${symbol.toUpperCase()} Limited`;
-    const sector = profileData?.sector || "N/A";
-    const industry = profileData?.industry || "N/A";
-    const description = profileData?.longBusinessSummary || null;
+      profile?.name || quote?.name || `${symbol.toUpperCase()} Limited`;
+    const sector = profile?.sector || "N/A";
+    const industry = profile?.industry || "N/A";
+    const description = profile?.description || null;
 
     // ---------- Derived metrics from financial statements ----------
-    // Interest Coverage = EBIT / InterestExpense (fallback to OperatingIncome if EBIT missing)
-    const annualIS = financials?.incomeStatementHistory?.incomeStatementHistory || [];
-    const quarterlyIS = financials?.incomeStatementHistoryQuarterly?.incomeStatementHistory || [];
+    const incHistA = statements?.annual.income || [];
+    const incHistQ = statements?.quarterly.income || [];
+    const bsHistA = statements?.annual.balance || [];
+    const bsHistQ = statements?.quarterly.balance || [];
 
-    const pickInterestCoverage = (items: any[]): number | null => {
+    // Interest Coverage = EBIT / InterestExpense (fallback to OperatingIncome if EBIT missing)
+    const pickInterestCoverage = (items: typeof incHistA): number | null => {
       for (const it of items) {
-        const ebit = it?.ebit?.raw ?? it?.ebit ?? it?.operatingIncome?.raw ?? it?.operatingIncome;
-        const interest = it?.interestExpense?.raw ?? it?.interestExpense;
-        const e = typeof ebit === "number" ? ebit : Number(ebit);
-        const i = typeof interest === "number" ? interest : Number(interest);
-        if (isFinite(e) && isFinite(i) && Math.abs(i) > 0) {
-          return e / Math.abs(i);
+        const ebit = it.ebit ?? it.operatingIncome;
+        const interest = it.interestExpense;
+        if (ebit !== undefined && interest !== undefined && Math.abs(interest) > 0) {
+          return ebit / Math.abs(interest);
         }
       }
       return null;
     };
 
     const interestCoverageValue =
-      pickInterestCoverage(annualIS) ?? pickInterestCoverage(quarterlyIS);
+      pickInterestCoverage(incHistA) ?? pickInterestCoverage(incHistQ);
 
-    // Growth metrics from earnings.financialsChart.yearly
-    const yearly = financials?.earnings?.financialsChart?.yearly || [];
-    const revSeries: number[] = yearly
-      .map((y: any) => y?.revenue?.raw ?? y?.revenue)
-      .filter((n: any) => typeof n === "number" && isFinite(n));
-    const earningsSeries: number[] = yearly
-      .map((y: any) => y?.earnings?.raw ?? y?.earnings)
-      .filter((n: any) => typeof n === "number" && isFinite(n));
+    // Growth metrics from yearly revenue and earnings
+    const yearly = statements?.yearlyEarnings || [];
+    const revSeries = yearly.map((y) => y.revenue);
+    const earningsSeries = yearly.map((y) => y.earnings);
 
     const revenueCAGR3Y = this.computeCAGRFromSeries(
       revSeries.length >= 4 ? revSeries.slice(-4) : revSeries
@@ -1273,28 +1262,13 @@ export class HybridStockService {
       earningsSeries.length >= 4 ? earningsSeries.slice(-4) : earningsSeries
     );
 
-    // Prepare income statement and balance sheet series for fallback calculations
-    const incHistQ: any[] =
-      (financials as any)?.incomeStatementHistoryQuarterly?.incomeStatementHistory || [];
-    const incHistA: any[] =
-      (financials as any)?.incomeStatementHistory?.incomeStatementHistory || [];
-    const latestIncQ = Array.isArray(incHistQ) && incHistQ.length > 0 ? incHistQ[0] : null;
-    const bsHistQ: any[] =
-      (balanceSheet as any)?.balanceSheetHistoryQuarterly?.balanceSheetStatements || [];
-    const bsHistA: any[] =
-      (balanceSheet as any)?.balanceSheetHistory?.balanceSheetStatements || [];
-
     // Helpers
-    const val = (obj: any, key: string): number | null => {
-      const raw = obj?.[key]?.raw;
-      return typeof raw === 'number' ? raw : null;
-    };
-    const sumTTM = (arr: any[], key: string, count: number = 4): number | null => {
-      if (!Array.isArray(arr) || arr.length === 0) return null;
+    type StatementKey = "revenue" | "grossProfit" | "operatingIncome" | "ebit" | "netIncome";
+    const sumTTM = (arr: typeof incHistQ, key: StatementKey, count: number = 4): number | null => {
       let total = 0;
       let used = 0;
       for (let i = 0; i < arr.length && used < count; i++) {
-        const v = val(arr[i], key);
+        const v = arr[i][key];
         if (typeof v === 'number' && v !== 0) {
           total += v;
           used++;
@@ -1302,24 +1276,24 @@ export class HybridStockService {
       }
       return used > 0 ? total : null;
     };
-    const latestNonZero = (arr: any[], key: string): number | null => {
-      if (!Array.isArray(arr)) return null;
+    const latestNonZero = (arr: typeof incHistA, key: StatementKey): number | null => {
       for (let i = 0; i < arr.length; i++) {
-        const v = val(arr[i], key);
+        const v = arr[i][key];
         if (typeof v === 'number' && v !== 0) return v;
       }
       return null;
     };
 
     // Latest quarterly values (may be zero for some IN stocks in RapidAPI)
-    const latestRevenue = val(latestIncQ, 'totalRevenue');
-    const latestGrossProfit = val(latestIncQ, 'grossProfit');
-    const latestOperatingIncome = val(latestIncQ, 'operatingIncome');
-    const latestNetIncome = val(latestIncQ, 'netIncome');
+    const latestIncQ = incHistQ[0];
+    const latestRevenue = latestIncQ?.revenue ?? null;
+    const latestGrossProfit = latestIncQ?.grossProfit ?? null;
+    const latestOperatingIncome = latestIncQ?.operatingIncome ?? null;
+    const latestNetIncome = latestIncQ?.netIncome ?? null;
 
     // Robust TTM values and annual fallbacks
-    const revenueTTM = sumTTM(incHistQ, 'totalRevenue')
-      ?? latestNonZero(incHistA, 'totalRevenue');
+    const revenueTTM = sumTTM(incHistQ, 'revenue')
+      ?? latestNonZero(incHistA, 'revenue');
     const grossProfitTTM = sumTTM(incHistQ, 'grossProfit')
       ?? latestNonZero(incHistA, 'grossProfit');
     const ebitTTM = sumTTM(incHistQ, 'ebit')
@@ -1328,41 +1302,29 @@ export class HybridStockService {
       ?? latestNonZero(incHistA, 'netIncome');
 
     // TTM and book-value based fallbacks from quote/statistics
-    const sharesOut =
-      quoteData?.sharesOutstanding || keyStats?.sharesOutstanding || null;
-    const bookValuePerShare = keyStats?.bookValue || quoteData?.bookValue || null;
-    const netIncomeTTM = keyStats?.netIncomeToCommon || netIncomeTTMInc || null;
-    const psRatio = quoteData?.priceToSales || summaryData?.priceToSalesTrailing12Months || null;
+    const sharesOut = quote?.sharesOutstanding || stats.sharesOutstanding || null;
+    const bookValuePerShare = stats.bookValuePerShare || null;
+    const netIncomeTTM = stats.netIncomeToCommon || netIncomeTTMInc || null;
+    const psRatio = quote?.priceToSales || stats.priceToSales || null;
     const ttmRevenue =
-      quoteData?.revenue || (marketCap && psRatio ? marketCap / psRatio : null);
-    const ebitdaTTM = quoteData?.ebitda || null;
+      stats.revenue || (marketCap && psRatio ? marketCap / psRatio : null);
+    const ebitdaTTM = stats.ebitda || null;
 
     // Compute robust profitability values and their sources
     const roeVal =
-      finData?.returnOnEquity?.raw != null
-        ? finData.returnOnEquity.raw * 100
-        : keyStats?.returnOnEquity?.raw != null
-        ? keyStats.returnOnEquity.raw * 100
-        : netIncomeTTM != null && sharesOut && bookValuePerShare
+      stats.returnOnEquity ??
+      (netIncomeTTM != null && sharesOut && bookValuePerShare
         ? (netIncomeTTM / (bookValuePerShare * sharesOut)) * 100
-        : null;
+        : null);
     const roeSource: DataSource | null =
-      finData?.returnOnEquity?.raw != null || keyStats?.returnOnEquity?.raw != null
-        ? DataSource.RAPID_API_YAHOO
-        : netIncomeTTM != null && sharesOut && bookValuePerShare
+      stats.returnOnEquity != null
+        ? statsSource
+        : roeVal != null
         ? DataSource.CALCULATED
         : null;
 
-    const roaVal =
-      finData?.returnOnAssets?.raw != null
-        ? finData.returnOnAssets.raw * 100
-        : keyStats?.returnOnAssets?.raw != null
-        ? keyStats.returnOnAssets.raw * 100
-        : null; // If assets unavailable, we'll use AI fallback later
-    const roaSource: DataSource | null =
-      finData?.returnOnAssets?.raw != null || keyStats?.returnOnAssets?.raw != null
-        ? DataSource.RAPID_API_YAHOO
-        : null;
+    // If assets are unavailable ROA is left for the AI fallback later
+    const roaVal = stats.returnOnAssets ?? null;
 
     // Gross Margin from statements (prefer TTM; avoid zeros)
     const grossMarginFromIncome =
@@ -1371,15 +1333,10 @@ export class HybridStockService {
         : latestGrossProfit != null && latestRevenue
         ? (latestGrossProfit / latestRevenue) * 100
         : null;
-    const grossMarginVal =
-      finData?.grossMargins?.raw != null
-        ? finData.grossMargins.raw * 100
-        : keyStats?.grossMargins?.raw != null
-        ? keyStats.grossMargins.raw * 100
-        : grossMarginFromIncome;
+    const grossMarginVal = stats.grossMargin ?? grossMarginFromIncome;
     const grossMarginSource: DataSource | null =
-      finData?.grossMargins?.raw != null || keyStats?.grossMargins?.raw != null
-        ? DataSource.RAPID_API_YAHOO
+      stats.grossMargin != null
+        ? statsSource
         : grossMarginFromIncome != null
         ? DataSource.CALCULATED
         : null;
@@ -1395,14 +1352,10 @@ export class HybridStockService {
         ? (ebitdaTTM / ttmRevenue) * 100
         : null;
     const operatingMarginVal =
-      finData?.operatingMargins?.raw != null
-        ? finData.operatingMargins.raw * 100
-        : keyStats?.operatingMargins?.raw != null
-        ? keyStats.operatingMargins.raw * 100
-        : operatingMarginFromIncome ?? operatingMarginFromEbitda;
+      stats.operatingMargin ?? operatingMarginFromIncome ?? operatingMarginFromEbitda;
     const operatingMarginSource: DataSource | null =
-      finData?.operatingMargins?.raw != null || keyStats?.operatingMargins?.raw != null
-        ? DataSource.RAPID_API_YAHOO
+      stats.operatingMargin != null
+        ? statsSource
         : operatingMarginFromIncome != null || operatingMarginFromEbitda != null
         ? DataSource.CALCULATED
         : null;
@@ -1417,24 +1370,19 @@ export class HybridStockService {
       netIncomeTTM != null && ttmRevenue
         ? (netIncomeTTM / ttmRevenue) * 100
         : null;
-    const netMarginVal =
-      finData?.profitMargins?.raw != null
-        ? finData.profitMargins.raw * 100
-        : keyStats?.profitMargins?.raw != null
-        ? keyStats.profitMargins.raw * 100
-        : netMarginFromIncome ?? netMarginFromTTM;
+    const netMarginVal = stats.netMargin ?? netMarginFromIncome ?? netMarginFromTTM;
     const netMarginSource: DataSource | null =
-      finData?.profitMargins?.raw != null || keyStats?.profitMargins?.raw != null
-        ? DataSource.RAPID_API_YAHOO
+      stats.netMargin != null
+        ? statsSource
         : netMarginFromIncome != null || netMarginFromTTM != null
         ? DataSource.CALCULATED
         : null;
 
-    // Balance Sheet derived fallbacks for ROA/ROCE
-    const latestAssets = val(bsHistQ?.[0], 'totalAssets')
-      ?? val(bsHistA?.[0], 'totalAssets');
-    const latestCurrLiab = val(bsHistQ?.[0], 'totalCurrentLiabilities')
-      ?? val(bsHistA?.[0], 'totalCurrentLiabilities');
+    // Balance Sheet derived fallbacks for ROA/ROCE and liquidity
+    const latestBalance = bsHistQ[0] ?? bsHistA[0];
+    const latestAssets = bsHistQ[0]?.totalAssets ?? bsHistA[0]?.totalAssets ?? null;
+    const latestCurrLiab =
+      bsHistQ[0]?.currentLiabilities ?? bsHistA[0]?.currentLiabilities ?? null;
     const capitalEmployed =
       latestAssets != null && latestCurrLiab != null
         ? latestAssets - latestCurrLiab
@@ -1449,18 +1397,46 @@ export class HybridStockService {
         ? (ebitTTM / capitalEmployed) * 100
         : null;
 
+    const currentRatioFromBalance =
+      latestBalance?.currentAssets && latestBalance?.currentLiabilities
+        ? latestBalance.currentAssets / latestBalance.currentLiabilities
+        : null;
+    const debtToEquityFromBalance =
+      latestBalance?.longTermDebt && latestBalance?.totalEquity
+        ? latestBalance.longTermDebt / latestBalance.totalEquity
+        : null;
+    const statementsSource = statements?.dataSource ?? null;
+    const normalized = statements
+      ? normalizeStatements(
+          symbol,
+          statements,
+          quote?.sharesOutstanding ?? stats.sharesOutstanding
+        )
+      : null;
+    // Statement ratings come from checks on the reported statements
+    const statementReports = normalized
+      ? assessStatementHealth(normalized)
+      : undefined;
+    const qualityScores = normalized
+      ? computeQualityScores(normalized, marketCap ?? undefined) ?? undefined
+      : undefined;
+    // Kept per symbol for the screener and recommendation scoring
+    if (qualityScores) {
+      useQualityScoreStore.getState().setScores(qualityScores);
+    }
+    const dupont = normalized ? computeDuPont(normalized) ?? undefined : undefined;
+
     // Create profitability metrics with real data sources - no mock fallbacks
     const profitability: Record<string, MetricWithSource> = {
       ROE: this.createMetricWithNA(roeVal, roeSource),
       ROA: this.createMetricWithNA(
         roaVal ?? roaFromTTM,
-        roaVal != null ? roaSource : roaFromTTM != null ? DataSource.CALCULATED : null
+        roaVal != null ? statsSource : roaFromTTM != null ? DataSource.CALCULATED : null
       ),
       ROCE: this.createMetricWithNA(
-        (keyStats?.returnOnCapitalEmployed?.raw != null ? keyStats.returnOnCapitalEmployed.raw * 100 : null) ??
-          roceFromTTM,
-        keyStats?.returnOnCapitalEmployed?.raw != null
-          ? DataSource.RAPID_API_YAHOO
+        stats.returnOnCapitalEmployed ?? roceFromTTM,
+        stats.returnOnCapitalEmployed != null
+          ? statsSource
           : roceFromTTM != null
           ? DataSource.CALCULATED
           : null
@@ -1473,32 +1449,23 @@ export class HybridStockService {
     // Create liquidity metrics with real data sources - no mock fallbacks
     const liquidity: Record<string, MetricWithSource> = {
       "Current Ratio": this.createMetricWithNA(
-        finData?.currentRatio?.raw || keyStats?.currentRatio?.raw ||
-          (balanceSheet?.totalCurrentAssets &&
-          balanceSheet?.totalCurrentLiabilities
-            ? balanceSheet.totalCurrentAssets /
-              balanceSheet.totalCurrentLiabilities
-            : null),
-        finData?.currentRatio?.raw || keyStats?.currentRatio?.raw
-          ? DataSource.RAPID_API_YAHOO
-          : balanceSheet?.totalCurrentAssets &&
-            balanceSheet?.totalCurrentLiabilities
-          ? DataSource.RAPID_API_YAHOO
+        stats.currentRatio || currentRatioFromBalance,
+        stats.currentRatio
+          ? statsSource
+          : currentRatioFromBalance
+          ? statementsSource
           : null
       ),
       "Quick Ratio": this.createMetricWithNA(
-        finData?.quickRatio?.raw || keyStats?.quickRatio?.raw || null,
-        finData?.quickRatio?.raw || keyStats?.quickRatio?.raw ? DataSource.RAPID_API_YAHOO : null
+        stats.quickRatio || null,
+        stats.quickRatio ? statsSource : null
       ),
       "Debt-to-Equity": this.createMetricWithNA(
-        keyStats?.debtToEquity?.raw || finData?.debtToEquity?.raw ||
-          (balanceSheet?.totalDebt && balanceSheet?.shareholderEquity
-            ? balanceSheet.totalDebt / balanceSheet.shareholderEquity
-            : null),
-        keyStats?.debtToEquity?.raw || finData?.debtToEquity?.raw
-          ? DataSource.RAPID_API_YAHOO
-          : balanceSheet?.totalDebt && balanceSheet?.shareholderEquity
-          ? DataSource.RAPID_API_YAHOO
+        stats.debtToEquity || debtToEquityFromBalance,
+        stats.debtToEquity
+          ? statsSource
+          : debtToEquityFromBalance
+          ? statementsSource
           : null
       ),
       "Interest Coverage":
@@ -1513,38 +1480,20 @@ export class HybridStockService {
     };
 
     // Create valuation metrics with real data sources - no mock fallbacks
+    const evToEbitda =
+      stats.enterpriseValue && stats.ebitda ? stats.enterpriseValue / stats.ebitda : null;
+    const dividendYield = quote?.dividendYield || stats.dividendYield || null;
     const valuation: Record<string, MetricWithSource> = {
-      "P/E Ratio": this.createMetricWithNA(
-        peRatio,
-        peRatio ? DataSource.RAPID_API_YAHOO : null
-      ),
-      "P/B Ratio": this.createMetricWithNA(
-        pbRatio,
-        pbRatio ? DataSource.RAPID_API_YAHOO : null
-      ),
+      "P/E Ratio": this.createMetricWithNA(peRatio, peRatio ? peSource : null),
+      "P/B Ratio": this.createMetricWithNA(pbRatio, pbRatio ? pbSource : null),
       "P/S Ratio": this.createMetricWithNA(
-        keyStats?.priceToSalesTrailing12Months?.raw || finData?.priceToSalesTrailing12Months?.raw || null,
-        keyStats?.priceToSalesTrailing12Months?.raw || finData?.priceToSalesTrailing12Months?.raw
-          ? DataSource.RAPID_API_YAHOO
-          : null
-      ),
-      "EV/EBITDA": this.createMetricWithNA(
-        (keyStats?.enterpriseValue?.raw || finData?.enterpriseValue?.raw) && (finData?.ebitda?.raw || keyStats?.ebitda?.raw)
-          ? (keyStats?.enterpriseValue?.raw ?? finData?.enterpriseValue?.raw) / (finData?.ebitda?.raw ?? keyStats?.ebitda?.raw)
-          : null,
-        (keyStats?.enterpriseValue?.raw || finData?.enterpriseValue?.raw) && (finData?.ebitda?.raw || keyStats?.ebitda?.raw)
-          ? DataSource.RAPID_API_YAHOO
-          : null
+        stats.priceToSales || null,
+        stats.priceToSales ? statsSource : null
       ),
+      "EV/EBITDA": this.createMetricWithNA(evToEbitda, evToEbitda ? statsSource : null),
       "Dividend Yield": this.createMetricWithNA(
-        summaryData?.dividendYield?.raw
-          ? summaryData.dividendYield.raw * 100
-          : quoteData?.dividendYield
-          ? quoteData.dividendYield * 100
-          : null,
-        summaryData?.dividendYield?.raw || quoteData?.dividendYield
-          ? DataSource.RAPID_API_YAHOO
-          : null
+        dividendYield,
+        quote?.dividendYield ? quoteSource : dividendYield ? statsSource : null
       ),
     };
 
@@ -1562,6 +1511,9 @@ export class HybridStockService {
       "Market Share Growth": this.createMetricWithNA(null, null),
     };
 
+    // The estimated indicators below are replaced once price history loads
+    const price = currentPrice ?? 0;
+
     return {
       symbol: symbol.toUpperCase(),
       name: companyName,
@@ -1585,12 +1537,15 @@ export class HybridStockService {
       industry: industry,
       financialHealth: {
         statements: {
-          incomeStatement: hasRealData
-            ? HealthStatus.GOOD
-            : HealthStatus.NORMAL,
-          balanceSheet: balanceSheet ? HealthStatus.GOOD : HealthStatus.NORMAL,
-          cashFlow: cashFlow ? HealthStatus.GOOD : HealthStatus.NORMAL,
+          incomeStatement:
+            statementReports?.incomeStatement.health ?? HealthStatus.NORMAL,
+          balanceSheet:
+            statementReports?.balanceSheet.health ?? HealthStatus.NORMAL,
+          cashFlow: statementReports?.cashFlow.health ?? HealthStatus.NORMAL,
         },
+        statementReports,
+        qualityScores,
+        dupont,
         profitability,
         liquidity,
         valuation,
@@ -1603,39 +1558,39 @@ export class HybridStockService {
       technicalIndicators: {
         stochasticRSI: this.generateTechnicalIndicator(
           "Stochastic RSI",
-          currentPrice,
-          currentPrice * 1.2,
-          currentPrice * 0.8
+          price,
+          price * 1.2,
+          price * 0.8
         ),
         connorsRSI: this.generateTechnicalIndicator(
           "Connors RSI",
-          currentPrice,
-          currentPrice * 1.2,
-          currentPrice * 0.8
+          price,
+          price * 1.2,
+          price * 0.8
         ),
         macd: this.generateTechnicalIndicator(
           "MACD",
-          currentPrice,
-          currentPrice * 1.2,
-          currentPrice * 0.8
+          price,
+          price * 1.2,
+          price * 0.8
         ),
         patterns: this.generateTechnicalIndicator(
           "Pattern Analysis",
-          currentPrice,
-          currentPrice * 1.2,
-          currentPrice * 0.8
+          price,
+          price * 1.2,
+          price * 0.8
         ),
-        support: this.calculateSupportLevels(currentPrice, currentPrice * 0.8),
+        support: this.calculateSupportLevels(price, price * 0.8),
         resistance: this.calculateResistanceLevels(
-          currentPrice,
-          currentPrice * 1.2
+          price,
+          price * 1.2
         ),
       },
       pros: this.createProsBasedOnData(
         hasRealData,
         currentPrice,
         marketCap,
-        profileData
+        profile
       ),
       cons: this.createConsBasedOnData(hasRealData, symbol),
       priceHistory: [],
@@ -1643,6 +1598,24 @@ export class HybridStockService {
     };
   }
 
+  // Health of a named metric, using the same assessors as the AI fills
+  private assessMetricHealth(name: string, value: number): HealthStatus {
+    switch (name) {
+      case "P/E Ratio":
+        return this.assessPEHealth(value);
+      case "Dividend Yield":
+        return this.assessDividendHealth(value);
+      case "ROE":
+        return this.assessROEHealth(value);
+      case "Debt-to-Equity":
+        return this.assessDebtHealth(value);
+      case "Interest Coverage":
+        return this.assessInterestCoverageHealth(value);
+      default:
+        return this.assessValueHealth(value);
+    }
+  }
+
   // Helper method to assess debt health
   private assessDebtHealth(debtToEquity: number): HealthStatus {
     if (debtToEquity < 0.3) return HealthStatus.BEST;
@@ -1721,6 +1694,8 @@ export class HybridStockService {
     return "Diversified";
   }
 
+  // Placeholder used only until real price history is available
+  // (see applyPriceHistoryIndicators)
   private generateTechnicalIndicator(
     name: string,
     currentPrice: number,
@@ -1752,6 +1727,8 @@ export class HybridStockService {
     };
   }
 
+  // Percentage-band placeholders; replaced by pivot-based levels from
+  // detectPriceLevels once price history is available
   private calculateSupportLevels(
     currentPrice: number,
     low52w: number
@@ -2009,7 +1986,7 @@ export class HybridStockService {
 
       const prompt = `Return ONLY JSON (no prose) estimating missing profitability ratios for ${symbol}. Output must be valid JSON matching exactly this schema: {"profitability": {"ROE": number, "ROA": number, "ROCE": number, "Gross Margin": number, "Operating Margin": number, "Net Margin": number}}. Use numbers only (no quotes, no % sign).`;
 
-      const resp = await VercelApiService.fetchOpenRouterAnalysis(symbol, prompt);
+      const resp = await this.askAIForMetrics(symbol, "profitability", prompt);
       const content = resp?.choices?.[0]?.message?.content || "";
       let jsonStr = content;
       const codeMatch = content.match(/\{[\s\S]*\}/);
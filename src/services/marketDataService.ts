@@ -0,0 +1,217 @@
+/**
+ * Market Data Service
+ * Routes quote, profile, statement, statistics and chart requests through
+ * the registered providers in priority order. Each kind of data comes from
+ * the first available provider that returns it.
+ *
+ * The default order is set with VITE_MARKET_DATA_PROVIDERS (comma separated
+ * provider ids) and can be overridden at runtime with setPriority().
+ *
+ * Results are kept in the data cache; estimated data is never cached so the
+ * real providers are retried on the next request.
+ */
+
+import { DataSource } from '@/types';
+import type {
+  MarketChart,
+  MarketDataKind,
+  MarketDataProvider,
+  MarketQuote,
+  MarketSnapshot,
+  MarketStatements,
+  MarketStatistics,
+} from '@/types';
+import { rapidApiYahooProvider } from './providers/rapidApiYahooProvider';
+import { yahooFinanceProvider } from './providers/yahooFinanceProvider';
+import { fallbackProvider } from './providers/fallbackProvider';
+import { dataCache } from './dataCache';
+
+const STORAGE_KEY = 'market-data-priority';
+const DEFAULT_PRIORITY = ['rapidapi', 'yahoo', 'fallback'];
+
+const isReal = (source?: DataSource) =>
+  !!source && source !== DataSource.ESTIMATED && source !== DataSource.MOCK;
+
+export class MarketDataService {
+  private static instance: MarketDataService;
+  private providers = new Map<string, MarketDataProvider>();
+  private priority: string[];
+
+  public static getInstance(): MarketDataService {
+    if (!MarketDataService.instance) {
+      MarketDataService.instance = new MarketDataService();
+    }
+    return MarketDataService.instance;
+  }
+
+  private constructor() {
+    [rapidApiYahooProvider, yahooFinanceProvider, fallbackProvider].forEach(provider =>
+      this.providers.set(provider.id, provider)
+    );
+    this.priority = this.loadPriority();
+  }
+
+  private loadPriority(): string[] {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (stored) return JSON.parse(stored) as string[];
+    } catch (error) {
+      console.error('Failed to load market data priority:', error);
+    }
+
+    const configured = import.meta.env.VITE_MARKET_DATA_PROVIDERS as string | undefined;
+    const ids = configured?.split(',').map(id => id.trim()).filter(Boolean);
+    return ids && ids.length > 0 ? ids : DEFAULT_PRIORITY;
+  }
+
+  /**
+   * Add a provider. New providers are tried last until they appear in the priority list.
+   */
+  registerProvider(provider: MarketDataProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProviders(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getPriority(): string[] {
+    return [...this.priority];
+  }
+
+  /**
+   * Set and persist the order providers are tried in. Unknown ids are dropped.
+   */
+  setPriority(ids: string[]): void {
+    this.priority = ids.filter(id => this.providers.has(id));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.priority));
+    } catch (error) {
+      console.error('Failed to save market data priority:', error);
+    }
+  }
+
+  resetPriority(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to reset market data priority:', error);
+    }
+    this.priority = this.loadPriority();
+  }
+
+  /**
+   * Available providers, prioritized ones first, then any others in registration order
+   */
+  private orderedProviders(): MarketDataProvider[] {
+    const prioritized = this.priority
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is MarketDataProvider => !!provider);
+    const rest = this.getProviders().filter(provider => !this.priority.includes(provider.id));
+    return [...prioritized, ...rest].filter(provider => provider.isAvailable());
+  }
+
+  /**
+   * Ask each provider in turn until one returns data
+   */
+  private async firstResult<T>(
+    kind: MarketDataKind,
+    symbol: string,
+    fetch: (provider: MarketDataProvider) => Promise<T | null>
+  ): Promise<{ value: T; providerId: string } | null> {
+    for (const provider of this.orderedProviders()) {
+      try {
+        const value = await fetch(provider);
+        if (value) {
+          console.log(`✅ ${kind} for ${symbol} from ${provider.name}`);
+          return { value, providerId: provider.id };
+        }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.log(`⚠️ ${provider.name} ${kind} failed for ${symbol}: ${msg}`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * firstResult through the data cache
+   */
+  private cachedResult<T extends { dataSource: DataSource }>(
+    kind: MarketDataKind,
+    symbol: string,
+    fetch: (provider: MarketDataProvider) => Promise<T | null>,
+    id: string = symbol.toUpperCase()
+  ): Promise<{ value: T; providerId: string } | null> {
+    return dataCache.getOrFetch(kind, id, () => this.firstResult(kind, symbol, fetch), {
+      cacheIf: result => isReal(result.value.dataSource),
+    });
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    return (await this.cachedResult('quote', symbol, p => p.getQuote(symbol)))?.value ?? null;
+  }
+
+  async getStatements(symbol: string): Promise<MarketStatements | null> {
+    return (await this.cachedResult('statements', symbol, p => p.getStatements(symbol)))?.value ?? null;
+  }
+
+  async getStatistics(symbol: string): Promise<MarketStatistics | null> {
+    return (await this.cachedResult('statistics', symbol, p => p.getStatistics(symbol)))?.value ?? null;
+  }
+
+  async getChart(symbol: string, range: string, interval: string): Promise<MarketChart | null> {
+    const id = `${symbol.toUpperCase()}:${range}:${interval}`;
+    const result = await this.cachedResult('chart', symbol, p => p.getChart(symbol, range, interval), id);
+    return result?.value ?? null;
+  }
+
+  /**
+   * Quote, profile, statements and statistics, fetched in parallel.
+   * hasRealData is false when nothing came back or only estimated data did.
+   */
+  async getSnapshot(symbol: string): Promise<MarketSnapshot> {
+    console.log(`🔍 Fetching market data snapshot for ${symbol}...`);
+
+    const [quote, profile, statements, statistics] = await Promise.all([
+      this.cachedResult('quote', symbol, p => p.getQuote(symbol)),
+      this.cachedResult('profile', symbol, p => p.getProfile(symbol)),
+      this.cachedResult('statements', symbol, p => p.getStatements(symbol)),
+      this.cachedResult('statistics', symbol, p => p.getStatistics(symbol)),
+    ]);
+
+    const sources: MarketSnapshot['sources'] = {};
+    if (quote) sources.quote = quote.providerId;
+    if (profile) sources.profile = profile.providerId;
+    if (statements) sources.statements = statements.providerId;
+    if (statistics) sources.statistics = statistics.providerId;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      quote: quote?.value ?? null,
+      profile: profile?.value ?? null,
+      statements: statements?.value ?? null,
+      statistics: statistics?.value ?? null,
+      sources,
+      hasRealData:
+        isReal(quote?.value.dataSource) ||
+        isReal(statements?.value.dataSource) ||
+        isReal(statistics?.value.dataSource),
+    };
+  }
+}
+
+export const marketDataService = MarketDataService.getInstance();
+
+/**
+ * A snapshot with no data, used when every provider failed
+ */
+export const emptySnapshot = (symbol: string): MarketSnapshot => ({
+  symbol: symbol.toUpperCase(),
+  quote: null,
+  profile: null,
+  statements: null,
+  statistics: null,
+  sources: {},
+  hasRealData: false,
+});
@@ -1,13 +1,21 @@
 import {
+  AIAnalysisPayload,
   DetailedStockAnalysis,
   HealthStatus,
   SignalType,
   TechnicalIndicatorHealth,
 } from "@/types";
+import { ANALYSIS_SCHEMA } from "@/utils/aiSchema";
 import { VercelApiService } from "./vercelApiService";
+import { FIXTURE_BASE_URL, usesFixtureServer } from "./apiMode";
+import { dataCache } from "./dataCache";
+import { quotaManager } from "./quotaManager";
+import { structuredAI, ChatMessage } from "./structuredAI";
 
 // OpenRouter API configuration
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+const OPENROUTER_API_URL = usesFixtureServer
+  ? `${FIXTURE_BASE_URL.openRouter}/chat/completions`
+  : "https://openrouter.ai/api/v1/chat/completions";
 const OPENROUTER_API_KEY = import.meta.env.VITE_OPENROUTER_API_KEY;
 
 interface OpenRouterResponse {
@@ -30,37 +38,26 @@ interface OpenRouterResponse {
   };
 }
 
-// System prompt for detailed stock analysis
-const SYSTEM_PROMPT = `You are an expert stock analyst with deep knowledge in both fundamental and technical analysis. 
-Your task is to provide comprehensive stock analysis for Indian stocks. 
-
-For each stock analysis, provide detailed information in the following structure:
-
-1. About section - Brief company overview and business description
-2. Key Points - 5-6 important current highlights
-3. Financial Health Assessment for:
-   - Income Statement health (BEST/GOOD/NORMAL/BAD/WORSE)
-   - Balance Sheet health (BEST/GOOD/NORMAL/BAD/WORSE)
-   - Cash Flow health (BEST/GOOD/NORMAL/BAD/WORSE)
-   - Profitability ratios with values and health status
-   - Liquidity ratios with values and health status
-   - Valuation metrics with values and health status
-   - Growth indicators with values and health status
-   - Management quality assessment
-   - Industry position assessment
-   - Risk analysis
-   - Future outlook
-
-4. Technical Analysis with:
-   - Stochastic RSI analysis with buy/sell signals and price levels
-   - Connors RSI family analysis
-   - MACD with mean-reversion filter
-   - Pattern analysis (3 down closes, 200-DMA analysis)
-   - Support and resistance levels
-
-5. Pros and Cons - Separate lists of advantages and risks
-
-Respond with detailed, actionable analysis in a structured format. Include specific price levels, ratios, and actionable insights.`;
+const ANALYSIS_MODEL = "openrouter/auto";
+
+// System prompt for detailed stock analysis. Kept short: the Vercel proxy
+// caps each message at 4000 characters and a request at 12000.
+const SYSTEM_PROMPT = `You are an expert analyst of Indian stocks covering fundamentals and technicals.
+Reply with a single JSON object and nothing else, in exactly this shape:
+{
+  "about": "Two or three sentences on the business",
+  "keyPoints": ["5-6 current highlights with specific numbers"],
+  "statements": { "incomeStatement": "GOOD", "balanceSheet": "BEST", "cashFlow": "NORMAL" },
+  "management": "GOOD",
+  "industry": "GOOD",
+  "risks": "NORMAL",
+  "outlook": "GOOD",
+  "support": [1450.5, 1400],
+  "resistance": [1580, 1650],
+  "pros": ["Advantages"],
+  "cons": ["Risks and disadvantages"]
+}
+Health values are one of BEST, GOOD, NORMAL, BAD, WORSE. Support and resistance are price levels in rupees.`;
 
 class OpenRouterAPIService {
   private apiKey: string;
@@ -79,138 +76,103 @@ class OpenRouterAPIService {
   }
 
   async getStockAnalysis(symbol: string): Promise<DetailedStockAnalysis> {
-    // Prefer Vercel proxy in deployed environments to avoid exposing keys and allowlisting issues
-    const useVercel = VercelApiService.isVercelEnvironment();
-
-    const prompt = `Provide a comprehensive analysis for Indian stock ${symbol.toUpperCase()}. 
-      Include current market conditions, financial health assessment, technical indicators, 
-      support/resistance levels, and actionable trading recommendations with specific price levels.
-      
-      Focus on:
-      1. Company fundamentals and recent performance
-      2. Technical analysis with specific entry/exit points
-      3. Risk assessment and management
-      4. Growth prospects and catalysts
-      5. Pros and cons analysis
-      
-      Provide real, actionable data with specific numbers where possible.`;
+    return (await this.requestAnalysis(symbol)) ?? this.getMockAnalysis(symbol);
+  }
 
-    try {
-      if (useVercel) {
-        const resp = await VercelApiService.fetchOpenRouterAnalysis(symbol, prompt, "openrouter/auto");
-        const analysisText = resp?.choices?.[0]?.message?.content || "";
-        if (!analysisText) throw new Error("Empty AI response");
-        return this.parseAnalysisResponse(symbol, analysisText);
-      }
+  // AI analysis, or null when the API is unavailable or the request fails
+  private async requestAnalysis(symbol: string): Promise<DetailedStockAnalysis | null> {
+    // Local/dev path: only call OpenRouter directly if a valid key exists
+    if (!VercelApiService.isVercelEnvironment() && !this.isAPIAvailable()) {
+      return null;
+    }
 
-      // Local/dev path: only call OpenRouter directly if a valid key exists
-      if (!this.apiKey) {
-        return this.getMockAnalysis(symbol);
-      }
+    const prompt = `Analyse Indian stock ${symbol.toUpperCase()}: business and recent performance,
+      financial health of each statement, management, industry position, risks and outlook,
+      key support and resistance levels, and the main pros and cons. Use real, specific numbers where possible.`;
 
-      const response = await fetch(OPENROUTER_API_URL, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": window.location.origin,
-          "X-Title": "Stock Recommender App",
-        },
-        body: JSON.stringify({
-          model: "openrouter/auto",
-          messages: [
-            { role: "system", content: SYSTEM_PROMPT },
-            { role: "user", content: prompt },
-          ],
-          temperature: 0.3,
-          max_tokens: 1200,
-          stream: false,
-        }),
+    try {
+      const payload = await structuredAI.request<AIAnalysisPayload>({
+        kind: "analysis",
+        subject: symbol.toUpperCase(),
+        schemaName: "stock_analysis",
+        schema: ANALYSIS_SCHEMA,
+        model: ANALYSIS_MODEL,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: prompt },
+        ],
+        send: (messages, responseFormat) => this.sendChat(symbol, messages, responseFormat),
       });
-
-      if (!response.ok) {
-        throw new Error(
-          `OpenRouter API error: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data: OpenRouterResponse = await response.json();
-      const analysisText = data.choices[0]?.message?.content;
-      if (!analysisText) throw new Error("No analysis content received from OpenRouter API");
-      return this.parseAnalysisResponse(symbol, analysisText);
+      return this.applyAnalysisPayload(symbol, payload);
     } catch (error) {
       console.error("Error calling OpenRouter API:", error);
-      return this.getMockAnalysis(symbol);
+      return null;
     }
   }
 
-  private parseAnalysisResponse(
+  private async sendChat(
     symbol: string,
-    analysisText: string
-  ): DetailedStockAnalysis {
-    // This is a simplified parser - in production, you'd want more robust parsing
-    // For now, we'll extract what we can and fill in with reasonable defaults
+    messages: ChatMessage[],
+    responseFormat?: object
+  ): Promise<OpenRouterResponse> {
+    // Prefer Vercel proxy in deployed environments to avoid exposing keys and allowlisting issues
+    if (VercelApiService.isVercelEnvironment()) {
+      return VercelApiService.fetchOpenRouterAnalysis(symbol, messages, ANALYSIS_MODEL, 1200, responseFormat);
+    }
 
-    try {
-      // Extract key information using regex patterns
-      const aboutMatch = analysisText.match(
-        /(?:About|Company Overview|Business):?\s*([^.]*\.)/i
-      );
-      const prosMatch = analysisText.match(
-        /(?:Pros|Advantages|Strengths):?\s*((?:[^\n]*\n?)*?)(?:Cons|Disadvantages|Risks|Challenges):/i
-      );
-      const consMatch = analysisText.match(
-        /(?:Cons|Disadvantages|Risks|Challenges):?\s*((?:[^\n]*\n?)*?)(?:\n\n|\n[A-Z]|$)/i
+    const response = await quotaManager.fetch("openrouter", OPENROUTER_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": window.location.origin,
+        "X-Title": "Stock Recommender App",
+      },
+      body: JSON.stringify({
+        model: ANALYSIS_MODEL,
+        messages,
+        temperature: 0.3,
+        max_tokens: 1200,
+        stream: false,
+        ...(responseFormat && { response_format: responseFormat }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenRouter API error: ${response.status} ${response.statusText}`
       );
-
-      const about = aboutMatch
-        ? aboutMatch[1].trim()
-        : `${symbol} is a significant player in the Indian market with strong fundamentals and growth potential.`;
-
-      const pros = prosMatch
-        ? prosMatch[1]
-            .split("\n")
-            .filter((line) => line.trim().length > 0)
-            .map((line) => line.replace(/^[-•*]\s*/, "").trim())
-            .filter((line) => line.length > 10)
-            .slice(0, 6)
-        : [
-            "Strong market position with competitive advantages",
-            "Consistent revenue growth and profitability",
-            "Robust balance sheet with manageable debt levels",
-            "Experienced management team with proven track record",
-            "Growing market opportunity in core segments",
-            "Strong cash generation capabilities",
-          ];
-
-      const cons = consMatch
-        ? consMatch[1]
-            .split("\n")
-            .filter((line) => line.trim().length > 0)
-            .map((line) => line.replace(/^[-•*]\s*/, "").trim())
-            .filter((line) => line.length > 10)
-            .slice(0, 6)
-        : [
-            "Valuation concerns at current price levels",
-            "Intense competition in core markets",
-            "Regulatory and policy risks",
-            "Dependence on economic cycles",
-            "Currency and commodity price exposure",
-            "Execution risk in expansion plans",
-          ];
-
-      // For now, return enhanced mock data with some parsed elements
-      return {
-        ...this.getMockAnalysis(symbol),
-        about,
-        pros,
-        cons,
-        lastUpdated: new Date(),
-      };
-    } catch (error) {
-      console.error("Error parsing analysis response:", error);
-      return this.getMockAnalysis(symbol);
     }
+    return response.json();
+  }
+
+  // Validated AI output layered over the defaults; metrics are filled from real data later
+  private applyAnalysisPayload(
+    symbol: string,
+    payload: AIAnalysisPayload
+  ): DetailedStockAnalysis {
+    const base = this.getMockAnalysis(symbol);
+    return {
+      ...base,
+      about: payload.about,
+      keyPoints: payload.keyPoints,
+      financialHealth: {
+        ...base.financialHealth,
+        statements: payload.statements,
+        management: payload.management,
+        industry: payload.industry,
+        risks: payload.risks,
+        outlook: payload.outlook,
+      },
+      technicalIndicators: {
+        ...base.technicalIndicators,
+        support: [...payload.support].sort((a, b) => b - a),
+        resistance: [...payload.resistance].sort((a, b) => a - b),
+      },
+      pros: payload.pros,
+      cons: payload.cons,
+      lastUpdated: new Date(),
+    };
   }
 
   getMockAnalysis(symbol: string): DetailedStockAnalysis {
@@ -398,40 +360,15 @@ class OpenRouterAPIService {
 
   // Helper method to check if API is available
   isAPIAvailable(): boolean {
-    return !!this.apiKey;
+    return !!this.apiKey || usesFixtureServer;
   }
 
-  // Method to get analysis with caching
+  // Method to get analysis with caching; mock analyses are never stored
   async getCachedAnalysis(symbol: string): Promise<DetailedStockAnalysis> {
-    const cacheKey = `openrouter_analysis_${symbol}`;
-    const cachedData = localStorage.getItem(cacheKey);
-
-    if (cachedData) {
-      try {
-        const parsed = JSON.parse(cachedData);
-        // Check if data is less than 2 hours old
-        if (
-          new Date().getTime() - new Date(parsed.lastUpdated).getTime() <
-          7200000
-        ) {
-          return parsed;
-        }
-      } catch (error) {
-        console.error("Error parsing cached data:", error);
-      }
-    }
-
-    // Fetch fresh data
-    const analysis = await this.getStockAnalysis(symbol);
-
-    // Cache the result
-    try {
-      localStorage.setItem(cacheKey, JSON.stringify(analysis));
-    } catch (error) {
-      console.error("Error caching analysis:", error);
-    }
-
-    return analysis;
+    const analysis = await dataCache.getOrFetch("analysis", `openrouter:${symbol.toUpperCase()}`, () =>
+      this.requestAnalysis(symbol)
+    );
+    return analysis ?? this.getMockAnalysis(symbol);
   }
 }
 
@@ -0,0 +1,64 @@
+/**
+ * Fallback market data provider (Alpha Vantage, FMP, JSONP)
+ * Quotes only. fallbackAPI synthesizes a quote when every source fails, so
+ * its data is marked ESTIMATED rather than real.
+ */
+
+import { DataSource } from '@/types';
+import type {
+  CompanyProfile,
+  MarketChart,
+  MarketDataProvider,
+  MarketQuote,
+  MarketStatements,
+  MarketStatistics,
+} from '@/types';
+import { fallbackAPI, FallbackStockData } from '../fallbackAPI';
+
+/**
+ * Normalize a fallback quote, also used for the Alpha Vantage proxy response
+ */
+export const quoteFromFallbackData = (data: FallbackStockData): MarketQuote => ({
+  symbol: data.symbol,
+  name: data.name,
+  price: data.currentPrice,
+  change: data.change,
+  changePercent: data.changePercent,
+  volume: data.volume,
+  marketCap: data.marketCap || undefined,
+  trailingPE: data.peRatio || undefined,
+  asOf: data.lastUpdated ? new Date(data.lastUpdated) : new Date(),
+  dataSource: DataSource.ESTIMATED,
+});
+
+class FallbackProvider implements MarketDataProvider {
+  readonly id = 'fallback';
+  readonly name = 'Fallback APIs';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const data = await fallbackAPI.getStockData(symbol);
+    return data ? quoteFromFallbackData(data) : null;
+  }
+
+  async getProfile(): Promise<CompanyProfile | null> {
+    return null;
+  }
+
+  async getStatements(): Promise<MarketStatements | null> {
+    return null;
+  }
+
+  async getStatistics(): Promise<MarketStatistics | null> {
+    return null;
+  }
+
+  async getChart(): Promise<MarketChart | null> {
+    return null;
+  }
+}
+
+export const fallbackProvider = new FallbackProvider();
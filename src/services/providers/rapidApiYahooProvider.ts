@@ -0,0 +1,130 @@
+/**
+ * RapidAPI Yahoo Finance market data provider
+ * Most complete source: quotes, profile, statements, statistics and charts
+ */
+
+import { DataSource } from '@/types';
+import type {
+  CompanyProfile,
+  MarketChart,
+  MarketDataProvider,
+  MarketQuote,
+  MarketStatements,
+  MarketStatistics,
+} from '@/types';
+import { rapidApiYahooService } from '../rapidApiYahooService';
+import {
+  createPayloadCache,
+  num,
+  parseChartResult,
+  parseStatements,
+  parseStatistics,
+} from './yahooQuoteSummary';
+
+// First non-zero value; RapidAPI reports 0 for fields it doesn't have
+const first = (...values: Array<number | undefined>): number | undefined =>
+  values.find(value => value !== undefined && value !== 0);
+
+class RapidApiYahooProvider implements MarketDataProvider {
+  readonly id = 'rapidapi';
+  readonly name = 'RapidAPI Yahoo Finance';
+  private cache = createPayloadCache();
+
+  isAvailable(): boolean {
+    return rapidApiYahooService.isAvailable();
+  }
+
+  private summary(symbol: string): Promise<any> {
+    return this.cache(`summary:${symbol}`, () => rapidApiYahooService.getSummary(symbol));
+  }
+
+  private financials(symbol: string): Promise<any> {
+    return this.cache(`financials:${symbol}`, () => rapidApiYahooService.getFinancials(symbol));
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const [quote, summary] = await Promise.all([
+      rapidApiYahooService.getQuote(symbol).catch(() => null),
+      this.summary(symbol).catch(() => null),
+    ]);
+    const q: any = quote || {};
+    const detail = summary?.summaryDetail || {};
+    const price = first(
+      num(detail.regularMarketPrice),
+      num(q.regularMarketPrice),
+      num(summary?.price?.regularMarketPrice),
+      num(detail.currentPrice)
+    );
+    if (!price) return null;
+
+    const dividendYield = num(detail.dividendYield) ?? num(q.dividendYield);
+    return {
+      symbol: symbol.toUpperCase(),
+      name: q.longName || q.shortName || summary?.price?.longName,
+      price,
+      previousClose: num(q.regularMarketPreviousClose) ?? num(detail.previousClose),
+      change: num(q.regularMarketChange),
+      changePercent: num(q.regularMarketChangePercent),
+      dayHigh: num(q.regularMarketDayHigh) ?? num(detail.dayHigh),
+      dayLow: num(q.regularMarketDayLow) ?? num(detail.dayLow),
+      volume: num(q.regularMarketVolume) ?? num(detail.volume),
+      avgVolume: num(q.averageDailyVolume3Month) ?? num(detail.averageVolume),
+      marketCap: num(detail.marketCap) ?? num(q.marketCap),
+      sharesOutstanding: num(q.sharesOutstanding),
+      trailingPE: num(detail.trailingPE) ?? num(q.trailingPE),
+      priceToBook: num(detail.priceToBook) ?? num(q.priceToBook),
+      priceToSales: num(q.priceToSales) ?? num(detail.priceToSalesTrailing12Months),
+      dividendYield: dividendYield !== undefined ? dividendYield * 100 : undefined,
+      fiftyTwoWeekHigh: num(q.fiftyTwoWeekHigh) ?? num(detail.fiftyTwoWeekHigh),
+      fiftyTwoWeekLow: num(q.fiftyTwoWeekLow) ?? num(detail.fiftyTwoWeekLow),
+      currency: q.currency,
+      asOf: new Date(),
+      dataSource: DataSource.RAPID_API_YAHOO,
+    };
+  }
+
+  async getProfile(symbol: string): Promise<CompanyProfile | null> {
+    const response = await rapidApiYahooService.getProfile(symbol);
+    const profile = response?.assetProfile || response;
+    if (!profile || (!profile.sector && !profile.longBusinessSummary && !profile.longName)) {
+      return null;
+    }
+    return {
+      symbol: symbol.toUpperCase(),
+      name: profile.longName,
+      sector: profile.sector,
+      industry: profile.industry,
+      description: profile.longBusinessSummary,
+      website: profile.website,
+      employees: num(profile.fullTimeEmployees),
+      dataSource: DataSource.RAPID_API_YAHOO,
+    };
+  }
+
+  async getStatements(symbol: string): Promise<MarketStatements | null> {
+    const [financials, balanceSheet, cashFlow] = await Promise.all([
+      this.financials(symbol).catch(() => null),
+      rapidApiYahooService.getBalanceSheet(symbol).catch(() => null),
+      rapidApiYahooService.getCashFlow(symbol).catch(() => null),
+    ]);
+    return parseStatements([financials, balanceSheet, cashFlow], DataSource.RAPID_API_YAHOO);
+  }
+
+  async getStatistics(symbol: string): Promise<MarketStatistics | null> {
+    const [statistics, financials, summary] = await Promise.all([
+      rapidApiYahooService.getStatistics(symbol).catch(() => null),
+      this.financials(symbol).catch(() => null),
+      this.summary(symbol).catch(() => null),
+    ]);
+    // Statistics first so its values win over the financials payload
+    return parseStatistics([statistics, financials, summary], DataSource.RAPID_API_YAHOO);
+  }
+
+  async getChart(symbol: string, range: string, interval: string): Promise<MarketChart | null> {
+    const response = await rapidApiYahooService.getChart(symbol, range, interval);
+    const data = parseChartResult(response?.chart?.result?.[0]);
+    return data.length > 0 ? { data, dataSource: DataSource.RAPID_API_YAHOO } : null;
+  }
+}
+
+export const rapidApiYahooProvider = new RapidApiYahooProvider();
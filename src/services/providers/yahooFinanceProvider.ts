@@ -0,0 +1,98 @@
+/**
+ * Yahoo Finance (direct) market data provider
+ * No API key, but often blocked by CORS or rate limits outside the dev proxy.
+ * Has no profile module, so profiles always come from another provider.
+ */
+
+import { DataSource } from '@/types';
+import type {
+  CompanyProfile,
+  MarketChart,
+  MarketDataProvider,
+  MarketQuote,
+  MarketStatements,
+  MarketStatistics,
+} from '@/types';
+import { yahooFinanceAPI } from '../yahooFinanceAPI';
+import { quotaManager } from '../quotaManager';
+import {
+  createPayloadCache,
+  num,
+  parseChartResult,
+  parseStatements,
+  parseStatistics,
+} from './yahooQuoteSummary';
+
+class YahooFinanceProvider implements MarketDataProvider {
+  readonly id = 'yahoo';
+  readonly name = 'Yahoo Finance';
+  private cache = createPayloadCache();
+
+  isAvailable(): boolean {
+    return quotaManager.isAvailable('yahoo');
+  }
+
+  // One quoteSummary request carries price, statistics and statements
+  private detail(symbol: string): Promise<any> {
+    return this.cache(`detail:${symbol}`, () => yahooFinanceAPI.getDetailedStockData(symbol));
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const [chart, detail] = await Promise.all([
+      yahooFinanceAPI.getStockQuote(symbol),
+      this.detail(symbol).catch(() => null),
+    ]);
+    const meta = chart?.meta;
+    if (!meta?.regularMarketPrice) return null;
+
+    const summary = detail?.summaryDetail || {};
+    const price = detail?.price || {};
+    const previousClose = meta.chartPreviousClose ?? meta.previousClose;
+    const change = previousClose ? meta.regularMarketPrice - previousClose : undefined;
+    const dividendYield = num(summary.dividendYield);
+
+    return {
+      symbol: symbol.toUpperCase(),
+      name: price.longName || price.shortName || meta.longName || meta.shortName,
+      price: meta.regularMarketPrice,
+      previousClose,
+      change,
+      changePercent: change !== undefined && previousClose ? (change / previousClose) * 100 : undefined,
+      dayHigh: meta.regularMarketDayHigh,
+      dayLow: meta.regularMarketDayLow,
+      volume: meta.regularMarketVolume,
+      avgVolume: num(summary.averageVolume),
+      marketCap: num(summary.marketCap) ?? num(price.marketCap),
+      trailingPE: num(summary.trailingPE),
+      priceToBook: num(detail?.defaultKeyStatistics?.priceToBook),
+      dividendYield: dividendYield !== undefined ? dividendYield * 100 : undefined,
+      fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? num(summary.fiftyTwoWeekHigh),
+      fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? num(summary.fiftyTwoWeekLow),
+      currency: meta.currency,
+      asOf: new Date(),
+      dataSource: DataSource.YAHOO_FINANCE_API,
+    };
+  }
+
+  async getProfile(): Promise<CompanyProfile | null> {
+    return null;
+  }
+
+  async getStatements(symbol: string): Promise<MarketStatements | null> {
+    return parseStatements([await this.detail(symbol)], DataSource.YAHOO_FINANCE_API);
+  }
+
+  async getStatistics(symbol: string): Promise<MarketStatistics | null> {
+    return parseStatistics([await this.detail(symbol)], DataSource.YAHOO_FINANCE_API);
+  }
+
+  // The historical endpoint only serves daily bars
+  async getChart(symbol: string, range: string, interval: string): Promise<MarketChart | null> {
+    if (interval !== '1d') return null;
+    const result = await yahooFinanceAPI.getHistoricalData(symbol, range);
+    const data = parseChartResult(result);
+    return data.length > 0 ? { data, dataSource: DataSource.YAHOO_FINANCE_API } : null;
+  }
+}
+
+export const yahooFinanceProvider = new YahooFinanceProvider();
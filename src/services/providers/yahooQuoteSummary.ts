@@ -0,0 +1,236 @@
+/**
+ * Parsers for Yahoo Finance quoteSummary and chart payloads.
+ * RapidAPI Yahoo and the direct Yahoo Finance API return the same module
+ * shapes, so both providers normalize through these helpers.
+ */
+
+import { DataSource } from '@/types';
+import type {
+  BalanceSheet,
+  CashFlowStatement,
+  IncomeStatement,
+  MarketStatements,
+  MarketStatistics,
+  PriceData,
+  StatementSet,
+  YearlyEarnings,
+} from '@/types';
+
+/**
+ * Read a Yahoo number, which is either `{ raw, fmt }` or a plain number
+ */
+export const num = (value: any): number | undefined => {
+  const candidate = value !== null && typeof value === 'object' ? value.raw : value;
+  return typeof candidate === 'number' && Number.isFinite(candidate) ? candidate : undefined;
+};
+
+const percent = (value: any): number | undefined => {
+  const fraction = num(value);
+  return fraction !== undefined ? fraction * 100 : undefined;
+};
+
+const first = (...values: Array<number | undefined>): number | undefined =>
+  values.find(value => value !== undefined);
+
+// Drop undefined keys so spreading a normalized object never hides a real value
+const compact = <T extends object>(obj: T): T =>
+  Object.fromEntries(Object.entries(obj).filter(([, value]) => value !== undefined)) as T;
+
+const periodOf = (item: any): { period: string; year: number } => {
+  const seconds = num(item?.endDate);
+  const date = seconds !== undefined ? new Date(seconds * 1000) : null;
+  return {
+    period: date ? date.toISOString().slice(0, 10) : String(item?.endDate?.fmt ?? ''),
+    year: date ? date.getFullYear() : 0,
+  };
+};
+
+const parseIncome = (item: any) =>
+  compact<Partial<IncomeStatement> & Pick<IncomeStatement, 'period' | 'year'>>({
+    ...periodOf(item),
+    revenue: num(item?.totalRevenue),
+    costOfRevenue: num(item?.costOfRevenue),
+    grossProfit: num(item?.grossProfit),
+    operatingExpenses: num(item?.totalOperatingExpenses),
+    operatingIncome: num(item?.operatingIncome),
+    ebit: num(item?.ebit),
+    interestExpense: num(item?.interestExpense),
+    pretaxIncome: num(item?.incomeBeforeTax),
+    incomeTax: num(item?.incomeTaxExpense),
+    netIncome: num(item?.netIncome),
+  });
+
+const parseBalance = (item: any) =>
+  compact<Partial<BalanceSheet> & Pick<BalanceSheet, 'period' | 'year'>>({
+    ...periodOf(item),
+    totalAssets: num(item?.totalAssets),
+    currentAssets: num(item?.totalCurrentAssets),
+    cash: num(item?.cash),
+    inventory: num(item?.inventory),
+    receivables: num(item?.netReceivables),
+    totalLiabilities: num(item?.totalLiab),
+    currentLiabilities: num(item?.totalCurrentLiabilities),
+    longTermDebt: num(item?.longTermDebt),
+    totalEquity: num(item?.totalStockholderEquity),
+    retainedEarnings: num(item?.retainedEarnings),
+  });
+
+const parseCashFlow = (item: any) => {
+  const operatingCashFlow = num(item?.totalCashFromOperatingActivities);
+  const capitalExpenditure = num(item?.capitalExpenditures);
+  return compact<Partial<CashFlowStatement> & Pick<CashFlowStatement, 'period' | 'year'>>({
+    ...periodOf(item),
+    operatingCashFlow,
+    investingCashFlow: num(item?.totalCashflowsFromInvestingActivities),
+    financingCashFlow: num(item?.totalCashFromFinancingActivities),
+    netCashFlow: num(item?.changeInCash),
+    capitalExpenditure,
+    // Yahoo reports capital expenditure as a negative number
+    freeCashFlow:
+      operatingCashFlow !== undefined && capitalExpenditure !== undefined
+        ? operatingCashFlow + capitalExpenditure
+        : undefined,
+  });
+};
+
+const list = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Normalize the statement modules found in any of the given payloads.
+ * Returns null when none of them carries a statement.
+ */
+export const parseStatements = (
+  payloads: any[],
+  dataSource: DataSource
+): MarketStatements | null => {
+  const pick = (path: (payload: any) => any): any[] => {
+    for (const payload of payloads) {
+      const items = list(path(payload));
+      if (items.length > 0) return items;
+    }
+    return [];
+  };
+
+  const annual: StatementSet = {
+    income: pick(p => p?.incomeStatementHistory?.incomeStatementHistory).map(parseIncome),
+    balance: pick(p => p?.balanceSheetHistory?.balanceSheetStatements).map(parseBalance),
+    cashFlow: pick(p => p?.cashflowStatementHistory?.cashflowStatements).map(parseCashFlow),
+  };
+  const quarterly: StatementSet = {
+    income: pick(p => p?.incomeStatementHistoryQuarterly?.incomeStatementHistory).map(parseIncome),
+    balance: pick(p => p?.balanceSheetHistoryQuarterly?.balanceSheetStatements).map(parseBalance),
+    cashFlow: pick(p => p?.cashflowStatementHistoryQuarterly?.cashflowStatements).map(parseCashFlow),
+  };
+  const yearlyEarnings: YearlyEarnings[] = pick(p => p?.earnings?.financialsChart?.yearly)
+    .map(item => ({
+      year: Number(num(item?.date) ?? item?.date),
+      revenue: num(item?.revenue) as number,
+      earnings: num(item?.earnings) as number,
+    }))
+    .filter(item => item.revenue !== undefined && item.earnings !== undefined);
+
+  const hasAny = [annual, quarterly].some(
+    set => set.income.length > 0 || set.balance.length > 0 || set.cashFlow.length > 0
+  );
+  return hasAny || yearlyEarnings.length > 0
+    ? { annual, quarterly, yearlyEarnings, dataSource }
+    : null;
+};
+
+/**
+ * Normalize key statistics from summaryDetail, defaultKeyStatistics and
+ * financialData, which providers spread across several payloads.
+ * Returns null when no statistic was found.
+ */
+export const parseStatistics = (
+  payloads: any[],
+  dataSource: DataSource
+): MarketStatistics | null => {
+  const modules = (name: string) =>
+    payloads.map(p => p?.[name] ?? p?.quoteSummary?.result?.[0]?.[name]).filter(Boolean);
+  const field = (moduleNames: string[], key: string, read: (v: any) => number | undefined = num) =>
+    first(...moduleNames.flatMap(name => modules(name).map(module => read(module?.[key]))));
+
+  const keyStats = ['defaultKeyStatistics'];
+  const finData = ['financialData'];
+  const summary = ['summaryDetail'];
+
+  const statistics = compact<MarketStatistics>({
+    marketCap: field([...summary, ...keyStats, ...finData], 'marketCap'),
+    enterpriseValue: field([...keyStats, ...finData], 'enterpriseValue'),
+    sharesOutstanding: field(keyStats, 'sharesOutstanding'),
+    trailingPE: field([...summary, ...keyStats, ...finData], 'trailingPE'),
+    priceToBook: field([...summary, ...keyStats, ...finData], 'priceToBook'),
+    priceToSales: field([...keyStats, ...finData, ...summary], 'priceToSalesTrailing12Months'),
+    revenue: field(finData, 'totalRevenue'),
+    ebitda: field([...finData, ...keyStats], 'ebitda'),
+    netIncomeToCommon: field(keyStats, 'netIncomeToCommon'),
+    bookValuePerShare: field(keyStats, 'bookValue'),
+    returnOnEquity: field([...finData, ...keyStats], 'returnOnEquity', percent),
+    returnOnAssets: field([...finData, ...keyStats], 'returnOnAssets', percent),
+    returnOnCapitalEmployed: field(keyStats, 'returnOnCapitalEmployed', percent),
+    grossMargin: field([...finData, ...keyStats], 'grossMargins', percent),
+    operatingMargin: field([...finData, ...keyStats], 'operatingMargins', percent),
+    netMargin: field([...finData, ...keyStats], 'profitMargins', percent),
+    currentRatio: field([...finData, ...keyStats], 'currentRatio'),
+    quickRatio: field([...finData, ...keyStats], 'quickRatio'),
+    debtToEquity: field([...keyStats, ...finData], 'debtToEquity'),
+    dividendYield: field(summary, 'dividendYield', percent),
+    beta: field([...summary, ...keyStats], 'beta'),
+    dataSource,
+  });
+
+  return Object.keys(statistics).length > 1 ? statistics : null;
+};
+
+/**
+ * Convert a chart result (`chart.result[0]`) into daily bars, preferring the
+ * adjusted close. Bars with a missing value are skipped.
+ */
+export const parseChartResult = (result: any): PriceData[] => {
+  const timestamps: number[] = result?.timestamp || [];
+  const quotes = result?.indicators?.quote?.[0];
+  const adjClose: number[] | undefined = result?.indicators?.adjclose?.[0]?.adjclose;
+  if (!quotes) return [];
+
+  const priceData: PriceData[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    if (
+      quotes.open?.[i] != null &&
+      quotes.high?.[i] != null &&
+      quotes.low?.[i] != null &&
+      quotes.close?.[i] != null &&
+      quotes.volume?.[i] != null
+    ) {
+      priceData.push({
+        date: new Date(timestamps[i] * 1000),
+        open: quotes.open[i],
+        high: quotes.high[i],
+        low: quotes.low[i],
+        close: adjClose?.[i] || quotes.close[i],
+        volume: quotes.volume[i],
+      });
+    }
+  }
+  return priceData;
+};
+
+/**
+ * Share one request between the normalizers that need the same payload,
+ * e.g. statistics and statements both reading the financials module.
+ */
+export const createPayloadCache = (ttlMs: number = 60 * 1000) => {
+  const entries = new Map<string, { promise: Promise<any>; expiresAt: number }>();
+
+  return <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.promise;
+
+    const promise = load().catch(error => {
+      entries.delete(key);
+      throw error;
+    });
+    entries.set(key, { promise, expiresAt: Date.now() + ttlMs });
+    return promise;
+  };
+};
@@ -0,0 +1,178 @@
+/**
+ * Quota Manager
+ * Meters every external API in one place: per-minute and per-day limits from
+ * utils/quota, usage persisted in quotaStore across reloads, and a circuit
+ * breaker that pauses a provider after repeated 429/5xx responses, backing
+ * off longer each time it fails again.
+ *
+ * Requests answered by the local fixture server are not metered.
+ */
+
+import { format } from 'date-fns';
+import type { ApiProviderId, ApiQuotaStatus } from '@/types';
+import { useQuotaStore } from '@/stores/quotaStore';
+import {
+  API_PROVIDER_LIMITS,
+  checkQuota,
+  emptyUsage,
+  exhaustDailyQuota,
+  getCircuitState,
+  getQuotaStatus,
+  isProviderFailure,
+  recordFailure,
+  recordRequest,
+  recordSuccess,
+} from '@/utils/quota';
+import { servesRecordedFixtures } from './apiMode';
+
+// Providers the fixture server stands in for
+const FIXTURE_PROVIDERS: ApiProviderId[] = ['rapidapi', 'openrouter'];
+
+// HTTP status from a fetch Response error, an axios error or an APIError
+const statusOf = (error: any): number | undefined => {
+  const status = error?.response?.status ?? Number(error?.code);
+  return Number.isFinite(status) && status > 0 ? status : undefined;
+};
+
+export class QuotaManager {
+  private static instance: QuotaManager;
+  // Providers with a half-open trial request in flight
+  private trials = new Set<ApiProviderId>();
+
+  public static getInstance(): QuotaManager {
+    if (!QuotaManager.instance) {
+      QuotaManager.instance = new QuotaManager();
+    }
+    return QuotaManager.instance;
+  }
+
+  private constructor() {}
+
+  private isMetered(provider: ApiProviderId): boolean {
+    return !(servesRecordedFixtures && FIXTURE_PROVIDERS.includes(provider));
+  }
+
+  private usage(provider: ApiProviderId) {
+    return useQuotaStore.getState().usage[provider] ?? emptyUsage();
+  }
+
+  isAvailable(provider: ApiProviderId): boolean {
+    if (!this.isMetered(provider)) return true;
+    const usage = this.usage(provider);
+    if (getCircuitState(usage) === 'halfOpen' && this.trials.has(provider)) return false;
+    return checkQuota(provider, usage).allowed;
+  }
+
+  /**
+   * Count a request against the provider's quota, or throw with the reason
+   * it is paused. While half-open only one trial request goes through.
+   */
+  acquire(provider: ApiProviderId): void {
+    if (!this.isMetered(provider)) return;
+
+    const usage = this.usage(provider);
+    const check = checkQuota(provider, usage);
+    if (!check.allowed) {
+      const retry = check.retryAt ? `, retry after ${format(check.retryAt, 'HH:mm:ss')}` : '';
+      throw new Error(`${check.reason}${retry}`);
+    }
+    if (getCircuitState(usage) === 'halfOpen') {
+      if (this.trials.has(provider)) {
+        throw new Error(`${API_PROVIDER_LIMITS[provider].name} is recovering, waiting on a trial request`);
+      }
+      this.trials.add(provider);
+    }
+    useQuotaStore.getState().updateUsage(provider, current => recordRequest(current));
+  }
+
+  reportSuccess(provider: ApiProviderId): void {
+    this.trials.delete(provider);
+    if (!this.isMetered(provider)) return;
+    useQuotaStore.getState().updateUsage(provider, recordSuccess);
+  }
+
+  /**
+   * Record a failed request. status is undefined for network errors; a
+   * non-retryable 4xx shows the provider is up, so it counts as healthy.
+   */
+  reportFailure(provider: ApiProviderId, status?: number, retryAfterMs?: number): void {
+    if (!isProviderFailure(status)) {
+      this.reportSuccess(provider);
+      return;
+    }
+    this.trials.delete(provider);
+    if (!this.isMetered(provider)) return;
+
+    const { updateUsage } = useQuotaStore.getState();
+    updateUsage(provider, current => recordFailure(current, status, retryAfterMs));
+
+    const usage = this.usage(provider);
+    if (getCircuitState(usage) === 'open') {
+      console.log(
+        `🔌 ${API_PROVIDER_LIMITS[provider].name} circuit open until ${format(usage.circuitOpenUntil!, 'HH:mm:ss')} (${usage.lastError})`
+      );
+    }
+  }
+
+  /**
+   * For providers that answer 200 with a "limit reached" message
+   */
+  reportDailyQuotaExhausted(provider: ApiProviderId): void {
+    this.trials.delete(provider);
+    if (!this.isMetered(provider)) return;
+    useQuotaStore.getState().updateUsage(provider, current => exhaustDailyQuota(provider, current));
+    console.log(`🚫 ${API_PROVIDER_LIMITS[provider].name} daily quota exhausted`);
+  }
+
+  /**
+   * fetch() metered against the provider's quota and circuit
+   */
+  async fetch(provider: ApiProviderId, input: string, init?: RequestInit): Promise<Response> {
+    this.acquire(provider);
+
+    let response: Response;
+    try {
+      response = await fetch(input, init);
+    } catch (error) {
+      this.reportFailure(provider);
+      throw error;
+    }
+
+    if (response.ok) {
+      this.reportSuccess(provider);
+    } else {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+      this.reportFailure(provider, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response;
+  }
+
+  /**
+   * Run a request made another way (e.g. axios) metered against the quota
+   */
+  async run<T>(provider: ApiProviderId, request: () => Promise<T>): Promise<T> {
+    this.acquire(provider);
+    try {
+      const result = await request();
+      this.reportSuccess(provider);
+      return result;
+    } catch (error) {
+      this.reportFailure(provider, statusOf(error));
+      throw error;
+    }
+  }
+
+  getStatuses(): ApiQuotaStatus[] {
+    const { usage } = useQuotaStore.getState();
+    return (Object.keys(API_PROVIDER_LIMITS) as ApiProviderId[]).map(provider =>
+      getQuotaStatus(provider, usage[provider] ?? emptyUsage())
+    );
+  }
+
+  reset(provider: ApiProviderId): void {
+    this.trials.delete(provider);
+    useQuotaStore.getState().resetProvider(provider);
+  }
+}
+
+export const quotaManager = QuotaManager.getInstance();
@@ -4,6 +4,9 @@
  * More reliable than unofficial scraping methods
  */
 
+import { FIXTURE_BASE_URL, usesFixtureServer } from './apiMode';
+import { quotaManager } from './quotaManager';
+
 export interface RapidApiYahooQuote {
   regularMarketPrice?: number;
   regularMarketChange?: number;
@@ -111,11 +114,10 @@ export interface RapidApiYahooChart {
 
 class RapidApiYahooService {
   private apiKey: string;
-  private baseUrl = 'https://yahoo-finance-real-time1.p.rapidapi.com';
+  private baseUrl = usesFixtureServer
+    ? FIXTURE_BASE_URL.rapidApi
+    : 'https://yahoo-finance-real-time1.p.rapidapi.com';
   private headers: Record<string, string>;
-  private rateLimitReset: number = 0;
-  private requestCount: number = 0;
-  private maxRequestsPerMinute: number = 100; // Conservative limit
 
   constructor() {
     this.apiKey = import.meta.env.VITE_RAPIDAPI_KEY || '';
@@ -125,47 +127,20 @@ class RapidApiYahooService {
     };
   }
 
-  // Check if we're rate limited
-  private isRateLimited(): boolean {
-    const now = Date.now();
-    if (now < this.rateLimitReset) {
-      console.log(`🚫 Rate limited until ${new Date(this.rateLimitReset).toLocaleTimeString()}`);
-      return true;
-    }
-    if (this.requestCount >= this.maxRequestsPerMinute) {
-      this.rateLimitReset = now + 60000; // Reset in 1 minute
-      this.requestCount = 0;
-      console.log(`🚫 Rate limit reached, waiting until ${new Date(this.rateLimitReset).toLocaleTimeString()}`);
-      return true;
-    }
-    return false;
-  }
-
   // Make API request with better error handling
   private async makeRequest(url: string): Promise<any> {
-    if (this.isRateLimited()) {
-      throw new Error('Rate limited - please wait before making more requests');
-    }
-
-    this.requestCount++;
-    
     try {
       console.log(`🔗 Making RapidAPI request to: ${url}`);
-      const response = await fetch(url, {
+      // Throws while the quota is used up or the circuit is open
+      const response = await quotaManager.fetch('rapidapi', url, {
         method: 'GET',
         headers: this.headers,
       });
 
-      // Handle rate limiting
+      // Handle rate limiting; the quota manager pauses requests until Retry-After
       if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const resetTime = retryAfter 
-          ? Date.now() + parseInt(retryAfter) * 1000 
-          : Date.now() + 60000;
-        
-        this.rateLimitReset = resetTime;
-        console.log(`🚫 Rate limited by API, retry after ${new Date(resetTime).toLocaleTimeString()}`);
-        throw new Error(`Rate limited - retry after ${Math.ceil((resetTime - Date.now()) / 1000)} seconds`);
+        console.log(`🚫 Rate limited by RapidAPI`);
+        throw new Error('Rate limited by RapidAPI - please wait before making more requests');
       }
 
       // Handle other errors
@@ -287,6 +262,35 @@ class RapidApiYahooService {
     }
   }
 
+  /**
+   * Quotes for several symbols in one market/get-quotes request, keyed by
+   * the symbols as passed in. Symbols the response leaves out are missing.
+   */
+  async getQuotes(symbols: string[]): Promise<Map<string, RapidApiYahooQuote>> {
+    const quotes = new Map<string, RapidApiYahooQuote>();
+    if (symbols.length === 0) return quotes;
+
+    try {
+      const bySymbol = new Map(symbols.map(symbol => [this.formatSymbolForYahoo(symbol).toUpperCase(), symbol]));
+      console.log(`📡 RapidAPI Yahoo: Getting ${symbols.length} quotes in one request`);
+
+      const response = await this.makeRequest(
+        `${this.baseUrl}/market/get-quotes?region=IN&symbols=${encodeURIComponent([...bySymbol.keys()].join(","))}`
+      );
+      const results: RapidApiYahooQuote[] =
+        response?.body?.quoteResponse?.result ?? response?.quoteResponse?.result ?? [];
+
+      for (const quote of results) {
+        const symbol = quote.symbol && bySymbol.get(quote.symbol.toUpperCase());
+        if (symbol) quotes.set(symbol, quote);
+      }
+      return quotes;
+    } catch (error) {
+      console.error(`❌ RapidAPI Yahoo batch quote failed for ${symbols.join(", ")}:`, error);
+      return quotes;
+    }
+  }
+
   /**
    * Get financial statements data using stock/get-financials
    */
@@ -639,9 +643,11 @@ class RapidApiYahooService {
    * Check if RapidAPI service is available
    */
   isAvailable(): boolean {
-    const isKeyValid = !!this.apiKey && this.apiKey !== 'test-key-for-development-replace-with-real-key';
-    const isNotRateLimited = !this.isRateLimited();
-    return isKeyValid && isNotRateLimited;
+    // The fixture server holds the key itself, so none is needed in the browser
+    const isKeyValid =
+      usesFixtureServer ||
+      (!!this.apiKey && this.apiKey !== 'test-key-for-development-replace-with-real-key');
+    return isKeyValid && quotaManager.isAvailable('rapidapi');
   }
 
   /**
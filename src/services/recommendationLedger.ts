@@ -0,0 +1,344 @@
+import { SignalType } from '@/types';
+import type {
+  CalibrationBucket,
+  LedgerEntry,
+  PriceData,
+  RecommendationResponse,
+  Stock,
+  StockRecommendation,
+  TrackRecordBucket,
+  TrackRecordStats,
+} from '@/types';
+import { getStockChartData } from './hybridStockService';
+
+const STORAGE_KEY = 'recommendation-ledger';
+const MAX_ENTRIES = 2000;
+const MAX_EVALUATIONS_PER_RUN = 10; // Each evaluation costs one chart request
+const HOLD_BAND_PCT = 5; // A HOLD is right if price stayed within ±5%
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CALIBRATION_BANDS: Array<[number, number]> = [
+  [0, 60],
+  [60, 70],
+  [70, 80],
+  [80, 90],
+  [90, 101],
+];
+
+export class RecommendationLedgerService {
+  private static instance: RecommendationLedgerService;
+  private entries: LedgerEntry[] = [];
+  private evaluating = false;
+
+  public static getInstance(): RecommendationLedgerService {
+    if (!RecommendationLedgerService.instance) {
+      RecommendationLedgerService.instance = new RecommendationLedgerService();
+    }
+    return RecommendationLedgerService.instance;
+  }
+
+  private constructor() {
+    this.entries = this.load();
+  }
+
+  /**
+   * Read the ledger from localStorage, reviving dates
+   */
+  private load(): LedgerEntry[] {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      if (!raw) return [];
+
+      const parsed = JSON.parse(raw) as LedgerEntry[];
+      return parsed.map(entry => ({
+        ...entry,
+        recommendation: {
+          ...entry.recommendation,
+          generatedAt: new Date(entry.recommendation.generatedAt),
+          validUntil: new Date(entry.recommendation.validUntil),
+        },
+        evaluatedAt: entry.evaluatedAt ? new Date(entry.evaluatedAt) : undefined,
+        outcomeDate: entry.outcomeDate ? new Date(entry.outcomeDate) : undefined,
+        lastAttemptAt: entry.lastAttemptAt ? new Date(entry.lastAttemptAt) : undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to load recommendation ledger:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Failed to save recommendation ledger:', error);
+    }
+  }
+
+  /**
+   * Persist every recommendation in a response. Re-served cached responses
+   * are ignored because their ids are already in the ledger, and so are
+   * repeat picks of a stock still pending for the same time frame, sector
+   * and source (uncached fallbacks are regenerated on every request).
+   * Sectors come from the stocks the recommendations were built from.
+   */
+  public record(response: RecommendationResponse, stocks: Stock[]): void {
+    const source = response.metadata.modelUsed;
+    const pickKey = (rec: StockRecommendation) => `${rec.timeFrame}:${rec.sector}:${rec.symbol}`;
+    const known = new Set(this.entries.map(entry => entry.recommendation.id));
+    const pending = new Set(
+      this.entries
+        .filter(entry => entry.outcome === 'PENDING' && entry.source === source)
+        .map(entry => pickKey(entry.recommendation))
+    );
+    const fresh = response.recommendations
+      .filter(rec => !known.has(rec.id) && !pending.has(pickKey(rec)))
+      .map<LedgerEntry>(recommendation => ({
+        recommendation,
+        source,
+        stockSector:
+          stocks.find(stock => stock.id === recommendation.stockId)?.sector || recommendation.sector,
+        outcome: 'PENDING',
+      }));
+
+    if (fresh.length === 0) return;
+
+    this.entries = [...this.entries, ...fresh].slice(-MAX_ENTRIES);
+    this.save();
+  }
+
+  /**
+   * All ledger entries, newest first
+   */
+  public getEntries(): LedgerEntry[] {
+    return [...this.entries].sort(
+      (a, b) => b.recommendation.generatedAt.getTime() - a.recommendation.generatedAt.getTime()
+    );
+  }
+
+  /**
+   * Entries whose validity window has closed but have not been evaluated
+   */
+  public getDueEntries(now: Date = new Date()): LedgerEntry[] {
+    return this.entries.filter(
+      entry => entry.outcome === 'PENDING' && entry.recommendation.validUntil.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Pick a chart range that covers the recommendation's window
+   */
+  private getRangeFor(rec: StockRecommendation): string {
+    const days = (Date.now() - rec.generatedAt.getTime()) / DAY_MS;
+    if (days <= 25) return '1mo';
+    if (days <= 85) return '3mo';
+    if (days <= 175) return '6mo';
+    if (days <= 360) return '1y';
+    if (days <= 725) return '2y';
+    return '5y';
+  }
+
+  /**
+   * Walk the bars after issue until target, stop or expiry. The issue price
+   * may not be a real quote, so the first real close after issue is the entry
+   * and target and stop keep their percentage distance from the issue price.
+   * When a single bar touches both levels the stop is assumed to fill first
+   * (conservative).
+   */
+  private evaluateAgainstPrices(entry: LedgerEntry, prices: PriceData[]): LedgerEntry | null {
+    const rec = entry.recommendation;
+    const [first, ...window] = prices.filter(
+      bar =>
+        bar.date.getTime() > rec.generatedAt.getTime() &&
+        bar.date.getTime() <= rec.validUntil.getTime() + DAY_MS
+    );
+    if (!first || !(first.close > 0) || !(rec.currentPrice > 0)) return null;
+
+    const entryPrice = first.close;
+    const rescale = (level: number | null) =>
+      level === null ? null : Math.round((level / rec.currentPrice) * entryPrice * 100) / 100;
+    const targetPrice = rescale(rec.targetPrice);
+    const stopLoss = rescale(rec.stopLoss);
+    const isSell = rec.recommendation === SignalType.SELL;
+    const directionalReturn = (exit: number) =>
+      ((isSell ? entryPrice - exit : exit - entryPrice) / entryPrice) * 100;
+
+    if (rec.recommendation !== SignalType.HOLD) {
+      for (const bar of window) {
+        const stopHit = stopLoss !== null && (isSell ? bar.high >= stopLoss : bar.low <= stopLoss);
+        const targetHit = targetPrice !== null && (isSell ? bar.low <= targetPrice : bar.high >= targetPrice);
+
+        if (stopHit && stopLoss !== null) {
+          return {
+            ...entry,
+            outcome: 'HIT_STOP',
+            entryPrice,
+            exitPrice: stopLoss,
+            realizedReturn: directionalReturn(stopLoss),
+            successful: false,
+            outcomeDate: bar.date,
+            evaluatedAt: new Date(),
+          };
+        }
+        if (targetHit && targetPrice !== null) {
+          return {
+            ...entry,
+            outcome: 'HIT_TARGET',
+            entryPrice,
+            exitPrice: targetPrice,
+            realizedReturn: directionalReturn(targetPrice),
+            successful: true,
+            outcomeDate: bar.date,
+            evaluatedAt: new Date(),
+          };
+        }
+      }
+    }
+
+    const last = window[window.length - 1] ?? first;
+    const change = ((last.close - entryPrice) / entryPrice) * 100;
+    const isHold = rec.recommendation === SignalType.HOLD;
+
+    return {
+      ...entry,
+      outcome: 'EXPIRED',
+      entryPrice,
+      exitPrice: last.close,
+      realizedReturn: isHold ? change : directionalReturn(last.close),
+      successful: isHold ? Math.abs(change) <= HOLD_BAND_PCT : directionalReturn(last.close) > 0,
+      outcomeDate: last.date,
+      evaluatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Evaluate due recommendations against subsequent real prices. Entries
+   * without real price history stay pending and are retried next time,
+   * after entries that haven't been tried as recently.
+   */
+  public async evaluateDue(limit: number = MAX_EVALUATIONS_PER_RUN): Promise<number> {
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    let evaluated = 0;
+    let attempted = 0;
+    const attemptTime = (entry: LedgerEntry) => entry.lastAttemptAt?.getTime() ?? 0;
+    try {
+      const due = this.getDueEntries()
+        .sort((a, b) => attemptTime(a) - attemptTime(b))
+        .slice(0, limit);
+
+      for (const entry of due) {
+        const rec = entry.recommendation;
+        let result: LedgerEntry | null = null;
+        try {
+          const { data, isRealData } = await getStockChartData(rec.symbol, this.getRangeFor(rec), '1d');
+          if (isRealData) {
+            result = this.evaluateAgainstPrices(entry, data);
+          } else {
+            console.log(`⚠️ No real prices for ${rec.symbol}; ledger entry stays pending`);
+          }
+        } catch (error) {
+          console.error(`Failed to evaluate recommendation ${rec.id}:`, error);
+        }
+
+        // Still pending entries go to the back of the queue for the next run
+        const updated = result ?? { ...entry, lastAttemptAt: new Date() };
+        this.entries = this.entries.map(e => (e.recommendation.id === rec.id ? updated : e));
+        attempted++;
+        if (result) evaluated++;
+      }
+
+      if (attempted > 0) this.save();
+    } finally {
+      this.evaluating = false;
+    }
+
+    return evaluated;
+  }
+
+  /**
+   * Aggregate hit rates for a group of entries
+   */
+  private summarize(key: string, entries: LedgerEntry[]): TrackRecordBucket {
+    const evaluated = entries.filter(entry => entry.outcome !== 'PENDING');
+    const successes = evaluated.filter(entry => entry.successful).length;
+
+    return {
+      key,
+      total: entries.length,
+      evaluated: evaluated.length,
+      hitTarget: evaluated.filter(entry => entry.outcome === 'HIT_TARGET').length,
+      hitStop: evaluated.filter(entry => entry.outcome === 'HIT_STOP').length,
+      expired: evaluated.filter(entry => entry.outcome === 'EXPIRED').length,
+      successRate: evaluated.length ? (successes / evaluated.length) * 100 : 0,
+      averageReturn: evaluated.length
+        ? evaluated.reduce((sum, entry) => sum + (entry.realizedReturn || 0), 0) / evaluated.length
+        : 0,
+    };
+  }
+
+  private groupBy(keyOf: (entry: LedgerEntry) => string): TrackRecordBucket[] {
+    const groups = new Map<string, LedgerEntry[]>();
+    this.entries.forEach(entry => {
+      const key = keyOf(entry);
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+
+    return Array.from(groups.entries())
+      .map(([key, entries]) => this.summarize(key, entries))
+      .sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * Hit rates per time frame, sector and source, plus confidence calibration
+   */
+  public getStats(): TrackRecordStats {
+    const evaluated = this.entries.filter(entry => entry.outcome !== 'PENDING');
+
+    const calibration: CalibrationBucket[] = CALIBRATION_BANDS.map(([min, max]) => {
+      const inBand = evaluated.filter(
+        entry => entry.recommendation.confidence >= min && entry.recommendation.confidence < max
+      );
+      return {
+        label: `${min}-${Math.min(max, 100)}`,
+        minConfidence: min,
+        maxConfidence: Math.min(max, 100),
+        count: inBand.length,
+        averageConfidence: inBand.length
+          ? inBand.reduce((sum, entry) => sum + entry.recommendation.confidence, 0) / inBand.length
+          : 0,
+        successRate: inBand.length
+          ? (inBand.filter(entry => entry.successful).length / inBand.length) * 100
+          : 0,
+      };
+    });
+
+    const brierScore = evaluated.length
+      ? evaluated.reduce((sum, entry) => {
+          const forecast = entry.recommendation.confidence / 100;
+          const actual = entry.successful ? 1 : 0;
+          return sum + Math.pow(forecast - actual, 2);
+        }, 0) / evaluated.length
+      : null;
+
+    return {
+      overall: this.summarize('All', this.entries),
+      byTimeFrame: this.groupBy(entry => entry.recommendation.timeFrame),
+      bySector: this.groupBy(entry => entry.stockSector),
+      bySource: this.groupBy(entry => entry.source),
+      calibration,
+      brierScore,
+    };
+  }
+
+  /**
+   * Remove all ledger history
+   */
+  public clear(): void {
+    this.entries = [];
+    this.save();
+  }
+}
+
+export const recommendationLedger = RecommendationLedgerService.getInstance();
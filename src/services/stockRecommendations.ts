@@ -1,14 +1,25 @@
-import { aiService, rateLimiter } from './api';
+import { aiService } from './api';
 import { getAllStocks } from '@/data/mockStocks';
+import { recommendationLedger } from './recommendationLedger';
+import { structuredAI } from './structuredAI';
+import type { ChatMessage } from './structuredAI';
+import { dataCache } from './dataCache';
+import { useScoringStore } from '@/stores/scoringStore';
+import { useQualityScoreStore } from '@/stores/qualityScoreStore';
+import { FACTOR_LABELS, rankFactors, reconcileAiScore, scoreStocks } from '@/utils/factorScoring';
+import { reconcilePriceTarget } from '@/utils/aiReconciliation';
+import { applyQualityScores } from '@/utils/qualityScores';
+import { recommendationsSchema } from '@/utils/aiSchema';
 import { Sector, TimeFrame, SignalType } from '@/types';
 import type { 
   StockRecommendation, 
   RecommendationResponse, 
-  Stock
+  Stock,
+  FactorScore,
+  AIRecommendationItem
 } from '@/types';
 
-// Cache for storing recommendations
-const recommendationCache = new Map<string, RecommendationResponse>();
+// How long recommendations stay fresh during market hours (kept in the data cache)
 const CACHE_TTL = {
   '7D': 15 * 60 * 1000,   // 15 minutes for 7-day recommendations
   '1M': 30 * 60 * 1000,   // 30 minutes for 1-month recommendations
@@ -17,6 +28,44 @@ const CACHE_TTL = {
   '1Y': 4 * 60 * 60 * 1000, // 4 hours for 1-year recommendations
 };
 
+// Investment horizon of each time frame; recommendations stay valid this long
+const HORIZON_DAYS = {
+  '7D': 7,
+  '1M': 30,
+  '3M': 90,
+  '6M': 180,
+  '1Y': 365,
+};
+
+// Upside the quant fallback expects from a top-scoring stock over each horizon
+const MAX_FACTOR_UPSIDE = {
+  '7D': 3,
+  '1M': 6,
+  '3M': 10,
+  '6M': 15,
+  '1Y': 22,
+};
+
+// Largest move an AI target price may imply before it is treated as implausible
+const MAX_PLAUSIBLE_UPSIDE = {
+  '7D': 15,
+  '1M': 25,
+  '3M': 40,
+  '6M': 60,
+  '1Y': 100,
+};
+
+// Stocks sent to the AI, and picks asked back
+const PROMPT_STOCK_LIMIT = 20;
+const MAX_PICKS = 5;
+
+// Quant score thresholds for the fallback's BUY and SELL calls
+const FACTOR_BUY_SCORE = 65;
+const FACTOR_SELL_SCORE = 35;
+
+// Model name on rule-based fallback responses
+const FALLBACK_MODEL = 'Quant Factor Model';
+
 export class StockRecommendationService {
   private static instance: StockRecommendationService;
 
@@ -54,17 +103,10 @@ export class StockRecommendationService {
   }
 
   /**
-   * Check if cached data is still valid
+   * Score the whole universe so sector-neutral z-scores have full peer groups
    */
-  private isCacheValid(cacheKey: string, timeFrame: TimeFrame): boolean {
-    const cached = recommendationCache.get(cacheKey);
-    if (!cached) return false;
-
-    const now = Date.now();
-    const cacheTime = cached.metadata.generatedAt.getTime();
-    const ttl = CACHE_TTL[timeFrame];
-    
-    return (now - cacheTime) < ttl;
+  private scoreUniverse(stocks: Stock[], timeFrame: TimeFrame): Map<string, FactorScore> {
+    return scoreStocks(stocks, useScoringStore.getState().factorWeights[timeFrame]);
   }
 
   /**
@@ -108,7 +150,12 @@ export class StockRecommendationService {
   /**
    * Generate structured prompt for AI analysis
    */
-  private generateAnalysisPrompt(stocks: Stock[], timeFrame: TimeFrame, sector: Sector): string {
+  private generateAnalysisPrompt(
+    stocks: Stock[],
+    timeFrame: TimeFrame,
+    sector: Sector,
+    scores: Map<string, FactorScore>
+  ): string {
     const timeFrameContext = {
       '7D': 'short-term trading (1 week horizon)',
       '1M': 'short to medium-term investment (1 month horizon)', 
@@ -117,7 +164,7 @@ export class StockRecommendationService {
       '1Y': 'long-term investment (1 year horizon)'
     };
 
-    const stockData = stocks.slice(0, 20).map(stock => ({
+    const stockData = stocks.slice(0, PROMPT_STOCK_LIMIT).map(stock => ({
       symbol: stock.symbol,
       name: stock.name,
       sector: stock.sector,
@@ -128,15 +175,16 @@ export class StockRecommendationService {
       roe: stock.roe,
       marketCap: stock.marketCap,
       health: stock.health,
-      signal: stock.signal
+      signal: stock.signal,
+      quantScore: scores.get(stock.id)?.score
     }));
 
     return `You are a professional stock analyst. Analyze the following Indian stocks for ${timeFrameContext[timeFrame]} recommendations in the ${sector === Sector.ALL ? 'overall market' : sector} sector.
 
 Stock Data:
-${JSON.stringify(stockData, null, 2)}
+${JSON.stringify(stockData)}
 
-Please provide exactly 5 top stock recommendations in JSON format with this structure:
+Please provide exactly ${Math.min(MAX_PICKS, stockData.length)} top stock recommendations, chosen only from the symbols above, as JSON with this structure:
 {
   "recommendations": [
     {
@@ -154,102 +202,118 @@ Please provide exactly 5 top stock recommendations in JSON format with this stru
 
 Focus on:
 - Financial metrics (P/E, P/B, ROE, Market Cap)
+- quantScore, a 0-100 multi-factor score (value, quality, momentum, low volatility, growth vs sector peers); explain any aiScore far from it
 - Current price trends and momentum
 - Sector-specific factors
 - Risk-adjusted returns for the time horizon
 - Market conditions and outlook
 
-Provide actionable insights with realistic price targets and risk assessments. Ensure recommendations are suitable for the ${timeFrame} time horizon.`;
+Provide actionable insights with realistic price targets and risk assessments. Use null for targetPrice and upside when there is no price target. Ensure recommendations are suitable for the ${timeFrame} time horizon.`;
   }
 
   /**
-   * Parse AI response and create StockRecommendation objects
+   * Create StockRecommendation objects from validated AI picks
    */
-  private parseAIResponse(
-    aiResponse: any, 
+  private buildRecommendations(
+    items: AIRecommendationItem[],
     timeFrame: TimeFrame, 
     sector: Sector,
-    stocks: Stock[]
+    stocks: Stock[],
+    scores: Map<string, FactorScore>
   ): StockRecommendation[] {
-    try {
-      const content = aiResponse.choices?.[0]?.message?.content;
-      if (!content) throw new Error('No content in AI response');
-
-      // Extract JSON from response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in response');
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      const recommendations = parsed.recommendations || [];
-
-      return recommendations.map((rec: any, index: number) => {
-        const stock = stocks.find(s => s.symbol === rec.symbol);
-        if (!stock) return null;
-
-        const now = new Date();
-        const validUntil = new Date(now.getTime() + CACHE_TTL[timeFrame]);
-        const recommendation = rec.recommendation as SignalType;
+    const now = new Date();
+    const validUntil = new Date(now.getTime() + HORIZON_DAYS[timeFrame] * 24 * 60 * 60 * 1000);
+
+    return items.flatMap(rec => {
+      const stock = stocks.find(s => s.symbol === rec.symbol);
+      if (!stock) return [];
+
+      const recommendation = rec.recommendation;
+      const factorScore = scores.get(stock.id);
+      const risks = [...rec.risks];
+
+      // Keep the AI's score within reach of the quant model's
+      let aiScore = rec.aiScore;
+      if (factorScore) {
+        const reconciled = reconcileAiScore(aiScore, factorScore);
+        if (reconciled.adjusted) {
+          risks.push(`AI score of ${aiScore} disagrees with the quant score of ${factorScore.score}; adjusted to ${reconciled.score}`);
+          aiScore = reconciled.score;
+        }
+      }
 
-        return {
-          id: `${timeFrame}_${sector}_${rec.symbol}_${now.getTime()}`,
-          stockId: stock.id,
-          symbol: rec.symbol,
-          name: stock.name,
-          sector,
-          timeFrame,
-          recommendation,
-          confidence: rec.confidence || 75,
-          currentPrice: stock.price,
-          targetPrice: rec.targetPrice || null,
-          stopLoss: this.calculateStopLoss(stock.price, recommendation, timeFrame),
-          upside: rec.upside || null,
-          reasoning: rec.reasoning || ['AI-based analysis'],
-          risks: rec.risks || ['Market risk'],
-          keyMetrics: {
-            pe: stock.pe,
-            pb: stock.pb,
-            roe: stock.roe,
-            marketCap: stock.marketCap
-          },
-          aiScore: rec.aiScore || rec.confidence || 75,
-          generatedAt: now,
-          validUntil
-        } as StockRecommendation;
-      }).filter(Boolean);
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-      return this.getFallbackRecommendations(stocks, timeFrame, sector);
-    }
+      // Keep the target consistent with the price and the call
+      const target = reconcilePriceTarget(
+        recommendation,
+        stock.price,
+        rec.targetPrice,
+        rec.upside,
+        MAX_PLAUSIBLE_UPSIDE[timeFrame]
+      );
+      risks.push(...target.notes);
+
+      const result: StockRecommendation = {
+        id: `${timeFrame}_${sector}_${rec.symbol}_${now.getTime()}`,
+        stockId: stock.id,
+        symbol: rec.symbol,
+        name: stock.name,
+        sector,
+        timeFrame,
+        recommendation,
+        confidence: rec.confidence,
+        currentPrice: stock.price,
+        targetPrice: target.targetPrice,
+        stopLoss: this.calculateStopLoss(stock.price, recommendation, timeFrame),
+        upside: target.upside,
+        reasoning: rec.reasoning,
+        risks,
+        keyMetrics: {
+          pe: stock.pe ?? undefined,
+          pb: stock.pb ?? undefined,
+          roe: stock.roe ?? undefined,
+          marketCap: stock.marketCap
+        },
+        aiScore,
+        factorScore,
+        generatedAt: now,
+        validUntil
+      };
+      return [result];
+    });
   }
 
   /**
-   * Generate fallback recommendations when AI fails
+   * Generate fallback recommendations from the quant factor scores when AI fails
    */
   private getFallbackRecommendations(
     stocks: Stock[], 
     timeFrame: TimeFrame, 
-    sector: Sector
+    sector: Sector,
+    scores: Map<string, FactorScore>
   ): StockRecommendation[] {
-    const topStocks = stocks
-      .sort((a, b) => {
-        // Sort by health and signal strength
-        const healthScore = { 'BEST': 5, 'GOOD': 4, 'NORMAL': 3, 'BAD': 2, 'WORSE': 1 };
-        const signalScore = { 'BUY': 3, 'HOLD': 2, 'SELL': 1 };
-        
-        const aScore = (healthScore[a.health as keyof typeof healthScore] || 0) + 
-                      (signalScore[a.signal as keyof typeof signalScore] || 0);
-        const bScore = (healthScore[b.health as keyof typeof healthScore] || 0) + 
-                      (signalScore[b.signal as keyof typeof signalScore] || 0);
-        
-        return bScore - aScore;
-      })
+    const scored = stocks
+      .filter(stock => scores.has(stock.id))
+      .map(stock => ({ stock, factorScore: scores.get(stock.id)! }))
+      .sort((a, b) => b.factorScore.score - a.factorScore.score)
       .slice(0, 5);
 
     const now = new Date();
-    const validUntil = new Date(now.getTime() + CACHE_TTL[timeFrame]);
+    const validUntil = new Date(now.getTime() + HORIZON_DAYS[timeFrame] * 24 * 60 * 60 * 1000);
+
+    return scored.map(({ stock, factorScore }) => {
+      const { score } = factorScore;
+      const recommendation = score >= FACTOR_BUY_SCORE
+        ? SignalType.BUY
+        : score <= FACTOR_SELL_SCORE ? SignalType.SELL : SignalType.HOLD;
+      const upside = recommendation === SignalType.BUY
+        ? Math.round(((score - 50) / 50) * MAX_FACTOR_UPSIDE[timeFrame] * 10) / 10
+        : null;
+
+      const ranked = rankFactors(factorScore);
+      const peers = factorScore.peerGroup === 'Market' ? 'the market' : `${factorScore.peerGroup} peers`;
+      const strengths = ranked.filter(f => f.z > 0).slice(0, 2);
+      const weaknesses = ranked.filter(f => f.z < 0).reverse().slice(0, 2);
 
-    return topStocks.map((stock, index) => {
-      const recommendation = stock.signal as SignalType;
       return {
         id: `fallback_${timeFrame}_${sector}_${stock.symbol}_${now.getTime()}`,
         stockId: stock.id,
@@ -258,23 +322,26 @@ Provide actionable insights with realistic price targets and risk assessments. E
         sector,
         timeFrame,
         recommendation,
-        confidence: Math.max(60, 80 - index * 5),
+        confidence: Math.round(50 + Math.abs(score - 50) * 0.8),
         currentPrice: stock.price,
-        targetPrice: stock.signal === 'BUY' ? stock.price * 1.1 : null,
+        targetPrice: upside !== null ? Math.round(stock.price * (1 + upside / 100) * 100) / 100 : null,
         stopLoss: this.calculateStopLoss(stock.price, recommendation, timeFrame),
-        upside: stock.signal === 'BUY' ? 10 - index * 2 : null,
+        upside,
         reasoning: [
-          `Strong ${stock.health.toLowerCase()} fundamentals`,
-          `Current signal: ${stock.signal}`
+          `Quant score ${score}/100 for the ${timeFrame} horizon`,
+          ...strengths.map(f => `${FACTOR_LABELS[f.factor]} ${f.z.toFixed(1)}σ above ${peers}`)
         ],
-        risks: ['Market volatility', 'Sector-specific risks'],
+        risks: weaknesses.length > 0
+          ? weaknesses.map(f => `${FACTOR_LABELS[f.factor]} ${Math.abs(f.z).toFixed(1)}σ below ${peers}`)
+          : ['Market volatility', 'Sector-specific risks'],
         keyMetrics: {
-          pe: stock.pe,
-          pb: stock.pb,
-          roe: stock.roe,
+          pe: stock.pe ?? undefined,
+          pb: stock.pb ?? undefined,
+          roe: stock.roe ?? undefined,
           marketCap: stock.marketCap
         },
-        aiScore: Math.max(60, 85 - index * 5),
+        aiScore: score,
+        factorScore,
         generatedAt: now,
         validUntil
       };
@@ -288,35 +355,61 @@ Provide actionable insights with realistic price targets and risk assessments. E
     timeFrame: TimeFrame, 
     sector: Sector
   ): Promise<RecommendationResponse> {
-    const cacheKey = this.getCacheKey(timeFrame, sector);
+    const response = await dataCache.getOrFetch(
+      'recommendations',
+      this.getCacheKey(timeFrame, sector),
+      () => this.generateRecommendations(timeFrame, sector),
+      // Rule-based fallbacks aren't kept, so the next request retries the AI
+      { ttlMs: CACHE_TTL[timeFrame], cacheIf: result => result.metadata.modelUsed !== FALLBACK_MODEL }
+    );
+    return response!;
+  }
 
-    // Check cache first
-    if (this.isCacheValid(cacheKey, timeFrame)) {
-      const cached = recommendationCache.get(cacheKey)!;
-      return cached;
-    }
+  /**
+   * Ask the AI for fresh recommendations, falling back to rule-based picks
+   */
+  private async generateRecommendations(
+    timeFrame: TimeFrame,
+    sector: Sector
+  ): Promise<RecommendationResponse> {
+    // One snapshot of the universe for scoring, the prompt and the fallback,
+    // since generated stocks get new metrics on every getAllStocks call
+    const allStocks = applyQualityScores(getAllStocks(), useQualityScoreStore.getState().scores);
+    const sectorStocks = this.filterStocksBySector(allStocks, sector);
+    const scores = this.scoreUniverse(allStocks, timeFrame);
 
     try {
-      // Apply rate limiting
-      await rateLimiter.checkLimit();
-
-      // Get all stocks and filter by sector
-      const allStocks = getAllStocks();
-      const sectorStocks = this.filterStocksBySector(allStocks, sector);
-
       if (sectorStocks.length === 0) {
         throw new Error(`No stocks found for sector: ${sector}`);
       }
 
       // Generate AI analysis
-      const prompt = this.generateAnalysisPrompt(sectorStocks, timeFrame, sector);
-      const messages = [
-        { role: 'system', content: 'You are a professional stock analyst providing investment recommendations.' },
+      const prompt = this.generateAnalysisPrompt(sectorStocks, timeFrame, sector, scores);
+      const messages: ChatMessage[] = [
+        { role: 'system', content: 'You are a professional stock analyst providing investment recommendations. Reply with JSON only.' },
         { role: 'user', content: prompt }
       ];
 
-      const aiResponse = await aiService.chat(messages);
-      const recommendations = this.parseAIResponse(aiResponse, timeFrame, sector, sectorStocks);
+      const promptStocks = sectorStocks.slice(0, PROMPT_STOCK_LIMIT);
+      const payload = await structuredAI.request<{ recommendations: AIRecommendationItem[] }>({
+        kind: 'recommendations',
+        subject: `${timeFrame} · ${sector}`,
+        schemaName: 'stock_recommendations',
+        schema: recommendationsSchema(
+          promptStocks.map(stock => stock.symbol),
+          Math.min(MAX_PICKS, promptStocks.length)
+        ),
+        messages,
+        send: (chatMessages, responseFormat) =>
+          aiService.chat(chatMessages, undefined, { maxTokens: 1200, responseFormat }),
+      });
+      const recommendations = this.buildRecommendations(
+        payload.recommendations,
+        timeFrame,
+        sector,
+        promptStocks,
+        scores
+      );
 
       const response: RecommendationResponse = {
         recommendations,
@@ -329,17 +422,15 @@ Provide actionable insights with realistic price targets and risk assessments. E
         }
       };
 
-      // Cache the response
-      recommendationCache.set(cacheKey, response);
+      // Record it in the track record ledger
+      recommendationLedger.record(response, allStocks);
 
       return response;
     } catch (error) {
       console.error('Error generating recommendations:', error);
       
       // Return fallback recommendations
-      const allStocks = getAllStocks();
-      const sectorStocks = this.filterStocksBySector(allStocks, sector);
-      const fallbackRecommendations = this.getFallbackRecommendations(sectorStocks, timeFrame, sector);
+      const fallbackRecommendations = this.getFallbackRecommendations(sectorStocks, timeFrame, sector, scores);
 
       const fallbackResponse: RecommendationResponse = {
         recommendations: fallbackRecommendations,
@@ -347,12 +438,12 @@ Provide actionable insights with realistic price targets and risk assessments. E
           timeFrame,
           sector,
           totalAnalyzed: sectorStocks.length,
-          modelUsed: 'Fallback Analysis',
+          modelUsed: FALLBACK_MODEL,
           generatedAt: new Date()
         }
       };
 
-      recommendationCache.set(cacheKey, fallbackResponse);
+      recommendationLedger.record(fallbackResponse, allStocks);
       return fallbackResponse;
     }
   }
@@ -360,17 +451,18 @@ Provide actionable insights with realistic price targets and risk assessments. E
   /**
    * Clear cache (useful for manual refresh)
    */
-  public clearCache(): void {
-    recommendationCache.clear();
+  public clearCache(): Promise<void> {
+    return dataCache.clear('recommendations');
   }
 
   /**
    * Get cache statistics
    */
-  public getCacheStats(): { size: number; keys: string[] } {
+  public async getCacheStats(): Promise<{ size: number; keys: string[] }> {
+    const entries = (await dataCache.list()).filter(entry => entry.kind === 'recommendations');
     return {
-      size: recommendationCache.size,
-      keys: Array.from(recommendationCache.keys())
+      size: entries.length,
+      keys: entries.map(entry => entry.id)
     };
   }
 }
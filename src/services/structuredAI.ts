@@ -0,0 +1,127 @@
+/**
+ * Structured AI
+ * Gets JSON from the model that passes a schema from utils/aiSchema. Models
+ * that support it are asked for schema-constrained output (response_format);
+ * invalid replies are sent back with the validation errors for repair, and
+ * anything that needed repair is written to the rejection log.
+ */
+
+import type { AIOutputKind, AIRejectedAttempt, SchemaIssue } from '@/types';
+import { useAILogStore } from '@/stores/aiLogStore';
+import { parseStructured, toJsonSchema } from '@/utils/aiSchema';
+import type { Schema } from '@/utils/aiSchema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Sends one chat completion; responseFormat is omitted for models without JSON mode
+export type ChatSender = (messages: ChatMessage[], responseFormat?: object) => Promise<any>;
+
+export interface StructuredRequest {
+  kind: AIOutputKind;
+  subject: string;
+  schemaName: string;
+  schema: Schema;
+  messages: ChatMessage[];
+  model?: string;
+  send: ChatSender;
+}
+
+// Repair rounds after the first reply
+const MAX_REPAIR_ATTEMPTS = 2;
+const EXCERPT_LENGTH = 400;
+const DEFAULT_MODEL = 'openrouter/auto';
+
+const repairPrompt = (issues: SchemaIssue[]): string =>
+  `Your previous reply did not match the required JSON schema:
+${issues.slice(0, 15).map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Reply again with only the corrected JSON object, no commentary or code fences.`;
+
+// A 400 on a request with response_format means the model doesn't support it
+const rejectsResponseFormat = (error: any): boolean =>
+  error?.code === '400' || /\b400\b/.test(error?.message ?? '');
+
+export class StructuredAIService {
+  private static instance: StructuredAIService;
+  // Models that answered 400 to response_format; asked for plain JSON instead
+  private withoutJsonMode = new Set<string>();
+
+  public static getInstance(): StructuredAIService {
+    if (!StructuredAIService.instance) {
+      StructuredAIService.instance = new StructuredAIService();
+    }
+    return StructuredAIService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Request output matching the schema, repairing invalid replies. Throws when
+   * every attempt fails validation or the request itself fails.
+   */
+  async request<T>(request: StructuredRequest): Promise<T> {
+    const model = request.model ?? DEFAULT_MODEL;
+    const messages = [...request.messages];
+    const rejected: AIRejectedAttempt[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await this.send(request, model, messages);
+      const content: string = response?.choices?.[0]?.message?.content ?? '';
+      const result = parseStructured<T>(content, request.schema);
+
+      if (result.ok) {
+        if (rejected.length > 0) this.logRejection(request, model, rejected, 'repaired');
+        return result.value;
+      }
+
+      console.warn(
+        `🧩 AI ${request.kind} for ${request.subject} failed validation (attempt ${attempt + 1}):`,
+        result.issues
+      );
+      rejected.push({ issues: result.issues, excerpt: content.slice(0, EXCERPT_LENGTH) });
+      messages.push({ role: 'assistant', content }, { role: 'user', content: repairPrompt(result.issues) });
+    }
+
+    this.logRejection(request, model, rejected, 'failed');
+    throw new Error(`AI ${request.kind} for ${request.subject} failed validation after ${rejected.length} attempts`);
+  }
+
+  private async send(request: StructuredRequest, model: string, messages: ChatMessage[]): Promise<any> {
+    if (this.withoutJsonMode.has(model)) {
+      return request.send(messages);
+    }
+
+    const responseFormat = {
+      type: 'json_schema',
+      json_schema: { name: request.schemaName, strict: true, schema: toJsonSchema(request.schema) },
+    };
+    try {
+      return await request.send(messages, responseFormat);
+    } catch (error) {
+      if (!rejectsResponseFormat(error)) throw error;
+      console.log(`🧩 ${model} does not accept response_format, asking for plain JSON`);
+      this.withoutJsonMode.add(model);
+      return request.send(messages);
+    }
+  }
+
+  private logRejection(
+    request: StructuredRequest,
+    model: string,
+    attempts: AIRejectedAttempt[],
+    outcome: 'repaired' | 'failed'
+  ): void {
+    useAILogStore.getState().logRejection({
+      kind: request.kind,
+      subject: request.subject,
+      model,
+      attempts,
+      outcome,
+    });
+  }
+}
+
+export const structuredAI = StructuredAIService.getInstance();
@@ -1,4 +1,6 @@
 // Vercel API Service - Uses serverless functions for API calls
+import { quotaManager } from "./quotaManager";
+
 export class VercelApiService {
   // Get the appropriate base URL for API calls
   private static getBaseUrl(): string {
@@ -31,7 +33,8 @@ export class VercelApiService {
 
       console.log(`📡 Vercel API: Calling Yahoo Finance for ${symbol}`);
 
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "yahoo",
         `${this.getBaseUrl()}/api/yahoo-finance?${params}`,
         {
           method: "GET",
@@ -67,7 +70,8 @@ export class VercelApiService {
 
       console.log(`📡 Vercel API: Calling Alpha Vantage for ${symbol}`);
 
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "alphaVantage",
         `${this.getBaseUrl()}/api/alpha-vantage?${params}`,
         {
           method: "GET",
@@ -94,26 +98,29 @@ export class VercelApiService {
     }
   }
 
-  // OpenRouter AI analysis proxy
+  // OpenRouter AI analysis proxy; a message list is sent as is, so the
+  // proxy can cap each message instead of one joined prompt
   static async fetchOpenRouterAnalysis(
     symbol: string,
-    prompt: string,
+    prompt: string | Array<{ role: string; content: string }>,
     model?: string,
-    maxTokens: number = 400
+    maxTokens: number = 400,
+    responseFormat?: object
   ) {
     try {
       console.log(`📡 Vercel API: Calling OpenRouter for ${symbol}`);
 
-      const response = await fetch(`${this.getBaseUrl()}/api/openrouter`, {
+      const response = await quotaManager.fetch("openrouter", `${this.getBaseUrl()}/api/openrouter`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           symbol,
-          prompt,
+          ...(typeof prompt === "string" ? { prompt } : { messages: prompt }),
           model,
           maxTokens,
+          responseFormat,
         }),
       });
 
@@ -161,15 +168,16 @@ export class VercelApiService {
         `📡 Vercel API: Calling ${provider.toUpperCase()} for ${symbol}`
       );
 
-      const response = await fetch(
-        `${this.getBaseUrl()}/api/financial-data?${params}`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      const url = `${this.getBaseUrl()}/api/financial-data?${params}`;
+      const init = {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      };
+      // Only FMP has a tracked quota
+      const response =
+        provider === "fmp" ? await quotaManager.fetch("fmp", url, init) : await fetch(url, init);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -210,7 +218,8 @@ export class VercelApiService {
 
       console.log(`📡 Vercel API: Calling RapidAPI Yahoo for ${symbol}`);
 
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "rapidapi",
         `${this.getBaseUrl()}/api/rapidapi-yahoo?${params}`,
         {
           method: "GET",
@@ -1,6 +1,8 @@
 // Yahoo Finance API Service - NO API KEY NEEDED!
 // Free, unlimited* access to real Indian stock data
 
+import { quotaManager } from "./quotaManager";
+
 export interface YahooStockData {
   symbol: string;
   name: string;
@@ -78,7 +80,8 @@ class YahooFinanceService {
     const yahooSymbol = this.formatSymbol(symbol);
 
     try {
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "yahoo",
         `${this.chartURL}/v8/finance/chart/${yahooSymbol}`,
         {
           method: "GET",
@@ -122,7 +125,8 @@ class YahooFinanceService {
     ].join(",");
 
     try {
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "yahoo",
         `${this.baseURL}/v10/finance/quoteSummary/${yahooSymbol}?modules=${modules}`,
         {
           method: "GET",
@@ -195,7 +199,8 @@ class YahooFinanceService {
     const yahooSymbol = this.formatSymbol(symbol);
 
     try {
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "yahoo",
         `${this.chartURL}/v8/finance/chart/${yahooSymbol}?range=${period}&interval=1d`,
         {
           headers: {
@@ -223,7 +228,8 @@ class YahooFinanceService {
   // Search for stocks
   async searchStocks(query: string): Promise<any> {
     try {
-      const response = await fetch(
+      const response = await quotaManager.fetch(
+        "yahoo",
         `${this.baseURL}/v1/finance/search?q=${encodeURIComponent(query)}`,
         {
           headers: {
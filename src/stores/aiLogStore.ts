@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AIRejection } from '@/types';
+
+// Oldest rejections are dropped past this many
+const MAX_REJECTIONS = 50;
+
+interface AILogState {
+  rejections: AIRejection[];
+
+  logRejection: (rejection: Omit<AIRejection, 'id' | 'loggedAt'>) => void;
+  clearRejections: () => void;
+}
+
+export const useAILogStore = create<AILogState>()(
+  persist(
+    (set, get) => ({
+      rejections: [],
+
+      logRejection: (rejection) => {
+        const entry: AIRejection = {
+          ...rejection,
+          id: `rejection_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          loggedAt: new Date().toISOString(),
+        };
+        set({ rejections: [entry, ...get().rejections].slice(0, MAX_REJECTIONS) });
+      },
+
+      clearRejections: () => set({ rejections: [] }),
+    }),
+    {
+      name: 'ai-log-store',
+    }
+  )
+);
+
+// Selectors
+export const useAIRejections = () => useAILogStore(state => state.rejections);
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AlertTrigger, PriceAlert } from '@/types';
+import { createAlertId } from '@/utils/alerts';
+
+const MAX_HISTORY = 200;
+
+interface AlertState {
+  alerts: PriceAlert[];
+  // Newest first
+  history: AlertTrigger[];
+
+  addAlert: (alert: Omit<PriceAlert, 'id' | 'createdAt' | 'enabled'>) => void;
+  updateAlert: (id: string, changes: Partial<Omit<PriceAlert, 'id'>>) => void;
+  removeAlert: (id: string) => void;
+  setAlertEnabled: (id: string, enabled: boolean) => void;
+  // minutes = null clears the snooze
+  snoozeAlert: (id: string, minutes: number | null) => void;
+  // Store the result of an evaluation pass; run evaluateAlerts on the
+  // current alerts right before calling this so no edit is lost
+  applyEvaluation: (alerts: PriceAlert[], triggers: AlertTrigger[]) => void;
+  clearHistory: () => void;
+}
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set, get) => ({
+      alerts: [],
+      history: [],
+
+      addAlert: (alert) => {
+        const newAlert: PriceAlert = {
+          ...alert,
+          id: createAlertId(),
+          enabled: true,
+          createdAt: new Date().toISOString(),
+        };
+        set({ alerts: [...get().alerts, newAlert] });
+      },
+
+      updateAlert: (id, changes) => {
+        // Editing the condition invalidates what was last observed
+        set({
+          alerts: get().alerts.map(a =>
+            a.id === id ? { ...a, ...changes, conditionMet: undefined } : a
+          ),
+        });
+      },
+
+      removeAlert: (id) => {
+        set({ alerts: get().alerts.filter(a => a.id !== id) });
+      },
+
+      setAlertEnabled: (id, enabled) => {
+        set({
+          alerts: get().alerts.map(a =>
+            a.id === id ? { ...a, enabled, conditionMet: undefined } : a
+          ),
+        });
+      },
+
+      snoozeAlert: (id, minutes) => {
+        const snoozedUntil = minutes
+          ? new Date(Date.now() + minutes * 60 * 1000).toISOString()
+          : undefined;
+        set({
+          alerts: get().alerts.map(a => (a.id === id ? { ...a, snoozedUntil } : a)),
+        });
+      },
+
+      applyEvaluation: (alerts, triggers) => {
+        set({
+          alerts,
+          history: [...[...triggers].reverse(), ...get().history].slice(0, MAX_HISTORY),
+        });
+      },
+
+      clearHistory: () => {
+        set({ history: [] });
+      },
+    }),
+    {
+      name: 'alert-store',
+    }
+  )
+);
+
+// Selectors
+export const useAlerts = () => useAlertStore(state => state.alerts);
+export const useAlertHistory = () => useAlertStore(state => state.history);
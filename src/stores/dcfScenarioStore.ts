@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { DCFInputs, DCFScenario } from '@/types';
+
+const createScenarioId = (): string =>
+  `dcf_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Shared so the selector returns a stable reference for stocks without scenarios
+const NO_SCENARIOS: DCFScenario[] = [];
+
+interface DCFScenarioState {
+  // Saved valuation scenarios per symbol
+  scenarios: Record<string, DCFScenario[]>;
+
+  // Updates the scenario with the given id, or saves a new one; returns its id
+  saveScenario: (symbol: string, name: string, inputs: DCFInputs, id?: string) => string;
+  deleteScenario: (symbol: string, id: string) => void;
+}
+
+export const useDCFScenarioStore = create<DCFScenarioState>()(
+  persist(
+    (set, get) => ({
+      scenarios: {},
+
+      saveScenario: (symbol, name, inputs, id) => {
+        const key = symbol.toUpperCase();
+        const now = new Date().toISOString();
+        const trimmed = name.trim() || 'Untitled scenario';
+        const list = get().scenarios[key] ?? [];
+        const existing = id ? list.find(s => s.id === id) : undefined;
+
+        if (existing) {
+          set({
+            scenarios: {
+              ...get().scenarios,
+              [key]: list.map(s => (s.id === existing.id ? { ...s, name: trimmed, inputs, updatedAt: now } : s)),
+            },
+          });
+          return existing.id;
+        }
+
+        const scenario: DCFScenario = {
+          id: createScenarioId(),
+          name: trimmed,
+          inputs,
+          createdAt: now,
+          updatedAt: now,
+        };
+        set({ scenarios: { ...get().scenarios, [key]: [...list, scenario] } });
+        return scenario.id;
+      },
+
+      deleteScenario: (symbol, id) => {
+        const key = symbol.toUpperCase();
+        set({
+          scenarios: {
+            ...get().scenarios,
+            [key]: (get().scenarios[key] ?? []).filter(s => s.id !== id),
+          },
+        });
+      },
+    }),
+    {
+      name: 'dcf-scenario-store',
+    }
+  )
+);
+
+// Selectors
+export const useDCFScenarios = (symbol: string) =>
+  useDCFScenarioStore(state => state.scenarios[symbol.toUpperCase()] ?? NO_SCENARIOS);
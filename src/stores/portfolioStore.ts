@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Transaction } from '@/types';
+import {
+  createTransactionId,
+  sortTransactions,
+  validateTransaction,
+} from '@/utils/portfolio';
+
+interface PortfolioState {
+  // Every buy and sell the user has recorded; holdings are derived from these
+  transactions: Transaction[];
+  // 31 Jan 2018 fair market value per stock id, for LTCG grandfathering
+  grandfatheredFmv: Record<string, number>;
+  // Broker symbol → stock id, remembered from manual mapping during imports
+  symbolMap: Record<string, string>;
+
+  // Actions return an error message when the change would leave the
+  // history inconsistent (e.g. selling more than was held)
+  addTransaction: (transaction: Omit<Transaction, 'id'>) => string | null;
+  updateTransaction: (transaction: Transaction) => string | null;
+  removeTransaction: (id: string) => string | null;
+  clearTransactions: () => void;
+  setGrandfatheredFmv: (stockId: string, fmv: number | null) => void;
+  // Bulk add already-validated transactions (see buildImportPreview)
+  importTransactions: (transactions: Omit<Transaction, 'id'>[]) => number;
+  setSymbolMapping: (brokerSymbol: string, stockId: string | null) => void;
+}
+
+// Re-check the sells of a stock after one of its transactions changes
+const validateHistory = (transactions: Transaction[], stockId: string): string | null => {
+  const history = transactions.filter(t => t.stockId === stockId);
+  const lastSell = sortTransactions(history).filter(t => t.type === 'SELL').pop();
+  return lastSell ? validateTransaction(lastSell, history) : null;
+};
+
+export const usePortfolioStore = create<PortfolioState>()(
+  persist(
+    (set, get) => ({
+      transactions: [],
+      grandfatheredFmv: {},
+      symbolMap: {},
+
+      addTransaction: (transaction) => {
+        const newTransaction: Transaction = { ...transaction, id: createTransactionId() };
+        const error = validateTransaction(newTransaction, get().transactions);
+        if (error) return error;
+
+        set({ transactions: [...get().transactions, newTransaction] });
+        return null;
+      },
+
+      updateTransaction: (transaction) => {
+        const error = validateTransaction(transaction, get().transactions);
+        if (error) return error;
+
+        const previous = get().transactions.find(t => t.id === transaction.id);
+        const transactions = get().transactions.map(t =>
+          t.id === transaction.id ? transaction : t
+        );
+
+        // Moving a buy to another stock can strand the old stock's sells
+        if (previous && previous.stockId !== transaction.stockId) {
+          const stranded = validateHistory(transactions, previous.stockId);
+          if (stranded) return stranded;
+        }
+
+        set({ transactions });
+        return null;
+      },
+
+      removeTransaction: (id) => {
+        const removed = get().transactions.find(t => t.id === id);
+        if (!removed) return null;
+
+        const transactions = get().transactions.filter(t => t.id !== id);
+        if (removed.type === 'BUY') {
+          const error = validateHistory(transactions, removed.stockId);
+          if (error) return `Cannot delete this buy: ${error}`;
+        }
+
+        set({ transactions });
+        return null;
+      },
+
+      clearTransactions: () => {
+        set({ transactions: [] });
+      },
+
+      setGrandfatheredFmv: (stockId, fmv) => {
+        const { [stockId]: _previous, ...rest } = get().grandfatheredFmv;
+        set({ grandfatheredFmv: fmv && fmv > 0 ? { ...rest, [stockId]: fmv } : rest });
+      },
+
+      importTransactions: (transactions) => {
+        const imported = transactions.map(t => ({ ...t, id: createTransactionId() }));
+        set({ transactions: [...get().transactions, ...imported] });
+        return imported.length;
+      },
+
+      setSymbolMapping: (brokerSymbol, stockId) => {
+        const { [brokerSymbol]: _previous, ...rest } = get().symbolMap;
+        set({ symbolMap: stockId ? { ...rest, [brokerSymbol]: stockId } : rest });
+      },
+    }),
+    {
+      name: 'portfolio-store',
+    }
+  )
+);
+
+// Selectors
+export const useTransactions = () => usePortfolioStore(state => state.transactions);
+export const useGrandfatheredFmv = () => usePortfolioStore(state => state.grandfatheredFmv);
+export const useSymbolMap = () => usePortfolioStore(state => state.symbolMap);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { QualityScores } from '@/types';
+
+interface QualityScoreState {
+  // Latest scores per symbol, kept so the screener and recommendations can
+  // use them without refetching statements
+  scores: Record<string, QualityScores>;
+
+  setScores: (scores: QualityScores) => void;
+  clearScores: () => void;
+}
+
+export const useQualityScoreStore = create<QualityScoreState>()(
+  persist(
+    (set, get) => ({
+      scores: {},
+
+      setScores: (scores) => {
+        set({ scores: { ...get().scores, [scores.symbol.toUpperCase()]: scores } });
+      },
+
+      clearScores: () => set({ scores: {} }),
+    }),
+    {
+      name: 'quality-score-store',
+    }
+  )
+);
+
+// Selectors
+export const useQualityScores = (symbol: string) =>
+  useQualityScoreStore(state => state.scores[symbol.toUpperCase()]);
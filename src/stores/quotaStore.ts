@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ApiProviderId, ApiProviderUsage } from '@/types';
+import { emptyUsage } from '@/utils/quota';
+
+interface QuotaState {
+  usage: Partial<Record<ApiProviderId, ApiProviderUsage>>;
+
+  // Apply a usage update from utils/quota to the stored record
+  updateUsage: (
+    provider: ApiProviderId,
+    update: (usage: ApiProviderUsage) => ApiProviderUsage
+  ) => void;
+  // Forget usage and close the circuit, e.g. after fixing an API key
+  resetProvider: (provider: ApiProviderId) => void;
+}
+
+export const useQuotaStore = create<QuotaState>()(
+  persist(
+    (set, get) => ({
+      usage: {},
+
+      updateUsage: (provider, update) => {
+        const current = get().usage[provider] ?? emptyUsage();
+        set({ usage: { ...get().usage, [provider]: update(current) } });
+      },
+
+      resetProvider: (provider) => {
+        set({ usage: { ...get().usage, [provider]: emptyUsage() } });
+      },
+    }),
+    {
+      name: 'quota-store',
+    }
+  )
+);
+
+// Selectors
+export const useQuotaUsage = () => useQuotaStore(state => state.usage);
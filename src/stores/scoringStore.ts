@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { FactorWeights, TimeFrame } from '@/types';
+import { DEFAULT_FACTOR_WEIGHTS } from '@/utils/factorScoring';
+
+interface ScoringState {
+  factorWeights: Record<TimeFrame, FactorWeights>;
+
+  setFactorWeights: (timeFrame: TimeFrame, weights: FactorWeights) => void;
+  resetFactorWeights: (timeFrame: TimeFrame) => void;
+}
+
+export const useScoringStore = create<ScoringState>()(
+  persist(
+    (set, get) => ({
+      factorWeights: DEFAULT_FACTOR_WEIGHTS,
+
+      setFactorWeights: (timeFrame, weights) => {
+        set({ factorWeights: { ...get().factorWeights, [timeFrame]: weights } });
+      },
+
+      resetFactorWeights: (timeFrame) => {
+        set({ factorWeights: { ...get().factorWeights, [timeFrame]: DEFAULT_FACTOR_WEIGHTS[timeFrame] } });
+      },
+    }),
+    {
+      name: 'scoring-store',
+    }
+  )
+);
+
+// Selectors
+export const useFactorWeights = (timeFrame: TimeFrame) =>
+  useScoringStore(state => state.factorWeights[timeFrame]);
@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { SavedScreen, ScreenerGroup } from '@/types';
+
+const createScreenId = (): string =>
+  `screen_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Starter screens so the tab isn't empty on first visit
+const defaultScreens: SavedScreen[] = [
+  {
+    id: 'screen_quality_value',
+    name: 'Quality at a fair price',
+    root: {
+      id: 'qv_root',
+      kind: 'group',
+      combinator: 'AND',
+      children: [
+        { id: 'qv_roe', kind: 'rule', field: 'roe', operator: '>', operand: { type: 'number', value: 15 } },
+        { id: 'qv_de', kind: 'rule', field: 'debtToEquity', operator: '<', operand: { type: 'number', value: 0.5 } },
+        { id: 'qv_pe', kind: 'rule', field: 'pe', operator: '<', operand: { type: 'sectorMedian', field: 'pe' } },
+      ],
+    },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'screen_income',
+    name: 'Dividend payers',
+    root: {
+      id: 'inc_root',
+      kind: 'group',
+      combinator: 'AND',
+      children: [
+        { id: 'inc_dy', kind: 'rule', field: 'dividendYield', operator: '>=', operand: { type: 'number', value: 2 } },
+        {
+          id: 'inc_or',
+          kind: 'group',
+          combinator: 'OR',
+          children: [
+            { id: 'inc_cr', kind: 'rule', field: 'currentRatio', operator: '>=', operand: { type: 'number', value: 1.5 } },
+            { id: 'inc_de', kind: 'rule', field: 'debtToEquity', operator: '<', operand: { type: 'number', value: 0.3 } },
+          ],
+        },
+      ],
+    },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+];
+
+interface ScreenerState {
+  screens: SavedScreen[];
+
+  // Updates the screen with the given id, or saves a new one; returns its id
+  saveScreen: (name: string, root: ScreenerGroup, id?: string) => string;
+  deleteScreen: (id: string) => void;
+  markScreenRun: (id: string) => void;
+}
+
+export const useScreenerStore = create<ScreenerState>()(
+  persist(
+    (set, get) => ({
+      screens: defaultScreens,
+
+      saveScreen: (name, root, id) => {
+        const now = new Date().toISOString();
+        const trimmed = name.trim() || 'Untitled screen';
+        const existing = id ? get().screens.find(s => s.id === id) : undefined;
+
+        if (existing) {
+          set({
+            screens: get().screens.map(s =>
+              s.id === existing.id ? { ...s, name: trimmed, root, updatedAt: now } : s
+            ),
+          });
+          return existing.id;
+        }
+
+        const screen: SavedScreen = {
+          id: createScreenId(),
+          name: trimmed,
+          root,
+          createdAt: now,
+          updatedAt: now,
+        };
+        set({ screens: [...get().screens, screen] });
+        return screen.id;
+      },
+
+      deleteScreen: (id) => {
+        set({ screens: get().screens.filter(s => s.id !== id) });
+      },
+
+      markScreenRun: (id) => {
+        const lastRunAt = new Date().toISOString();
+        set({ screens: get().screens.map(s => (s.id === id ? { ...s, lastRunAt } : s)) });
+      },
+    }),
+    {
+      name: 'screener-store',
+    }
+  )
+);
+
+// Selectors
+export const useSavedScreens = () => useScreenerStore(state => state.screens);
@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { getStockRecommendations } from '@/services/stockRecommendations';
+import { sortStocks } from '@/utils/stockSort';
+import { createScreenerContext, evaluateNode } from '@/utils/screener';
+import { parseStockQuery, queryToFilters } from '@/utils/screenerQuery';
 import { 
   HealthStatus,
   SignalType,
@@ -12,9 +15,14 @@ import type {
   SearchFilters, 
   SortOption, 
   UserPreferences,
+  ChartSettings,
+  ChartType,
   LoadingState,
   StockRecommendation,
-  RecommendationResponse
+  RecommendationResponse,
+  ScreenerQueryError,
+  StockQuoteUpdate,
+  Watchlist
 } from '@/types';
 
 interface StockState {
@@ -25,8 +33,13 @@ interface StockState {
   
   // Search & Filters
   searchQuery: string;
+  // Problems in the typed query; the valid terms are still applied
+  searchQueryErrors: ScreenerQueryError[];
   filters: SearchFilters;
   sortOption: SortOption;
+  // Sort from a `sort:` term in the search query; overrides sortOption
+  // without replacing the saved choice
+  querySortOption: SortOption | null;
   
   // UI State  
   loadingState: LoadingState;
@@ -44,9 +57,12 @@ interface StockState {
   
   // User Preferences
   userPreferences: UserPreferences;
+  chartSettings: ChartSettings;
   
   // Actions
   setStocks: (stocks: Stock[]) => void;
+  // Merge live quote fields into the matching stocks
+  updateQuotes: (quotes: StockQuoteUpdate[]) => void;
   setSelectedStock: (stock: Stock | null) => void;
   setSearchQuery: (query: string) => void;
   setFilters: (filters: SearchFilters) => void;
@@ -68,13 +84,21 @@ interface StockState {
   
   // User Actions
   toggleFavorite: (stockId: string) => void;
-  addToWatchlist: (stockId: string) => void;
-  removeFromWatchlist: (stockId: string) => void;
+  createWatchlist: (name: string) => string;
+  renameWatchlist: (watchlistId: string, name: string) => void;
+  deleteWatchlist: (watchlistId: string) => void;
+  moveWatchlist: (watchlistId: string, offset: number) => void;
+  addToWatchlist: (watchlistId: string, stockId: string) => void;
+  removeFromWatchlist: (watchlistId: string, stockId: string) => void;
+  updateWatchlistNote: (watchlistId: string, stockId: string, note: string) => void;
   updateUserPreferences: (prefs: Partial<UserPreferences>) => void;
+  setChartType: (chartType: ChartType) => void;
+  updateChartSettings: (settings: Partial<ChartSettings>) => void;
+  resetChartSettings: () => void;
   
   // Computed Values
   favoriteStocks: () => Stock[];
-  watchlistStocks: () => Stock[];
+  watchlistStocks: (watchlistId: string) => Stock[];
   filterAndSortStocks: () => void;
   
   // Utility Actions
@@ -94,7 +118,7 @@ const defaultFilters: SearchFilters = {
 
 const defaultUserPreferences: UserPreferences = {
   favorites: [],
-  watchlist: [],
+  watchlists: [],
   defaultFilters: defaultFilters,
   theme: 'light',
   currency: 'INR',
@@ -105,11 +129,45 @@ const defaultUserPreferences: UserPreferences = {
   },
 };
 
+export const defaultChartSettings: ChartSettings = {
+  chartType: 'line',
+  movingAverages: [
+    { id: 'sma-20', type: 'SMA', period: 20, enabled: true, color: '#F59E0B' },
+    { id: 'sma-50', type: 'SMA', period: 50, enabled: true, color: '#8B5CF6' },
+    { id: 'sma-200', type: 'SMA', period: 200, enabled: false, color: '#EC4899' },
+    { id: 'ema-20', type: 'EMA', period: 20, enabled: false, color: '#14B8A6' },
+  ],
+  bollinger: { enabled: false, period: 20, stdDev: 2 },
+  rsi: { enabled: false, period: 14 },
+  stochRsi: { enabled: false, rsiPeriod: 14, stochPeriod: 14 },
+  macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+};
+
 const defaultSortOption: SortOption = {
   field: 'marketCap',
   direction: 'desc',
 };
 
+type StoreSet = (partial: Partial<StockState>) => void;
+type StoreGet = () => StockState;
+
+const setWatchlists = (set: StoreSet, get: StoreGet, watchlists: Watchlist[]) => {
+  set({ userPreferences: { ...get().userPreferences, watchlists } });
+};
+
+const updateWatchlist = (
+  set: StoreSet,
+  get: StoreGet,
+  watchlistId: string,
+  update: (watchlist: Watchlist) => Watchlist
+) => {
+  setWatchlists(
+    set,
+    get,
+    get().userPreferences.watchlists.map(w => (w.id === watchlistId ? update(w) : w))
+  );
+};
+
 export const useStockStore = create<StockState>()(
   persist(
     (set, get) => ({
@@ -118,8 +176,10 @@ export const useStockStore = create<StockState>()(
       selectedStock: null,
       filteredStocks: [],
       searchQuery: '',
+      searchQueryErrors: [],
       filters: defaultFilters,
       sortOption: defaultSortOption,
+      querySortOption: null,
       loadingState: 'idle',
       error: null,
       isFilterModalOpen: false,
@@ -134,6 +194,7 @@ export const useStockStore = create<StockState>()(
       recommendationViewMode: 'cards',
       
       userPreferences: defaultUserPreferences,
+      chartSettings: defaultChartSettings,
 
       // Actions
       setStocks: (stocks) => {
@@ -141,12 +202,31 @@ export const useStockStore = create<StockState>()(
         get().filterAndSortStocks();
       },
 
+      updateQuotes: (quotes) => {
+        if (quotes.length === 0) return;
+        const byId = new Map(quotes.map(q => [q.id, q]));
+        const lastUpdated = new Date();
+        const merge = (stock: Stock): Stock => {
+          const quote = byId.get(stock.id);
+          return quote ? { ...stock, ...quote, lastUpdated } : stock;
+        };
+        const { selectedStock } = get();
+        set({
+          stocks: get().stocks.map(merge),
+          selectedStock: selectedStock ? merge(selectedStock) : null,
+        });
+        get().filterAndSortStocks();
+      },
+
       setSelectedStock: (stock) => set({ selectedStock: stock }),
 
       setSearchQuery: (query) => {
+        const parsed = parseStockQuery(query);
         set({ 
           searchQuery: query,
-          filters: { ...get().filters, query }
+          searchQueryErrors: parsed.errors,
+          filters: { ...get().filters, ...queryToFilters(parsed) },
+          querySortOption: parsed.sort ?? null,
         });
         get().filterAndSortStocks();
       },
@@ -157,7 +237,7 @@ export const useStockStore = create<StockState>()(
       },
 
       setSortOption: (sortOption) => {
-        set({ sortOption });
+        set({ sortOption, querySortOption: null });
         get().filterAndSortStocks();
       },
 
@@ -235,26 +315,72 @@ export const useStockStore = create<StockState>()(
         });
       },
 
-      addToWatchlist: (stockId) => {
+      // Watchlist Actions
+      createWatchlist: (name) => {
         const { userPreferences } = get();
-        if (!userPreferences.watchlist.includes(stockId)) {
-          set({
-            userPreferences: {
-              ...userPreferences,
-              watchlist: [...userPreferences.watchlist, stockId],
-            },
-          });
-        }
+        const watchlist: Watchlist = {
+          id: `wl_${Date.now()}`,
+          name: name.trim() || `Watchlist ${userPreferences.watchlists.length + 1}`,
+          entries: [],
+          createdAt: new Date().toISOString(),
+        };
+        setWatchlists(set, get, [...userPreferences.watchlists, watchlist]);
+        return watchlist.id;
       },
 
-      removeFromWatchlist: (stockId) => {
-        const { userPreferences } = get();
-        set({
-          userPreferences: {
-            ...userPreferences,
-            watchlist: userPreferences.watchlist.filter(id => id !== stockId),
-          },
-        });
+      renameWatchlist: (watchlistId, name) => {
+        if (!name.trim()) return;
+        updateWatchlist(set, get, watchlistId, watchlist => ({ ...watchlist, name: name.trim() }));
+      },
+
+      deleteWatchlist: (watchlistId) => {
+        setWatchlists(set, get, get().userPreferences.watchlists.filter(w => w.id !== watchlistId));
+      },
+
+      moveWatchlist: (watchlistId, offset) => {
+        const watchlists = [...get().userPreferences.watchlists];
+        const from = watchlists.findIndex(w => w.id === watchlistId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= watchlists.length) return;
+
+        const [moved] = watchlists.splice(from, 1);
+        watchlists.splice(to, 0, moved);
+        setWatchlists(set, get, watchlists);
+      },
+
+      addToWatchlist: (watchlistId, stockId) => {
+        const stock = get().stocks.find(s => s.id === stockId);
+        updateWatchlist(set, get, watchlistId, watchlist =>
+          watchlist.entries.some(entry => entry.stockId === stockId)
+            ? watchlist
+            : {
+                ...watchlist,
+                entries: [
+                  ...watchlist.entries,
+                  {
+                    stockId,
+                    addedAt: new Date().toISOString(),
+                    addedPrice: stock?.price ?? 0,
+                  },
+                ],
+              }
+        );
+      },
+
+      removeFromWatchlist: (watchlistId, stockId) => {
+        updateWatchlist(set, get, watchlistId, watchlist => ({
+          ...watchlist,
+          entries: watchlist.entries.filter(entry => entry.stockId !== stockId),
+        }));
+      },
+
+      updateWatchlistNote: (watchlistId, stockId, note) => {
+        updateWatchlist(set, get, watchlistId, watchlist => ({
+          ...watchlist,
+          entries: watchlist.entries.map(entry =>
+            entry.stockId === stockId ? { ...entry, note: note.trim() || undefined } : entry
+          ),
+        }));
       },
 
       updateUserPreferences: (prefs) => {
@@ -267,19 +393,36 @@ export const useStockStore = create<StockState>()(
         });
       },
 
+      // Chart Settings Actions
+      setChartType: (chartType) => {
+        set({ chartSettings: { ...get().chartSettings, chartType } });
+      },
+
+      updateChartSettings: (settings) => {
+        set({ chartSettings: { ...get().chartSettings, ...settings } });
+      },
+
+      resetChartSettings: () => set({ chartSettings: defaultChartSettings }),
+
       // Computed Values
       favoriteStocks: () => {
         const { stocks, userPreferences } = get();
         return stocks.filter(stock => userPreferences.favorites.includes(stock.id));
       },
 
-      watchlistStocks: () => {
+      watchlistStocks: (watchlistId) => {
         const { stocks, userPreferences } = get();
-        return stocks.filter(stock => userPreferences.watchlist.includes(stock.id));
+        const watchlist = userPreferences.watchlists.find(w => w.id === watchlistId);
+        if (!watchlist) return [];
+        return watchlist.entries
+          .map(entry => stocks.find(stock => stock.id === entry.stockId))
+          .filter((stock): stock is Stock => stock !== undefined);
       },
 
       filterAndSortStocks: () => {
-        const { stocks, filters, sortOption } = get();
+        const { stocks, filters, sortOption, querySortOption } = get();
+        const rules = filters.rules?.children.length ? filters.rules : null;
+        const screenerContext = rules ? createScreenerContext(stocks) : null;
         
         let filtered = stocks.filter(stock => {
           // Text search
@@ -330,29 +473,14 @@ export const useStockStore = create<StockState>()(
             if (stock.dividendYield < filters.minDividendYield) return false;
           }
 
+          // Screener rules
+          if (rules && screenerContext && !evaluateNode(rules, stock, screenerContext)) return false;
+
           return true;
         });
 
         // Sort the filtered results
-        filtered.sort((a, b) => {
-          const aValue = a[sortOption.field];
-          const bValue = b[sortOption.field];
-          
-          // Handle null values
-          if (aValue === null && bValue === null) return 0;
-          if (aValue === null) return 1;
-          if (bValue === null) return -1;
-
-          // Sort based on data type
-          let comparison = 0;
-          if (typeof aValue === 'string' && typeof bValue === 'string') {
-            comparison = aValue.localeCompare(bValue);
-          } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-            comparison = aValue - bValue;
-          }
-
-          return sortOption.direction === 'desc' ? -comparison : comparison;
-        });
+        filtered = sortStocks(filtered, querySortOption ?? sortOption);
 
         set({ filteredStocks: filtered });
       },
@@ -362,6 +490,8 @@ export const useStockStore = create<StockState>()(
         set({ 
           filters: defaultFilters,
           searchQuery: '',
+          searchQueryErrors: [],
+          querySortOption: null,
         });
         get().filterAndSortStocks();
       },
@@ -369,16 +499,42 @@ export const useStockStore = create<StockState>()(
       clearSearch: () => {
         set({ 
           searchQuery: '',
-          filters: { ...get().filters, query: '' }
+          searchQueryErrors: [],
+          querySortOption: null,
+          filters: { ...get().filters, query: '', rules: undefined }
         });
         get().filterAndSortStocks();
       },
     }),
     {
       name: 'stock-store',
+      version: 1,
+      // v0 kept a single flat `watchlist: string[]`; move it into a named list
+      migrate: (persistedState, version) => {
+        const state = persistedState as { userPreferences?: UserPreferences & { watchlist?: string[] } };
+        if (version < 1 && state.userPreferences) {
+          const { watchlist = [], ...preferences } = state.userPreferences;
+          const now = new Date().toISOString();
+          state.userPreferences = {
+            ...preferences,
+            watchlists: watchlist.length
+              ? [
+                  {
+                    id: 'wl_default',
+                    name: 'My Watchlist',
+                    entries: watchlist.map(stockId => ({ stockId, addedAt: now, addedPrice: 0 })),
+                    createdAt: now,
+                  },
+                ]
+              : [],
+          };
+        }
+        return state as StockState;
+      },
       // Only persist user preferences and some UI state
       partialize: (state) => ({
         userPreferences: state.userPreferences,
+        chartSettings: state.chartSettings,
         activeTab: state.activeTab,
         sortOption: state.sortOption,
       }),
@@ -395,8 +551,9 @@ export const useFilters = () => useStockStore(state => state.filters);
 export const useLoadingState = () => useStockStore(state => state.loadingState);
 export const useError = () => useStockStore(state => state.error);
 export const useUserPreferences = () => useStockStore(state => state.userPreferences);
+export const useChartSettings = () => useStockStore(state => state.chartSettings);
 export const useFavoriteStocks = () => useStockStore(state => state.favoriteStocks());
-export const useWatchlistStocks = () => useStockStore(state => state.watchlistStocks());
+export const useWatchlists = () => useStockStore(state => state.userPreferences.watchlists);
 
 // Recommendation Selectors
 export const useRecommendations = () => useStockStore(state => state.recommendations);
@@ -29,6 +29,10 @@ export interface Stock {
   netIncome: number | null;
   health: HealthStatus;
   signal: SignalType;
+  // Statement-based scores, present once the stock's statements were loaded
+  piotroskiF?: number | null; // scaled to 0–9 when some signals are unreported
+  altmanZ?: number | null;
+  beneishM?: number | null;
   lastUpdated: Date;
 }
 
@@ -71,6 +75,10 @@ export interface DetailedStockAnalysis {
       balanceSheet: HealthStatus;
       cashFlow: HealthStatus;
     };
+    // Sub-checks behind the statement ratings, when statements were reported
+    statementReports?: Record<StatementName, StatementHealthReport>;
+    qualityScores?: QualityScores;
+    dupont?: DuPontAnalysis;
     profitability: Record<string, MetricWithSource>;
     liquidity: Record<string, MetricWithSource>;
     valuation: Record<string, MetricWithSource>;
@@ -98,6 +106,9 @@ export interface DetailedStockAnalysis {
   // Price History
   priceHistory: PriceData[];
 
+  // Indicator values computed from priceHistory (absent without real prices)
+  technicalData?: TechnicalData;
+
   lastUpdated: Date;
 }
 
@@ -125,6 +136,16 @@ export interface MetricWithSource {
   dataSource: DataSource;
   lastUpdated?: Date;
   isNA?: boolean; // Indicates if data is not available and should show N/A
+  dispute?: MetricDispute; // set when an AI value disagreed with real data
+}
+
+// An AI-generated metric that failed a cross-check: flagged values are kept,
+// replaced ones now hold the value derived from real data, and discarded ones are N/A
+export interface MetricDispute {
+  aiValue: number;
+  expected?: number;
+  basis: string; // what it was checked against, e.g. "price ÷ EPS"
+  action: "flagged" | "replaced" | "discarded";
 }
 
 // Sector Types
@@ -162,24 +183,46 @@ export enum TimeFrame {
 // Technical Analysis Data
 export interface TechnicalData {
   rsi: number;
+  stochRsi: {
+    k: number;
+    d: number;
+  };
+  connorsRsi: {
+    value: number | null; // null until MIN_BARS_FOR_CONNORS bars
+    priceRsi: number;
+    streakRsi: number;
+    percentRank: number | null;
+  };
   macd: {
     value: number;
     signal: number;
     histogram: number;
   };
   sma20: number;
-  sma50: number;
-  sma200: number;
+  sma50: number | null; // null without enough bars for the period
+  sma200: number | null;
   ema20: number;
-  ema50: number;
+  ema50: number | null;
+  ema200: number | null;
   supportLevels: number[];
   resistanceLevels: number[];
+  priceLevels: PriceLevel[]; // Pivot-based levels behind support/resistanceLevels
   volumeProfile: VolumeProfile[];
   bollinger: {
     upper: number;
     middle: number;
     lower: number;
   };
+  barsUsed: number; // Number of daily bars the values were computed from
+}
+
+export interface PriceLevel {
+  price: number;
+  type: "support" | "resistance";
+  touches: number; // Swing highs/lows clustered into this level
+  strength: number; // 0-100, from touches, relative volume and recency
+  volume: number; // Average volume of the touching bars
+  lastTouched: Date;
 }
 
 export interface VolumeProfile {
@@ -235,6 +278,7 @@ export interface IncomeStatement {
   grossProfit: number;
   operatingExpenses: number;
   operatingIncome: number;
+  ebit?: number;
   interestExpense: number;
   pretaxIncome: number;
   incomeTax: number;
@@ -271,6 +315,136 @@ export interface CashFlowStatement {
   year: number;
 }
 
+export type StatementName = "incomeStatement" | "balanceSheet" | "cashFlow";
+
+// One test behind a statement's health rating; passed is null when the
+// statements lack the figures it needs
+export interface StatementCheck {
+  label: string;
+  passed: boolean | null;
+  detail: string;
+}
+
+export interface StatementHealthReport {
+  health: HealthStatus;
+  passed: number;
+  evaluated: number; // checks with enough data to pass or fail
+  checks: StatementCheck[];
+}
+
+// One input to a composite statement score; value is null when the
+// statements lack what it needs
+export interface ScoreComponent {
+  label: string;
+  value: number | null;
+  detail: string;
+}
+
+export interface StatementScore {
+  value: number;
+  health: HealthStatus;
+  verdict: string; // e.g. "Safe zone"
+  components: ScoreComponent[];
+}
+
+// Piotroski F (quality), Altman Z (distress) and Beneish M (earnings
+// manipulation), from the latest two annual statements
+export interface QualityScores {
+  symbol: string;
+  period: string; // latest fiscal period used
+  piotroski: StatementScore | null;
+  altman: StatementScore | null;
+  beneish: StatementScore | null;
+  computedAt: string; // ISO date
+}
+
+// DuPont factors for one fiscal year, as fractions (0.12 = 12%). Three-step:
+// netMargin × assetTurnover × equityMultiplier; five-step splits netMargin
+// into taxBurden × interestBurden × ebitMargin. NaN when not reported.
+export interface DuPontYear {
+  period: string;
+  year: number;
+  roe: number;
+  netMargin: number;
+  assetTurnover: number;
+  equityMultiplier: number;
+  taxBurden: number;
+  interestBurden: number;
+  ebitMargin: number;
+  roce: number; // EBIT / (total assets - current liabilities)
+}
+
+// Change in ROE between two years, split across the three DuPont factors
+export interface DuPontAttribution {
+  fromPeriod: string;
+  toPeriod: string;
+  startRoe: number;
+  margin: number;
+  turnover: number;
+  leverage: number;
+  endRoe: number;
+  driver: "operations" | "leverage" | "mixed";
+}
+
+export interface DuPontAnalysis {
+  symbol: string;
+  years: DuPontYear[]; // newest first, like the statements
+  attribution: DuPontAttribution | null;
+}
+
+// DCF valuation inputs. Rates are percentages (7 = 7%); amounts are in
+// rupees. Stage one grows at stage1Growth, stage two at stage2Growth, then
+// a Gordon growth terminal value at terminalGrowth.
+export interface DCFInputs {
+  baseFcf: number;
+  stage1Growth: number;
+  stage1Years: number;
+  stage2Growth: number;
+  stage2Years: number;
+  terminalGrowth: number;
+  riskFreeRate: number;
+  equityRiskPremium: number;
+  beta: number;
+  costOfDebt: number; // pre-tax
+  taxRate: number;
+  debtWeight: number; // share of capital funded by debt
+  netDebt: number; // debt less cash, subtracted from enterprise value
+  sharesOutstanding: number;
+}
+
+// Defaults for a stock plus the free cash flow history they came from
+export interface DCFSeed {
+  inputs: DCFInputs;
+  history: Array<{ period: string; year: number; freeCashFlow: number }>; // newest first
+}
+
+export interface DCFProjection {
+  year: number; // years from now
+  freeCashFlow: number;
+  presentValue: number;
+}
+
+export interface DCFResult {
+  costOfEquity: number;
+  wacc: number;
+  projections: DCFProjection[];
+  presentValueOfCashFlows: number;
+  terminalValue: number;
+  presentValueOfTerminal: number;
+  enterpriseValue: number;
+  equityValue: number;
+  fairValue: number; // per share
+  marginOfSafety: number; // percent of fair value; negative when above it
+}
+
+export interface DCFScenario {
+  id: string;
+  name: string;
+  inputs: DCFInputs;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // AI Analysis Types
 export interface AIAnalysis {
   id: string;
@@ -311,6 +485,7 @@ export interface StockRecommendation {
     marketCap: number;
   };
   aiScore: number; // 0-100
+  factorScore?: FactorScore; // deterministic quant score for the same time frame
   generatedAt: Date;
   validUntil: Date;
 }
@@ -326,6 +501,56 @@ export interface RecommendationResponse {
   };
 }
 
+// Recommendation Track Record Types
+export type RecommendationOutcome =
+  | "PENDING"
+  | "HIT_TARGET"
+  | "HIT_STOP"
+  | "EXPIRED";
+
+export interface LedgerEntry {
+  recommendation: StockRecommendation;
+  source: string; // modelUsed of the response that issued it
+  stockSector: string; // The stock's own sector (recommendation.sector is the filter used)
+  outcome: RecommendationOutcome;
+  entryPrice?: number; // First real close after issue; target and stop are scaled to it
+  exitPrice?: number;
+  realizedReturn?: number; // %, from the recommendation's direction
+  successful?: boolean;
+  evaluatedAt?: Date;
+  outcomeDate?: Date; // Bar on which target/stop was hit or the horizon ended
+  lastAttemptAt?: Date; // Last evaluation that left the entry pending
+}
+
+export interface TrackRecordBucket {
+  key: string;
+  total: number;
+  evaluated: number;
+  hitTarget: number;
+  hitStop: number;
+  expired: number;
+  successRate: number; // % of evaluated
+  averageReturn: number; // % per evaluated recommendation
+}
+
+export interface CalibrationBucket {
+  label: string; // e.g. "70-80"
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  averageConfidence: number;
+  successRate: number;
+}
+
+export interface TrackRecordStats {
+  overall: TrackRecordBucket;
+  byTimeFrame: TrackRecordBucket[];
+  bySector: TrackRecordBucket[];
+  bySource: TrackRecordBucket[];
+  calibration: CalibrationBucket[];
+  brierScore: number | null; // Mean squared error of confidence vs outcome
+}
+
 export interface MarketSentiment {
   overall: "BULLISH" | "BEARISH" | "NEUTRAL";
   score: number; // -100 to 100
@@ -350,6 +575,8 @@ export interface SearchFilters {
   signal?: SignalType[];
   minVolume?: number;
   minDividendYield?: number;
+  // Screener rules, e.g. from a typed query like `pe<20 roe>=15`
+  rules?: ScreenerGroup;
 }
 
 export interface SortOption {
@@ -357,10 +584,70 @@ export interface SortOption {
   direction: "asc" | "desc";
 }
 
+// Screener Types
+// Metrics derived from other Stock fields, available to screener rules
+export type ScreenerComputedField =
+  | "volumeRatio" // volume / avgVolume
+  | "earningsYield" // 100 / pe
+  | "peToSectorMedian"; // pe / median pe of the stock's sector
+
+export type ScreenerField = Exclude<keyof Stock, "id" | "lastUpdated"> | ScreenerComputedField;
+
+export type ScreenerOperator = ">" | ">=" | "<" | "<=" | "=" | "!=";
+
+// Right-hand side of a rule: a constant, or a statistic of a field across
+// the stock's sector or the whole universe
+export type ScreenerOperand =
+  | { type: "number"; value: number }
+  | { type: "text"; value: string }
+  | { type: "sectorMedian"; field: ScreenerField }
+  | { type: "marketMedian"; field: ScreenerField };
+
+export interface ScreenerRule {
+  id: string;
+  kind: "rule";
+  field: ScreenerField;
+  operator: ScreenerOperator;
+  operand: ScreenerOperand;
+}
+
+export interface ScreenerGroup {
+  id: string;
+  kind: "group";
+  combinator: "AND" | "OR";
+  children: ScreenerNode[];
+}
+
+export type ScreenerNode = ScreenerRule | ScreenerGroup;
+
+// Text query language (`sector:Banking pe<20 sort:-marketCap`)
+export interface ScreenerQueryError {
+  message: string;
+  start: number; // Character range of the offending token in the query
+  end: number;
+}
+
+export interface ScreenerQueryCompletion {
+  label: string;
+  insertText: string;
+  description?: string;
+  replaceStart: number; // Range of the query the insertText replaces
+  replaceEnd: number;
+}
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  root: ScreenerGroup;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+}
+
 // User Preferences
 export interface UserPreferences {
   favorites: string[]; // Stock IDs
-  watchlist: string[];
+  watchlists: Watchlist[];
   defaultFilters: SearchFilters;
   theme: "light" | "dark";
   currency: "INR" | "USD";
@@ -371,6 +658,74 @@ export interface UserPreferences {
   };
 }
 
+// Watchlist Types
+export interface WatchlistEntry {
+  stockId: string;
+  addedAt: string; // ISO timestamp
+  addedPrice: number; // Price when added, for performance since
+  note?: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  entries: WatchlistEntry[];
+  createdAt: string;
+}
+
+// Alert Types
+export type AlertConditionType =
+  | "priceAbove"
+  | "priceBelow"
+  | "dayMoveUp"
+  | "dayMoveDown"
+  | "rsiAbove"
+  | "rsiBelow"
+  | "crossAbove200Dma"
+  | "crossBelow200Dma"
+  | "volumeSpike";
+
+// oneShot alerts disable themselves after firing; recurring ones re-arm
+// once the condition stops holding
+export type AlertMode = "oneShot" | "recurring";
+
+export interface PriceAlert {
+  id: string;
+  stockId: string;
+  symbol: string;
+  condition: AlertConditionType;
+  // Price level, % move, RSI level or volume multiple of avgVolume;
+  // unused for the 200-DMA crosses
+  threshold: number;
+  mode: AlertMode;
+  enabled: boolean;
+  createdAt: string;
+  snoozedUntil?: string;
+  lastTriggeredAt?: string;
+  // Whether the condition held at the last evaluation (undefined until first seen)
+  conditionMet?: boolean;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  stockId: string;
+  symbol: string;
+  condition: AlertConditionType;
+  message: string;
+  price: number;
+  triggeredAt: string;
+}
+
+// Live quote fields merged into a Stock on each quote refresh
+export type StockQuoteUpdate = Pick<Stock, "id" | "price" | "change" | "changePercent" | "volume">;
+
+// Daily-history indicators needed by the RSI and 200-DMA alerts
+export interface AlertIndicators {
+  rsi: number | null;
+  sma200: number | null;
+}
+
 // Chart Data Types
 export interface PriceData {
   date: Date;
@@ -387,6 +742,501 @@ export interface ChartTimeRange {
   days: number;
 }
 
+export type ChartType = "line" | "area" | "candlestick" | "ohlc" | "heikinAshi";
+
+export interface MovingAverageOverlay {
+  id: string;
+  type: "SMA" | "EMA";
+  period: number;
+  enabled: boolean;
+  color: string;
+}
+
+// Per-user chart layout, persisted in stockStore
+export interface ChartSettings {
+  chartType: ChartType;
+  movingAverages: MovingAverageOverlay[];
+  bollinger: { enabled: boolean; period: number; stdDev: number };
+  rsi: { enabled: boolean; period: number };
+  stochRsi: { enabled: boolean; rsiPeriod: number; stochPeriod: number };
+  macd: { enabled: boolean; fast: number; slow: number; signal: number };
+}
+
+// Backtesting Types
+export type BacktestStrategyId =
+  | "stochRsiCross"
+  | "threeDownAbove200"
+  | "macdMeanReversion";
+
+export interface BacktestConfig {
+  strategy: BacktestStrategyId;
+  initialCapital: number;
+  slippagePct: number; // Applied against us on every fill
+  brokeragePct: number; // Per order, as % of turnover
+  maxBrokeragePerOrder: number; // Flat cap per order (₹)
+  stopLossPct?: number; // Optional protective stop below entry
+  targetPct?: number; // Optional profit target above entry
+  riskFreeRate: number; // Annual, used for Sharpe
+}
+
+export interface BacktestTrade {
+  entryDate: Date;
+  exitDate: Date;
+  entryPrice: number;
+  exitPrice: number;
+  shares: number;
+  costs: number; // Brokerage paid on both legs
+  pnl: number;
+  returnPct: number;
+  holdingDays: number;
+  exitReason: "signal" | "stopLoss" | "target" | "endOfData";
+}
+
+export interface EquityPoint {
+  date: Date;
+  equity: number;
+  buyAndHold: number;
+  drawdown: number; // % below running peak (negative)
+}
+
+export interface BacktestMetrics {
+  totalReturn: number; // %
+  cagr: number; // %
+  winRate: number; // %
+  maxDrawdown: number; // % (negative)
+  sharpe: number;
+  tradeCount: number;
+  averageReturn: number; // % per trade
+  exposure: number; // % of bars in the market
+  buyAndHoldReturn: number; // %
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+  startDate: Date;
+  endDate: Date;
+}
+
+// Portfolio Types
+export type TransactionType = "BUY" | "SELL";
+
+export interface Transaction {
+  id: string;
+  stockId: string;
+  symbol: string;
+  type: TransactionType;
+  date: string; // Trade date, YYYY-MM-DD
+  quantity: number;
+  price: number;
+  brokerage: number;
+  charges: number; // STT, exchange, GST, stamp duty etc.
+  notes?: string;
+  source?: BrokerFormat; // Set when imported from a broker export
+  externalId?: string; // Broker trade id, used to skip re-imports
+}
+
+// Shares still held from one buy; costs include its brokerage and charges
+export interface HoldingLot {
+  transactionId: string;
+  date: string;
+  quantity: number;
+  price: number;
+  costPerShare: number;
+}
+
+// A sell matched against one buy lot (FIFO)
+export interface RealizedLot {
+  stockId: string;
+  symbol: string;
+  buyTransactionId: string;
+  sellTransactionId: string;
+  buyDate: string;
+  sellDate: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  cost: number; // Purchase value plus buy-side costs
+  proceeds: number; // Sale value minus sell-side costs
+  pnl: number;
+}
+
+export interface Holding {
+  stockId: string;
+  symbol: string;
+  name: string;
+  sector: string;
+  quantity: number;
+  averageCost: number;
+  investedValue: number;
+  currentPrice: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  realizedPnL: number;
+  dayChange: number;
+  dayChangePercent: number;
+  lots: HoldingLot[];
+}
+
+export interface SectorAllocation {
+  sector: string;
+  value: number;
+  weight: number; // % of market value
+  holdings: number;
+}
+
+export interface PortfolioSummary {
+  investedValue: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  realizedPnL: number;
+  dayChange: number;
+  dayChangePercent: number;
+  allocation: SectorAllocation[];
+}
+
+// Capital Gains Tax Types (Indian listed equity, STT paid)
+export type CapitalGainType = "STCG" | "LTCG";
+
+export interface CapitalGainEntry extends RealizedLot {
+  financialYear: string; // e.g. "2024-25"
+  gainType: CapitalGainType;
+  holdingDays: number;
+  acquisitionCost: number; // After grandfathering, including buy-side costs
+  grandfathered: boolean; // Bought before 1 Feb 2018 and FMV applied
+  fmvMissing: boolean; // Bought before 1 Feb 2018 but no 31 Jan 2018 FMV recorded
+  gain: number;
+  taxRate: number; // % rate applicable on the sale date
+}
+
+// Gains taxed at one rate, before and after loss set-off and exemption
+export interface CapitalGainBucket {
+  gainType: CapitalGainType;
+  taxRate: number;
+  gains: number;
+  taxable: number;
+}
+
+export interface CapitalGainsSummary {
+  financialYear: string;
+  stcgGains: number;
+  stcgLosses: number;
+  ltcgGains: number;
+  ltcgLosses: number;
+  ltcgExemptionLimit: number;
+  ltcgExemptionUsed: number;
+  buckets: CapitalGainBucket[];
+  taxableStcg: number;
+  taxableLtcg: number;
+  tax: number;
+  cess: number;
+  totalTax: number;
+  stLossCarryForward: number;
+  ltLossCarryForward: number;
+}
+
+export interface TaxHarvestSuggestion {
+  stockId: string;
+  symbol: string;
+  quantity: number; // Shares to sell; FIFO means the oldest lots go first
+  currentPrice: number;
+  loss: number; // Negative
+  gainType: CapitalGainType;
+  taxSaved: number;
+}
+
+export interface CapitalGainsReport {
+  entries: CapitalGainEntry[];
+  summary: CapitalGainsSummary;
+}
+
+// Broker Import Types
+export type BrokerFormat = "zerodha" | "groww" | "upstox" | "icici" | "generic";
+
+export type ImportField =
+  | "symbol"
+  | "name"
+  | "date"
+  | "type"
+  | "quantity"
+  | "price"
+  | "value"
+  | "brokerage"
+  | "charges"
+  | "tradeId"
+  | "status";
+
+// CSV column indexes for each field (numeric fields sum several columns,
+// e.g. ICICI's separate STT and stamp duty). A trade needs symbol or name,
+// date, type, quantity and price or value.
+export type ImportColumnMapping = Partial<Record<ImportField, number[]>>;
+
+export type ImportRowStatus = "ready" | "error" | "unresolved" | "duplicate";
+
+export interface ImportedTrade {
+  rowNumber: number; // 1-based row in the file, header included, blank lines skipped
+  rawSymbol: string;
+  stockId: string | null;
+  symbol: string;
+  type: TransactionType | null;
+  date: string | null;
+  quantity: number;
+  price: number;
+  brokerage: number;
+  charges: number;
+  tradeId?: string;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+// Market Data Provider Types
+export type MarketDataKind = "quote" | "profile" | "statements" | "statistics" | "chart";
+
+export interface MarketQuote {
+  symbol: string;
+  name?: string;
+  price: number;
+  previousClose?: number;
+  change?: number;
+  changePercent?: number;
+  dayHigh?: number;
+  dayLow?: number;
+  volume?: number;
+  avgVolume?: number;
+  marketCap?: number;
+  sharesOutstanding?: number;
+  trailingPE?: number;
+  priceToBook?: number;
+  priceToSales?: number;
+  dividendYield?: number; // percent
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  currency?: string;
+  asOf: Date;
+  dataSource: DataSource;
+}
+
+export interface CompanyProfile {
+  symbol: string;
+  name?: string;
+  sector?: string;
+  industry?: string;
+  description?: string;
+  website?: string;
+  employees?: number;
+  dataSource: DataSource;
+}
+
+// Returns and margins are percentages; debtToEquity is as the provider reports it
+export interface MarketStatistics {
+  marketCap?: number;
+  enterpriseValue?: number;
+  sharesOutstanding?: number;
+  trailingPE?: number;
+  priceToBook?: number;
+  priceToSales?: number;
+  revenue?: number; // trailing twelve months
+  ebitda?: number;
+  netIncomeToCommon?: number;
+  bookValuePerShare?: number;
+  returnOnEquity?: number;
+  returnOnAssets?: number;
+  returnOnCapitalEmployed?: number;
+  grossMargin?: number;
+  operatingMargin?: number;
+  netMargin?: number;
+  currentRatio?: number;
+  quickRatio?: number;
+  debtToEquity?: number;
+  dividendYield?: number;
+  beta?: number;
+  dataSource: DataSource;
+}
+
+// Statements for one period type, newest first. Providers fill what they
+// report, so every line item is optional apart from period and year.
+export interface StatementSet {
+  income: Array<Partial<IncomeStatement> & Pick<IncomeStatement, "period" | "year">>;
+  balance: Array<Partial<BalanceSheet> & Pick<BalanceSheet, "period" | "year">>;
+  cashFlow: Array<Partial<CashFlowStatement> & Pick<CashFlowStatement, "period" | "year">>;
+}
+
+export interface YearlyEarnings {
+  year: number;
+  revenue: number;
+  earnings: number;
+}
+
+export interface MarketStatements {
+  annual: StatementSet;
+  quarterly: StatementSet;
+  yearlyEarnings: YearlyEarnings[]; // oldest first
+  dataSource: DataSource;
+}
+
+// Statements normalized to the full statement types, newest first. Line items
+// that weren't reported and can't be derived from others are NaN.
+export type StatementPeriodType = "annual" | "quarterly";
+export type StatementKind = "income" | "balance" | "cashFlow";
+
+export interface FinancialStatementSet {
+  income: IncomeStatement[];
+  balance: BalanceSheet[];
+  cashFlow: CashFlowStatement[];
+}
+
+export interface FinancialStatements {
+  symbol: string;
+  annual: FinancialStatementSet;
+  quarterly: FinancialStatementSet;
+  dataSource: DataSource;
+}
+
+export interface MarketChart {
+  data: PriceData[];
+  dataSource: DataSource;
+}
+
+// A source of market data. Each method resolves to null when the provider
+// has nothing for the symbol, so the next provider in priority order is tried.
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  isAvailable(): boolean;
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  getProfile(symbol: string): Promise<CompanyProfile | null>;
+  getStatements(symbol: string): Promise<MarketStatements | null>;
+  getStatistics(symbol: string): Promise<MarketStatistics | null>;
+  getChart(symbol: string, range: string, interval: string): Promise<MarketChart | null>;
+}
+
+// Everything known about a symbol, each part from the first provider that had it
+export interface MarketSnapshot {
+  symbol: string;
+  quote: MarketQuote | null;
+  profile: CompanyProfile | null;
+  statements: MarketStatements | null;
+  statistics: MarketStatistics | null;
+  sources: Partial<Record<MarketDataKind, string>>; // provider id per kind
+  hasRealData: boolean;
+}
+
+// Data Cache Types
+export type CacheKind = MarketDataKind | "analysis" | "recommendations";
+
+export interface CacheEntryInfo {
+  key: string; // "<kind>:<id>"
+  kind: CacheKind;
+  id: string;
+  storedAt: Date;
+  expiresAt: Date;
+  sizeBytes: number; // approximate, from the JSON length
+  isStale: boolean;
+}
+
+// API Quota Types
+export type ApiProviderId = "rapidapi" | "yahoo" | "alphaVantage" | "fmp" | "openrouter";
+
+export interface ApiProviderLimits {
+  name: string;
+  perMinute?: number;
+  perDay?: number;
+}
+
+// Persisted usage for one provider
+export interface ApiProviderUsage {
+  recent: number[]; // request times (ms) within the last minute
+  day: string; // yyyy-MM-dd that dayCount belongs to
+  dayCount: number;
+  consecutiveFailures: number;
+  circuitOpenUntil?: number; // set while open; a passed time means half-open
+  backoffMs?: number; // length of the last open period, doubled on each re-open
+  lastError?: string;
+}
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface ApiQuotaStatus {
+  provider: ApiProviderId;
+  name: string;
+  usedThisMinute: number;
+  perMinute?: number;
+  usedToday: number;
+  perDay?: number;
+  circuit: CircuitState;
+  retryAt?: Date; // when requests are allowed again
+  blockedReason?: string; // why requests are refused right now
+  lastError?: string;
+}
+
+// Factor Scoring Types
+export type ScoringFactor = "value" | "quality" | "momentum" | "lowVolatility" | "growth";
+
+// Relative weight of each factor; weights need not sum to 1
+export type FactorWeights = Record<ScoringFactor, number>;
+
+export interface FactorScore {
+  score: number; // 0-100, percentile of the weighted composite across the universe
+  factors: Partial<Record<ScoringFactor, number>>; // z-score vs sector peers; missing when no data
+  peerGroup: string; // sector the z-scores were neutralized against, or "Market"
+}
+
+// Structured AI Output Types
+// What the model is asked to return for one recommendation; the rest of
+// StockRecommendation is filled from our own data
+export interface AIRecommendationItem {
+  symbol: string;
+  recommendation: SignalType;
+  confidence: number;
+  targetPrice: number | null;
+  upside: number | null;
+  reasoning: string[];
+  risks: string[];
+  aiScore: number;
+}
+
+// The AI-written parts of DetailedStockAnalysis
+export interface AIAnalysisPayload {
+  about: string;
+  keyPoints: string[];
+  statements: DetailedStockAnalysis["financialHealth"]["statements"];
+  management: HealthStatus;
+  industry: HealthStatus;
+  risks: HealthStatus;
+  outlook: HealthStatus;
+  support: number[];
+  resistance: number[];
+  pros: string[];
+  cons: string[];
+}
+
+export type AIOutputKind = "recommendations" | "analysis";
+
+export interface SchemaIssue {
+  path: string; // e.g. "recommendations[2].targetPrice"
+  message: string;
+}
+
+export interface AIRejectedAttempt {
+  issues: SchemaIssue[];
+  excerpt: string; // start of the raw model output
+}
+
+// A structured request whose output failed validation at least once
+export interface AIRejection {
+  id: string;
+  kind: AIOutputKind;
+  subject: string; // symbol, or time frame and sector
+  model: string;
+  attempts: AIRejectedAttempt[];
+  outcome: "repaired" | "failed";
+  loggedAt: string; // ISO date
+}
+
 // API Response Types
 export interface APIResponse<T> {
   data: T;
@@ -463,6 +1313,21 @@ export interface TableColumn<T> {
   width?: string;
 }
 
+// Extra StockTable column computed outside the Stock record (e.g.
+// watchlist performance); sorted by the parent through onExtraSort
+export interface StockTableExtraColumn {
+  key: string;
+  title: string;
+  width?: string;
+  sortable?: boolean;
+  render: (stock: Stock) => React.ReactNode;
+}
+
+export interface ExtraSortOption {
+  key: string;
+  direction: "asc" | "desc";
+}
+
 // Export additional types not already exported as interfaces/enums above
 export type {
   VolumeProfile,
@@ -0,0 +1,309 @@
+import {
+  DataSource,
+  DetailedStockAnalysis,
+  HealthStatus,
+  MarketSnapshot,
+  MetricDispute,
+  MetricWithSource,
+  SignalType,
+} from "@/types";
+
+type MetricCategory = "profitability" | "liquidity" | "valuation" | "growth";
+
+// Relative disagreement with real data that flags an AI value, and that replaces it
+export const AI_METRIC_TOLERANCE = 0.25;
+export const AI_METRIC_DISCARD = 1;
+
+// Real inputs the cross-checks derive metrics from
+interface Facts {
+  price?: number;
+  marketCap?: number;
+  enterpriseValue?: number;
+  revenue?: number;
+  grossProfit?: number;
+  operatingIncome?: number;
+  ebit?: number;
+  ebitda?: number;
+  netIncome?: number;
+  interestExpense?: number;
+  eps?: number;
+  bookValuePerShare?: number;
+  totalAssets?: number;
+  currentAssets?: number;
+  currentLiabilities?: number;
+  inventory?: number;
+  longTermDebt?: number;
+  totalEquity?: number;
+  dividendYield?: number;
+  revenueSeries: number[]; // oldest first
+  earningsSeries: number[];
+}
+
+interface Implied {
+  value: number;
+  basis: string;
+}
+
+interface MetricCheck {
+  category: MetricCategory;
+  name: string;
+  // Differences are relative to the larger of the implied value and this,
+  // so values near zero aren't disputed over tiny absolute gaps
+  floor: number;
+  range: [number, number]; // plausible values; anything outside is discarded
+  implied: (facts: Facts) => Implied | null;
+}
+
+const ratio = (numerator: number | undefined, denominator: number | undefined, basis: string, scale = 1): Implied | null =>
+  numerator !== undefined && denominator !== undefined && denominator > 0
+    ? { value: (numerator / denominator) * scale, basis }
+    : null;
+
+// Compound annual growth over the last three years, in percent
+const cagr = (series: number[], basis: string): Implied | null => {
+  const window = series.slice(-4);
+  const first = window[0];
+  const last = window[window.length - 1];
+  if (window.length < 2 || !(first > 0) || !(last > 0)) return null;
+  return { value: (Math.pow(last / first, 1 / (window.length - 1)) - 1) * 100, basis };
+};
+
+const METRIC_CHECKS: MetricCheck[] = [
+  { category: "valuation", name: "P/E Ratio", floor: 5, range: [0, 500], implied: f => ratio(f.price, f.eps, "price ÷ EPS") },
+  {
+    category: "valuation",
+    name: "P/B Ratio",
+    floor: 0.5,
+    range: [0, 100],
+    implied: f => ratio(f.price, f.bookValuePerShare, "price ÷ book value per share") ?? ratio(f.marketCap, f.totalEquity, "market cap ÷ equity"),
+  },
+  { category: "valuation", name: "P/S Ratio", floor: 0.5, range: [0, 100], implied: f => ratio(f.marketCap, f.revenue, "market cap ÷ revenue") },
+  { category: "valuation", name: "EV/EBITDA", floor: 2, range: [0, 200], implied: f => ratio(f.enterpriseValue, f.ebitda, "enterprise value ÷ EBITDA") },
+  {
+    category: "valuation",
+    name: "Dividend Yield",
+    floor: 0.5,
+    range: [0, 25],
+    implied: f => (f.dividendYield !== undefined ? { value: f.dividendYield, basis: "reported dividend yield" } : null),
+  },
+  { category: "profitability", name: "ROE", floor: 5, range: [-200, 200], implied: f => ratio(f.netIncome, f.totalEquity, "net income ÷ equity", 100) },
+  { category: "profitability", name: "ROA", floor: 2, range: [-100, 100], implied: f => ratio(f.netIncome, f.totalAssets, "net income ÷ total assets", 100) },
+  {
+    category: "profitability",
+    name: "ROCE",
+    floor: 5,
+    range: [-200, 200],
+    implied: f =>
+      f.totalAssets !== undefined && f.currentLiabilities !== undefined
+        ? ratio(f.ebit ?? f.operatingIncome, f.totalAssets - f.currentLiabilities, "EBIT ÷ capital employed", 100)
+        : null,
+  },
+  { category: "profitability", name: "Gross Margin", floor: 5, range: [-100, 100], implied: f => ratio(f.grossProfit, f.revenue, "gross profit ÷ revenue", 100) },
+  {
+    category: "profitability",
+    name: "Operating Margin",
+    floor: 5,
+    range: [-100, 100],
+    implied: f => ratio(f.operatingIncome, f.revenue, "operating income ÷ revenue", 100),
+  },
+  { category: "profitability", name: "Net Margin", floor: 5, range: [-100, 100], implied: f => ratio(f.netIncome, f.revenue, "net income ÷ revenue", 100) },
+  {
+    category: "liquidity",
+    name: "Current Ratio",
+    floor: 0.5,
+    range: [0, 50],
+    implied: f => ratio(f.currentAssets, f.currentLiabilities, "current assets ÷ current liabilities"),
+  },
+  {
+    category: "liquidity",
+    name: "Quick Ratio",
+    floor: 0.5,
+    range: [0, 50],
+    implied: f =>
+      f.currentAssets !== undefined && f.inventory !== undefined
+        ? ratio(f.currentAssets - f.inventory, f.currentLiabilities, "(current assets − inventory) ÷ current liabilities")
+        : null,
+  },
+  { category: "liquidity", name: "Debt-to-Equity", floor: 0.3, range: [0, 50], implied: f => ratio(f.longTermDebt, f.totalEquity, "long-term debt ÷ equity") },
+  {
+    category: "liquidity",
+    name: "Interest Coverage",
+    floor: 2,
+    range: [-100, 1000],
+    implied: f => ratio(f.ebit ?? f.operatingIncome, f.interestExpense && Math.abs(f.interestExpense), "EBIT ÷ interest expense"),
+  },
+  { category: "growth", name: "Revenue CAGR (3Y)", floor: 5, range: [-100, 300], implied: f => cagr(f.revenueSeries, "yearly revenue") },
+  { category: "growth", name: "EPS Growth (3Y)", floor: 5, range: [-100, 500], implied: f => cagr(f.earningsSeries, "yearly earnings") },
+];
+
+// Pairs where the first metric can't sensibly exceed the second
+const ORDERING_RULES: Array<{ category: MetricCategory; lower: string; upper: string }> = [
+  { category: "profitability", lower: "Operating Margin", upper: "Gross Margin" },
+  { category: "profitability", lower: "ROA", upper: "ROE" },
+  { category: "liquidity", lower: "Quick Ratio", upper: "Current Ratio" },
+];
+
+const collectFacts = (analysis: DetailedStockAnalysis, snapshot: MarketSnapshot): Facts => {
+  const { quote, statistics, statements } = snapshot;
+  const income = statements?.annual.income[0];
+  const balance = statements?.quarterly.balance[0] ?? statements?.annual.balance[0];
+  const yearly = statements?.yearlyEarnings ?? [];
+  const shares = quote?.sharesOutstanding ?? statistics?.sharesOutstanding ?? income?.shares;
+  const netIncome = statistics?.netIncomeToCommon ?? income?.netIncome;
+
+  return {
+    price: quote?.price ?? (analysis.currentPrice || undefined),
+    marketCap: quote?.marketCap ?? statistics?.marketCap,
+    enterpriseValue: statistics?.enterpriseValue,
+    // Margins compare annual figures from one statement so numerator and denominator match
+    revenue: income?.revenue ?? statistics?.revenue,
+    grossProfit: income?.grossProfit,
+    operatingIncome: income?.operatingIncome,
+    ebit: income?.ebit,
+    ebitda: statistics?.ebitda,
+    netIncome: income?.netIncome ?? netIncome,
+    interestExpense: income?.interestExpense,
+    eps: income?.eps || (netIncome !== undefined && shares ? netIncome / shares : undefined),
+    bookValuePerShare: statistics?.bookValuePerShare,
+    totalAssets: balance?.totalAssets,
+    currentAssets: balance?.currentAssets,
+    currentLiabilities: balance?.currentLiabilities,
+    inventory: balance?.inventory,
+    longTermDebt: balance?.longTermDebt,
+    totalEquity: balance?.totalEquity,
+    dividendYield: quote?.dividendYield ?? statistics?.dividendYield,
+    revenueSeries: yearly.map(y => y.revenue),
+    earningsSeries: yearly.map(y => y.earnings),
+  };
+};
+
+const isAIValue = (metric: MetricWithSource | undefined): metric is MetricWithSource =>
+  !!metric && metric.dataSource === DataSource.AI_GENERATED && !metric.isNA && !metric.dispute;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Cross-check AI-generated metrics against values derived from real data and
+ * against each other. Values off by more than AI_METRIC_TOLERANCE are flagged,
+ * off by more than AI_METRIC_DISCARD (or outside a plausible range) replaced
+ * with the derived value, or set to N/A when there is none.
+ */
+export const reconcileAIMetrics = (
+  analysis: DetailedStockAnalysis,
+  snapshot: MarketSnapshot,
+  assessHealth: (name: string, value: number) => HealthStatus
+): DetailedStockAnalysis => {
+  const facts = collectFacts(analysis, snapshot);
+  const health = analysis.financialHealth;
+  const categories: Record<MetricCategory, Record<string, MetricWithSource>> = {
+    profitability: { ...health.profitability },
+    liquidity: { ...health.liquidity },
+    valuation: { ...health.valuation },
+    growth: { ...health.growth },
+  };
+  let disputes = 0;
+
+  const dispute = (category: MetricCategory, name: string, metric: MetricWithSource, details: Omit<MetricDispute, "aiValue">) => {
+    disputes++;
+    const record: MetricDispute = { aiValue: metric.value, ...details };
+    if (details.action === "flagged") {
+      categories[category][name] = { ...metric, dispute: record };
+    } else if (details.action === "replaced" && details.expected !== undefined) {
+      categories[category][name] = {
+        value: details.expected,
+        health: assessHealth(name, details.expected),
+        dataSource: DataSource.CALCULATED,
+        lastUpdated: new Date(),
+        dispute: record,
+      };
+    } else {
+      categories[category][name] = {
+        value: 0,
+        health: HealthStatus.NORMAL,
+        dataSource: DataSource.MOCK,
+        isNA: true,
+        lastUpdated: new Date(),
+        dispute: record,
+      };
+    }
+  };
+
+  METRIC_CHECKS.forEach(check => {
+    const metric = categories[check.category][check.name];
+    if (!isAIValue(metric)) return;
+
+    const implied = check.implied(facts);
+    const expected = implied && Number.isFinite(implied.value) ? round(implied.value) : undefined;
+    const [min, max] = check.range;
+
+    if (metric.value < min || metric.value > max) {
+      dispute(check.category, check.name, metric, {
+        expected,
+        basis: implied?.basis ?? `plausible range ${min} to ${max}`,
+        action: expected !== undefined ? "replaced" : "discarded",
+      });
+      return;
+    }
+    if (expected === undefined) return;
+
+    const difference = Math.abs(metric.value - expected) / Math.max(Math.abs(expected), check.floor);
+    if (difference > AI_METRIC_DISCARD) {
+      dispute(check.category, check.name, metric, { expected, basis: implied!.basis, action: "replaced" });
+    } else if (difference > AI_METRIC_TOLERANCE) {
+      dispute(check.category, check.name, metric, { expected, basis: implied!.basis, action: "flagged" });
+    }
+  });
+
+  ORDERING_RULES.forEach(({ category, lower, upper }) => {
+    const low = categories[category][lower];
+    const high = categories[category][upper];
+    if (!low || !high || low.isNA || high.isNA || low.value <= high.value) return;
+    if (isAIValue(low)) {
+      dispute(category, lower, low, { expected: round(high.value), basis: `can't exceed ${upper}`, action: "flagged" });
+    }
+    if (isAIValue(high)) {
+      dispute(category, upper, high, { expected: round(low.value), basis: `can't be below ${lower}`, action: "flagged" });
+    }
+  });
+
+  if (disputes === 0) return analysis;
+  console.log(`⚖️ ${disputes} AI metric(s) for ${analysis.symbol} disagreed with real data`);
+  return { ...analysis, financialHealth: { ...health, ...categories } };
+};
+
+// Make an AI target price and upside agree with the current price and the
+// call; targets on the wrong side of the price or beyond maxUpside are dropped
+export const reconcilePriceTarget = (
+  recommendation: SignalType,
+  currentPrice: number,
+  targetPrice: number | null,
+  upside: number | null,
+  maxUpside: number
+): { targetPrice: number | null; upside: number | null; notes: string[] } => {
+  const notes: string[] = [];
+  if (!(currentPrice > 0) || (targetPrice === null && upside === null)) {
+    return { targetPrice, upside, notes };
+  }
+
+  // The target is the concrete number, so upside is recomputed from it
+  const impliedUpside = targetPrice !== null ? round((targetPrice / currentPrice - 1) * 100) : null;
+  const target = targetPrice ?? round(currentPrice * (1 + upside! / 100));
+  const finalUpside = impliedUpside ?? upside!;
+
+  if (upside !== null && impliedUpside !== null && Math.abs(upside - impliedUpside) > 2) {
+    notes.push(`AI upside of ${upside}% doesn't match its ₹${targetPrice} target; using ${impliedUpside}%`);
+  }
+
+  const contradicts =
+    (recommendation === SignalType.BUY && finalUpside < 0) || (recommendation === SignalType.SELL && finalUpside > 0);
+  if (contradicts || Math.abs(finalUpside) > maxUpside) {
+    notes.push(
+      contradicts
+        ? `AI target of ₹${target} contradicts its ${recommendation} call at ₹${currentPrice}; target dropped`
+        : `AI target of ₹${target} (${finalUpside}%) is beyond a plausible ${maxUpside}% move; target dropped`
+    );
+    return { targetPrice: null, upside: null, notes };
+  }
+
+  return { targetPrice: target, upside: finalUpside, notes };
+};
@@ -0,0 +1,181 @@
+import { HealthStatus, SchemaIssue, SignalType } from "@/types";
+
+// A JSON Schema subset: enough to describe the AI payloads, validate them at
+// runtime, and send the same definition to models that support structured output
+export type Schema =
+  | { type: "string"; enum?: readonly string[]; minLength?: number; nullable?: boolean }
+  | { type: "number"; minimum?: number; maximum?: number; nullable?: boolean }
+  | { type: "array"; items: Schema; minItems?: number; maxItems?: number; nullable?: boolean }
+  | { type: "object"; properties: Record<string, Schema>; nullable?: boolean };
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Check a parsed value against a schema. Every property of an object schema
+ * is required and unknown properties are rejected, matching strict mode.
+ */
+export const validateSchema = (schema: Schema, value: unknown, path: string = ""): SchemaIssue[] => {
+  const at = path || "$";
+  if (value === null || value === undefined) {
+    return schema.nullable && value === null ? [] : [{ path: at, message: `required ${schema.type} is missing` }];
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [{ path: at, message: `expected string, got ${describe(value)}` }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path: at, message: `"${value}" is not one of ${schema.enum.join(", ")}` }];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [{ path: at, message: `must be at least ${schema.minLength} characters` }];
+      }
+      return [];
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [{ path: at, message: `expected number, got ${describe(value)}` }];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [{ path: at, message: `${value} is below the minimum of ${schema.minimum}` }];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [{ path: at, message: `${value} is above the maximum of ${schema.maximum}` }];
+      }
+      return [];
+
+    case "array": {
+      if (!Array.isArray(value)) return [{ path: at, message: `expected array, got ${describe(value)}` }];
+      const issues: SchemaIssue[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path: at, message: `needs at least ${schema.minItems} items, got ${value.length}` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path: at, message: `allows at most ${schema.maxItems} items, got ${value.length}` });
+      }
+      value.forEach((item, index) => issues.push(...validateSchema(schema.items, item, childPath(path, index))));
+      return issues;
+    }
+
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [{ path: at, message: `expected object, got ${describe(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues = Object.entries(schema.properties).flatMap(([key, property]) =>
+        validateSchema(property, record[key], childPath(path, key))
+      );
+      Object.keys(record)
+        .filter(key => !(key in schema.properties))
+        .forEach(key => issues.push({ path: childPath(path, key), message: "unknown property" }));
+      return issues;
+    }
+  }
+};
+
+// The schema as standard JSON Schema, for response_format: json_schema
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const { nullable, ...rest } = schema;
+  const type = nullable ? [schema.type, "null"] : schema.type;
+
+  switch (rest.type) {
+    case "array":
+      return { ...rest, type, items: toJsonSchema(rest.items) };
+    case "object":
+      return {
+        type,
+        properties: Object.fromEntries(
+          Object.entries(rest.properties).map(([key, property]) => [key, toJsonSchema(property)])
+        ),
+        required: Object.keys(rest.properties),
+        additionalProperties: false,
+      };
+    default:
+      return { ...rest, type };
+  }
+};
+
+// Models often wrap JSON in a code fence or a sentence of preamble
+export const extractJson = (content: string): string => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1].trim();
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  return start >= 0 && end > start ? content.slice(start, end + 1) : content.trim();
+};
+
+export const parseStructured = <T>(
+  content: string,
+  schema: Schema
+): { ok: true; value: T } | { ok: false; issues: SchemaIssue[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(content));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "parse error";
+    return { ok: false, issues: [{ path: "$", message: `not valid JSON (${reason})` }] };
+  }
+  const issues = validateSchema(schema, parsed);
+  return issues.length === 0 ? { ok: true, value: parsed as T } : { ok: false, issues };
+};
+
+const text = (minLength = 1): Schema => ({ type: "string", minLength });
+const textList = (minItems: number, maxItems: number): Schema => ({
+  type: "array",
+  items: text(3),
+  minItems,
+  maxItems,
+});
+const health: Schema = { type: "string", enum: Object.values(HealthStatus) };
+const prices: Schema = { type: "array", items: { type: "number", minimum: 0.01 }, minItems: 1, maxItems: 5 };
+
+// Symbols are limited to the stocks in the prompt so invented tickers are rejected
+export const recommendationsSchema = (symbols: string[], maxItems: number): Schema => ({
+  type: "object",
+  properties: {
+    recommendations: {
+      type: "array",
+      minItems: 1,
+      maxItems,
+      items: {
+        type: "object",
+        properties: {
+          symbol: { type: "string", enum: symbols },
+          recommendation: { type: "string", enum: Object.values(SignalType) },
+          confidence: { type: "number", minimum: 0, maximum: 100 },
+          targetPrice: { type: "number", minimum: 0.01, nullable: true },
+          upside: { type: "number", minimum: -100, maximum: 500, nullable: true },
+          reasoning: textList(1, 6),
+          risks: textList(1, 6),
+          aiScore: { type: "number", minimum: 0, maximum: 100 },
+        },
+      },
+    },
+  },
+});
+
+export const ANALYSIS_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    about: text(20),
+    keyPoints: textList(3, 8),
+    statements: {
+      type: "object",
+      properties: { incomeStatement: health, balanceSheet: health, cashFlow: health },
+    },
+    management: health,
+    industry: health,
+    risks: health,
+    outlook: health,
+    support: prices,
+    resistance: prices,
+    pros: textList(2, 8),
+    cons: textList(2, 8),
+  },
+};
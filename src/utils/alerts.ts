@@ -0,0 +1,218 @@
+import {
+  AlertConditionType,
+  AlertIndicators,
+  AlertTrigger,
+  PriceAlert,
+  Stock,
+} from "@/types";
+
+interface AlertConditionInfo {
+  label: string;
+  thresholdLabel: string | null; // null when the condition takes no threshold
+  defaultThreshold: number;
+  needsIndicators: boolean;
+  // Crosses fire on the move through the level, so a first observation that
+  // is already past it only arms the alert
+  isCross: boolean;
+}
+
+export const ALERT_CONDITIONS: Record<AlertConditionType, AlertConditionInfo> = {
+  priceAbove: {
+    label: "Price crosses above",
+    thresholdLabel: "Price (₹)",
+    defaultThreshold: 0,
+    needsIndicators: false,
+    isCross: true,
+  },
+  priceBelow: {
+    label: "Price crosses below",
+    thresholdLabel: "Price (₹)",
+    defaultThreshold: 0,
+    needsIndicators: false,
+    isCross: true,
+  },
+  dayMoveUp: {
+    label: "Day gain of at least",
+    thresholdLabel: "Move (%)",
+    defaultThreshold: 3,
+    needsIndicators: false,
+    isCross: false,
+  },
+  dayMoveDown: {
+    label: "Day fall of at least",
+    thresholdLabel: "Move (%)",
+    defaultThreshold: 3,
+    needsIndicators: false,
+    isCross: false,
+  },
+  rsiAbove: {
+    label: "RSI (14) rises above",
+    thresholdLabel: "RSI",
+    defaultThreshold: 70,
+    needsIndicators: true,
+    isCross: false,
+  },
+  rsiBelow: {
+    label: "RSI (14) falls below",
+    thresholdLabel: "RSI",
+    defaultThreshold: 30,
+    needsIndicators: true,
+    isCross: false,
+  },
+  crossAbove200Dma: {
+    label: "Crosses above 200-DMA",
+    thresholdLabel: null,
+    defaultThreshold: 0,
+    needsIndicators: true,
+    isCross: true,
+  },
+  crossBelow200Dma: {
+    label: "Crosses below 200-DMA",
+    thresholdLabel: null,
+    defaultThreshold: 0,
+    needsIndicators: true,
+    isCross: true,
+  },
+  volumeSpike: {
+    label: "Volume spike vs average",
+    thresholdLabel: "Multiple (×)",
+    defaultThreshold: 2,
+    needsIndicators: false,
+    isCross: false,
+  },
+};
+
+export const createAlertId = (): string =>
+  `alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const formatPrice = (value: number): string =>
+  `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+export const describeAlert = (alert: PriceAlert): string => {
+  switch (alert.condition) {
+    case "priceAbove":
+    case "priceBelow":
+      return `${ALERT_CONDITIONS[alert.condition].label} ${formatPrice(alert.threshold)}`;
+    case "dayMoveUp":
+    case "dayMoveDown":
+      return `${ALERT_CONDITIONS[alert.condition].label} ${alert.threshold}%`;
+    case "rsiAbove":
+    case "rsiBelow":
+      return `${ALERT_CONDITIONS[alert.condition].label} ${alert.threshold}`;
+    case "volumeSpike":
+      return `Volume at least ${alert.threshold}× average`;
+    default:
+      return ALERT_CONDITIONS[alert.condition].label;
+  }
+};
+
+export const isSnoozed = (alert: PriceAlert, now: Date = new Date()): boolean =>
+  !!alert.snoozedUntil && new Date(alert.snoozedUntil) > now;
+
+export const needsIndicators = (alert: PriceAlert): boolean =>
+  ALERT_CONDITIONS[alert.condition].needsIndicators;
+
+// Whether the condition holds right now; null when the data to decide is missing
+export const conditionHolds = (
+  alert: PriceAlert,
+  stock: Stock,
+  indicators?: AlertIndicators
+): boolean | null => {
+  switch (alert.condition) {
+    case "priceAbove":
+      return stock.price >= alert.threshold;
+    case "priceBelow":
+      return stock.price <= alert.threshold;
+    case "dayMoveUp":
+      return stock.changePercent >= alert.threshold;
+    case "dayMoveDown":
+      return stock.changePercent <= -alert.threshold;
+    case "rsiAbove":
+      return indicators?.rsi == null ? null : indicators.rsi >= alert.threshold;
+    case "rsiBelow":
+      return indicators?.rsi == null ? null : indicators.rsi <= alert.threshold;
+    case "crossAbove200Dma":
+      return indicators?.sma200 == null ? null : stock.price > indicators.sma200;
+    case "crossBelow200Dma":
+      return indicators?.sma200 == null ? null : stock.price < indicators.sma200;
+    case "volumeSpike":
+      return stock.avgVolume > 0 ? stock.volume >= alert.threshold * stock.avgVolume : null;
+    default:
+      return null;
+  }
+};
+
+const triggerMessage = (
+  alert: PriceAlert,
+  stock: Stock,
+  indicators?: AlertIndicators
+): string => {
+  const now = `now ${formatPrice(stock.price)}`;
+  switch (alert.condition) {
+    case "priceAbove":
+      return `${stock.symbol} crossed above ${formatPrice(alert.threshold)} (${now})`;
+    case "priceBelow":
+      return `${stock.symbol} crossed below ${formatPrice(alert.threshold)} (${now})`;
+    case "dayMoveUp":
+    case "dayMoveDown":
+      return `${stock.symbol} moved ${stock.changePercent.toFixed(2)}% today (${now})`;
+    case "rsiAbove":
+    case "rsiBelow":
+      return `${stock.symbol} RSI is ${indicators?.rsi?.toFixed(1)} (${now})`;
+    case "crossAbove200Dma":
+      return `${stock.symbol} crossed above its 200-DMA of ${formatPrice(indicators?.sma200 ?? 0)} (${now})`;
+    case "crossBelow200Dma":
+      return `${stock.symbol} crossed below its 200-DMA of ${formatPrice(indicators?.sma200 ?? 0)} (${now})`;
+    case "volumeSpike":
+      return `${stock.symbol} volume is ${(stock.volume / stock.avgVolume).toFixed(1)}× average (${now})`;
+    default:
+      return `${stock.symbol}: ${describeAlert(alert)}`;
+  }
+};
+
+// Fire alerts whose condition went from not holding to holding. Snoozed
+// alerts still track the condition, so they don't all fire when the snooze ends.
+export const evaluateAlerts = (
+  alerts: PriceAlert[],
+  stocks: Stock[],
+  indicators: Record<string, AlertIndicators>,
+  now: Date = new Date()
+): { alerts: PriceAlert[]; triggers: AlertTrigger[] } => {
+  const stocksById = new Map(stocks.map((stock) => [stock.id, stock]));
+  const triggers: AlertTrigger[] = [];
+
+  const updated = alerts.map((alert) => {
+    const stock = stocksById.get(alert.stockId);
+    if (!alert.enabled || !stock) return alert;
+
+    const holds = conditionHolds(alert, stock, indicators[alert.stockId]);
+    if (holds === null) return alert;
+
+    const wasMet = alert.conditionMet ?? ALERT_CONDITIONS[alert.condition].isCross;
+    const fires = holds && !wasMet && !isSnoozed(alert, now);
+    if (!fires) {
+      return holds === alert.conditionMet ? alert : { ...alert, conditionMet: holds };
+    }
+
+    const triggeredAt = now.toISOString();
+    triggers.push({
+      id: `${alert.id}_${now.getTime()}`,
+      alertId: alert.id,
+      stockId: stock.id,
+      symbol: stock.symbol,
+      condition: alert.condition,
+      message: triggerMessage(alert, stock, indicators[alert.stockId]),
+      price: stock.price,
+      triggeredAt,
+    });
+
+    return {
+      ...alert,
+      conditionMet: true,
+      lastTriggeredAt: triggeredAt,
+      enabled: alert.mode === "recurring",
+    };
+  });
+
+  return { alerts: updated, triggers };
+};
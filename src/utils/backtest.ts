@@ -0,0 +1,284 @@
+import {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestStrategyId,
+  BacktestTrade,
+  EquityPoint,
+  PriceData,
+} from "@/types";
+import { macd, sma, stochRsi, IndicatorSeries } from "./technicalIndicators";
+
+// A strategy turns price history into per-bar entry/exit signals. Signals are
+// evaluated on the close of bar i and filled at the open of bar i + 1.
+interface StrategySignals {
+  entry: boolean[];
+  exit: boolean[];
+}
+
+export interface BacktestStrategy {
+  id: BacktestStrategyId;
+  name: string;
+  description: string;
+  build: (prices: PriceData[]) => StrategySignals;
+}
+
+const crossedAbove = (
+  a: IndicatorSeries,
+  b: IndicatorSeries,
+  i: number
+): boolean => {
+  const [a0, a1, b0, b1] = [a[i - 1], a[i], b[i - 1], b[i]];
+  if (a0 === null || a1 === null || b0 === null || b1 === null) return false;
+  return a0 <= b0 && a1 > b1;
+};
+
+const crossedBelow = (
+  a: IndicatorSeries,
+  b: IndicatorSeries,
+  i: number
+): boolean => crossedAbove(b, a, i);
+
+export const BACKTEST_STRATEGIES: Record<BacktestStrategyId, BacktestStrategy> = {
+  stochRsiCross: {
+    id: "stochRsiCross",
+    name: "Stochastic RSI Cross",
+    description:
+      "Buy when %K crosses above %D below 20; sell when %K crosses below %D above 80.",
+    build: (prices) => {
+      const { k, d } = stochRsi(prices.map((p) => p.close));
+      return {
+        entry: prices.map((_, i) => crossedAbove(k, d, i) && (k[i] ?? 100) < 20),
+        exit: prices.map((_, i) => crossedBelow(k, d, i) && (k[i] ?? 0) > 80),
+      };
+    },
+  },
+  threeDownAbove200: {
+    id: "threeDownAbove200",
+    name: "3 Down Closes above 200-DMA",
+    description:
+      "Buy after three consecutive lower closes while above the 200-DMA; sell on a close above the 5-DMA.",
+    build: (prices) => {
+      const closes = prices.map((p) => p.close);
+      const sma200 = sma(closes, 200);
+      const sma5 = sma(closes, 5);
+      return {
+        entry: closes.map((close, i) => {
+          const trend = sma200[i];
+          return (
+            i >= 3 &&
+            trend !== null &&
+            close > trend &&
+            close < closes[i - 1] &&
+            closes[i - 1] < closes[i - 2] &&
+            closes[i - 2] < closes[i - 3]
+          );
+        }),
+        exit: closes.map((close, i) => {
+          const fast = sma5[i];
+          return fast !== null && close > fast;
+        }),
+      };
+    },
+  },
+  macdMeanReversion: {
+    id: "macdMeanReversion",
+    name: "MACD Mean Reversion",
+    description:
+      "Buy when MACD crosses above its signal line below zero; sell when it crosses back below the signal line.",
+    build: (prices) => {
+      const series = macd(prices.map((p) => p.close));
+      return {
+        entry: prices.map(
+          (_, i) =>
+            crossedAbove(series.macd, series.signal, i) &&
+            (series.macd[i] ?? 0) < 0
+        ),
+        exit: prices.map((_, i) => crossedBelow(series.macd, series.signal, i)),
+      };
+    },
+  },
+};
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  strategy: "stochRsiCross",
+  initialCapital: 100000,
+  slippagePct: 0.1,
+  brokeragePct: 0.03,
+  maxBrokeragePerOrder: 20,
+  riskFreeRate: 6.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const brokerage = (turnover: number, config: BacktestConfig) =>
+  Math.min((turnover * config.brokeragePct) / 100, config.maxBrokeragePerOrder);
+
+// Replay a strategy over daily prices with one long position at a time,
+// fully invested, paying slippage and brokerage on each fill
+export const runBacktest = (
+  prices: PriceData[],
+  config: BacktestConfig
+): BacktestResult => {
+  if (prices.length < 2) {
+    throw new Error("Not enough price history to run a backtest");
+  }
+
+  const strategy = BACKTEST_STRATEGIES[config.strategy];
+  const { entry, exit } = strategy.build(prices);
+  const slip = config.slippagePct / 100;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let cash = config.initialCapital;
+  let position: {
+    shares: number;
+    entryPrice: number;
+    entryDate: Date;
+    entryCost: number;
+  } | null = null;
+  let peak = config.initialCapital;
+  let barsInMarket = 0;
+  let pendingEntry = false;
+  let pendingExit = false;
+
+  const closePosition = (
+    rawPrice: number,
+    date: Date,
+    reason: BacktestTrade["exitReason"]
+  ) => {
+    if (!position) return;
+    const exitPrice = rawPrice * (1 - slip);
+    const proceeds = position.shares * exitPrice;
+    const exitCost = brokerage(proceeds, config);
+    cash += proceeds - exitCost;
+
+    const invested = position.shares * position.entryPrice + position.entryCost;
+    const pnl = proceeds - exitCost - invested;
+    trades.push({
+      entryDate: position.entryDate,
+      exitDate: date,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      shares: position.shares,
+      costs: position.entryCost + exitCost,
+      pnl,
+      returnPct: (pnl / invested) * 100,
+      holdingDays: Math.round(
+        (date.getTime() - position.entryDate.getTime()) / DAY_MS
+      ),
+      exitReason: reason,
+    });
+    position = null;
+  };
+
+  prices.forEach((bar, i) => {
+    // Fill orders generated on the previous close at today's open
+    if (pendingExit && position) {
+      closePosition(bar.open, bar.date, "signal");
+    }
+    if (pendingEntry && !position) {
+      const entryPrice = bar.open * (1 + slip);
+      const maxCost = brokerage(cash, config);
+      const shares = Math.floor((cash - maxCost) / entryPrice);
+      if (shares > 0) {
+        const entryCost = brokerage(shares * entryPrice, config);
+        cash -= shares * entryPrice + entryCost;
+        position = { shares, entryPrice, entryDate: bar.date, entryCost };
+      }
+    }
+    pendingEntry = false;
+    pendingExit = false;
+
+    // Protective stop and target are checked intrabar; a gap through the
+    // level fills at the open
+    if (position) {
+      const stop = config.stopLossPct
+        ? position.entryPrice * (1 - config.stopLossPct / 100)
+        : null;
+      const target = config.targetPct
+        ? position.entryPrice * (1 + config.targetPct / 100)
+        : null;
+
+      if (stop !== null && bar.low <= stop) {
+        closePosition(Math.min(bar.open, stop), bar.date, "stopLoss");
+      } else if (target !== null && bar.high >= target) {
+        closePosition(Math.max(bar.open, target), bar.date, "target");
+      }
+    }
+
+    if (position) barsInMarket++;
+
+    if (i < prices.length - 1) {
+      if (position && exit[i]) pendingExit = true;
+      if (!position && entry[i]) pendingEntry = true;
+    } else if (position) {
+      closePosition(bar.close, bar.date, "endOfData");
+    }
+
+    const equity = cash + (position ? position.shares * bar.close : 0);
+    peak = Math.max(peak, equity);
+    equityCurve.push({
+      date: bar.date,
+      equity,
+      buyAndHold: (config.initialCapital * bar.close) / prices[0].close,
+      drawdown: ((equity - peak) / peak) * 100,
+    });
+  });
+
+  return {
+    config,
+    trades,
+    equityCurve,
+    metrics: computeMetrics(equityCurve, trades, barsInMarket, config),
+    startDate: prices[0].date,
+    endDate: prices[prices.length - 1].date,
+  };
+};
+
+const computeMetrics = (
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  barsInMarket: number,
+  config: BacktestConfig
+): BacktestMetrics => {
+  const first = equityCurve[0];
+  const last = equityCurve[equityCurve.length - 1];
+  const finalEquity = last.equity;
+  const years = Math.max(
+    (last.date.getTime() - first.date.getTime()) / (365.25 * DAY_MS),
+    1 / 365.25
+  );
+
+  // Daily returns, annualized with the observed bar frequency
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) returns.push(equityCurve[i].equity / previous - 1);
+  }
+  const barsPerYear = returns.length / years;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+  const variance =
+    returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
+    Math.max(returns.length - 1, 1);
+  const std = Math.sqrt(variance);
+  const riskFreePerBar = config.riskFreeRate / 100 / (barsPerYear || 1);
+  const sharpe =
+    std > 0 ? ((mean - riskFreePerBar) / std) * Math.sqrt(barsPerYear) : 0;
+
+  const wins = trades.filter((t) => t.pnl > 0).length;
+
+  return {
+    totalReturn: (finalEquity / config.initialCapital - 1) * 100,
+    cagr: (Math.pow(finalEquity / config.initialCapital, 1 / years) - 1) * 100,
+    winRate: trades.length ? (wins / trades.length) * 100 : 0,
+    maxDrawdown: Math.min(...equityCurve.map((p) => p.drawdown)),
+    sharpe,
+    tradeCount: trades.length,
+    averageReturn: trades.length
+      ? trades.reduce((sum, t) => sum + t.returnPct, 0) / trades.length
+      : 0,
+    exposure: (barsInMarket / equityCurve.length) * 100,
+    buyAndHoldReturn: (last.buyAndHold / config.initialCapital - 1) * 100,
+  };
+};
@@ -0,0 +1,394 @@
+import {
+  BrokerFormat,
+  ImportColumnMapping,
+  ImportField,
+  ImportedTrade,
+  Stock,
+  Transaction,
+  TransactionType,
+} from "@/types";
+import { sortTransactions, todayString, validateTransaction } from "./portfolio";
+
+interface BrokerPreset {
+  name: string;
+  // Header names (lowercase) accepted for each field, in preference order
+  columns: Partial<Record<ImportField, string[]>>;
+  // Headers that only this broker's export has, used for detection
+  signature: string[];
+}
+
+export const BROKER_PRESETS: Record<Exclude<BrokerFormat, "generic">, BrokerPreset> = {
+  zerodha: {
+    name: "Zerodha Console tradebook",
+    columns: {
+      symbol: ["symbol", "tradingsymbol"],
+      date: ["trade_date", "trade date"],
+      type: ["trade_type", "trade type"],
+      quantity: ["quantity"],
+      price: ["price"],
+      tradeId: ["trade_id", "trade id"],
+    },
+    signature: ["trade_type", "trade_id"],
+  },
+  groww: {
+    name: "Groww order history",
+    columns: {
+      symbol: ["symbol"],
+      name: ["stock name"],
+      date: ["execution date and time", "date"],
+      type: ["type"],
+      quantity: ["quantity"],
+      value: ["value"],
+      tradeId: ["exchange order id"],
+      status: ["order status"],
+    },
+    signature: ["stock name", "execution date and time"],
+  },
+  upstox: {
+    name: "Upstox trade report",
+    columns: {
+      symbol: ["scrip code", "symbol"],
+      name: ["company"],
+      date: ["date", "trade date"],
+      type: ["side", "buy/sell"],
+      quantity: ["quantity"],
+      price: ["price", "rate"],
+      value: ["amount"],
+      tradeId: ["trade num", "trade no", "trade number"],
+    },
+    signature: ["scrip code", "trade num"],
+  },
+  icici: {
+    name: "ICICI Direct trade book",
+    columns: {
+      symbol: ["stock", "stock code", "stock symbol"],
+      date: ["date", "trade date"],
+      type: ["action", "buy/sell"],
+      quantity: ["qty", "quantity"],
+      price: ["price", "rate"],
+      value: ["trade value"],
+      brokerage: ["brokerage incl. gst", "brokerage + service tax", "brokerage"],
+      charges: [
+        "stt",
+        "transaction and sebi turnover charges",
+        "stamp duty",
+      ],
+      tradeId: ["order ref.", "order ref", "trade id"],
+    },
+    signature: ["action", "order ref."],
+  },
+};
+
+// Numeric fields add up every matching column; text fields use the first
+const SUMMED_FIELDS: ImportField[] = ["brokerage", "charges"];
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "symbol", label: "Symbol", required: true },
+  { field: "name", label: "Company name" },
+  { field: "date", label: "Trade date", required: true },
+  { field: "type", label: "Buy / Sell", required: true },
+  { field: "quantity", label: "Quantity", required: true },
+  { field: "price", label: "Price", required: true },
+  { field: "value", label: "Trade value" },
+  { field: "brokerage", label: "Brokerage" },
+  { field: "charges", label: "Charges" },
+  { field: "tradeId", label: "Trade id" },
+  { field: "status", label: "Order status" },
+];
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell !== ""));
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Broker exports often start with a few lines of account details; the
+// header is the first row that looks like one
+export const findHeaderRow = (rows: string[][]): number => {
+  const limit = Math.min(rows.length, 20);
+  for (let i = 0; i < limit; i++) {
+    const headers = rows[i].map(normalizeHeader);
+    const known = Object.values(BROKER_PRESETS).some((preset) =>
+      preset.signature.every((h) => headers.includes(h))
+    );
+    if (known) return i;
+  }
+  for (let i = 0; i < limit; i++) {
+    if (rows[i].filter((cell) => cell && isNaN(Number(cell))).length >= 3) return i;
+  }
+  return 0;
+};
+
+export const detectBrokerFormat = (headers: string[]): BrokerFormat => {
+  const normalized = headers.map(normalizeHeader);
+  const match = (Object.keys(BROKER_PRESETS) as Exclude<BrokerFormat, "generic">[]).find(
+    (format) => BROKER_PRESETS[format].signature.every((h) => normalized.includes(h))
+  );
+  return match || "generic";
+};
+
+// Column mapping for a preset; generic files get a best guess from the
+// union of all preset header names, which the user can then adjust
+export const mappingFor = (format: BrokerFormat, headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const presets =
+    format === "generic" ? Object.values(BROKER_PRESETS) : [BROKER_PRESETS[format]];
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const aliases = Array.from(new Set(presets.flatMap((p) => p.columns[field] || [])));
+    const indexes = aliases
+      .map((alias) => normalized.indexOf(alias))
+      .filter((index) => index >= 0);
+    if (indexes.length > 0) {
+      mapping[field] = SUMMED_FIELDS.includes(field) ? Array.from(new Set(indexes)) : [indexes[0]];
+    }
+  });
+
+  return mapping;
+};
+
+export const parseNumber = (value: string | undefined): number => {
+  if (!value) return 0;
+  const cleaned = value.replace(/[₹,\s]/g, "");
+  const negative = /^\(.*\)$/.test(cleaned);
+  const parsed = parseFloat(cleaned.replace(/[()]/g, ""));
+  return isNaN(parsed) ? NaN : negative ? -parsed : parsed;
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${fullYear}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// Indian brokers write day-first dates; time components are ignored
+export const parseTradeDate = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (match) return toIsoDate(+match[3], +match[2], +match[1]);
+
+  match = text.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[A-Za-z]*[-\s,]+(\d{2,4})/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month ? toIsoDate(+match[3], month, +match[1]) : null;
+  }
+
+  return null;
+};
+
+export const parseTradeType = (value: string): TransactionType | null => {
+  const text = value.trim().toLowerCase();
+  if (["buy", "b", "bought", "purchase"].includes(text)) return "BUY";
+  if (["sell", "s", "sold", "sale"].includes(text)) return "SELL";
+  return null;
+};
+
+// "RELIANCE-EQ", "NSE:RELIANCE", "RELIANCE.NS" → "RELIANCE"
+export const normalizeSymbol = (value: string): string =>
+  value
+    .toUpperCase()
+    .replace(/^(NSE|BSE)[:\s]/, "")
+    .replace(/\.(NS|BO)$/, "")
+    .replace(/-(EQ|BE|BZ|SM|ST)$/, "")
+    .trim();
+
+const resolveStock = (
+  rawSymbol: string,
+  name: string,
+  stocks: Stock[],
+  symbolMap: Record<string, string>
+): Stock | undefined => {
+  const mapped = symbolMap[rawSymbol] || symbolMap[normalizeSymbol(rawSymbol)];
+  if (mapped) return stocks.find((s) => s.id === mapped);
+
+  const symbol = normalizeSymbol(rawSymbol);
+  const lowerName = name.toLowerCase();
+  return (
+    stocks.find((s) => s.symbol.toUpperCase() === symbol) ||
+    (lowerName ? stocks.find((s) => s.name.toLowerCase() === lowerName) : undefined)
+  );
+};
+
+const dedupeKey = (t: {
+  stockId: string | null;
+  date: string | null;
+  type: TransactionType | null;
+  quantity: number;
+  price: number;
+}) => `${t.stockId}|${t.date}|${t.type}|${t.quantity}|${t.price.toFixed(2)}`;
+
+const toTransaction = (
+  trade: ImportedTrade,
+  id: string,
+  source?: BrokerFormat
+): Transaction => ({
+  id,
+  stockId: trade.stockId!,
+  symbol: trade.symbol,
+  type: trade.type!,
+  date: trade.date!,
+  quantity: trade.quantity,
+  price: trade.price,
+  brokerage: trade.brokerage,
+  charges: trade.charges,
+  source,
+  externalId: trade.tradeId,
+});
+
+interface ImportPreviewInput {
+  rows: string[][]; // Data rows, header excluded
+  headerRowIndex: number;
+  mapping: ImportColumnMapping;
+  stocks: Stock[];
+  existing: Transaction[];
+  symbolMap: Record<string, string>;
+}
+
+// Parse, resolve, validate and de-duplicate every row. Rows that would
+// sell more than is held (given the existing history) are rejected.
+export const buildImportPreview = ({
+  rows,
+  headerRowIndex,
+  mapping,
+  stocks,
+  existing,
+  symbolMap,
+}: ImportPreviewInput): ImportedTrade[] => {
+  const read = (row: string[], field: ImportField) =>
+    (mapping[field] || []).map((index) => row[index] ?? "").find((cell) => cell !== "") ?? "";
+  const sum = (row: string[], field: ImportField) =>
+    (mapping[field] || []).reduce((total, index) => total + (parseNumber(row[index]) || 0), 0);
+
+  const existingIds = new Set(existing.map((t) => t.externalId).filter(Boolean));
+  const existingKeys = new Set(existing.map(dedupeKey));
+  const seenIds = new Set<string>();
+  const today = todayString();
+
+  const trades = rows.map<ImportedTrade>((row, index) => {
+    const errors: string[] = [];
+    const rawSymbol = read(row, "symbol") || read(row, "name");
+    const stock = resolveStock(rawSymbol, read(row, "name"), stocks, symbolMap);
+    const type = parseTradeType(read(row, "type"));
+    const date = parseTradeDate(read(row, "date"));
+    const quantity = parseNumber(read(row, "quantity"));
+    const value = parseNumber(read(row, "value"));
+    let price = parseNumber(read(row, "price"));
+    if (!(price > 0) && value > 0 && quantity > 0) price = value / quantity;
+    const tradeId = read(row, "tradeId") || undefined;
+    const orderStatus = read(row, "status").toLowerCase();
+
+    if (!rawSymbol) errors.push("Missing symbol");
+    if (!type) errors.push(`Unknown trade type "${read(row, "type")}"`);
+    if (!date) errors.push(`Unreadable date "${read(row, "date")}"`);
+    else if (date > today) errors.push("Trade date is in the future");
+    if (!Number.isInteger(quantity) || quantity <= 0) errors.push("Quantity must be a positive whole number");
+    if (!(price > 0)) errors.push("Missing price");
+    if (/cancel|reject|fail/.test(orderStatus)) errors.push("Order was not executed");
+
+    const trade: ImportedTrade = {
+      rowNumber: headerRowIndex + index + 2,
+      rawSymbol,
+      stockId: stock?.id ?? null,
+      symbol: stock?.symbol ?? normalizeSymbol(rawSymbol),
+      type,
+      date,
+      quantity,
+      price,
+      brokerage: Math.abs(sum(row, "brokerage")),
+      charges: Math.abs(sum(row, "charges")),
+      tradeId,
+      status: "ready",
+      errors,
+    };
+
+    if (errors.length > 0) {
+      trade.status = "error";
+    } else if (!stock) {
+      trade.status = "unresolved";
+    } else if (
+      (tradeId && (existingIds.has(tradeId) || seenIds.has(tradeId))) ||
+      (!tradeId && existingKeys.has(dedupeKey(trade)))
+    ) {
+      trade.status = "duplicate";
+    }
+    if (tradeId) seenIds.add(tradeId);
+
+    return trade;
+  });
+
+  // Replay ready trades in date order on top of the existing history
+  const accepted = [...existing];
+  const ready = trades.filter((t) => t.status === "ready");
+  const asTransactions = ready.map((t, i) => ({ trade: t, transaction: toTransaction(t, `import_${i}`) }));
+  const order = sortTransactions(asTransactions.map((a) => a.transaction));
+
+  order.forEach((transaction) => {
+    const { trade } = asTransactions.find((a) => a.transaction === transaction)!;
+    const error = validateTransaction(transaction, accepted);
+    if (error) {
+      trade.status = "error";
+      trade.errors.push(error);
+    } else {
+      accepted.push(transaction);
+    }
+  });
+
+  return trades;
+};
+
+// Transactions for the rows that passed every check
+export const toImportTransactions = (
+  trades: ImportedTrade[],
+  source: BrokerFormat
+): Omit<Transaction, "id">[] =>
+  trades
+    .filter((t) => t.status === "ready")
+    .map((t) => {
+      const { id: _id, ...transaction } = toTransaction(t, "", source);
+      return transaction;
+    });
@@ -0,0 +1,48 @@
+import { CacheKind } from "@/types";
+import { getNextMarketOpen, isMarketOpen } from "./tradingDates";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// How long each kind stays fresh while the market is open. Price-driven data
+// can't change once the session closes, so after close it stays fresh until
+// the next open instead.
+const MARKET_HOURS_TTL: Partial<Record<CacheKind, number>> = {
+  quote: MINUTE,
+  chart: 5 * MINUTE,
+  statistics: HOUR,
+  analysis: 2 * HOUR,
+  recommendations: 30 * MINUTE,
+};
+
+// Data that only changes with company filings, regardless of the session
+const FIXED_TTL: Partial<Record<CacheKind, number>> = {
+  statements: 24 * HOUR,
+  profile: 7 * 24 * HOUR,
+};
+
+export const CACHE_KIND_LABELS: Record<CacheKind, string> = {
+  quote: "Quotes",
+  chart: "Charts",
+  statistics: "Key statistics",
+  statements: "Financial statements",
+  profile: "Company profiles",
+  analysis: "AI analyses",
+  recommendations: "Recommendations",
+};
+
+// When an entry of this kind stored now should be refetched. ttlMs overrides
+// the market-hours TTL but still runs to the next open after close.
+export const getCacheExpiry = (kind: CacheKind, now: Date = new Date(), ttlMs?: number): Date => {
+  const fixed = FIXED_TTL[kind];
+  if (fixed !== undefined && ttlMs === undefined) {
+    return new Date(now.getTime() + fixed);
+  }
+
+  if (!isMarketOpen(now)) {
+    return getNextMarketOpen(now);
+  }
+
+  const ttl = ttlMs ?? MARKET_HOURS_TTL[kind] ?? HOUR;
+  return new Date(now.getTime() + ttl);
+};
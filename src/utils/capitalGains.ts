@@ -0,0 +1,284 @@
+import { addYears, differenceInCalendarDays, parseISO } from "date-fns";
+import {
+  CapitalGainBucket,
+  CapitalGainEntry,
+  CapitalGainType,
+  CapitalGainsReport,
+  CapitalGainsSummary,
+  Holding,
+  TaxHarvestSuggestion,
+  Transaction,
+} from "@/types";
+import { matchLots, todayString } from "./portfolio";
+
+// Listed equity shares on which STT was paid (Sections 111A and 112A).
+// Finance (No. 2) Act 2024 raised rates for transfers from 23 July 2024.
+const RATE_CHANGE_DATE = "2024-07-23";
+const STCG_RATE = { before: 15, after: 20 };
+const LTCG_RATE = { before: 10, after: 12.5 };
+const CESS_RATE = 4; // Health and education cess; surcharge is not modelled
+
+// Section 112A applies to transfers from 1 April 2018; earlier LTCG was exempt
+const LTCG_TAXABLE_FROM_FY = 2018;
+const LTCG_EXEMPTION_RAISED_FY = 2024; // ₹1 lakh → ₹1.25 lakh
+
+// Shares bought before this date use the 31 Jan 2018 FMV (grandfathering)
+export const GRANDFATHERING_CUTOFF = "2018-02-01";
+
+const startYearOf = (financialYear: string) => parseInt(financialYear.slice(0, 4), 10);
+
+// "2024-05-10" → "2024-25"; the Indian financial year runs April to March
+export const financialYearOf = (date: string): string => {
+  const [year, month] = date.split("-").map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+};
+
+export const ltcgExemptionLimit = (financialYear: string): number => {
+  const start = startYearOf(financialYear);
+  if (start < LTCG_TAXABLE_FROM_FY) return Infinity;
+  return start >= LTCG_EXEMPTION_RAISED_FY ? 125000 : 100000;
+};
+
+// Equity held for more than 12 months is long-term
+export const gainTypeOf = (buyDate: string, sellDate: string): CapitalGainType =>
+  parseISO(sellDate) > addYears(parseISO(buyDate), 1) ? "LTCG" : "STCG";
+
+export const taxRateOf = (gainType: CapitalGainType, sellDate: string): number => {
+  const rates = gainType === "STCG" ? STCG_RATE : LTCG_RATE;
+  return sellDate >= RATE_CHANGE_DATE ? rates.after : rates.before;
+};
+
+// Financial years with at least one sale, plus the current one, newest first
+export const listFinancialYears = (transactions: Transaction[]): string[] => {
+  const years = new Set<string>([financialYearOf(todayString())]);
+  transactions
+    .filter((t) => t.type === "SELL")
+    .forEach((t) => years.add(financialYearOf(t.date)));
+  return Array.from(years).sort().reverse();
+};
+
+// Section 55(2)(ac): cost is the higher of actual cost and the lower of
+// the 31 Jan 2018 FMV and the sale price
+const acquisitionCostPerShare = (
+  actualCostPerShare: number,
+  buyDate: string,
+  sellPrice: number,
+  fmv?: number
+) => {
+  if (buyDate >= GRANDFATHERING_CUTOFF || !fmv) return actualCostPerShare;
+  return Math.max(actualCostPerShare, Math.min(fmv, sellPrice));
+};
+
+// Apply an amount against buckets, highest rate first (most tax saved)
+const applyAgainst = (buckets: CapitalGainBucket[], amount: number): number => {
+  let remaining = amount;
+  [...buckets]
+    .sort((a, b) => b.taxRate - a.taxRate)
+    .forEach((bucket) => {
+      const used = Math.min(bucket.taxable, remaining);
+      bucket.taxable -= used;
+      remaining -= used;
+    });
+  return remaining;
+};
+
+const summarize = (
+  financialYear: string,
+  entries: CapitalGainEntry[]
+): CapitalGainsSummary => {
+  const sum = (type: CapitalGainType, sign: 1 | -1) =>
+    entries
+      .filter((e) => e.gainType === type && Math.sign(e.gain) === sign)
+      .reduce((total, e) => total + Math.abs(e.gain), 0);
+
+  const buckets: CapitalGainBucket[] = [];
+  entries
+    .filter((e) => e.gain > 0)
+    .forEach((e) => {
+      let bucket = buckets.find(
+        (b) => b.gainType === e.gainType && b.taxRate === e.taxRate
+      );
+      if (!bucket) {
+        bucket = { gainType: e.gainType, taxRate: e.taxRate, gains: 0, taxable: 0 };
+        buckets.push(bucket);
+      }
+      bucket.gains += e.gain;
+      bucket.taxable += e.gain;
+    });
+
+  const stBuckets = buckets.filter((b) => b.gainType === "STCG");
+  const ltBuckets = buckets.filter((b) => b.gainType === "LTCG");
+  const stcgLosses = sum("STCG", -1);
+  const ltcgLosses = sum("LTCG", -1);
+
+  // Short-term losses offset any gain; long-term losses only long-term gains
+  const stLeft = applyAgainst(ltBuckets, applyAgainst(stBuckets, stcgLosses));
+  const ltLeft = applyAgainst(ltBuckets, ltcgLosses);
+
+  const limit = ltcgExemptionLimit(financialYear);
+  const ltcgBeforeExemption = ltBuckets.reduce((total, b) => total + b.taxable, 0);
+  const exemptionUsed = Math.min(limit, ltcgBeforeExemption);
+  applyAgainst(ltBuckets, exemptionUsed);
+
+  const tax = buckets.reduce((total, b) => total + (b.taxable * b.taxRate) / 100, 0);
+  const cess = (tax * CESS_RATE) / 100;
+
+  return {
+    financialYear,
+    stcgGains: sum("STCG", 1),
+    stcgLosses,
+    ltcgGains: sum("LTCG", 1),
+    ltcgLosses,
+    ltcgExemptionLimit: limit,
+    ltcgExemptionUsed: exemptionUsed,
+    buckets: buckets.sort((a, b) => a.gainType.localeCompare(b.gainType) || a.taxRate - b.taxRate),
+    taxableStcg: stBuckets.reduce((total, b) => total + b.taxable, 0),
+    taxableLtcg: ltBuckets.reduce((total, b) => total + b.taxable, 0),
+    tax,
+    cess,
+    totalTax: tax + cess,
+    stLossCarryForward: stLeft,
+    ltLossCarryForward: ltLeft,
+  };
+};
+
+// Realized gains of one financial year, classified and netted per the
+// Income Tax Act. `fmv2018` maps stock ids to their 31 Jan 2018 FMV.
+export const buildCapitalGainsReport = (
+  transactions: Transaction[],
+  financialYear: string,
+  fmv2018: Record<string, number> = {}
+): CapitalGainsReport => {
+  const entries: CapitalGainEntry[] = matchLots(transactions)
+    .realized.filter((lot) => financialYearOf(lot.sellDate) === financialYear)
+    .map((lot) => {
+      const gainType = gainTypeOf(lot.buyDate, lot.sellDate);
+      const preCutoff = lot.buyDate < GRANDFATHERING_CUTOFF;
+      const fmv = fmv2018[lot.stockId];
+      const costPerShare = acquisitionCostPerShare(
+        lot.cost / lot.quantity,
+        lot.buyDate,
+        lot.sellPrice,
+        gainType === "LTCG" ? fmv : undefined
+      );
+      const acquisitionCost = costPerShare * lot.quantity;
+
+      return {
+        ...lot,
+        financialYear,
+        gainType,
+        holdingDays: differenceInCalendarDays(parseISO(lot.sellDate), parseISO(lot.buyDate)),
+        acquisitionCost,
+        grandfathered: gainType === "LTCG" && preCutoff && !!fmv,
+        fmvMissing: gainType === "LTCG" && preCutoff && !fmv,
+        gain: lot.proceeds - acquisitionCost,
+        taxRate: taxRateOf(gainType, lot.sellDate),
+      };
+    })
+    .sort((a, b) => a.sellDate.localeCompare(b.sellDate));
+
+  return { entries, summary: summarize(financialYear, entries) };
+};
+
+// Losing positions that could be sold before 31 March to offset this
+// year's gains. Sales are FIFO, so each suggestion sells the oldest lots
+// up to the point where the booked loss is largest.
+export const findTaxHarvestOpportunities = (
+  transactions: Transaction[],
+  holdings: Holding[],
+  fmv2018: Record<string, number> = {}
+): TaxHarvestSuggestion[] => {
+  const today = todayString();
+  const financialYear = financialYearOf(today);
+  const baseline = buildCapitalGainsReport(transactions, financialYear, fmv2018).summary;
+
+  return holdings
+    .map((holding) => {
+      let cumulative = 0;
+      let quantity = 0;
+      let best = { loss: 0, quantity: 0 };
+
+      holding.lots.forEach((lot) => {
+        const gainType = gainTypeOf(lot.date, today);
+        const costPerShare = acquisitionCostPerShare(
+          lot.costPerShare,
+          lot.date,
+          holding.currentPrice,
+          gainType === "LTCG" ? fmv2018[holding.stockId] : undefined
+        );
+        cumulative += lot.quantity * (holding.currentPrice - costPerShare);
+        quantity += lot.quantity;
+        if (cumulative < best.loss) best = { loss: cumulative, quantity };
+      });
+
+      if (best.quantity === 0) return null;
+
+      const hypotheticalSale: Transaction = {
+        id: `harvest_${holding.stockId}`,
+        stockId: holding.stockId,
+        symbol: holding.symbol,
+        type: "SELL",
+        date: today,
+        quantity: best.quantity,
+        price: holding.currentPrice,
+        brokerage: 0,
+        charges: 0,
+      };
+      const after = buildCapitalGainsReport(
+        [...transactions, hypotheticalSale],
+        financialYear,
+        fmv2018
+      ).summary;
+
+      return {
+        stockId: holding.stockId,
+        symbol: holding.symbol,
+        quantity: best.quantity,
+        currentPrice: holding.currentPrice,
+        loss: best.loss,
+        gainType: gainTypeOf(holding.lots[0].date, today),
+        taxSaved: baseline.totalTax - after.totalTax,
+      };
+    })
+    .filter((s): s is TaxHarvestSuggestion => s !== null)
+    .sort((a, b) => b.taxSaved - a.taxSaved || a.loss - b.loss);
+};
+
+const csvField = (value: string | number) => {
+  const text = typeof value === "number" ? value.toFixed(2) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Schedule-CG style export: one row per matched lot, then the summary
+export const capitalGainsToCsv = (report: CapitalGainsReport): string => {
+  const { entries, summary } = report;
+  const rows: (string | number)[][] = [
+    [
+      "Symbol", "Buy Date", "Sell Date", "Quantity", "Buy Price", "Sell Price",
+      "Acquisition Cost", "Net Sale Value", "Gain/Loss", "Type", "Holding Days",
+      "Tax Rate %", "Grandfathered",
+    ],
+    ...entries.map((e) => [
+      e.symbol, e.buyDate, e.sellDate, String(e.quantity), e.buyPrice, e.sellPrice,
+      e.acquisitionCost, e.proceeds, e.gain, e.gainType, String(e.holdingDays),
+      String(e.taxRate), e.grandfathered ? "Yes" : e.fmvMissing ? "FMV missing" : "No",
+    ]),
+    [],
+    ["Financial Year", summary.financialYear],
+    ["STCG gains", summary.stcgGains],
+    ["STCG losses", summary.stcgLosses],
+    ["LTCG gains", summary.ltcgGains],
+    ["LTCG losses", summary.ltcgLosses],
+    ["LTCG exemption used", summary.ltcgExemptionUsed],
+    ["Taxable STCG", summary.taxableStcg],
+    ["Taxable LTCG", summary.taxableLtcg],
+    ["Tax", summary.tax],
+    ["Cess", summary.cess],
+    ["Total tax", summary.totalTax],
+    ["Short-term loss carried forward", summary.stLossCarryForward],
+    ["Long-term loss carried forward", summary.ltLossCarryForward],
+  ];
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\n");
+};
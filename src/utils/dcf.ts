@@ -0,0 +1,197 @@
+import { DCFInputs, DCFProjection, DCFResult, DCFSeed, FinancialStatements } from "@/types";
+
+// Market-wide assumptions for Indian equities, used when seeding a stock
+export const DEFAULT_DCF_ASSUMPTIONS = {
+  riskFreeRate: 6.5, // 10-year government bond yield
+  equityRiskPremium: 6,
+  beta: 1,
+  terminalGrowth: 5, // long-run nominal GDP growth, conservatively
+  stage1Growth: 10,
+  stage1Years: 5,
+  stage2Years: 5,
+  costOfDebt: 9,
+  taxRate: 25, // base corporate rate
+};
+
+// Seeded stage-one growth is kept within this band, in percent
+const MIN_SEED_GROWTH = 0;
+const MAX_SEED_GROWTH = 20;
+
+const known = (value: number | undefined): value is number => value !== undefined && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+// Compound annual growth between the oldest and newest positive cash flows
+const fcfGrowth = (history: number[]): number | null => {
+  const positive = history.filter(v => v > 0);
+  if (history.length < 2 || positive.length !== history.length) return null;
+  const years = history.length - 1;
+  return (Math.pow(history[0] / history[years], 1 / years) - 1) * 100;
+};
+
+/**
+ * Starting inputs from the annual statements. The base cash flow is the
+ * latest free cash flow, or the average when the latest isn't positive; the
+ * other inputs fall back to DEFAULT_DCF_ASSUMPTIONS where data is missing.
+ * Returns null when no free cash flow is reported.
+ */
+export const seedDCFInputs = (
+  statements: FinancialStatements,
+  market: { beta?: number; sharesOutstanding?: number; marketCap?: number } = {}
+): DCFSeed | null => {
+  const { income, balance, cashFlow } = statements.annual;
+  const history = cashFlow
+    .filter(s => known(s.freeCashFlow))
+    .map(s => ({ period: s.period, year: s.year, freeCashFlow: s.freeCashFlow }));
+  if (history.length === 0) return null;
+
+  const flows = history.map(h => h.freeCashFlow);
+  const average = flows.reduce((sum, v) => sum + v, 0) / flows.length;
+  const baseFcf = flows[0] > 0 ? flows[0] : average;
+
+  const growth = fcfGrowth(flows);
+  const stage1Growth = round(
+    growth === null ? DEFAULT_DCF_ASSUMPTIONS.stage1Growth : clamp(growth, MIN_SEED_GROWTH, MAX_SEED_GROWTH)
+  );
+
+  const latestIncome = income[0];
+  const latestBalance = balance[0];
+  const debt = latestBalance && known(latestBalance.longTermDebt) ? latestBalance.longTermDebt : 0;
+  const cash = latestBalance && known(latestBalance.cash) ? latestBalance.cash : 0;
+
+  const effectiveTax = latestIncome && latestIncome.pretaxIncome > 0 ? (latestIncome.incomeTax / latestIncome.pretaxIncome) * 100 : NaN;
+  const taxRate = round(known(effectiveTax) && effectiveTax > 0 && effectiveTax < 50 ? effectiveTax : DEFAULT_DCF_ASSUMPTIONS.taxRate);
+
+  // Interest over debt, when it gives a plausible borrowing rate
+  const impliedCost = debt > 0 && latestIncome ? (latestIncome.interestExpense / debt) * 100 : NaN;
+  const costOfDebt = round(known(impliedCost) && impliedCost >= 4 && impliedCost <= 20 ? impliedCost : DEFAULT_DCF_ASSUMPTIONS.costOfDebt);
+
+  const sharesOutstanding = known(market.sharesOutstanding) ? market.sharesOutstanding : latestIncome?.shares ?? NaN;
+  const debtWeight = known(market.marketCap) && market.marketCap + debt > 0 ? round((debt / (market.marketCap + debt)) * 100) : 0;
+
+  return {
+    inputs: {
+      baseFcf,
+      stage1Growth,
+      stage1Years: DEFAULT_DCF_ASSUMPTIONS.stage1Years,
+      // Halfway between stage one and terminal growth
+      stage2Growth: round((stage1Growth + DEFAULT_DCF_ASSUMPTIONS.terminalGrowth) / 2),
+      stage2Years: DEFAULT_DCF_ASSUMPTIONS.stage2Years,
+      terminalGrowth: DEFAULT_DCF_ASSUMPTIONS.terminalGrowth,
+      riskFreeRate: DEFAULT_DCF_ASSUMPTIONS.riskFreeRate,
+      equityRiskPremium: DEFAULT_DCF_ASSUMPTIONS.equityRiskPremium,
+      beta: known(market.beta) && market.beta > 0 ? round(market.beta, 2) : DEFAULT_DCF_ASSUMPTIONS.beta,
+      costOfDebt,
+      taxRate,
+      debtWeight,
+      netDebt: debt - cash,
+      sharesOutstanding,
+    },
+    history,
+  };
+};
+
+// Cost of equity from CAPM, blended with after-tax cost of debt
+export const computeWacc = (inputs: DCFInputs): { costOfEquity: number; wacc: number } => {
+  const costOfEquity = inputs.riskFreeRate + inputs.beta * inputs.equityRiskPremium;
+  const debtShare = inputs.debtWeight / 100;
+  const wacc = (1 - debtShare) * costOfEquity + debtShare * inputs.costOfDebt * (1 - inputs.taxRate / 100);
+  return { costOfEquity, wacc };
+};
+
+/**
+ * Why the inputs can't be valued, or null when they can. Checked against
+ * the WACC the inputs imply unless one is given.
+ */
+export const dcfInputProblem = (inputs: DCFInputs, wacc: number = computeWacc(inputs).wacc): string | null => {
+  if (!known(inputs.baseFcf) || inputs.baseFcf <= 0) return "Base free cash flow must be positive";
+  if (!known(inputs.sharesOutstanding) || inputs.sharesOutstanding <= 0) return "Shares outstanding must be positive";
+  if (inputs.stage1Years < 0 || inputs.stage2Years < 0) return "Stage lengths can't be negative";
+  if (inputs.debtWeight < 0 || inputs.debtWeight > 100) return "Debt weight must be between 0% and 100%";
+  if (Object.values(inputs).some(v => !Number.isFinite(v))) return "Every input needs a number";
+  if (wacc <= inputs.terminalGrowth) return "WACC must be above terminal growth";
+  return null;
+};
+
+const value = (
+  inputs: DCFInputs,
+  wacc: number
+): Omit<DCFResult, "costOfEquity" | "wacc" | "marginOfSafety"> => {
+  const rate = wacc / 100;
+  const projections: DCFProjection[] = [];
+  let freeCashFlow = inputs.baseFcf;
+  const years = Math.round(inputs.stage1Years) + Math.round(inputs.stage2Years);
+  for (let year = 1; year <= years; year++) {
+    const growth = year <= Math.round(inputs.stage1Years) ? inputs.stage1Growth : inputs.stage2Growth;
+    freeCashFlow *= 1 + growth / 100;
+    projections.push({ year, freeCashFlow, presentValue: freeCashFlow / Math.pow(1 + rate, year) });
+  }
+
+  const presentValueOfCashFlows = projections.reduce((sum, p) => sum + p.presentValue, 0);
+  const terminalValue = (freeCashFlow * (1 + inputs.terminalGrowth / 100)) / (rate - inputs.terminalGrowth / 100);
+  const presentValueOfTerminal = terminalValue / Math.pow(1 + rate, years);
+  const enterpriseValue = presentValueOfCashFlows + presentValueOfTerminal;
+  const equityValue = enterpriseValue - (known(inputs.netDebt) ? inputs.netDebt : 0);
+  const fairValue = equityValue / inputs.sharesOutstanding;
+
+  return {
+    projections,
+    presentValueOfCashFlows,
+    terminalValue,
+    presentValueOfTerminal,
+    enterpriseValue,
+    equityValue,
+    fairValue,
+  };
+};
+
+/**
+ * Fair value per share and margin of safety against the current price.
+ * Returns null when dcfInputProblem reports a problem.
+ */
+export const runDCF = (inputs: DCFInputs, currentPrice: number): DCFResult | null => {
+  const { costOfEquity, wacc } = computeWacc(inputs);
+  if (dcfInputProblem(inputs, wacc)) return null;
+  const result = value(inputs, wacc);
+  return {
+    costOfEquity,
+    wacc,
+    ...result,
+    marginOfSafety: result.fairValue > 0 ? ((result.fairValue - currentPrice) / result.fairValue) * 100 : NaN,
+  };
+};
+
+export interface SensitivityGrid {
+  waccs: number[];
+  terminalGrowths: number[];
+  fairValues: number[][]; // [wacc][terminal growth], NaN where WACC ≤ growth
+}
+
+/**
+ * Fair value per share across WACC and terminal growth, centred on the
+ * inputs' own values. Steps are in percentage points.
+ */
+export const buildSensitivityGrid = (
+  inputs: DCFInputs,
+  waccStep: number = 1,
+  growthStep: number = 0.5,
+  stepsEachSide: number = 2
+): SensitivityGrid => {
+  const offsets = Array.from({ length: stepsEachSide * 2 + 1 }, (_, i) => i - stepsEachSide);
+  const baseWacc = computeWacc(inputs).wacc;
+  const waccs = offsets.map(o => round(baseWacc + o * waccStep, 2));
+  const terminalGrowths = offsets.map(o => round(inputs.terminalGrowth + o * growthStep, 2));
+
+  const fairValues = waccs.map(wacc =>
+    terminalGrowths.map(terminalGrowth => {
+      const scenario = { ...inputs, terminalGrowth };
+      return dcfInputProblem(scenario, wacc) ? NaN : value(scenario, wacc).fairValue;
+    })
+  );
+  return { waccs, terminalGrowths, fairValues };
+};
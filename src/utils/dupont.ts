@@ -0,0 +1,89 @@
+import {
+  BalanceSheet,
+  DuPontAnalysis,
+  DuPontAttribution,
+  DuPontYear,
+  FinancialStatements,
+  IncomeStatement,
+} from "@/types";
+
+// Share of the ROE change one side must explain to be called the driver
+const DOMINANT_SHARE = 2 / 3;
+
+const known = (value: number): boolean => Number.isFinite(value);
+
+const ratio = (numerator: number, denominator: number): number =>
+  known(numerator) && known(denominator) && denominator !== 0 ? numerator / denominator : NaN;
+
+const dupontYear = (income: IncomeStatement, balance: BalanceSheet): DuPontYear => {
+  const ebit = income.ebit ?? income.operatingIncome;
+  return {
+    period: income.period,
+    year: income.year,
+    roe: ratio(income.netIncome, balance.totalEquity),
+    netMargin: ratio(income.netIncome, income.revenue),
+    assetTurnover: ratio(income.revenue, balance.totalAssets),
+    equityMultiplier: ratio(balance.totalAssets, balance.totalEquity),
+    taxBurden: ratio(income.netIncome, income.pretaxIncome),
+    interestBurden: ratio(income.pretaxIncome, ebit),
+    ebitMargin: ratio(ebit, income.revenue),
+    roce: ratio(ebit, balance.totalAssets - balance.currentLiabilities),
+  };
+};
+
+const threeStepKnown = (y: DuPontYear): boolean =>
+  known(y.netMargin) && known(y.assetTurnover) && known(y.equityMultiplier);
+
+/**
+ * Split the ROE change between two years across margin, turnover and
+ * leverage by changing one factor at a time, in that order. The three
+ * effects sum exactly to the change.
+ */
+export const attributeRoeChange = (from: DuPontYear, to: DuPontYear): DuPontAttribution => {
+  const startRoe = from.netMargin * from.assetTurnover * from.equityMultiplier;
+  const margin = (to.netMargin - from.netMargin) * from.assetTurnover * from.equityMultiplier;
+  const turnover = to.netMargin * (to.assetTurnover - from.assetTurnover) * from.equityMultiplier;
+  const leverage = to.netMargin * to.assetTurnover * (to.equityMultiplier - from.equityMultiplier);
+
+  const operations = Math.abs(margin + turnover);
+  const total = operations + Math.abs(leverage);
+  const driver =
+    total === 0 || operations / total >= DOMINANT_SHARE
+      ? "operations"
+      : Math.abs(leverage) / total >= DOMINANT_SHARE
+      ? "leverage"
+      : "mixed";
+
+  return {
+    fromPeriod: from.period,
+    toPeriod: to.period,
+    startRoe,
+    margin,
+    turnover,
+    leverage,
+    endRoe: startRoe + margin + turnover + leverage,
+    driver,
+  };
+};
+
+/**
+ * Three- and five-step DuPont factors and ROCE for every annual period with
+ * both an income statement and a balance sheet, newest first. Year-end
+ * balances are used since earlier openings aren't always reported.
+ * Returns null when no period has both.
+ */
+export const computeDuPont = (statements: FinancialStatements): DuPontAnalysis | null => {
+  const { income, balance } = statements.annual;
+  const years = income.flatMap(statement => {
+    const sheet = balance.find(s => s.period === statement.period);
+    return sheet ? [dupontYear(statement, sheet)] : [];
+  });
+  if (years.length === 0) return null;
+
+  // Oldest and newest years with all three factors
+  const complete = years.filter(threeStepKnown);
+  const attribution =
+    complete.length >= 2 ? attributeRoeChange(complete[complete.length - 1], complete[0]) : null;
+
+  return { symbol: statements.symbol, years, attribution };
+};
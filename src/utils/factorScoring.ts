@@ -0,0 +1,178 @@
+import { FactorScore, FactorWeights, ScoringFactor, Stock, TimeFrame } from "@/types";
+
+export const SCORING_FACTORS: ScoringFactor[] = ["value", "quality", "momentum", "lowVolatility", "growth"];
+
+export const FACTOR_LABELS: Record<ScoringFactor, string> = {
+  value: "Value",
+  quality: "Quality",
+  momentum: "Momentum",
+  lowVolatility: "Low Volatility",
+  growth: "Growth",
+};
+
+// Short horizons lean on momentum; long horizons on value, quality and growth
+export const DEFAULT_FACTOR_WEIGHTS: Record<TimeFrame, FactorWeights> = {
+  [TimeFrame.SEVEN_DAYS]: { value: 0.1, quality: 0.1, momentum: 0.5, lowVolatility: 0.2, growth: 0.1 },
+  [TimeFrame.ONE_MONTH]: { value: 0.15, quality: 0.15, momentum: 0.4, lowVolatility: 0.15, growth: 0.15 },
+  [TimeFrame.THREE_MONTHS]: { value: 0.2, quality: 0.25, momentum: 0.25, lowVolatility: 0.1, growth: 0.2 },
+  [TimeFrame.SIX_MONTHS]: { value: 0.25, quality: 0.25, momentum: 0.15, lowVolatility: 0.1, growth: 0.25 },
+  [TimeFrame.ONE_YEAR]: { value: 0.3, quality: 0.3, momentum: 0.05, lowVolatility: 0.1, growth: 0.25 },
+};
+
+interface FactorMetric {
+  label: string;
+  value: (stock: Stock) => number | null;
+  lowerIsBetter?: boolean;
+}
+
+const positive = (value: number | null): value is number => value !== null && value > 0;
+
+// Share of earnings kept in the business, from dividend yield x P/E
+const retentionRatio = (stock: Stock): number | null => {
+  if (!positive(stock.pe)) return null;
+  const payout = ((stock.dividendYield ?? 0) * stock.pe) / 100;
+  return 1 - Math.min(Math.max(payout, 0), 1);
+};
+
+// The metrics averaged into each factor. Stock has no history, so growth is
+// the sustainable growth rate (ROE x retention) and momentum is today's move.
+export const FACTOR_METRICS: Record<ScoringFactor, FactorMetric[]> = {
+  value: [
+    { label: "Earnings yield", value: s => (positive(s.pe) ? 100 / s.pe : null) },
+    { label: "Book yield", value: s => (positive(s.pb) ? 1 / s.pb : null) },
+    { label: "Dividend yield", value: s => s.dividendYield },
+  ],
+  quality: [
+    { label: "ROE", value: s => s.roe },
+    { label: "ROCE", value: s => s.roce },
+    { label: "Operating margin", value: s => s.operatingMargin },
+    { label: "Debt/Equity", value: s => s.debtToEquity, lowerIsBetter: true },
+    // Statement scores, for stocks whose statements have been loaded
+    { label: "Piotroski F", value: s => s.piotroskiF ?? null },
+    { label: "Altman Z", value: s => s.altmanZ ?? null },
+    { label: "Beneish M", value: s => s.beneishM ?? null, lowerIsBetter: true },
+  ],
+  momentum: [
+    { label: "Change %", value: s => s.changePercent },
+    {
+      label: "Volume-confirmed move",
+      value: s => (s.avgVolume > 0 ? s.changePercent * Math.min(s.volume / s.avgVolume, 3) : null),
+    },
+  ],
+  lowVolatility: [{ label: "Beta", value: s => s.beta, lowerIsBetter: true }],
+  growth: [
+    {
+      label: "Sustainable growth",
+      value: s => {
+        const retention = retentionRatio(s);
+        return s.roe !== null && retention !== null ? s.roe * retention : null;
+      },
+    },
+  ],
+};
+
+// Sectors with fewer stocks than this are compared against the whole market
+const MIN_PEER_GROUP = 3;
+// Outliers are clipped so one extreme ratio can't dominate a factor
+const Z_CLIP = 3;
+
+const meanAndDeviation = (values: number[]): { mean: number; sd: number } => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, sd: Math.sqrt(variance) };
+};
+
+const zScore = (value: number, values: number[]): number => {
+  if (values.length < 2) return 0;
+  const { mean, sd } = meanAndDeviation(values);
+  if (sd === 0) return 0;
+  return Math.min(Math.max((value - mean) / sd, -Z_CLIP), Z_CLIP);
+};
+
+// Standard normal CDF (Abramowitz-Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+/**
+ * Score every stock 0-100 on the weighted factors, keyed by stock id. Each
+ * metric is z-scored against the stock's sector peers (sector-neutral), the
+ * metrics are averaged into factors, and the weighted composite is ranked
+ * across the universe so scores spread over the whole range.
+ */
+export const scoreStocks = (stocks: Stock[], weights: FactorWeights): Map<string, FactorScore> => {
+  const bySector = new Map<string, Stock[]>();
+  stocks.forEach(stock => bySector.set(stock.sector, [...(bySector.get(stock.sector) ?? []), stock]));
+
+  const peersOf = (stock: Stock): { group: string; peers: Stock[] } => {
+    const sectorPeers = bySector.get(stock.sector) ?? [];
+    return sectorPeers.length >= MIN_PEER_GROUP
+      ? { group: stock.sector, peers: sectorPeers }
+      : { group: "Market", peers: stocks };
+  };
+
+  const factorZ = (stock: Stock, peers: Stock[], factor: ScoringFactor): number | undefined =>
+    average(
+      FACTOR_METRICS[factor].flatMap(metric => {
+        const value = metric.value(stock);
+        if (value === null || !Number.isFinite(value)) return [];
+        const peerValues = peers
+          .map(metric.value)
+          .filter((v): v is number => v !== null && Number.isFinite(v));
+        const z = zScore(value, peerValues);
+        return [metric.lowerIsBetter ? -z : z];
+      })
+    );
+
+  const partial = stocks.map(stock => {
+    const { group, peers } = peersOf(stock);
+    const factors: FactorScore["factors"] = {};
+    let weighted = 0;
+    let totalWeight = 0;
+    SCORING_FACTORS.forEach(factor => {
+      const z = factorZ(stock, peers, factor);
+      if (z === undefined) return;
+      factors[factor] = Math.round(z * 100) / 100;
+      weighted += weights[factor] * z;
+      totalWeight += weights[factor];
+    });
+    return { stock, group, factors, composite: totalWeight > 0 ? weighted / totalWeight : 0 };
+  });
+
+  const composites = partial.map(p => p.composite);
+  return new Map(
+    partial.map(({ stock, group, factors, composite }) => [
+      stock.id,
+      {
+        score: Math.round(normalCdf(zScore(composite, composites)) * 100),
+        factors,
+        peerGroup: group,
+      },
+    ])
+  );
+};
+
+// Factors sorted strongest first, for explaining a score
+export const rankFactors = (score: FactorScore): Array<{ factor: ScoringFactor; z: number }> =>
+  SCORING_FACTORS.filter(factor => score.factors[factor] !== undefined)
+    .map(factor => ({ factor, z: score.factors[factor]! }))
+    .sort((a, b) => b.z - a.z);
+
+// How far the AI's score may stray from the quant score before it is pulled back
+export const AI_SCORE_TOLERANCE = 25;
+
+export const reconcileAiScore = (
+  aiScore: number,
+  factorScore: FactorScore
+): { score: number; adjusted: boolean } => {
+  const low = Math.max(factorScore.score - AI_SCORE_TOLERANCE, 0);
+  const high = Math.min(factorScore.score + AI_SCORE_TOLERANCE, 100);
+  const score = Math.min(Math.max(aiScore, low), high);
+  return { score, adjusted: score !== aiScore };
+};
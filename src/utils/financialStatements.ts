@@ -0,0 +1,236 @@
+import {
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialStatements,
+  FinancialStatementSet,
+  IncomeStatement,
+  MarketStatements,
+  StatementKind,
+  StatementPeriodType,
+  StatementSet,
+} from "@/types";
+
+interface LineItem<T> {
+  key: keyof T & string;
+  label: string;
+  total?: boolean; // subtotal rows, shown in bold
+}
+
+export const INCOME_LINE_ITEMS: LineItem<IncomeStatement>[] = [
+  { key: "revenue", label: "Revenue", total: true },
+  { key: "costOfRevenue", label: "Cost of Revenue" },
+  { key: "grossProfit", label: "Gross Profit", total: true },
+  { key: "operatingExpenses", label: "Operating Expenses" },
+  { key: "operatingIncome", label: "Operating Income", total: true },
+  { key: "interestExpense", label: "Interest Expense" },
+  { key: "pretaxIncome", label: "Pre-tax Income" },
+  { key: "incomeTax", label: "Income Tax" },
+  { key: "netIncome", label: "Net Income", total: true },
+  { key: "eps", label: "EPS (₹)" },
+];
+
+export const BALANCE_LINE_ITEMS: LineItem<BalanceSheet>[] = [
+  { key: "cash", label: "Cash" },
+  { key: "receivables", label: "Receivables" },
+  { key: "inventory", label: "Inventory" },
+  { key: "currentAssets", label: "Current Assets", total: true },
+  { key: "totalAssets", label: "Total Assets", total: true },
+  { key: "currentLiabilities", label: "Current Liabilities" },
+  { key: "longTermDebt", label: "Long-term Debt" },
+  { key: "totalLiabilities", label: "Total Liabilities", total: true },
+  { key: "retainedEarnings", label: "Retained Earnings" },
+  { key: "totalEquity", label: "Shareholders' Equity", total: true },
+];
+
+export const CASH_FLOW_LINE_ITEMS: LineItem<CashFlowStatement>[] = [
+  { key: "operatingCashFlow", label: "Operating Cash Flow", total: true },
+  { key: "capitalExpenditure", label: "Capital Expenditure" },
+  { key: "freeCashFlow", label: "Free Cash Flow", total: true },
+  { key: "investingCashFlow", label: "Investing Cash Flow" },
+  { key: "financingCashFlow", label: "Financing Cash Flow" },
+  { key: "netCashFlow", label: "Net Change in Cash", total: true },
+];
+
+// Line items that are per-share figures rather than amounts
+const PER_SHARE_ITEMS = new Set<string>(["eps"]);
+
+const value = (v: number | undefined): number => (v !== undefined && Number.isFinite(v) ? v : NaN);
+
+const firstKnown = (...values: number[]): number => values.find(v => Number.isFinite(v)) ?? NaN;
+
+const normalizeIncome = (item: StatementSet["income"][number], sharesOutstanding?: number): IncomeStatement => {
+  const revenue = value(item.revenue);
+  const costOfRevenue = firstKnown(value(item.costOfRevenue), revenue - value(item.grossProfit));
+  const grossProfit = firstKnown(value(item.grossProfit), revenue - costOfRevenue);
+  const operatingIncome = firstKnown(value(item.operatingIncome), value(item.ebit));
+  const netIncome = value(item.netIncome);
+  // Historical share counts aren't reported, so older EPS uses today's count
+  const shares = firstKnown(value(item.shares), value(sharesOutstanding));
+
+  return {
+    period: item.period,
+    year: item.year,
+    revenue,
+    costOfRevenue,
+    grossProfit,
+    operatingExpenses: firstKnown(value(item.operatingExpenses), grossProfit - operatingIncome),
+    operatingIncome,
+    ebit: firstKnown(value(item.ebit), operatingIncome),
+    // Providers differ on the sign; expenses are kept positive
+    interestExpense: Math.abs(value(item.interestExpense)),
+    pretaxIncome: value(item.pretaxIncome),
+    incomeTax: value(item.incomeTax),
+    netIncome,
+    eps: firstKnown(value(item.eps), shares > 0 ? netIncome / shares : NaN),
+    shares,
+  };
+};
+
+const normalizeBalance = (item: StatementSet["balance"][number]): BalanceSheet => {
+  const totalAssets = value(item.totalAssets);
+  const totalEquity = value(item.totalEquity);
+  return {
+    period: item.period,
+    year: item.year,
+    totalAssets,
+    currentAssets: value(item.currentAssets),
+    cash: value(item.cash),
+    inventory: value(item.inventory),
+    receivables: value(item.receivables),
+    totalLiabilities: firstKnown(value(item.totalLiabilities), totalAssets - totalEquity),
+    currentLiabilities: value(item.currentLiabilities),
+    longTermDebt: value(item.longTermDebt),
+    totalEquity,
+    retainedEarnings: value(item.retainedEarnings),
+  };
+};
+
+const normalizeCashFlow = (item: StatementSet["cashFlow"][number]): CashFlowStatement => {
+  const operatingCashFlow = value(item.operatingCashFlow);
+  const investingCashFlow = value(item.investingCashFlow);
+  const financingCashFlow = value(item.financingCashFlow);
+  // Capital expenditure is negative, as Yahoo reports it
+  const capitalExpenditure = value(item.capitalExpenditure);
+  return {
+    period: item.period,
+    year: item.year,
+    operatingCashFlow,
+    investingCashFlow,
+    financingCashFlow,
+    netCashFlow: firstKnown(value(item.netCashFlow), operatingCashFlow + investingCashFlow + financingCashFlow),
+    freeCashFlow: firstKnown(value(item.freeCashFlow), operatingCashFlow + capitalExpenditure),
+    capitalExpenditure,
+  };
+};
+
+const normalizeSet = (set: StatementSet, sharesOutstanding?: number): FinancialStatementSet => ({
+  income: set.income.map(item => normalizeIncome(item, sharesOutstanding)),
+  balance: set.balance.map(normalizeBalance),
+  cashFlow: set.cashFlow.map(normalizeCashFlow),
+});
+
+/**
+ * Fill the full statement types from what the provider reported, deriving
+ * line items that follow from others (gross profit, free cash flow, EPS, ...)
+ */
+export const normalizeStatements = (
+  symbol: string,
+  statements: MarketStatements,
+  sharesOutstanding?: number
+): FinancialStatements => ({
+  symbol: symbol.toUpperCase(),
+  annual: normalizeSet(statements.annual, sharesOutstanding),
+  quarterly: normalizeSet(statements.quarterly, sharesOutstanding),
+  dataSource: statements.dataSource,
+});
+
+export const hasStatements = (set: FinancialStatementSet): boolean =>
+  set.income.length > 0 || set.balance.length > 0 || set.cashFlow.length > 0;
+
+// Percent change against the magnitude of the previous value, so a loss
+// shrinking reads as an improvement
+export const percentChange = (current: number, previous: number): number =>
+  Number.isFinite(current) && Number.isFinite(previous) && previous !== 0
+    ? ((current - previous) / Math.abs(previous)) * 100
+    : NaN;
+
+// Indian fiscal years are named after the year they end in
+export const periodLabel = (statement: { period: string; year: number }, periodType: StatementPeriodType): string => {
+  if (periodType === "annual") return statement.year ? `FY${statement.year}` : statement.period;
+  const date = new Date(statement.period);
+  return isNaN(date.getTime())
+    ? statement.period
+    : date.toLocaleDateString("en-IN", { month: "short", year: "numeric" });
+};
+
+export interface StatementRow {
+  key: string;
+  label: string;
+  total: boolean;
+  perShare: boolean;
+  values: number[]; // one per period, newest first
+  changes: number[]; // % change from the period before
+  commonSize: number[]; // % of revenue, or of total assets for the balance sheet
+}
+
+export interface StatementTable {
+  periods: string[];
+  rows: StatementRow[];
+  commonSizeBase: string;
+}
+
+const buildRows = <T extends { period: string }>(
+  statements: T[],
+  items: LineItem<T>[],
+  baseFor: (statement: T) => number
+): StatementRow[] =>
+  items.map(item => {
+    const values = statements.map(statement => value(statement[item.key] as unknown as number));
+    const perShare = PER_SHARE_ITEMS.has(item.key);
+    return {
+      key: item.key,
+      label: item.label,
+      total: !!item.total,
+      perShare,
+      values,
+      changes: values.map((v, i) => (i + 1 < values.length ? percentChange(v, values[i + 1]) : NaN)),
+      commonSize: statements.map((statement, i) => {
+        const base = baseFor(statement);
+        return !perShare && base > 0 ? (values[i] / base) * 100 : NaN;
+      }),
+    };
+  });
+
+/**
+ * One statement as a multi-period table with period-over-period change and
+ * common-size percentages per line item
+ */
+export const buildStatementTable = (
+  statements: FinancialStatements,
+  kind: StatementKind,
+  periodType: StatementPeriodType
+): StatementTable => {
+  const set = statements[periodType];
+  const revenueByPeriod = new Map(set.income.map(statement => [statement.period, statement.revenue]));
+
+  switch (kind) {
+    case "income":
+      return {
+        periods: set.income.map(statement => periodLabel(statement, periodType)),
+        rows: buildRows(set.income, INCOME_LINE_ITEMS, statement => statement.revenue),
+        commonSizeBase: "% of revenue",
+      };
+    case "balance":
+      return {
+        periods: set.balance.map(statement => periodLabel(statement, periodType)),
+        rows: buildRows(set.balance, BALANCE_LINE_ITEMS, statement => statement.totalAssets),
+        commonSizeBase: "% of total assets",
+      };
+    case "cashFlow":
+      return {
+        periods: set.cashFlow.map(statement => periodLabel(statement, periodType)),
+        rows: buildRows(set.cashFlow, CASH_FLOW_LINE_ITEMS, statement => revenueByPeriod.get(statement.period) ?? NaN),
+        commonSizeBase: "% of revenue",
+      };
+  }
+};
@@ -0,0 +1,233 @@
+import { format } from "date-fns";
+import {
+  Holding,
+  HoldingLot,
+  PortfolioSummary,
+  RealizedLot,
+  SectorAllocation,
+  Stock,
+  Transaction,
+} from "@/types";
+
+export const todayString = (): string => format(new Date(), "yyyy-MM-dd");
+
+export const createTransactionId = (): string =>
+  `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Oldest first; same-day trades keep the order they were entered in, and
+// buys go before sells so an intraday round trip matches its own buy
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => {
+      if (a.transaction.date !== b.transaction.date) {
+        return a.transaction.date < b.transaction.date ? -1 : 1;
+      }
+      if (a.transaction.type !== b.transaction.type) {
+        return a.transaction.type === "BUY" ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ transaction }) => transaction);
+
+export interface LotMatchResult {
+  openLots: Record<string, HoldingLot[]>;
+  realized: RealizedLot[];
+}
+
+// Replay transactions and match every sell against the oldest open buy
+// lots (FIFO). Brokerage and charges are spread per share over each trade.
+export const matchLots = (transactions: Transaction[]): LotMatchResult => {
+  const openLots: Record<string, HoldingLot[]> = {};
+  const realized: RealizedLot[] = [];
+
+  sortTransactions(transactions).forEach((txn) => {
+    const lots = openLots[txn.stockId] || (openLots[txn.stockId] = []);
+    const costs = txn.brokerage + txn.charges;
+
+    if (txn.type === "BUY") {
+      lots.push({
+        transactionId: txn.id,
+        date: txn.date,
+        quantity: txn.quantity,
+        price: txn.price,
+        costPerShare: (txn.quantity * txn.price + costs) / txn.quantity,
+      });
+      return;
+    }
+
+    const proceedsPerShare = (txn.quantity * txn.price - costs) / txn.quantity;
+    let remaining = txn.quantity;
+
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0];
+      const quantity = Math.min(lot.quantity, remaining);
+      const cost = quantity * lot.costPerShare;
+      const proceeds = quantity * proceedsPerShare;
+
+      realized.push({
+        stockId: txn.stockId,
+        symbol: txn.symbol,
+        buyTransactionId: lot.transactionId,
+        sellTransactionId: txn.id,
+        buyDate: lot.date,
+        sellDate: txn.date,
+        quantity,
+        buyPrice: lot.price,
+        sellPrice: txn.price,
+        cost,
+        proceeds,
+        pnl: proceeds - cost,
+      });
+
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity === 0) lots.shift();
+    }
+
+    if (remaining > 0) {
+      console.warn(
+        `⚠️ ${txn.symbol}: sell on ${txn.date} exceeds holdings by ${remaining} shares`
+      );
+    }
+  });
+
+  return { openLots, realized };
+};
+
+// Check a new or edited transaction against the rest of the history.
+// Returns an error message, or null when the transaction is valid.
+export const validateTransaction = (
+  transaction: Transaction,
+  existing: Transaction[]
+): string | null => {
+  if (!transaction.stockId) return "Select a stock";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(transaction.date)) return "Enter a valid date";
+  if (transaction.date > todayString()) return "Trade date cannot be in the future";
+  if (!Number.isInteger(transaction.quantity) || transaction.quantity <= 0) {
+    return "Quantity must be a whole number greater than zero";
+  }
+  if (!(transaction.price > 0)) return "Price must be greater than zero";
+  if (transaction.brokerage < 0 || transaction.charges < 0) {
+    return "Brokerage and charges cannot be negative";
+  }
+
+  // Holdings must never go negative at any point in the history
+  const history = sortTransactions([
+    ...existing.filter(
+      (t) => t.id !== transaction.id && t.stockId === transaction.stockId
+    ),
+    transaction,
+  ]);
+  let held = 0;
+  for (const txn of history) {
+    held += txn.type === "BUY" ? txn.quantity : -txn.quantity;
+    if (held < 0) {
+      return `Sell on ${txn.date} exceeds the ${held + txn.quantity} shares of ${txn.symbol} held then`;
+    }
+  }
+
+  return null;
+};
+
+// Open positions valued at the latest quotes. Stocks missing from the
+// quote list are valued at their last traded price.
+export const computeHoldings = (
+  transactions: Transaction[],
+  stocks: Stock[]
+): Holding[] => {
+  const { openLots, realized } = matchLots(transactions);
+  const today = todayString();
+
+  return Object.entries(openLots)
+    .filter(([, lots]) => lots.length > 0)
+    .map(([stockId, lots]) => {
+      const stock = stocks.find((s) => s.id === stockId);
+      const trades = transactions.filter((t) => t.stockId === stockId);
+      const lastTrade = sortTransactions(trades)[trades.length - 1];
+
+      const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const investedValue = lots.reduce(
+        (sum, lot) => sum + lot.quantity * lot.costPerShare,
+        0
+      );
+      const currentPrice = stock?.price ?? lastTrade.price;
+      const marketValue = quantity * currentPrice;
+
+      // Shares bought today move from their purchase price, not yesterday's close
+      const dayChange = lots.reduce(
+        (sum, lot) =>
+          sum +
+          lot.quantity *
+            (lot.date === today
+              ? currentPrice - lot.price
+              : stock?.change ?? 0),
+        0
+      );
+      const openingValue = marketValue - dayChange;
+
+      return {
+        stockId,
+        symbol: stock?.symbol ?? lastTrade.symbol,
+        name: stock?.name ?? lastTrade.symbol,
+        sector: stock?.sector ?? "Unknown",
+        quantity,
+        averageCost: investedValue / quantity,
+        investedValue,
+        currentPrice,
+        marketValue,
+        unrealizedPnL: marketValue - investedValue,
+        unrealizedPnLPercent:
+          investedValue > 0 ? ((marketValue - investedValue) / investedValue) * 100 : 0,
+        realizedPnL: realized
+          .filter((r) => r.stockId === stockId)
+          .reduce((sum, r) => sum + r.pnl, 0),
+        dayChange,
+        dayChangePercent: openingValue > 0 ? (dayChange / openingValue) * 100 : 0,
+        lots: lots.map((lot) => ({ ...lot })),
+      };
+    })
+    .sort((a, b) => b.marketValue - a.marketValue);
+};
+
+export const summarizePortfolio = (
+  holdings: Holding[],
+  realized: RealizedLot[]
+): PortfolioSummary => {
+  const investedValue = holdings.reduce((sum, h) => sum + h.investedValue, 0);
+  const marketValue = holdings.reduce((sum, h) => sum + h.marketValue, 0);
+  const dayChange = holdings.reduce((sum, h) => sum + h.dayChange, 0);
+  const openingValue = marketValue - dayChange;
+
+  const bySector = new Map<string, SectorAllocation>();
+  holdings.forEach((h) => {
+    const entry = bySector.get(h.sector) || {
+      sector: h.sector,
+      value: 0,
+      weight: 0,
+      holdings: 0,
+    };
+    entry.value += h.marketValue;
+    entry.holdings += 1;
+    bySector.set(h.sector, entry);
+  });
+
+  const allocation = Array.from(bySector.values())
+    .map((entry) => ({
+      ...entry,
+      weight: marketValue > 0 ? (entry.value / marketValue) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    investedValue,
+    marketValue,
+    unrealizedPnL: marketValue - investedValue,
+    unrealizedPnLPercent:
+      investedValue > 0 ? ((marketValue - investedValue) / investedValue) * 100 : 0,
+    realizedPnL: realized.reduce((sum, r) => sum + r.pnl, 0),
+    dayChange,
+    dayChangePercent: openingValue > 0 ? (dayChange / openingValue) * 100 : 0,
+    allocation,
+  };
+};
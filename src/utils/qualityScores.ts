@@ -0,0 +1,258 @@
+import {
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialStatements,
+  HealthStatus,
+  IncomeStatement,
+  QualityScores,
+  ScoreComponent,
+  StatementScore,
+  Stock,
+} from "@/types";
+
+// Altman zones for the original public-company model
+export const ALTMAN_SAFE = 2.99;
+export const ALTMAN_DISTRESS = 1.81;
+// Beneish 8-variable cutoff; higher suggests earnings manipulation
+export const BENEISH_THRESHOLD = -1.78;
+
+const known = (value: number): boolean => Number.isFinite(value);
+
+const ratio = (numerator: number, denominator: number): number =>
+  known(numerator) && known(denominator) && denominator !== 0 ? numerator / denominator : NaN;
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const fmt = (value: number, digits: number = 2): string => (known(value) ? value.toFixed(digits) : "n/a");
+
+interface Year {
+  income?: IncomeStatement;
+  balance?: BalanceSheet;
+  cashFlow?: CashFlowStatement;
+}
+
+// The latest and prior annual statements, matched by fiscal period
+const lastTwoYears = ({ annual }: FinancialStatements): [Year, Year] | null => {
+  const periods = annual.balance.map(s => s.period).slice(0, 2);
+  if (periods.length < 2) return null;
+  const find = <T extends { period: string }>(list: T[], period: string) => list.find(s => s.period === period);
+  const [current, prior] = periods.map(period => ({
+    income: find(annual.income, period),
+    balance: find(annual.balance, period),
+    cashFlow: find(annual.cashFlow, period),
+  }));
+  return current.income && prior.income ? [current, prior] : null;
+};
+
+const signal = (label: string, passed: boolean | null, detail: string): ScoreComponent => ({
+  label,
+  value: passed === null ? null : passed ? 1 : 0,
+  detail,
+});
+
+const piotroski = ([current, prior]: [Year, Year]): StatementScore | null => {
+  const ni = current.income?.netIncome ?? NaN;
+  const cfo = current.cashFlow?.operatingCashFlow ?? NaN;
+  const roa = (y: Year) => ratio(y.income?.netIncome ?? NaN, y.balance?.totalAssets ?? NaN);
+  const leverage = (y: Year) => ratio(y.balance?.longTermDebt ?? NaN, y.balance?.totalAssets ?? NaN);
+  const currentRatio = (y: Year) => ratio(y.balance?.currentAssets ?? NaN, y.balance?.currentLiabilities ?? NaN);
+  const grossMargin = (y: Year) => ratio(y.income?.grossProfit ?? NaN, y.income?.revenue ?? NaN);
+  const turnover = (y: Year) => ratio(y.income?.revenue ?? NaN, y.balance?.totalAssets ?? NaN);
+  const sharesNow = current.income?.shares ?? NaN;
+  const sharesBefore = prior.income?.shares ?? NaN;
+
+  const compare = (label: string, now: number, before: number, better: "higher" | "lower", asPct = false) => {
+    const show = (v: number) => (asPct ? `${fmt(v * 100, 1)}%` : fmt(v));
+    if (!known(now) || !known(before)) return signal(label, null, "Not reported for both years");
+    const passed = better === "higher" ? now > before : now < before || (now === 0 && before === 0);
+    return signal(label, passed, `${show(now)} vs ${show(before)} a year earlier`);
+  };
+
+  const components: ScoreComponent[] = [
+    known(roa(current))
+      ? signal("Positive ROA", roa(current) > 0, `ROA ${fmt(roa(current) * 100, 1)}%`)
+      : signal("Positive ROA", null, "Net income or assets not reported"),
+    known(cfo)
+      ? signal("Positive operating cash flow", cfo > 0, `₹${fmt(cfo / 1e7, 0)} Cr`)
+      : signal("Positive operating cash flow", null, "Operating cash flow not reported"),
+    compare("Rising ROA", roa(current), roa(prior), "higher", true),
+    known(ni) && known(cfo)
+      ? signal("Cash earnings exceed accruals", cfo > ni, `Operating cash flow ${cfo > ni ? "above" : "below"} net income`)
+      : signal("Cash earnings exceed accruals", null, "Net income or operating cash flow not reported"),
+    compare("Falling leverage", leverage(current), leverage(prior), "lower", true),
+    compare("Rising current ratio", currentRatio(current), currentRatio(prior), "higher"),
+    // Providers only report today's share count, so equal counts mean unknown
+    !known(sharesNow) || !known(sharesBefore) || sharesNow === sharesBefore
+      ? signal("No new shares issued", null, "Share count history not reported")
+      : signal("No new shares issued", sharesNow < sharesBefore, `${fmt(sharesNow / 1e7, 1)} Cr vs ${fmt(sharesBefore / 1e7, 1)} Cr shares`),
+    compare("Rising gross margin", grossMargin(current), grossMargin(prior), "higher", true),
+    compare("Rising asset turnover", turnover(current), turnover(prior), "higher"),
+  ];
+
+  const evaluated = components.filter(c => c.value !== null);
+  if (evaluated.length < 5) return null;
+  const value = evaluated.reduce((sum, c) => sum + (c.value ?? 0), 0);
+  // Judged on the share of evaluated signals so missing inputs don't count against it
+  const share = value / evaluated.length;
+  const health =
+    share >= 0.85
+      ? HealthStatus.BEST
+      : share >= 0.65
+      ? HealthStatus.GOOD
+      : share >= 0.45
+      ? HealthStatus.NORMAL
+      : share >= 0.25
+      ? HealthStatus.BAD
+      : HealthStatus.WORSE;
+  return {
+    value,
+    health,
+    verdict: `${value} of ${evaluated.length} signals${share >= 0.75 ? ", strong" : share <= 0.3 ? ", weak" : ""}`,
+    components,
+  };
+};
+
+const altman = ([current]: [Year, Year], marketCap?: number): StatementScore | null => {
+  const balance = current.balance;
+  const income = current.income;
+  if (!balance || !income || !(balance.totalAssets > 0)) return null;
+  const assets = balance.totalAssets;
+
+  const inputs: Array<{ label: string; weight: number; value: number; detail: string }> = [
+    {
+      label: "Working capital / assets",
+      weight: 1.2,
+      value: ratio(balance.currentAssets - balance.currentLiabilities, assets),
+      detail: "Liquidity",
+    },
+    { label: "Retained earnings / assets", weight: 1.4, value: ratio(balance.retainedEarnings, assets), detail: "Cumulative profitability" },
+    { label: "EBIT / assets", weight: 3.3, value: ratio(income.ebit ?? income.operatingIncome, assets), detail: "Operating return" },
+    {
+      label: "Market cap / liabilities",
+      weight: 0.6,
+      value: ratio(marketCap ?? NaN, balance.totalLiabilities),
+      detail: "Solvency cushion",
+    },
+    { label: "Sales / assets", weight: 1.0, value: ratio(income.revenue, assets), detail: "Asset turnover" },
+  ];
+  if (inputs.some(input => !known(input.value))) return null;
+
+  const value = round(inputs.reduce((sum, input) => sum + input.weight * input.value, 0));
+  const health =
+    value >= 4
+      ? HealthStatus.BEST
+      : value >= ALTMAN_SAFE
+      ? HealthStatus.GOOD
+      : value >= ALTMAN_DISTRESS
+      ? HealthStatus.NORMAL
+      : value >= 1.2
+      ? HealthStatus.BAD
+      : HealthStatus.WORSE;
+  return {
+    value,
+    health,
+    verdict: value >= ALTMAN_SAFE ? "Safe zone" : value >= ALTMAN_DISTRESS ? "Grey zone" : "Distress zone",
+    components: inputs.map(input => ({
+      label: input.label,
+      value: round(input.weight * input.value),
+      detail: `${input.detail}: ${fmt(input.value, 3)} × ${input.weight}`,
+    })),
+  };
+};
+
+const beneish = ([current, prior]: [Year, Year]): StatementScore | null => {
+  const [ci, pi] = [current.income, prior.income];
+  const [cb, pb] = [current.balance, prior.balance];
+  if (!ci || !pi || !cb || !pb) return null;
+
+  const grossMargin = (i: IncomeStatement) => ratio(i.grossProfit, i.revenue);
+  const leverage = (b: BalanceSheet) => ratio(b.currentLiabilities + b.longTermDebt, b.totalAssets);
+  const cfo = current.cashFlow?.operatingCashFlow ?? NaN;
+
+  // Depreciation, SG&A and fixed assets aren't reported, so those indices sit
+  // at the neutral 1 and the score rests on the other five
+  const indices: Array<{ label: string; coefficient: number; value: number; neutral?: boolean; detail: string }> = [
+    {
+      label: "DSRI",
+      coefficient: 0.92,
+      value: ratio(ratio(cb.receivables, ci.revenue), ratio(pb.receivables, pi.revenue)),
+      detail: "Days sales in receivables index",
+    },
+    { label: "GMI", coefficient: 0.528, value: ratio(grossMargin(pi), grossMargin(ci)), detail: "Gross margin index" },
+    { label: "AQI", coefficient: 0.404, value: 1, neutral: true, detail: "Asset quality index" },
+    { label: "SGI", coefficient: 0.892, value: ratio(ci.revenue, pi.revenue), detail: "Sales growth index" },
+    { label: "DEPI", coefficient: 0.115, value: 1, neutral: true, detail: "Depreciation index" },
+    { label: "SGAI", coefficient: -0.172, value: 1, neutral: true, detail: "SG&A index" },
+    { label: "TATA", coefficient: 4.679, value: ratio(ci.netIncome - cfo, cb.totalAssets), detail: "Total accruals to assets" },
+    { label: "LVGI", coefficient: -0.327, value: ratio(leverage(cb), leverage(pb)), detail: "Leverage index" },
+  ];
+  if (indices.some(index => !known(index.value))) return null;
+
+  const value = round(-4.84 + indices.reduce((sum, index) => sum + index.coefficient * index.value, 0));
+  const health =
+    value <= -2.5
+      ? HealthStatus.BEST
+      : value <= -2.22
+      ? HealthStatus.GOOD
+      : value <= BENEISH_THRESHOLD
+      ? HealthStatus.NORMAL
+      : value <= -1
+      ? HealthStatus.BAD
+      : HealthStatus.WORSE;
+  return {
+    value,
+    health,
+    verdict: value > BENEISH_THRESHOLD ? "Possible manipulation" : "Unlikely manipulator",
+    components: indices.map(index => ({
+      label: index.label,
+      value: index.neutral ? null : round(index.value, 3),
+      detail: index.neutral
+        ? `${index.detail}: not reported, held at 1`
+        : `${index.detail} × ${index.coefficient}`,
+    })),
+  };
+};
+
+/**
+ * Piotroski F, Altman Z and Beneish M from the latest two annual statements.
+ * Returns null when fewer than two years are reported; a score whose inputs
+ * are missing is null on its own.
+ */
+export const computeQualityScores = (
+  statements: FinancialStatements,
+  marketCap?: number
+): QualityScores | null => {
+  const years = lastTwoYears(statements);
+  if (!years) return null;
+  return {
+    symbol: statements.symbol,
+    period: years[0].balance?.period ?? "",
+    piotroski: piotroski(years),
+    altman: altman(years, marketCap),
+    beneish: beneish(years),
+    computedAt: new Date().toISOString(),
+  };
+};
+
+// Piotroski F on the full 0–9 scale: passed over evaluated signals, times nine
+const piotroskiOnNine = (score: StatementScore | null): number | null => {
+  const evaluated = score?.components.filter(c => c.value !== null).length ?? 0;
+  return score && evaluated > 0 ? round((score.value / evaluated) * 9, 1) : null;
+};
+
+// Copy known scores onto the universe so the screener and factor model can use them
+export const applyQualityScores = (stocks: Stock[], scores: Record<string, QualityScores>): Stock[] =>
+  stocks.map(stock => {
+    const score = scores[stock.symbol.toUpperCase()];
+    return score
+      ? {
+          ...stock,
+          piotroskiF: piotroskiOnNine(score.piotroski),
+          altmanZ: score.altman?.value ?? null,
+          beneishM: score.beneish?.value ?? null,
+        }
+      : stock;
+  });
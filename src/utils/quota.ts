@@ -0,0 +1,164 @@
+import { format } from "date-fns";
+import {
+  ApiProviderId,
+  ApiProviderLimits,
+  ApiProviderUsage,
+  ApiQuotaStatus,
+  CircuitState,
+} from "@/types";
+
+const MINUTE = 60 * 1000;
+
+// Free-tier limits. Yahoo has no published limit but throttles bursts, and
+// OpenRouter's free models allow about 20 requests a minute.
+export const API_PROVIDER_LIMITS: Record<ApiProviderId, ApiProviderLimits> = {
+  rapidapi: { name: "RapidAPI Yahoo Finance", perMinute: 100, perDay: 500 },
+  yahoo: { name: "Yahoo Finance", perMinute: 60 },
+  alphaVantage: { name: "Alpha Vantage", perMinute: 5, perDay: 25 },
+  fmp: { name: "Financial Modeling Prep", perDay: 250 },
+  openrouter: { name: "OpenRouter AI", perMinute: 10, perDay: 200 },
+};
+
+// Consecutive 5xx or network failures that open the circuit. A 429 opens it at once.
+const FAILURE_THRESHOLD = 3;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 15 * MINUTE;
+
+const dayOf = (now: number): string => format(new Date(now), "yyyy-MM-dd");
+
+export const emptyUsage = (now: number = Date.now()): ApiProviderUsage => ({
+  recent: [],
+  day: dayOf(now),
+  dayCount: 0,
+  consecutiveFailures: 0,
+});
+
+// Drop requests older than a minute and reset the daily count on a new day
+export const pruneUsage = (usage: ApiProviderUsage, now: number = Date.now()): ApiProviderUsage => {
+  const today = dayOf(now);
+  return {
+    ...usage,
+    recent: usage.recent.filter(time => now - time < MINUTE),
+    day: today,
+    dayCount: usage.day === today ? usage.dayCount : 0,
+  };
+};
+
+export const getCircuitState = (usage: ApiProviderUsage, now: number = Date.now()): CircuitState => {
+  if (usage.circuitOpenUntil === undefined) return "closed";
+  return usage.circuitOpenUntil > now ? "open" : "halfOpen";
+};
+
+// Whether a request may go out now, and if not, why and until when
+export const checkQuota = (
+  provider: ApiProviderId,
+  usage: ApiProviderUsage,
+  now: number = Date.now()
+): { allowed: boolean; reason?: string; retryAt?: Date } => {
+  const limits = API_PROVIDER_LIMITS[provider];
+  const current = pruneUsage(usage, now);
+
+  if (getCircuitState(current, now) === "open") {
+    return {
+      allowed: false,
+      reason: `${limits.name} is failing (${current.lastError || "errors"}); paused`,
+      retryAt: new Date(current.circuitOpenUntil!),
+    };
+  }
+  if (limits.perDay !== undefined && current.dayCount >= limits.perDay) {
+    const tomorrow = new Date(now);
+    tomorrow.setHours(24, 0, 0, 0);
+    return {
+      allowed: false,
+      reason: `${limits.name} daily limit of ${limits.perDay} requests used`,
+      retryAt: tomorrow,
+    };
+  }
+  if (limits.perMinute !== undefined && current.recent.length >= limits.perMinute) {
+    return {
+      allowed: false,
+      reason: `${limits.name} limit of ${limits.perMinute} requests a minute reached`,
+      retryAt: new Date(current.recent[0] + MINUTE),
+    };
+  }
+  return { allowed: true };
+};
+
+export const recordRequest = (usage: ApiProviderUsage, now: number = Date.now()): ApiProviderUsage => {
+  const current = pruneUsage(usage, now);
+  return { ...current, recent: [...current.recent, now], dayCount: current.dayCount + 1 };
+};
+
+// 429, 5xx and network errors (no status) count against the circuit;
+// other 4xx mean a bad request, not an unhealthy provider
+export const isProviderFailure = (status?: number): boolean =>
+  status === undefined || status === 429 || status >= 500;
+
+export const recordSuccess = (usage: ApiProviderUsage): ApiProviderUsage => ({
+  ...usage,
+  consecutiveFailures: 0,
+  circuitOpenUntil: undefined,
+  backoffMs: undefined,
+  lastError: undefined,
+});
+
+// Open the circuit after repeated failures, at once on a 429, or again after
+// a failed half-open trial, doubling the backoff each time it re-opens
+export const recordFailure = (
+  usage: ApiProviderUsage,
+  status: number | undefined,
+  retryAfterMs?: number,
+  now: number = Date.now()
+): ApiProviderUsage => {
+  const failures = usage.consecutiveFailures + 1;
+  const lastError = status === undefined ? "network error" : `HTTP ${status}`;
+  const wasOpen = usage.circuitOpenUntil !== undefined;
+
+  if (!wasOpen && status !== 429 && failures < FAILURE_THRESHOLD) {
+    return { ...usage, consecutiveFailures: failures, lastError };
+  }
+
+  const backoff = Math.min(wasOpen && usage.backoffMs ? usage.backoffMs * 2 : BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+  const openFor = Math.max(backoff, retryAfterMs ?? 0);
+  return {
+    ...usage,
+    consecutiveFailures: failures,
+    circuitOpenUntil: now + openFor,
+    backoffMs: backoff,
+    lastError,
+  };
+};
+
+// Count the rest of today as used, for providers that report an exhausted
+// daily quota in the response body instead of a 429
+export const exhaustDailyQuota = (
+  provider: ApiProviderId,
+  usage: ApiProviderUsage,
+  now: number = Date.now()
+): ApiProviderUsage => {
+  const current = pruneUsage(usage, now);
+  const perDay = API_PROVIDER_LIMITS[provider].perDay;
+  return perDay === undefined ? current : { ...current, dayCount: Math.max(current.dayCount, perDay) };
+};
+
+export const getQuotaStatus = (
+  provider: ApiProviderId,
+  usage: ApiProviderUsage,
+  now: number = Date.now()
+): ApiQuotaStatus => {
+  const limits = API_PROVIDER_LIMITS[provider];
+  const current = pruneUsage(usage, now);
+  const check = checkQuota(provider, current, now);
+  return {
+    provider,
+    name: limits.name,
+    usedThisMinute: current.recent.length,
+    perMinute: limits.perMinute,
+    usedToday: current.dayCount,
+    perDay: limits.perDay,
+    circuit: getCircuitState(current, now),
+    retryAt: check.retryAt,
+    blockedReason: check.reason,
+    lastError: current.lastError,
+  };
+};
@@ -0,0 +1,354 @@
+import {
+  HealthStatus,
+  ScreenerField,
+  ScreenerGroup,
+  ScreenerNode,
+  ScreenerOperand,
+  ScreenerOperator,
+  ScreenerRule,
+  SignalType,
+  Stock,
+} from "@/types";
+
+export type ScreenerFieldType = "number" | "text" | "enum";
+export type ScreenerFieldFormat = "price" | "large" | "volume" | "percent" | "ratio" | "multiple";
+
+interface ScreenerFieldInfo {
+  label: string;
+  type: ScreenerFieldType;
+  format?: ScreenerFieldFormat;
+  options?: string[]; // enum values
+  computed?: boolean;
+}
+
+export const SCREENER_FIELDS: Record<ScreenerField, ScreenerFieldInfo> = {
+  symbol: { label: "Symbol", type: "text" },
+  name: { label: "Name", type: "text" },
+  sector: { label: "Sector", type: "text" },
+  industry: { label: "Industry", type: "text" },
+  price: { label: "Price", type: "number", format: "price" },
+  change: { label: "Change", type: "number", format: "price" },
+  changePercent: { label: "Change %", type: "number", format: "percent" },
+  marketCap: { label: "Market Cap", type: "number", format: "large" },
+  volume: { label: "Volume", type: "number", format: "volume" },
+  avgVolume: { label: "Avg Volume", type: "number", format: "volume" },
+  pe: { label: "P/E", type: "number", format: "ratio" },
+  pb: { label: "P/B", type: "number", format: "ratio" },
+  roe: { label: "ROE", type: "number", format: "percent" },
+  roce: { label: "ROCE", type: "number", format: "percent" },
+  debtToEquity: { label: "Debt/Equity", type: "number", format: "ratio" },
+  currentRatio: { label: "Current Ratio", type: "number", format: "ratio" },
+  quickRatio: { label: "Quick Ratio", type: "number", format: "ratio" },
+  grossMargin: { label: "Gross Margin", type: "number", format: "percent" },
+  operatingMargin: { label: "Operating Margin", type: "number", format: "percent" },
+  netMargin: { label: "Net Margin", type: "number", format: "percent" },
+  bookValue: { label: "Book Value", type: "number", format: "price" },
+  dividendYield: { label: "Dividend Yield", type: "number", format: "percent" },
+  beta: { label: "Beta", type: "number", format: "ratio" },
+  eps: { label: "EPS", type: "number", format: "price" },
+  revenue: { label: "Revenue", type: "number", format: "large" },
+  netIncome: { label: "Net Income", type: "number", format: "large" },
+  piotroskiF: { label: "Piotroski F", type: "number", format: "ratio" },
+  altmanZ: { label: "Altman Z", type: "number", format: "ratio" },
+  beneishM: { label: "Beneish M", type: "number", format: "ratio" },
+  health: { label: "Health", type: "enum", options: Object.values(HealthStatus) },
+  signal: { label: "Signal", type: "enum", options: Object.values(SignalType) },
+  volumeRatio: { label: "Volume / Avg", type: "number", format: "multiple", computed: true },
+  earningsYield: { label: "Earnings Yield", type: "number", format: "percent", computed: true },
+  peToSectorMedian: {
+    label: "P/E vs Sector Median",
+    type: "number",
+    format: "multiple",
+    computed: true,
+  },
+};
+
+export const SCREENER_OPERATORS: ScreenerOperator[] = [">", ">=", "<", "<=", "=", "!="];
+
+// Text and enum fields only support equality
+export const operatorsFor = (field: ScreenerField): ScreenerOperator[] =>
+  SCREENER_FIELDS[field].type === "number" ? SCREENER_OPERATORS : ["=", "!="];
+
+export const isNumericField = (field: ScreenerField): boolean =>
+  SCREENER_FIELDS[field].type === "number";
+
+// Columns StockTable already shows, so results don't repeat them
+export const STOCK_TABLE_FIELDS: ScreenerField[] = [
+  "symbol",
+  "name",
+  "sector",
+  "price",
+  "change",
+  "changePercent",
+  "marketCap",
+  "volume",
+  "pe",
+  "pb",
+  "roe",
+  "roce",
+  "health",
+  "signal",
+];
+
+// Medians are computed lazily per field and reused across all stocks in a run
+export interface ScreenerContext {
+  sectorMedian: (field: ScreenerField, sector: string) => number | null;
+  marketMedian: (field: ScreenerField) => number | null;
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const createScreenerContext = (stocks: Stock[]): ScreenerContext => {
+  const cache = new Map<string, number | null>();
+
+  const medianOf = (key: string, field: ScreenerField, pool: Stock[]): number | null => {
+    if (!cache.has(key)) {
+      const values = pool
+        .map((stock) => fieldValue(stock, field, context))
+        .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+      cache.set(key, median(values));
+    }
+    return cache.get(key) ?? null;
+  };
+
+  const context: ScreenerContext = {
+    sectorMedian: (field, sector) =>
+      medianOf(`${sector}:${field}`, field, stocks.filter((stock) => stock.sector === sector)),
+    marketMedian: (field) => medianOf(`*:${field}`, field, stocks),
+  };
+  return context;
+};
+
+export const fieldValue = (
+  stock: Stock,
+  field: ScreenerField,
+  context: ScreenerContext
+): number | string | null => {
+  switch (field) {
+    case "volumeRatio":
+      return stock.avgVolume > 0 ? stock.volume / stock.avgVolume : null;
+    case "earningsYield":
+      return stock.pe && stock.pe > 0 ? 100 / stock.pe : null;
+    case "peToSectorMedian": {
+      const sectorPe = context.sectorMedian("pe", stock.sector);
+      return stock.pe !== null && sectorPe ? stock.pe / sectorPe : null;
+    }
+    default:
+      return stock[field] ?? null;
+  }
+};
+
+const operandValue = (
+  operand: ScreenerOperand,
+  stock: Stock,
+  context: ScreenerContext
+): number | string | null => {
+  switch (operand.type) {
+    case "number":
+    case "text":
+      return operand.value;
+    case "sectorMedian":
+      return context.sectorMedian(operand.field, stock.sector);
+    case "marketMedian":
+      return context.marketMedian(operand.field);
+  }
+};
+
+const compare = (
+  left: number | string,
+  operator: ScreenerOperator,
+  right: number | string
+): boolean => {
+  if (typeof left === "string" || typeof right === "string") {
+    const equal = String(left).toLowerCase() === String(right).toLowerCase();
+    if (operator === "=") return equal;
+    if (operator === "!=") return !equal;
+    return false;
+  }
+
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+};
+
+// A rule on a missing value never matches; an empty group matches everything
+export const evaluateNode = (
+  node: ScreenerNode,
+  stock: Stock,
+  context: ScreenerContext
+): boolean => {
+  if (node.kind === "rule") {
+    const left = fieldValue(stock, node.field, context);
+    const right = operandValue(node.operand, stock, context);
+    if (left === null || right === null) return false;
+    return compare(left, node.operator, right);
+  }
+
+  if (node.children.length === 0) return true;
+  return node.combinator === "AND"
+    ? node.children.every((child) => evaluateNode(child, stock, context))
+    : node.children.some((child) => evaluateNode(child, stock, context));
+};
+
+export const runScreen = (root: ScreenerGroup, stocks: Stock[]): Stock[] => {
+  const context = createScreenerContext(stocks);
+  return stocks.filter((stock) => evaluateNode(root, stock, context));
+};
+
+// Fields a screen looks at, in first-use order, for the results table
+export const referencedFields = (node: ScreenerNode): ScreenerField[] => {
+  const fields: ScreenerField[] = [];
+  const visit = (current: ScreenerNode) => {
+    if (current.kind === "group") {
+      current.children.forEach(visit);
+      return;
+    }
+    fields.push(current.field);
+    if (current.operand.type === "sectorMedian" || current.operand.type === "marketMedian") {
+      fields.push(current.operand.field);
+    }
+  };
+  visit(node);
+  return Array.from(new Set(fields));
+};
+
+export const countRules = (node: ScreenerNode): number =>
+  node.kind === "rule" ? 1 : node.children.reduce((sum, child) => sum + countRules(child), 0);
+
+const describeOperand = (operand: ScreenerOperand): string => {
+  switch (operand.type) {
+    case "number":
+      return String(operand.value);
+    case "text":
+      return `"${operand.value}"`;
+    case "sectorMedian":
+      return `sector median ${operand.field}`;
+    case "marketMedian":
+      return `market median ${operand.field}`;
+  }
+};
+
+// One-line summary, e.g. `roe > 15 AND (pe < sector median pe OR pb < 1)`
+export const describeNode = (node: ScreenerNode, nested = false): string => {
+  if (node.kind === "rule") {
+    return `${node.field} ${node.operator} ${describeOperand(node.operand)}`;
+  }
+  if (node.children.length === 0) return "all stocks";
+  const text = node.children
+    .map((child) => describeNode(child, true))
+    .join(` ${node.combinator} `);
+  return nested && node.children.length > 1 ? `(${text})` : text;
+};
+
+// Tree editing helpers; all return new trees
+
+const createNodeId = (): string => `node_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createRule = (field: ScreenerField = "roe"): ScreenerRule => ({
+  id: createNodeId(),
+  kind: "rule",
+  field,
+  operator: isNumericField(field) ? ">" : "=",
+  operand: isNumericField(field)
+    ? { type: "number", value: 0 }
+    : { type: "text", value: SCREENER_FIELDS[field].options?.[0] ?? "" },
+});
+
+export const createGroup = (
+  combinator: "AND" | "OR" = "AND",
+  children: ScreenerNode[] = []
+): ScreenerGroup => ({
+  id: createNodeId(),
+  kind: "group",
+  combinator,
+  children,
+});
+
+export const updateNode = (
+  root: ScreenerGroup,
+  id: string,
+  update: (node: ScreenerNode) => ScreenerNode
+): ScreenerGroup => {
+  const visit = (node: ScreenerNode): ScreenerNode => {
+    if (node.id === id) return update(node);
+    if (node.kind === "rule") return node;
+    return { ...node, children: node.children.map(visit) };
+  };
+  return visit(root) as ScreenerGroup;
+};
+
+export const removeNode = (root: ScreenerGroup, id: string): ScreenerGroup => {
+  const visit = (group: ScreenerGroup): ScreenerGroup => ({
+    ...group,
+    children: group.children
+      .filter((child) => child.id !== id)
+      .map((child) => (child.kind === "group" ? visit(child) : child)),
+  });
+  return visit(root);
+};
+
+export const addChild = (
+  root: ScreenerGroup,
+  groupId: string,
+  child: ScreenerNode
+): ScreenerGroup =>
+  updateNode(root, groupId, (node) =>
+    node.kind === "group" ? { ...node, children: [...node.children, child] } : node
+  );
+
+// First problem that would make a screen silently match nothing, or null
+export const validateScreen = (root: ScreenerGroup): string | null => {
+  const visit = (node: ScreenerNode): string | null => {
+    if (node.kind === "group") {
+      for (const child of node.children) {
+        const error = visit(child);
+        if (error) return error;
+      }
+      return null;
+    }
+    if (node.operand.type === "number" && !Number.isFinite(node.operand.value)) {
+      return `Enter a number for ${SCREENER_FIELDS[node.field].label}`;
+    }
+    if (node.operand.type === "text" && node.operand.value.trim() === "") {
+      return `Enter a value for ${SCREENER_FIELDS[node.field].label}`;
+    }
+    return null;
+  };
+  return countRules(root) === 0 ? "Add at least one rule" : visit(root);
+};
+
+export const formatScreenerValue = (field: ScreenerField, value: number | string | null): string => {
+  if (value === null) return "N/A";
+  if (typeof value === "string") return value;
+
+  switch (SCREENER_FIELDS[field].format) {
+    case "price":
+      return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+    case "large":
+      return value >= 1e7 ? `₹${(value / 1e7).toFixed(2)}Cr` : `₹${(value / 1e5).toFixed(2)}L`;
+    case "volume":
+      return value >= 1e6 ? `${(value / 1e6).toFixed(2)}M` : value.toLocaleString("en-IN");
+    case "percent":
+      return `${value.toFixed(2)}%`;
+    case "multiple":
+      return `${value.toFixed(2)}×`;
+    default:
+      return value.toFixed(2);
+  }
+};
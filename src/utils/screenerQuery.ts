@@ -0,0 +1,317 @@
+import {
+  ScreenerField,
+  ScreenerGroup,
+  ScreenerNode,
+  ScreenerOperand,
+  ScreenerOperator,
+  ScreenerQueryCompletion,
+  ScreenerQueryError,
+  SearchFilters,
+  SortOption,
+} from "@/types";
+import {
+  SCREENER_FIELDS,
+  SCREENER_OPERATORS,
+  createGroup,
+  isNumericField,
+  operatorsFor,
+} from "@/utils/screener";
+
+// Query syntax, terms separated by spaces and all required to match:
+//   sector:Banking              text/enum equality; `sector:Banking,IT` matches either
+//   sector:"Consumer Staples"   quote values containing spaces
+//   pe<20  roe>=15  de!=0       numeric comparison (>, >=, <, <=, =, !=)
+//   marketCap>50000cr           number suffixes k, l (lakh), cr (crore)
+//   pe<sectorMedian             compare with the sector or market median of the field
+//   sort:-marketCap             sort descending (`sort:pe` or `sort:+pe` ascending)
+//   reliance                    anything else is free-text search
+
+export interface ParsedStockQuery {
+  text: string;
+  rules?: ScreenerGroup;
+  sort?: SortOption;
+  errors: ScreenerQueryError[];
+}
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const TERM_PATTERN = /^([A-Za-z_]\w*)(>=|<=|!=|>|<|=|:)(.*)$/s;
+const MEDIAN_KEYWORDS = ["sectorMedian", "marketMedian"] as const;
+
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, l: 1e5, cr: 1e7 };
+
+const FIELD_ALIASES: Record<string, ScreenerField> = {
+  mcap: "marketCap",
+  de: "debtToEquity",
+  dy: "dividendYield",
+  chg: "changePercent",
+  fscore: "piotroskiF",
+  zscore: "altmanZ",
+  mscore: "beneishM",
+};
+
+const ALL_FIELDS = Object.keys(SCREENER_FIELDS) as ScreenerField[];
+const SORTABLE_FIELDS = ALL_FIELDS.filter((field) => !SCREENER_FIELDS[field].computed);
+
+// Split on whitespace, keeping quoted runs together and recording positions
+const tokenize = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let start = -1;
+  let inQuotes = false;
+
+  for (let i = 0; i <= query.length; i++) {
+    const char = query[i];
+    const atEnd = i === query.length;
+    if (!atEnd && char === '"') inQuotes = !inQuotes;
+
+    const isBreak = atEnd || (!inQuotes && /\s/.test(char));
+    if (isBreak) {
+      if (start >= 0) tokens.push({ text: query.slice(start, i), start, end: i });
+      start = -1;
+    } else if (start < 0) {
+      start = i;
+    }
+  }
+  return tokens;
+};
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+export const resolveField = (name: string): ScreenerField | null => {
+  const lower = name.toLowerCase();
+  return FIELD_ALIASES[lower] ?? ALL_FIELDS.find((field) => field.toLowerCase() === lower) ?? null;
+};
+
+const unknownFieldMessage = (name: string): string => {
+  const lower = name.toLowerCase();
+  const closest = ALL_FIELDS.map((field) => ({
+    field,
+    distance: field.toLowerCase().startsWith(lower) ? 0 : editDistance(lower, field.toLowerCase()),
+  })).sort((a, b) => a.distance - b.distance)[0];
+
+  return closest && closest.distance <= 2
+    ? `Unknown field "${name}". Did you mean "${closest.field}"?`
+    : `Unknown field "${name}"`;
+};
+
+const unquote = (value: string): string => value.replace(/"/g, "");
+
+const parseNumber = (raw: string): number | null => {
+  const match = raw.toLowerCase().match(/^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)(k|l|cr)?$/);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2] ? NUMBER_SUFFIXES[match[2]] : 1);
+};
+
+let nodeCounter = 0;
+const queryNodeId = (): string => `query_${++nodeCounter}`;
+
+const rule = (
+  field: ScreenerField,
+  operator: ScreenerOperator,
+  operand: ScreenerOperand
+): ScreenerNode => ({ id: queryNodeId(), kind: "rule", field, operator, operand });
+
+// One term → a rule (or an OR group for multiple values), or an error message
+const parseTerm = (
+  fieldName: string,
+  operator: ScreenerOperator | ":",
+  rawValue: string
+): ScreenerNode | string => {
+  const field = resolveField(fieldName);
+  if (!field) return unknownFieldMessage(fieldName);
+  const info = SCREENER_FIELDS[field];
+  const value = unquote(rawValue);
+
+  if (value === "") {
+    return `Missing value after "${fieldName}${operator}"`;
+  }
+
+  if (operator === ":") {
+    if (info.type === "number") {
+      return `"${field}" is numeric; compare it instead, e.g. ${field}>10`;
+    }
+    const values = value.split(",").map((v) => v.trim()).filter(Boolean);
+    const nodes: ScreenerNode[] = [];
+    for (const item of values) {
+      const option = info.options?.find((o) => o.toLowerCase() === item.toLowerCase());
+      if (info.options && !option) {
+        return `"${item}" is not a valid ${field}; use one of ${info.options.join(", ")}`;
+      }
+      nodes.push(rule(field, "=", { type: "text", value: option ?? item }));
+    }
+    return nodes.length === 1 ? nodes[0] : { ...createGroup("OR", nodes), id: queryNodeId() };
+  }
+
+  if (!operatorsFor(field).includes(operator)) {
+    return `"${operator}" can't be used with ${field}; use ${field}:value`;
+  }
+  if (info.type !== "number") {
+    return rule(field, operator, { type: "text", value });
+  }
+
+  const keyword = MEDIAN_KEYWORDS.find((k) => k.toLowerCase() === value.toLowerCase());
+  if (keyword) return rule(field, operator, { type: keyword, field });
+
+  const number = parseNumber(value);
+  if (number === null) {
+    return `"${value}" is not a number; expected e.g. ${field}${operator}15, 500cr or sectorMedian`;
+  }
+  return rule(field, operator, { type: "number", value: number });
+};
+
+const parseSort = (rawValue: string): SortOption | string => {
+  const direction = rawValue.startsWith("-") ? "desc" : "asc";
+  const name = rawValue.replace(/^[+-]/, "");
+  if (!name) return 'Missing field after "sort:"';
+
+  const field = resolveField(name);
+  if (!field) return unknownFieldMessage(name);
+  if (SCREENER_FIELDS[field].computed) return `Can't sort by the computed field "${field}"`;
+  return { field: field as SortOption["field"], direction };
+};
+
+export const parseStockQuery = (query: string): ParsedStockQuery => {
+  const words: string[] = [];
+  const rules: ScreenerNode[] = [];
+  const errors: ScreenerQueryError[] = [];
+  let sort: SortOption | undefined;
+
+  for (const token of tokenize(query)) {
+    const fail = (message: string) => errors.push({ message, start: token.start, end: token.end });
+
+    if (/^(>=|<=|!=|>|<|=)/.test(token.text)) {
+      fail(`Missing field before "${token.text}"`);
+      continue;
+    }
+
+    const match = token.text.match(TERM_PATTERN);
+    if (!match) {
+      words.push(unquote(token.text));
+      continue;
+    }
+
+    const [, name, operator, rawValue] = match;
+    if (operator === ":" && name.toLowerCase() === "sort") {
+      const result = parseSort(rawValue);
+      if (typeof result === "string") fail(result);
+      else sort = result;
+      continue;
+    }
+
+    const result = parseTerm(name, operator as ScreenerOperator | ":", rawValue);
+    if (typeof result === "string") fail(result);
+    else rules.push(result);
+  }
+
+  return {
+    text: words.join(" "),
+    rules: rules.length > 0 ? { ...createGroup("AND", rules), id: queryNodeId() } : undefined,
+    sort,
+    errors,
+  };
+};
+
+// The part of SearchFilters a typed query controls
+export const queryToFilters = (
+  parsed: ParsedStockQuery
+): Pick<SearchFilters, "query" | "rules"> => ({
+  query: parsed.text,
+  rules: parsed.rules,
+});
+
+const MAX_COMPLETIONS = 8;
+
+const quoteIfNeeded = (value: string): string => (/\s/.test(value) ? `"${value}"` : value);
+
+// Suggestions for the term under the cursor. `values` supplies choices for
+// free-text fields such as sector or industry.
+export const getQueryCompletions = (
+  query: string,
+  cursor: number,
+  values: Partial<Record<ScreenerField, string[]>> = {}
+): ScreenerQueryCompletion[] => {
+  const token = tokenize(query).find((t) => t.start <= cursor && cursor <= t.end);
+  const replaceStart = token ? token.start : cursor;
+  const replaceEnd = token ? token.end : cursor;
+  const prefix = token ? query.slice(token.start, cursor) : "";
+
+  const complete = (label: string, insertText: string, description?: string) => ({
+    label,
+    insertText,
+    description,
+    replaceStart,
+    replaceEnd,
+  });
+  const startsWith = (candidate: string, partial: string) =>
+    candidate.toLowerCase().startsWith(partial.toLowerCase());
+
+  // sort:[-]field
+  const sortMatch = prefix.match(/^sort:([+-]?)(\w*)$/i);
+  if (sortMatch) {
+    const [, sign, partial] = sortMatch;
+    return SORTABLE_FIELDS.filter((field) => startsWith(field, partial))
+      .slice(0, MAX_COMPLETIONS)
+      .map((field) =>
+        complete(`sort:${sign}${field}`, `sort:${sign}${field} `, sign === "-" ? "Descending" : "Ascending")
+      );
+  }
+
+  const termMatch = prefix.match(TERM_PATTERN);
+  if (termMatch) {
+    const [, name, operator, rawValue] = termMatch;
+    const field = resolveField(name);
+    if (!field) return [];
+
+    // field:value[,value] for text and enum fields
+    if (operator === ":" && !isNumericField(field)) {
+      const existing = rawValue.split(",");
+      const partial = unquote(existing.pop() ?? "");
+      const head = existing.length > 0 ? `${existing.join(",")},` : "";
+      const choices = SCREENER_FIELDS[field].options ?? values[field] ?? [];
+      return Array.from(new Set(choices))
+        .filter((choice) => startsWith(choice, partial))
+        .slice(0, MAX_COMPLETIONS)
+        .map((choice) => complete(choice, `${name}:${head}${quoteIfNeeded(choice)} `, SCREENER_FIELDS[field].label));
+    }
+
+    // field<op> → median keywords once a number isn't being typed
+    if (operator !== ":" && isNumericField(field) && !/^[-\d]/.test(rawValue)) {
+      return MEDIAN_KEYWORDS.filter((keyword) => startsWith(keyword, rawValue)).map((keyword) =>
+        complete(`${name}${operator}${keyword}`, `${name}${operator}${keyword} `, "Compare with the median")
+      );
+    }
+    return [];
+  }
+
+  if (!/^\w*$/.test(prefix)) return [];
+
+  // A complete field name → its operators
+  const exact = prefix ? resolveField(prefix) : null;
+  if (exact) {
+    const operators = isNumericField(exact) ? SCREENER_OPERATORS : [":", "!="];
+    return operators.map((op) => complete(`${prefix}${op}`, `${prefix}${op}`, SCREENER_FIELDS[exact].label));
+  }
+
+  // Partial field name
+  const fieldCompletions = ALL_FIELDS.filter((field) => startsWith(field, prefix)).map((field) =>
+    complete(field, isNumericField(field) ? field : `${field}:`, SCREENER_FIELDS[field].label)
+  );
+  const sortCompletion = startsWith("sort", prefix) ? [complete("sort:", "sort:", "Sort results")] : [];
+  return prefix ? [...sortCompletion, ...fieldCompletions].slice(0, MAX_COMPLETIONS) : [];
+};
@@ -0,0 +1,284 @@
+import {
+  BalanceSheet,
+  FinancialStatements,
+  HealthStatus,
+  StatementCheck,
+  StatementHealthReport,
+  StatementName,
+} from "@/types";
+
+// Thresholds for the individual checks
+const MARGIN_SLACK = 1; // points a margin may slip below its prior average
+const MIN_INTEREST_COVERAGE = 3;
+const MAX_YEARS_TO_REPAY_DEBT = 4;
+const CURRENT_RATIO_SLIP = 0.9; // share of last year's current ratio that still passes
+const LEVERAGE_SLACK = 5; // points liabilities/assets may rise in a year
+const MIN_FCF_CONVERSION = 0.8;
+const MAX_ACCRUAL_RATIO = 0.1; // Sloan's red-flag level
+
+const known = (value: number): boolean => Number.isFinite(value);
+
+const pct = (value: number, digits: number = 1): string => `${value.toFixed(digits)}%`;
+
+const check = (label: string, passed: boolean | null, detail: string): StatementCheck => ({
+  label,
+  passed,
+  detail,
+});
+
+const missing = (label: string, needs: string): StatementCheck =>
+  check(label, null, `Not enough data: needs ${needs}`);
+
+const average = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Newest value against the average of the earlier ones, for ratio series
+const trendCheck = (label: string, series: number[], slack: number): StatementCheck => {
+  const values = series.filter(known);
+  if (values.length < 2) return missing(label, "two or more years");
+  const [latest, ...prior] = values;
+  const baseline = average(prior);
+  return check(
+    label,
+    latest >= baseline - slack,
+    `${pct(latest)} latest vs ${pct(baseline)} average over the prior ${prior.length} year${prior.length === 1 ? "" : "s"}`
+  );
+};
+
+const healthFromShare = (passed: number, evaluated: number): HealthStatus => {
+  // Too little data to rate either way
+  if (evaluated < 2) return HealthStatus.NORMAL;
+  const share = passed / evaluated;
+  if (share >= 0.85) return HealthStatus.BEST;
+  if (share >= 0.65) return HealthStatus.GOOD;
+  if (share >= 0.45) return HealthStatus.NORMAL;
+  if (share >= 0.25) return HealthStatus.BAD;
+  return HealthStatus.WORSE;
+};
+
+const report = (checks: StatementCheck[]): StatementHealthReport => {
+  const evaluated = checks.filter(c => c.passed !== null).length;
+  const passed = checks.filter(c => c.passed === true).length;
+  return { health: healthFromShare(passed, evaluated), passed, evaluated, checks };
+};
+
+const incomeChecks = ({ annual }: FinancialStatements): StatementCheck[] => {
+  const income = annual.income;
+  const checks: StatementCheck[] = [];
+
+  const revenues = income.map(s => s.revenue).filter(known);
+  if (revenues.length < 2) {
+    checks.push(missing("Revenue trend", "two or more years of revenue"));
+  } else {
+    const rises = revenues.slice(0, -1).filter((revenue, i) => revenue > revenues[i + 1]).length;
+    const years = revenues.length - 1;
+    const total = (revenues[0] / revenues[years] - 1) * 100;
+    checks.push(
+      check(
+        "Revenue trend",
+        total > 0 && rises * 2 >= years,
+        `Revenue rose in ${rises} of ${years} year${years === 1 ? "" : "s"}, ${total >= 0 ? "+" : ""}${pct(total)} overall`
+      )
+    );
+  }
+
+  const margin = (numerator: number, revenue: number) => (revenue > 0 ? (numerator / revenue) * 100 : NaN);
+  checks.push(trendCheck("Gross margin trend", income.map(s => margin(s.grossProfit, s.revenue)), MARGIN_SLACK));
+  checks.push(trendCheck("Operating margin trend", income.map(s => margin(s.operatingIncome, s.revenue)), MARGIN_SLACK));
+
+  const profits = income.map(s => s.netIncome).filter(known);
+  if (profits.length === 0) {
+    checks.push(missing("Consistent profits", "net income"));
+  } else {
+    const losses = profits.filter(p => p <= 0).length;
+    checks.push(
+      check(
+        "Consistent profits",
+        losses === 0,
+        losses === 0 ? `Profitable in all ${profits.length} years` : `Loss in ${losses} of ${profits.length} years`
+      )
+    );
+  }
+
+  const latest = income[0];
+  const ebit = latest?.ebit ?? NaN;
+  if (!latest || !known(ebit) || !known(latest.interestExpense)) {
+    checks.push(missing("Interest coverage", "EBIT and interest expense"));
+  } else if (latest.interestExpense === 0) {
+    checks.push(check("Interest coverage", true, "No interest expense"));
+  } else {
+    const coverage = ebit / latest.interestExpense;
+    checks.push(
+      check(
+        "Interest coverage",
+        coverage >= MIN_INTEREST_COVERAGE,
+        `EBIT covers interest ${coverage.toFixed(1)}x (needs ${MIN_INTEREST_COVERAGE}x)`
+      )
+    );
+  }
+
+  return checks;
+};
+
+const balanceChecks = ({ annual }: FinancialStatements): StatementCheck[] => {
+  const [latest, previous] = annual.balance;
+  const checks: StatementCheck[] = [];
+  const currentRatio = (s: BalanceSheet | undefined) =>
+    s && s.currentLiabilities > 0 ? s.currentAssets / s.currentLiabilities : NaN;
+
+  if (!latest || !known(latest.currentAssets) || !known(latest.currentLiabilities)) {
+    checks.push(missing("Working capital", "current assets and liabilities"));
+  } else {
+    const workingCapital = latest.currentAssets - latest.currentLiabilities;
+    checks.push(
+      check(
+        "Working capital",
+        workingCapital > 0,
+        `₹${(workingCapital / 1e7).toFixed(0)} Cr, current ratio ${currentRatio(latest).toFixed(2)}`
+      )
+    );
+  }
+
+  const ratioNow = currentRatio(latest);
+  const ratioBefore = currentRatio(previous);
+  checks.push(
+    known(ratioNow) && known(ratioBefore)
+      ? check(
+          "Working capital trend",
+          ratioNow >= ratioBefore * CURRENT_RATIO_SLIP,
+          `Current ratio ${ratioNow.toFixed(2)} vs ${ratioBefore.toFixed(2)} a year earlier`
+        )
+      : missing("Working capital trend", "two years of current assets and liabilities")
+  );
+
+  const quickAssets = latest ? latest.cash + latest.receivables : NaN;
+  checks.push(
+    known(quickAssets) && latest.currentLiabilities > 0
+      ? check(
+          "Near-term obligations",
+          quickAssets >= latest.currentLiabilities,
+          `Cash and receivables cover ${pct((quickAssets / latest.currentLiabilities) * 100, 0)} of current liabilities`
+        )
+      : missing("Near-term obligations", "cash, receivables and current liabilities")
+  );
+
+  // Maturities aren't reported, so coverage is years of operating cash flow
+  // needed to retire long-term debt
+  const operatingCashFlow = annual.cashFlow[0]?.operatingCashFlow ?? NaN;
+  const debt = latest?.longTermDebt ?? NaN;
+  if (debt === 0) {
+    checks.push(check("Debt maturity coverage", true, "No long-term debt"));
+  } else if (!known(debt) || !known(operatingCashFlow)) {
+    checks.push(missing("Debt maturity coverage", "long-term debt and operating cash flow"));
+  } else {
+    const years = operatingCashFlow > 0 ? debt / operatingCashFlow : Infinity;
+    checks.push(
+      check(
+        "Debt maturity coverage",
+        years <= MAX_YEARS_TO_REPAY_DEBT,
+        known(years)
+          ? `Operating cash flow repays long-term debt in ${years.toFixed(1)} years (needs ${MAX_YEARS_TO_REPAY_DEBT} or fewer)`
+          : "Operating cash flow is negative, so debt can't be repaid from operations"
+      )
+    );
+  }
+
+  const leverage = (s: BalanceSheet | undefined) =>
+    s && s.totalAssets > 0 ? (s.totalLiabilities / s.totalAssets) * 100 : NaN;
+  const leverageNow = leverage(latest);
+  const leverageBefore = leverage(previous);
+  checks.push(
+    known(leverageNow) && known(leverageBefore)
+      ? check(
+          "Leverage trend",
+          leverageNow <= leverageBefore + LEVERAGE_SLACK,
+          `Liabilities ${pct(leverageNow)} of assets vs ${pct(leverageBefore)} a year earlier`
+        )
+      : missing("Leverage trend", "two years of liabilities and assets")
+  );
+
+  return checks;
+};
+
+const cashFlowChecks = ({ annual }: FinancialStatements): StatementCheck[] => {
+  const checks: StatementCheck[] = [];
+  const netIncomeByPeriod = new Map(annual.income.map(s => [s.period, s.netIncome]));
+
+  const operating = annual.cashFlow.map(s => s.operatingCashFlow).filter(known);
+  if (operating.length === 0) {
+    checks.push(missing("Operating cash flow", "operating cash flow"));
+  } else {
+    const negative = operating.filter(v => v <= 0).length;
+    checks.push(
+      check(
+        "Operating cash flow",
+        negative === 0,
+        negative === 0
+          ? `Positive in all ${operating.length} years`
+          : `Negative in ${negative} of ${operating.length} years`
+      )
+    );
+  }
+
+  // Summed over the years so one lumpy year doesn't decide it
+  const paired = annual.cashFlow
+    .map(s => ({ fcf: s.freeCashFlow, netIncome: netIncomeByPeriod.get(s.period) ?? NaN }))
+    .filter(p => known(p.fcf) && known(p.netIncome));
+  const totalNetIncome = paired.reduce((sum, p) => sum + p.netIncome, 0);
+  const totalFcf = paired.reduce((sum, p) => sum + p.fcf, 0);
+  if (paired.length === 0) {
+    checks.push(missing("FCF conversion", "free cash flow and net income"));
+  } else if (totalNetIncome <= 0) {
+    checks.push(check("FCF conversion", null, "Net income is not positive, so conversion isn't meaningful"));
+  } else {
+    const conversion = totalFcf / totalNetIncome;
+    checks.push(
+      check(
+        "FCF conversion",
+        conversion >= MIN_FCF_CONVERSION,
+        `Free cash flow was ${pct(conversion * 100, 0)} of net income over ${paired.length} year${paired.length === 1 ? "" : "s"} (needs ${pct(MIN_FCF_CONVERSION * 100, 0)})`
+      )
+    );
+  }
+
+  // Sloan accrual ratio: earnings not backed by cash, over average assets
+  const latestFlow = annual.cashFlow[0];
+  const assets = annual.balance.slice(0, 2).map(s => s.totalAssets).filter(known);
+  const netIncome = latestFlow ? netIncomeByPeriod.get(latestFlow.period) ?? NaN : NaN;
+  if (!latestFlow || !known(netIncome) || !known(latestFlow.operatingCashFlow) || assets.length === 0) {
+    checks.push(missing("Accrual ratio", "net income, operating cash flow and total assets"));
+  } else {
+    const accrualRatio = (netIncome - latestFlow.operatingCashFlow) / average(assets);
+    checks.push(
+      check(
+        "Accrual ratio",
+        accrualRatio <= MAX_ACCRUAL_RATIO,
+        `${pct(accrualRatio * 100)} of average assets (red flag above ${pct(MAX_ACCRUAL_RATIO * 100, 0)})`
+      )
+    );
+  }
+
+  const freeCashFlow = latestFlow?.freeCashFlow ?? NaN;
+  checks.push(
+    known(freeCashFlow)
+      ? check(
+          "Free cash flow",
+          freeCashFlow > 0,
+          `₹${(freeCashFlow / 1e7).toFixed(0)} Cr in the latest year after capital expenditure`
+        )
+      : missing("Free cash flow", "operating cash flow and capital expenditure")
+  );
+
+  return checks;
+};
+
+/**
+ * Rate each statement from pass/fail checks on the annual statements.
+ * A statement with fewer than two checks that could be evaluated is NORMAL.
+ */
+export const assessStatementHealth = (
+  statements: FinancialStatements
+): Record<StatementName, StatementHealthReport> => ({
+  incomeStatement: report(incomeChecks(statements)),
+  balanceSheet: report(balanceChecks(statements)),
+  cashFlow: report(cashFlowChecks(statements)),
+});
@@ -0,0 +1,28 @@
+import { SortOption, Stock } from "@/types";
+
+// Nulls always sort last, whatever the direction
+export const compareValues = (
+  aValue: unknown,
+  bValue: unknown,
+  direction: "asc" | "desc"
+): number => {
+  const aMissing = aValue === null || aValue === undefined;
+  const bMissing = bValue === null || bValue === undefined;
+  if (aMissing && bMissing) return 0;
+  if (aMissing) return 1;
+  if (bMissing) return -1;
+
+  let comparison = 0;
+  if (typeof aValue === "string" && typeof bValue === "string") {
+    comparison = aValue.localeCompare(bValue);
+  } else if (typeof aValue === "number" && typeof bValue === "number") {
+    comparison = aValue - bValue;
+  }
+
+  return direction === "desc" ? -comparison : comparison;
+};
+
+export const sortStocks = (stocks: Stock[], sortOption: SortOption): Stock[] =>
+  [...stocks].sort((a, b) =>
+    compareValues(a[sortOption.field], b[sortOption.field], sortOption.direction)
+  );
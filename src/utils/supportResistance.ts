@@ -0,0 +1,127 @@
+import { PriceData, PriceLevel } from "@/types";
+
+export interface PriceLevelOptions {
+  pivotWindow?: number; // Bars on each side a fractal pivot must exceed
+  tolerance?: number; // Max distance (fraction of price) to merge touches
+  maxLevels?: number; // Levels returned per side
+}
+
+interface Pivot {
+  index: number;
+  price: number;
+  volume: number;
+}
+
+const DEFAULT_OPTIONS: Required<PriceLevelOptions> = {
+  pivotWindow: 3,
+  tolerance: 0.015,
+  maxLevels: 3,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Fractal swing highs and lows: a bar whose high (low) is the extreme of the
+// surrounding `window` bars on both sides
+export const findPivots = (
+  prices: PriceData[],
+  window: number = DEFAULT_OPTIONS.pivotWindow
+): { highs: Pivot[]; lows: Pivot[] } => {
+  const highs: Pivot[] = [];
+  const lows: Pivot[] = [];
+
+  for (let i = window; i < prices.length - window; i++) {
+    let isHigh = true;
+    let isLow = true;
+
+    for (let j = 1; j <= window; j++) {
+      // Strict on the left, inclusive on the right so flat tops count once
+      if (prices[i - j].high >= prices[i].high || prices[i + j].high > prices[i].high) {
+        isHigh = false;
+      }
+      if (prices[i - j].low <= prices[i].low || prices[i + j].low < prices[i].low) {
+        isLow = false;
+      }
+      if (!isHigh && !isLow) break;
+    }
+
+    if (isHigh) highs.push({ index: i, price: prices[i].high, volume: prices[i].volume });
+    if (isLow) lows.push({ index: i, price: prices[i].low, volume: prices[i].volume });
+  }
+
+  return { highs, lows };
+};
+
+// Group pivots whose prices lie within `tolerance` of the running cluster mean
+const clusterPivots = (pivots: Pivot[], tolerance: number): Pivot[][] => {
+  const sorted = [...pivots].sort((a, b) => a.price - b.price);
+  const clusters: Pivot[][] = [];
+
+  sorted.forEach((pivot) => {
+    const current = clusters[clusters.length - 1];
+    if (current) {
+      const mean = current.reduce((sum, p) => sum + p.price, 0) / current.length;
+      if (Math.abs(pivot.price - mean) / mean <= tolerance) {
+        current.push(pivot);
+        return;
+      }
+    }
+    clusters.push([pivot]);
+  });
+
+  return clusters;
+};
+
+// Detect support and resistance from swing highs/lows. Each level is the
+// volume-weighted price of a cluster of pivots; strength blends touch count,
+// relative volume and how recently the level was tested. Levels below the
+// latest close are support, above are resistance (role reversal included).
+export const detectPriceLevels = (
+  prices: PriceData[],
+  options: PriceLevelOptions = {}
+): { support: PriceLevel[]; resistance: PriceLevel[] } => {
+  const { pivotWindow, tolerance, maxLevels } = { ...DEFAULT_OPTIONS, ...options };
+  if (prices.length < pivotWindow * 2 + 1) return { support: [], resistance: [] };
+
+  const { highs, lows } = findPivots(prices, pivotWindow);
+  const clusters = clusterPivots([...highs, ...lows], tolerance);
+  if (clusters.length === 0) return { support: [], resistance: [] };
+
+  const lastClose = prices[prices.length - 1].close;
+  const lastIndex = prices.length - 1;
+  const averageVolume =
+    prices.reduce((sum, p) => sum + p.volume, 0) / prices.length || 1;
+
+  const levels: PriceLevel[] = clusters.map((cluster) => {
+    const totalVolume = cluster.reduce((sum, p) => sum + p.volume, 0);
+    const price =
+      totalVolume > 0
+        ? cluster.reduce((sum, p) => sum + p.price * p.volume, 0) / totalVolume
+        : cluster.reduce((sum, p) => sum + p.price, 0) / cluster.length;
+    const clusterVolume = totalVolume / cluster.length;
+    const lastTouch = Math.max(...cluster.map((p) => p.index));
+
+    const touchScore = Math.min(cluster.length, 5) / 5;
+    const volumeScore = Math.min(clusterVolume / averageVolume, 2) / 2;
+    const recencyScore = lastIndex > 0 ? lastTouch / lastIndex : 1;
+
+    return {
+      price: round2(price),
+      type: price < lastClose ? "support" : "resistance",
+      touches: cluster.length,
+      strength: Math.round(touchScore * 50 + volumeScore * 30 + recencyScore * 20),
+      volume: Math.round(clusterVolume),
+      lastTouched: prices[lastTouch].date,
+    };
+  });
+
+  // Strongest levels on each side, ordered nearest-first
+  const strongest = (side: PriceLevel[]) =>
+    [...side].sort((a, b) => b.strength - a.strength).slice(0, maxLevels);
+  const support = strongest(levels.filter((level) => level.type === "support"))
+    .sort((a, b) => b.price - a.price);
+  const resistance = strongest(
+    levels.filter((level) => level.type === "resistance")
+  ).sort((a, b) => a.price - b.price);
+
+  return { support, resistance };
+};
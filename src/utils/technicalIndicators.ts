@@ -0,0 +1,550 @@
+import {
+  HealthStatus,
+  PriceData,
+  SignalType,
+  TechnicalData,
+  TechnicalIndicatorHealth,
+  VolumeProfile,
+} from "@/types";
+import { detectPriceLevels } from "./supportResistance";
+
+// Indicator series are aligned with the input: index i holds the value for
+// bar i, or null while the lookback window is still warming up.
+export type IndicatorSeries = (number | null)[];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Last non-null value of a series
+export const lastValue = (series: IndicatorSeries): number | null => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null && isFinite(value)) return value;
+  }
+  return null;
+};
+
+// Simple moving average
+export const sma = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+};
+
+// Exponential moving average, seeded with the SMA of the first window.
+// Null entries in the input (e.g. a warming-up series) are skipped.
+export const ema = (
+  values: IndicatorSeries | number[],
+  period: number
+): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+
+  const k = 2 / (period + 1);
+  let seedSum = 0;
+  let seedCount = 0;
+  let previous: number | null = null;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+
+    if (previous === null) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === period) {
+        previous = seedSum / period;
+        result[i] = previous;
+      }
+      continue;
+    }
+
+    previous = value * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+};
+
+// Relative Strength Index using Wilder's smoothing
+export const rsi = (values: number[], period: number = 14): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = (gain: number, loss: number) =>
+    loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    avgGain = (avgGain * (period - 1) + gain) / period;
+    avgLoss = (avgLoss * (period - 1) + loss) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+  return result;
+};
+
+// Stochastic RSI (%K and %D, scaled 0-100)
+export const stochRsi = (
+  values: number[],
+  rsiPeriod: number = 14,
+  stochPeriod: number = 14,
+  kSmoothing: number = 3,
+  dSmoothing: number = 3
+): { k: IndicatorSeries; d: IndicatorSeries } => {
+  const rsiSeries = rsi(values, rsiPeriod);
+  const raw: IndicatorSeries = new Array(values.length).fill(null);
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < stochPeriod - 1) continue;
+    const window = rsiSeries.slice(i - stochPeriod + 1, i + 1);
+    if (window.some((value) => value === null)) continue;
+
+    const nums = window as number[];
+    const highest = Math.max(...nums);
+    const lowest = Math.min(...nums);
+    const current = nums[nums.length - 1];
+    raw[i] = highest === lowest ? 50 : ((current - lowest) / (highest - lowest)) * 100;
+  }
+
+  const k = smoothNullable(raw, kSmoothing);
+  const d = smoothNullable(k, dSmoothing);
+  return { k, d };
+};
+
+// SMA over a series that may contain leading nulls
+const smoothNullable = (
+  series: IndicatorSeries,
+  period: number
+): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(series.length).fill(null);
+  for (let i = period - 1; i < series.length; i++) {
+    const window = series.slice(i - period + 1, i + 1);
+    if (window.some((value) => value === null)) continue;
+    result[i] =
+      (window as number[]).reduce((sum, value) => sum + value, 0) / period;
+  }
+  return result;
+};
+
+// Consecutive up (+n) / down (-n) close streak for each bar
+export const streaks = (values: number[]): number[] => {
+  const result: number[] = new Array(values.length).fill(0);
+  for (let i = 1; i < values.length; i++) {
+    const previous = result[i - 1];
+    if (values[i] > values[i - 1]) {
+      result[i] = previous > 0 ? previous + 1 : 1;
+    } else if (values[i] < values[i - 1]) {
+      result[i] = previous < 0 ? previous - 1 : -1;
+    }
+  }
+  return result;
+};
+
+// Percentage of the previous `period` one-bar returns below today's return
+export const percentRank = (
+  values: number[],
+  period: number = 100
+): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  const returns = values.map((value, i) =>
+    i === 0 || values[i - 1] === 0 ? 0 : (value - values[i - 1]) / values[i - 1]
+  );
+
+  for (let i = period + 1; i < values.length; i++) {
+    let below = 0;
+    for (let j = i - period; j < i; j++) {
+      if (returns[j] < returns[i]) below++;
+    }
+    result[i] = (below / period) * 100;
+  }
+  return result;
+};
+
+// Connors RSI = average of RSI(3), streak RSI(2) and percent rank(100)
+export const connorsRsi = (
+  values: number[],
+  rsiPeriod: number = 3,
+  streakPeriod: number = 2,
+  rankPeriod: number = 100
+): {
+  value: IndicatorSeries;
+  priceRsi: IndicatorSeries;
+  streakRsi: IndicatorSeries;
+  percentRank: IndicatorSeries;
+} => {
+  const priceRsi = rsi(values, rsiPeriod);
+  const streakRsi = rsi(streaks(values), streakPeriod);
+  const rank = percentRank(values, rankPeriod);
+
+  const value = values.map((_, i) => {
+    const a = priceRsi[i];
+    const b = streakRsi[i];
+    const c = rank[i];
+    return a === null || b === null || c === null ? null : (a + b + c) / 3;
+  });
+
+  return { value, priceRsi, streakRsi, percentRank: rank };
+};
+
+// MACD line, signal line and histogram
+export const macd = (
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+} => {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const macdLine: IndicatorSeries = values.map((_, i) => {
+    const f = fast[i];
+    const s = slow[i];
+    return f === null || s === null ? null : f - s;
+  });
+  const signal = ema(macdLine, signalPeriod);
+  const histogram: IndicatorSeries = values.map((_, i) => {
+    const m = macdLine[i];
+    const s = signal[i];
+    return m === null || s === null ? null : m - s;
+  });
+
+  return { macd: macdLine, signal, histogram };
+};
+
+// Bollinger bands (SMA +/- k standard deviations)
+export const bollingerBands = (
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2
+): {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+} => {
+  const middle = sma(values, period);
+  const upper: IndicatorSeries = new Array(values.length).fill(null);
+  const lower: IndicatorSeries = new Array(values.length).fill(null);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += Math.pow(values[j] - mean, 2);
+    }
+    const deviation = Math.sqrt(variance / period);
+    upper[i] = mean + multiplier * deviation;
+    lower[i] = mean - multiplier * deviation;
+  }
+
+  return { upper, middle, lower };
+};
+
+// Volume traded per price bucket across the whole history
+export const volumeProfile = (
+  prices: PriceData[],
+  buckets: number = 12
+): VolumeProfile[] => {
+  if (prices.length === 0) return [];
+
+  const high = Math.max(...prices.map((p) => p.high));
+  const low = Math.min(...prices.map((p) => p.low));
+  if (high <= low) return [{ price: round2(low), volume: prices.reduce((s, p) => s + p.volume, 0) }];
+
+  const step = (high - low) / buckets;
+  const profile: VolumeProfile[] = Array.from({ length: buckets }, (_, i) => ({
+    price: round2(low + step * (i + 0.5)),
+    volume: 0,
+  }));
+
+  prices.forEach((p) => {
+    const typical = (p.high + p.low + p.close) / 3;
+    const index = Math.min(buckets - 1, Math.floor((typical - low) / step));
+    profile[index].volume += p.volume;
+  });
+
+  return profile;
+};
+
+// Heikin-Ashi candles: smoothed OHLC that filters out single-bar noise
+export const heikinAshi = (prices: PriceData[]): PriceData[] => {
+  const result: PriceData[] = [];
+  prices.forEach((p, i) => {
+    const close = (p.open + p.high + p.low + p.close) / 4;
+    const open =
+      i === 0
+        ? (p.open + p.close) / 2
+        : (result[i - 1].open + result[i - 1].close) / 2;
+    result.push({
+      date: p.date,
+      open,
+      high: Math.max(p.high, open, close),
+      low: Math.min(p.low, open, close),
+      close,
+      volume: p.volume,
+    });
+  });
+  return result;
+};
+
+// Minimum bars needed for the 26/9 MACD
+export const MIN_BARS_FOR_INDICATORS = 35;
+// Connors percent rank(100) compares against the prior 100 one-bar returns,
+// so its first value needs 102 closes; until then CRSI is null
+export const MIN_BARS_FOR_CONNORS = 102;
+
+// Build the latest TechnicalData snapshot from daily price history
+export const computeTechnicalData = (
+  prices: PriceData[]
+): TechnicalData | null => {
+  if (prices.length < MIN_BARS_FOR_INDICATORS) return null;
+
+  const closes = prices.map((p) => p.close);
+  const latestClose = closes[closes.length - 1];
+  // Only for 20-bar values, which MIN_BARS_FOR_INDICATORS always covers
+  const orClose = (value: number | null) =>
+    round2(value === null ? latestClose : value);
+  const orNull = (value: number | null) => (value === null ? null : round2(value));
+
+  const macdSeries = macd(closes);
+  const stoch = stochRsi(closes);
+  const connors = connorsRsi(closes);
+  const bands = bollingerBands(closes);
+
+  const data: TechnicalData = {
+    rsi: round2(lastValue(rsi(closes)) ?? 50),
+    stochRsi: {
+      k: round2(lastValue(stoch.k) ?? 50),
+      d: round2(lastValue(stoch.d) ?? 50),
+    },
+    connorsRsi: {
+      value: orNull(lastValue(connors.value)),
+      priceRsi: round2(lastValue(connors.priceRsi) ?? 50),
+      streakRsi: round2(lastValue(connors.streakRsi) ?? 50),
+      percentRank: orNull(lastValue(connors.percentRank)),
+    },
+    macd: {
+      value: round2(lastValue(macdSeries.macd) ?? 0),
+      signal: round2(lastValue(macdSeries.signal) ?? 0),
+      histogram: round2(lastValue(macdSeries.histogram) ?? 0),
+    },
+    sma20: orClose(lastValue(sma(closes, 20))),
+    sma50: orNull(lastValue(sma(closes, 50))),
+    sma200: orNull(lastValue(sma(closes, 200))),
+    ema20: orClose(lastValue(ema(closes, 20))),
+    ema50: orNull(lastValue(ema(closes, 50))),
+    ema200: orNull(lastValue(ema(closes, 200))),
+    supportLevels: [],
+    resistanceLevels: [],
+    priceLevels: [],
+    volumeProfile: volumeProfile(prices),
+    bollinger: {
+      upper: orClose(lastValue(bands.upper)),
+      middle: orClose(lastValue(bands.middle)),
+      lower: orClose(lastValue(bands.lower)),
+    },
+    barsUsed: prices.length,
+  };
+
+  // Pivot-based levels from swing highs/lows
+  const levels = detectPriceLevels(prices);
+  data.priceLevels = [...levels.support, ...levels.resistance];
+  data.supportLevels = levels.support.map((level) => level.price);
+  data.resistanceLevels = levels.resistance.map((level) => level.price);
+
+  // Moving averages and bands act as dynamic levels when a side has no pivots
+  // (e.g. price at a new high or low)
+  const dynamicLevels = [
+    data.sma20,
+    data.sma50,
+    data.sma200,
+    data.bollinger.upper,
+    data.bollinger.lower,
+  ].filter((level): level is number => level !== null);
+  if (data.supportLevels.length === 0) {
+    data.supportLevels = dynamicLevels
+      .filter((level) => level < latestClose)
+      .sort((a, b) => b - a)
+      .slice(0, 3);
+  }
+  if (data.resistanceLevels.length === 0) {
+    data.resistanceLevels = dynamicLevels
+      .filter((level) => level > latestClose)
+      .sort((a, b) => a - b)
+      .slice(0, 3);
+  }
+
+  return data;
+};
+
+// Entry / target / stop derived from bands and moving averages
+const tradingLevels = (price: number, data: TechnicalData) => {
+  const target =
+    data.resistanceLevels[0] ??
+    (data.bollinger.upper > price ? data.bollinger.upper : price * 1.05);
+  const stop =
+    data.supportLevels[0] ??
+    (data.bollinger.lower < price ? data.bollinger.lower : price * 0.95);
+
+  return {
+    buyPrice: round2(price),
+    targetPrice: round2(Math.max(target, price * 1.02)),
+    stopLoss: round2(Math.min(stop, price * 0.98)),
+  };
+};
+
+// Map computed indicator values to the health cards shown in the UI
+export const buildTechnicalIndicatorHealth = (
+  data: TechnicalData,
+  currentPrice: number
+): {
+  stochasticRSI: TechnicalIndicatorHealth;
+  connorsRSI: TechnicalIndicatorHealth;
+  macd: TechnicalIndicatorHealth;
+  patterns: TechnicalIndicatorHealth;
+} => {
+  const levels = tradingLevels(currentPrice, data);
+
+  // Stochastic RSI: oversold below 20, overbought above 80, %K/%D cross
+  const { k, d } = data.stochRsi;
+  const stochasticRSI: TechnicalIndicatorHealth = {
+    indicator: "Stochastic RSI",
+    value: k,
+    signal: k <= 20 ? SignalType.BUY : k >= 80 ? SignalType.SELL : SignalType.HOLD,
+    health:
+      k <= 20 && k > d
+        ? HealthStatus.BEST
+        : k <= 20
+        ? HealthStatus.GOOD
+        : k >= 80 && k < d
+        ? HealthStatus.WORSE
+        : k >= 80
+        ? HealthStatus.BAD
+        : HealthStatus.NORMAL,
+    description: `%K ${k.toFixed(1)} / %D ${d.toFixed(1)} — ${
+      k <= 20 ? "oversold" : k >= 80 ? "overbought" : "neutral"
+    } zone, %K ${k >= d ? "above" : "below"} %D`,
+    ...levels,
+  };
+
+  // Connors RSI: mean-reversion extremes at 10/90 and 25/75; neutral until
+  // there's enough history for the percent rank
+  const crsi = data.connorsRsi.value;
+  const rank = data.connorsRsi.percentRank;
+  const components = `RSI(3) ${data.connorsRsi.priceRsi.toFixed(
+    1
+  )}, streak RSI(2) ${data.connorsRsi.streakRsi.toFixed(1)}`;
+  const connorsRSI: TechnicalIndicatorHealth =
+    crsi === null || rank === null
+      ? {
+          indicator: "Connors RSI",
+          value: 50,
+          signal: SignalType.HOLD,
+          health: HealthStatus.NORMAL,
+          description: `N/A — percent rank(100) needs ${MIN_BARS_FOR_CONNORS} daily bars, have ${data.barsUsed}; ${components}`,
+          ...levels,
+        }
+      : {
+          indicator: "Connors RSI",
+          value: crsi,
+          signal:
+            crsi <= 25 ? SignalType.BUY : crsi >= 75 ? SignalType.SELL : SignalType.HOLD,
+          health:
+            crsi <= 10
+              ? HealthStatus.BEST
+              : crsi <= 25
+              ? HealthStatus.GOOD
+              : crsi >= 90
+              ? HealthStatus.WORSE
+              : crsi >= 75
+              ? HealthStatus.BAD
+              : HealthStatus.NORMAL,
+          description: `${components}, percent rank ${rank.toFixed(0)}`,
+          ...levels,
+        };
+
+  // MACD: line vs signal, above/below zero
+  const m = data.macd;
+  const bullish = m.value > m.signal;
+  const macdHealth: TechnicalIndicatorHealth = {
+    indicator: "MACD",
+    value: m.histogram,
+    signal: bullish ? SignalType.BUY : m.value < m.signal ? SignalType.SELL : SignalType.HOLD,
+    health:
+      bullish && m.value > 0
+        ? HealthStatus.BEST
+        : bullish
+        ? HealthStatus.GOOD
+        : m.value < 0
+        ? HealthStatus.WORSE
+        : HealthStatus.BAD,
+    description: `MACD ${m.value.toFixed(2)} ${
+      bullish ? "above" : "below"
+    } signal ${m.signal.toFixed(2)} (histogram ${
+      m.histogram >= 0 ? "+" : ""
+    }${m.histogram.toFixed(2)}), ${m.value >= 0 ? "above" : "below"} zero line`,
+    ...levels,
+  };
+
+  // Trend structure: price and moving-average alignment. Averages without
+  // enough history are left out rather than counted either way.
+  const above = (a: number | null, b: number | null) =>
+    a === null || b === null ? null : a > b;
+  const checks = [
+    above(currentPrice, data.sma20),
+    above(currentPrice, data.sma50),
+    above(currentPrice, data.sma200),
+    above(data.sma50, data.sma200),
+    above(data.ema20, data.ema50),
+  ].filter((check): check is boolean => check !== null);
+  const passed = checks.filter(Boolean).length;
+  const share = checks.length > 0 ? passed / checks.length : 0.5;
+  const sma200 = data.sma200;
+  const vs200 =
+    sma200 === null
+      ? "200-DMA n/a (needs 200 bars)"
+      : `Price ${currentPrice > sma200 ? "above" : "below"} 200-DMA${
+          data.sma50 === null ? "" : `, 50-DMA ${data.sma50 > sma200 ? "above" : "below"} 200-DMA`
+        }`;
+  const patterns: TechnicalIndicatorHealth = {
+    indicator: "Trend Structure",
+    value: Math.round(share * 100),
+    signal: share >= 0.8 ? SignalType.BUY : share <= 0.2 ? SignalType.SELL : SignalType.HOLD,
+    health:
+      share === 1
+        ? HealthStatus.BEST
+        : share >= 0.8
+        ? HealthStatus.GOOD
+        : share >= 0.4
+        ? HealthStatus.NORMAL
+        : share >= 0.2
+        ? HealthStatus.BAD
+        : HealthStatus.WORSE,
+    description: `${vs200}, ${passed}/${checks.length} trend checks bullish`,
+    ...levels,
+  };
+
+  return { stochasticRSI, connorsRSI, macd: macdHealth, patterns };
+};
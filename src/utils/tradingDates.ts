@@ -143,4 +143,25 @@ export const getMarketStatus = () => {
     nextAction: 'Opens',
     nextTime: getNextTradingDate(),
   };
-};
\ No newline at end of file
+};
+const MARKET_OPEN_MINUTES = 9 * 60 + 15; // 9:15 AM
+const MARKET_CLOSE_MINUTES = 15 * 60 + 30; // 3:30 PM
+
+export const isMarketOpen = (at: Date = new Date()): boolean => {
+  const currentTime = at.getHours() * 60 + at.getMinutes();
+  return isTradingDay(at) && currentTime >= MARKET_OPEN_MINUTES && currentTime <= MARKET_CLOSE_MINUTES;
+};
+
+// The next 9:15 AM session start after the given time
+export const getNextMarketOpen = (from: Date = new Date()): Date => {
+  const open = new Date(from);
+  open.setHours(Math.floor(MARKET_OPEN_MINUTES / 60), MARKET_OPEN_MINUTES % 60, 0, 0);
+  if (open <= from || !isTradingDay(open)) {
+    let date = addDays(open, 1);
+    while (!isTradingDay(date)) {
+      date = addDays(date, 1);
+    }
+    return date;
+  }
+  return open;
+};
@@ -1,37 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import fixtureServer from "./mock-server/fixtureServer.js";
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      // eslint-disable-next-line no-undef
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // Empty prefix loads the non-VITE_ keys too, for the fixture server only
+  const env = loadEnv(mode, ".", "");
+  const apiMode = env.VITE_API_MODE;
+  const useFixtures = apiMode === "fixtures" || apiMode === "record";
+
+  return {
+    plugins: [react(), ...(useFixtures ? [fixtureServer({ mode: apiMode, env })] : [])],
+    resolve: {
+      alias: {
+        // eslint-disable-next-line no-undef
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-  server: {
-    proxy: {
-      // Proxy Yahoo Finance API calls to avoid CORS
-      "/yahoo-api": {
-        target: "https://query1.finance.yahoo.com",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/yahoo-api/, ""),
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+    server: {
+      proxy: {
+        // Proxy Yahoo Finance API calls to avoid CORS
+        "/yahoo-api": {
+          target: "https://query1.finance.yahoo.com",
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/yahoo-api/, ""),
+          headers: {
+            "User-Agent":
+              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+          },
         },
-      },
-      "/yahoo-api2": {
-        target: "https://query2.finance.yahoo.com",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/yahoo-api2/, ""),
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+        "/yahoo-api2": {
+          target: "https://query2.finance.yahoo.com",
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/yahoo-api2/, ""),
+          headers: {
+            "User-Agent":
+              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+          },
         },
       },
     },
-  },
+  };
 });